@@ -9,11 +9,21 @@ import Processing from "@/pages/processing";
 import Settings from "@/pages/settings";
 import Users from "@/pages/users";
 import Documents from "@/pages/documents";
+import Glossary from "@/pages/glossary";
+import Incidents from "@/pages/incidents";
+import Vehicles from "@/pages/vehicles";
+import DecisionTrees from "@/pages/decision-trees";
+import ExportDestinations from "@/pages/export-destinations";
+import MaintenanceContacts from "@/pages/maintenance-contacts";
+import LoginAttempts from "@/pages/login-attempts";
+import AuditEvents from "@/pages/audit-events";
+import ChangePassword from "@/pages/change-password";
 import { useAuth, AuthProvider } from "./context/auth-context";
 import { ChatProvider } from "./context/chat-context";
 import Header from "./components/navigation/header";
 import { Tabs } from "./components/navigation/tabs";
 import { useEffect } from "react";
+import type { Permission } from "@shared/permissions";
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { user, isLoading } = useAuth();
@@ -29,24 +39,31 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
     return <div className="flex h-screen items-center justify-center">Loading...</div>;
   }
 
+  // パスワードの変更を求められている間は変更画面だけを表示する
+  if (user?.mustChangePassword) {
+    return <ChangePassword forced />;
+  }
+
   return user ? <>{children}</> : null;
 }
 
-function AdminRoute({ children }: { children: React.ReactNode }) {
-  const { user, isLoading } = useAuth();
+// 役割が permission を持つユーザーだけに表示する（shared/permissions.ts の ROLE_PERMISSIONS）
+function PermissionRoute({ permission, children }: { permission: Permission; children: React.ReactNode }) {
+  const { user, isLoading, can } = useAuth();
   const [, setLocation] = useLocation();
+  const allowed = !!user && can(permission);
 
   useEffect(() => {
-    if (!isLoading && (!user || user.role !== 'admin')) {
+    if (!isLoading && !allowed) {
       setLocation("/chat");
     }
-  }, [user, isLoading, setLocation]);
+  }, [allowed, isLoading, setLocation]);
 
   if (isLoading) {
     return <div className="flex h-screen items-center justify-center">Loading...</div>;
   }
 
-  return user && user.role === 'admin' ? <>{children}</> : null;
+  return allowed ? <>{children}</> : null;
 }
 
 function Router() {
@@ -75,7 +92,9 @@ function Router() {
           
           <Route path="/processing">
             <ProtectedRoute>
-              <Processing />
+              <PermissionRoute permission="knowledge:manage">
+                <Processing />
+              </PermissionRoute>
             </ProtectedRoute>
           </Route>
           
@@ -85,19 +104,89 @@ function Router() {
             </ProtectedRoute>
           </Route>
           
+          <Route path="/change-password">
+            <ProtectedRoute>
+              <ChangePassword />
+            </ProtectedRoute>
+          </Route>
+          
           <Route path="/users">
             <ProtectedRoute>
-              <AdminRoute>
+              <PermissionRoute permission="users:manage">
                 <Users />
-              </AdminRoute>
+              </PermissionRoute>
             </ProtectedRoute>
           </Route>
           
           <Route path="/documents">
             <ProtectedRoute>
-              <AdminRoute>
+              <PermissionRoute permission="knowledge:manage">
                 <Documents />
-              </AdminRoute>
+              </PermissionRoute>
+            </ProtectedRoute>
+          </Route>
+          
+          <Route path="/glossary">
+            <ProtectedRoute>
+              <PermissionRoute permission="glossary:manage">
+                <Glossary />
+              </PermissionRoute>
+            </ProtectedRoute>
+          </Route>
+          
+          <Route path="/incidents">
+            <ProtectedRoute>
+              <PermissionRoute permission="incidents:view_department">
+                <Incidents />
+              </PermissionRoute>
+            </ProtectedRoute>
+          </Route>
+          
+          <Route path="/vehicles">
+            <ProtectedRoute>
+              <PermissionRoute permission="vehicles:manage">
+                <Vehicles />
+              </PermissionRoute>
+            </ProtectedRoute>
+          </Route>
+          
+          <Route path="/decision-trees">
+            <ProtectedRoute>
+              <PermissionRoute permission="decision_trees:manage">
+                <DecisionTrees />
+              </PermissionRoute>
+            </ProtectedRoute>
+          </Route>
+          
+          <Route path="/export-destinations">
+            <ProtectedRoute>
+              <PermissionRoute permission="export_destinations:manage">
+                <ExportDestinations />
+              </PermissionRoute>
+            </ProtectedRoute>
+          </Route>
+          
+          <Route path="/maintenance-contacts">
+            <ProtectedRoute>
+              <PermissionRoute permission="maintenance_contacts:manage">
+                <MaintenanceContacts />
+              </PermissionRoute>
+            </ProtectedRoute>
+          </Route>
+          
+          <Route path="/login-attempts">
+            <ProtectedRoute>
+              <PermissionRoute permission="security:view">
+                <LoginAttempts />
+              </PermissionRoute>
+            </ProtectedRoute>
+          </Route>
+          
+          <Route path="/audit-events">
+            <ProtectedRoute>
+              <PermissionRoute permission="audit:view">
+                <AuditEvents />
+              </PermissionRoute>
             </ProtectedRoute>
           </Route>
           
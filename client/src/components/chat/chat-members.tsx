@@ -0,0 +1,170 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/context/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UserPlus, Users, X } from "lucide-react";
+import type { ChatPresenceUser } from "@shared/chat-stream";
+
+type ChatMemberRole = "owner" | "participant" | "observer";
+
+interface ChatMember {
+  id: number;
+  chatId: number;
+  userId: number;
+  role: ChatMemberRole;
+  username: string;
+  displayName: string;
+}
+
+const ROLE_LABELS: Record<ChatMemberRole, string> = {
+  owner: "オーナー",
+  participant: "参加者",
+  observer: "閲覧のみ",
+};
+
+interface ChatMembersProps {
+  chatId: number;
+  onlineMembers: ChatPresenceUser[];
+}
+
+/**
+ * チャットのメンバー一覧
+ * オーナーはユーザー名でメンバーを招待し、役割の変更・メンバーの削除ができる
+ */
+export default function ChatMembers({ chatId, onlineMembers }: ChatMembersProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [username, setUsername] = useState("");
+  const [role, setRole] = useState<ChatMemberRole>("participant");
+
+  const membersKey = `/api/chats/${chatId}/members`;
+  const { data: members = [] } = useQuery<ChatMember[]>({
+    queryKey: [membersKey],
+  });
+  const { data: chat } = useQuery<{ role: ChatMemberRole }>({
+    queryKey: [`/api/chats/${chatId}`],
+  });
+  const isOwner = chat?.role === "owner";
+
+  const addMemberMutation = useMutation({
+    mutationFn: async (data: { username: string; role: ChatMemberRole }) => {
+      const res = await apiRequest("POST", membersKey, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [membersKey] });
+      setUsername("");
+      toast({
+        title: "メンバー追加完了",
+        description: "チャットのメンバーを更新しました",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "メンバー追加失敗",
+        description: error.message || "メンバーの追加中にエラーが発生しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("DELETE", `${membersKey}/${userId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [membersKey] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "メンバー削除失敗",
+        description: error.message || "メンバーの削除中にエラーが発生しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAddMember = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim()) return;
+    addMemberMutation.mutate({ username: username.trim(), role });
+  };
+
+  const isOnline = (userId: number) => onlineMembers.some(member => member.userId === userId);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="flex items-center gap-1 text-blue-700 text-xs md:text-sm">
+          <Users className="h-4 w-4 text-blue-500" />
+          <span>{members.length || 1}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80">
+        <div className="space-y-3">
+          <h4 className="font-medium text-sm text-blue-800">チャットメンバー</h4>
+          <ul className="space-y-2">
+            {members.map(member => (
+              <li key={member.userId} className="flex items-center justify-between gap-2 text-sm">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span
+                    className={`h-2 w-2 rounded-full flex-shrink-0 ${isOnline(member.userId) ? "bg-green-500" : "bg-gray-300"}`}
+                    title={isOnline(member.userId) ? "接続中" : "未接続"}
+                  />
+                  <span className="truncate">{member.displayName}</span>
+                  <Badge variant={member.role === "owner" ? "default" : "outline"} className="text-xs">
+                    {ROLE_LABELS[member.role]}
+                  </Badge>
+                </div>
+                {member.role !== "owner" && (isOwner || member.userId === user?.id) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => removeMemberMutation.mutate(member.userId)}
+                    disabled={removeMemberMutation.isPending}
+                    title={member.userId === user?.id ? "退出" : "メンバーから外す"}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {isOwner && (
+            <form onSubmit={handleAddMember} className="space-y-2 border-t pt-3">
+              <Input
+                placeholder="ユーザー名"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+              />
+              <div className="flex gap-2">
+                <Select value={role} onValueChange={(value) => setRole(value as ChatMemberRole)}>
+                  <SelectTrigger className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="participant">{ROLE_LABELS.participant}</SelectItem>
+                    <SelectItem value="observer">{ROLE_LABELS.observer}</SelectItem>
+                    <SelectItem value="owner">{ROLE_LABELS.owner}</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button type="submit" size="sm" disabled={addMemberMutation.isPending || !username.trim()}>
+                  <UserPlus className="h-4 w-4 mr-1" />
+                  招待
+                </Button>
+              </div>
+            </form>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
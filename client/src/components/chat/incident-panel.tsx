@@ -0,0 +1,224 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardList, Loader2 } from "lucide-react";
+import type { IncidentSeverity, IncidentStatus } from "@shared/schema";
+import {
+  type IncidentData,
+  INCIDENT_STATUS_LABELS,
+  INCIDENT_SEVERITY_LABELS,
+  INCIDENT_STATUS_CLASSES,
+  SYMPTOM_CATEGORIES,
+  toDateTimeLocal,
+} from "@/lib/incident";
+
+// 入力フォームの値（日時は datetime-local の文字列）
+interface IncidentFormData {
+  vehicle: string;
+  location: string;
+  symptomCategory: string;
+  severity: IncidentSeverity;
+  status: IncidentStatus;
+  startedAt: string;
+  endedAt: string;
+  resolutionSummary: string;
+}
+
+const toFormData = (incident: IncidentData | null): IncidentFormData => ({
+  vehicle: incident?.vehicle || "",
+  location: incident?.location || "",
+  symptomCategory: incident?.symptomCategory || "",
+  severity: incident?.severity || "medium",
+  status: incident?.status || "open",
+  startedAt: toDateTimeLocal(incident ? incident.startedAt : new Date()),
+  endedAt: toDateTimeLocal(incident?.endedAt),
+  resolutionSummary: incident?.resolutionSummary || "",
+});
+
+interface IncidentPanelProps {
+  chatId: number;
+}
+
+/**
+ * チャットに紐づくインシデント記録の入力パネル
+ * 閲覧のみのメンバーには入力欄を無効にして表示する
+ */
+export default function IncidentPanel({ chatId }: IncidentPanelProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const incidentKey = `/api/chats/${chatId}/incident`;
+  const { data: incident = null, isLoading } = useQuery<IncidentData | null>({
+    queryKey: [incidentKey],
+  });
+  const { data: chat } = useQuery<{ role: string }>({
+    queryKey: [`/api/chats/${chatId}`],
+  });
+  const canEdit = chat?.role === "owner" || chat?.role === "participant";
+
+  const [form, setForm] = useState<IncidentFormData>(toFormData(null));
+
+  // パネルを開くたびに保存済みの内容で初期化する
+  useEffect(() => {
+    if (open) {
+      setForm(toFormData(incident));
+    }
+  }, [open, incident]);
+
+  const saveIncidentMutation = useMutation({
+    mutationFn: async (formData: IncidentFormData) => {
+      const payload = {
+        vehicle: formData.vehicle.trim() || null,
+        location: formData.location.trim() || null,
+        symptomCategory: formData.symptomCategory.trim() || null,
+        severity: formData.severity,
+        status: formData.status,
+        startedAt: new Date(formData.startedAt).toISOString(),
+        endedAt: formData.endedAt ? new Date(formData.endedAt).toISOString() : null,
+        resolutionSummary: formData.resolutionSummary.trim() || null,
+      };
+      const res = await apiRequest(incident ? "PATCH" : "POST", incidentKey, payload);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [incidentKey] });
+      toast({
+        title: "インシデント保存完了",
+        description: "インシデント記録を更新しました",
+      });
+      setOpen(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "インシデント保存失敗",
+        description: error.message || "インシデントの保存中にエラーが発生しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.startedAt) {
+      toast({
+        title: "入力エラー",
+        description: "発生日時を入力してください",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveIncidentMutation.mutate(form);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-1 border-blue-300 text-blue-700 text-xs md:text-sm">
+          <ClipboardList className="h-4 w-4" />
+          <span>インシデント</span>
+          {incident && (
+            <span className={`ml-1 rounded px-1.5 py-0.5 text-xs ${INCIDENT_STATUS_CLASSES[incident.status]}`}>
+              {INCIDENT_STATUS_LABELS[incident.status]}
+            </span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>インシデント記録</SheetTitle>
+          <SheetDescription>
+            故障した車両・場所・対応結果を記録します。
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+            <fieldset disabled={!canEdit} className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="vehicle">車両</Label>
+                <Input id="vehicle" name="vehicle" value={form.vehicle} onChange={handleInputChange} placeholder="例: 軌道モータカー MC-300 2号車" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="location">場所</Label>
+                <Input id="location" name="location" value={form.location} onChange={handleInputChange} placeholder="例: ○○線 12k300m 付近" />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="symptomCategory">症状分類</Label>
+                <Input id="symptomCategory" name="symptomCategory" list="incident-symptom-categories" value={form.symptomCategory} onChange={handleInputChange} />
+                <datalist id="incident-symptom-categories">
+                  {SYMPTOM_CATEGORIES.map((category) => (
+                    <option key={category} value={category} />
+                  ))}
+                </datalist>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>重大度</Label>
+                  <Select value={form.severity} onValueChange={(value) => setForm((prev) => ({ ...prev, severity: value as IncidentSeverity }))} disabled={!canEdit}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(INCIDENT_SEVERITY_LABELS) as IncidentSeverity[]).map((severity) => (
+                        <SelectItem key={severity} value={severity}>{INCIDENT_SEVERITY_LABELS[severity]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>状態</Label>
+                  <Select value={form.status} onValueChange={(value) => setForm((prev) => ({ ...prev, status: value as IncidentStatus }))} disabled={!canEdit}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(INCIDENT_STATUS_LABELS) as IncidentStatus[]).map((status) => (
+                        <SelectItem key={status} value={status}>{INCIDENT_STATUS_LABELS[status]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="startedAt">発生日時</Label>
+                  <Input id="startedAt" name="startedAt" type="datetime-local" value={form.startedAt} onChange={handleInputChange} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="endedAt">終了日時</Label>
+                  <Input id="endedAt" name="endedAt" type="datetime-local" value={form.endedAt} onChange={handleInputChange} />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="resolutionSummary">対応結果</Label>
+                <Textarea id="resolutionSummary" name="resolutionSummary" rows={4} value={form.resolutionSummary} onChange={handleInputChange} placeholder="原因と実施した処置" />
+              </div>
+            </fieldset>
+
+            {canEdit && (
+              <Button type="submit" className="w-full" disabled={saveIncidentMutation.isPending}>
+                {saveIncidentMutation.isPending ? "保存中..." : incident ? "更新" : "登録"}
+              </Button>
+            )}
+          </form>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
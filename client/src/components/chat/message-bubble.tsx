@@ -3,7 +3,7 @@ import { useAuth } from "@/context/auth-context";
 import { useChat } from "@/context/chat-context";
 import { format } from "date-fns";
 import { ja } from "date-fns/locale";
-import { Copy, Volume2 } from "lucide-react";
+import { Copy, Volume2, Loader2, BookOpen, GitBranch, Phone } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { speakText, stopSpeaking } from "@/lib/text-to-speech";
 
@@ -20,11 +20,33 @@ interface MessageBubbleProps {
       url: string;
       thumbnail?: string;
     }[];
+    // ストリーミング受信中のAI応答
+    isStreaming?: boolean;
+    citations?: {
+      source: string;
+      location?: string;
+    }[] | null;
+    // 判定ツリーの手順
+    treeStep?: {
+      answers?: string[];
+    } | null;
+    // エスカレーション時に案内する当番の連絡先
+    escalation?: {
+      contacts: {
+        id: number;
+        name: string;
+        department: string;
+        region: string | null;
+        phone: string;
+      }[];
+    } | null;
   };
   isDraft?: boolean;
+  // 判定ツリーの選択肢を押したときの送信処理（回答待ちのメッセージにのみ渡す）
+  onAnswer?: (answer: string) => void;
 }
 
-export default function MessageBubble({ message, isDraft = false }: MessageBubbleProps) {
+export default function MessageBubble({ message, isDraft = false, onAnswer }: MessageBubbleProps) {
   const { user } = useAuth();
   const { setSelectedText } = useChat();
   const [localSelectedText, setLocalSelectedText] = useState("");
@@ -131,7 +153,17 @@ export default function MessageBubble({ message, isDraft = false }: MessageBubbl
           }`}
         >
           <div className="relative">
-            <p className={`${!isUserMessage ? "text-blue-600" : "text-black"}`}>{message.content}</p>
+            {message.isStreaming && !message.content ? (
+              <p className="text-blue-400 flex items-center">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                回答を生成中...
+              </p>
+            ) : (
+              <p className={`${!isUserMessage ? "text-blue-600" : "text-black"}`}>
+                {message.content}
+                {message.isStreaming && <span className="inline-block w-2 h-4 ml-0.5 bg-blue-400 animate-pulse align-middle" />}
+              </p>
+            )}
             
             {/* テキスト選択時のコピーボタン */}
             {showCopyButton && (
@@ -145,6 +177,75 @@ export default function MessageBubble({ message, isDraft = false }: MessageBubbl
             )}
           </div>
           
+          {/* 判定ツリーの選択肢 */}
+          {message.treeStep && (
+            <div className="mt-2 pt-2 border-t border-blue-100">
+              <div className="flex items-center text-xs text-blue-400 mb-1">
+                <GitBranch className="mr-1 h-3 w-3" />
+                <span>判定ツリー</span>
+              </div>
+              {onAnswer && message.treeStep.answers && message.treeStep.answers.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {message.treeStep.answers.map((answer) => (
+                    <button
+                      key={answer}
+                      className="rounded-full border border-blue-400 bg-white px-3 py-1 text-sm text-blue-700 hover:bg-blue-50"
+                      onClick={() => onAnswer(answer)}
+                    >
+                      {answer}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          
+          {/* 保守担当者の連絡先（タップで発信） */}
+          {message.escalation && (
+            <div className="mt-2 pt-2 border-t border-red-100">
+              <div className="flex items-center text-xs text-red-500 mb-1">
+                <Phone className="mr-1 h-3 w-3" />
+                <span>当番の保守担当者</span>
+              </div>
+              {message.escalation.contacts.length > 0 ? (
+                <div className="flex flex-col gap-2">
+                  {message.escalation.contacts.map((contact) => (
+                    <a
+                      key={contact.id}
+                      href={`tel:${contact.phone.replace(/[^\d+]/g, "")}`}
+                      className="flex items-center justify-between rounded-lg border border-red-300 bg-red-50 px-3 py-2 text-red-700 hover:bg-red-100"
+                    >
+                      <span className="flex flex-col">
+                        <span className="text-sm font-medium">{contact.name}</span>
+                        <span className="text-xs text-red-500">
+                          {contact.department}{contact.region ? `・${contact.region}` : ""}
+                        </span>
+                      </span>
+                      <span className="flex items-center text-sm font-medium">
+                        <Phone className="mr-1 h-4 w-4" />
+                        {contact.phone}
+                      </span>
+                    </a>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-red-500">当番の連絡先が登録されていません。管理者に確認してください。</p>
+              )}
+            </div>
+          )}
+          
+          {/* 回答の根拠とした資料 */}
+          {message.citations && message.citations.length > 0 && (
+            <div className="mt-2 pt-2 border-t border-blue-100 text-xs text-blue-400">
+              {message.citations.map((citation, idx) => (
+                <div key={idx} className="flex items-center">
+                  <BookOpen className="mr-1 h-3 w-3 flex-shrink-0" />
+                  <span>{citation.location ? `${citation.source} (${citation.location})` : citation.source}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          
           {/* Display media attachments if any */}
           {message.media && message.media.length > 0 && (
             <div className="mt-3">
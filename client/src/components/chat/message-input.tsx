@@ -8,10 +8,12 @@ import { useIsMobile } from "@/hooks/use-mobile";
 
 export default function MessageInput() {
   const [message, setMessage] = useState("");
-  const { sendMessage, isLoading, startRecording, stopRecording, isRecording, recordedText, selectedText, searchBySelectedText } = useChat();
+  const { sendMessage, isLoading, startRecording, stopRecording, isRecording, recordedText, selectedText, searchBySelectedText, notifyTyping } = useChat();
   const isMobile = useIsMobile();
   const inputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // 入力中通知を最後に送った時刻（キー入力ごとに送らないよう間引く）
+  const lastTypingNotifyRef = useRef(0);
   
   // 選択されたテキストが変更されたら入力欄に反映
   useEffect(() => {
@@ -27,6 +29,13 @@ export default function MessageInput() {
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     setMessage(e.target.value);
+    
+    // 同じチャットのメンバーに入力中であることを通知
+    const now = Date.now();
+    if (e.target.value && now - lastTypingNotifyRef.current > 2000) {
+      lastTypingNotifyRef.current = now;
+      notifyTyping(true);
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -36,6 +45,8 @@ export default function MessageInput() {
     if (!textToSend || isLoading) return;
     
     // メッセージを送信
+    notifyTyping(false);
+    lastTypingNotifyRef.current = 0;
     await sendMessage(textToSend);
     
     // メッセージと同じテキストで画像検索を自動実行
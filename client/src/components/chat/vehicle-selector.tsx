@@ -0,0 +1,72 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Truck } from "lucide-react";
+import type { VehicleModel, Vehicle } from "@shared/schema";
+
+type VehicleWithModel = Vehicle & { model: VehicleModel };
+
+// Select で「車両指定なし」を表す値
+const NO_VEHICLE = "none";
+
+interface VehicleSelectorProps {
+  chatId: number;
+}
+
+/**
+ * チャットの対象車両の選択
+ * 車両を選ぶと、その型式の資料を優先して知識ベースを検索する
+ */
+export default function VehicleSelector({ chatId }: VehicleSelectorProps) {
+  const { toast } = useToast();
+  const chatKey = `/api/chats/${chatId}`;
+
+  const { data: chat } = useQuery<{ vehicleId: number | null; role: string }>({
+    queryKey: [chatKey],
+  });
+  const { data: vehicles = [] } = useQuery<VehicleWithModel[]>({
+    queryKey: ["/api/vehicles"],
+  });
+  const canEdit = chat?.role === "owner" || chat?.role === "participant";
+
+  const updateVehicleMutation = useMutation({
+    mutationFn: async (vehicleId: number | null) => {
+      const res = await apiRequest("PATCH", chatKey, { vehicleId });
+      return res.json();
+    },
+    onSuccess: (updatedChat) => {
+      queryClient.setQueryData([chatKey], updatedChat);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "車両設定失敗",
+        description: error.message || "車両の設定中にエラーが発生しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (vehicles.length === 0) return null;
+
+  return (
+    <Select
+      value={chat?.vehicleId ? String(chat.vehicleId) : NO_VEHICLE}
+      onValueChange={(value) => updateVehicleMutation.mutate(value === NO_VEHICLE ? null : parseInt(value))}
+      disabled={!canEdit || updateVehicleMutation.isPending}
+    >
+      <SelectTrigger className="h-8 w-auto min-w-[10rem] gap-1 border-blue-300 text-blue-700 text-xs md:text-sm">
+        <Truck className="h-4 w-4 text-blue-500" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_VEHICLE}>車両指定なし</SelectItem>
+        {vehicles.map((vehicle) => (
+          <SelectItem key={vehicle.id} value={String(vehicle.id)}>
+            {vehicle.number}（{vehicle.model.maker} {vehicle.model.name}）
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -20,14 +20,37 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { FileText, Upload, Trash2, FileType } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { FileText, Upload, Trash2, FileType, Tags, Eye } from "lucide-react";
 import { Loader2 } from "lucide-react";
+import type { UserRole } from "@shared/permissions";
+import { describeVisibility, PUBLIC_VISIBILITY, type DocumentVisibility } from "@shared/document-visibility";
+import { VisibilityFields, parseDepartments } from "./visibility-fields";
 
 interface KnowledgeDocument {
   id: string;
   title: string;
   type: string;
   addedAt: string;
+  // 適用する車両型式（空の場合は全型式共通）
+  vehicleModelIds: number[];
+  // 公開範囲（部署・役割が空の場合は全員）
+  visibility: DocumentVisibility;
+}
+
+interface VehicleModelOption {
+  id: number;
+  name: string;
+  maker: string;
 }
 
 const KnowledgeUploader: React.FC = () => {
@@ -35,6 +58,19 @@ const KnowledgeUploader: React.FC = () => {
   const [isUploading, setIsUploading] = useState(false);
   const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [vehicleModels, setVehicleModels] = useState<VehicleModelOption[]>([]);
+  // 型式を設定中のドキュメントと選択中の型式ID
+  const [taggingDocument, setTaggingDocument] = useState<KnowledgeDocument | null>(null);
+  const [selectedModelIds, setSelectedModelIds] = useState<number[]>([]);
+  const [isSavingTags, setIsSavingTags] = useState(false);
+  // アップロード時の公開範囲
+  const [uploadDepartments, setUploadDepartments] = useState("");
+  const [uploadRoles, setUploadRoles] = useState<UserRole[]>([]);
+  // 公開範囲を設定中のドキュメントと入力値
+  const [visibilityDocument, setVisibilityDocument] = useState<KnowledgeDocument | null>(null);
+  const [visibilityDepartments, setVisibilityDepartments] = useState("");
+  const [visibilityRoles, setVisibilityRoles] = useState<UserRole[]>([]);
+  const [isSavingVisibility, setIsSavingVisibility] = useState(false);
   const { toast } = useToast();
 
   // ファイル選択ハンドラ
@@ -107,6 +143,10 @@ const KnowledgeUploader: React.FC = () => {
     try {
       const formData = new FormData();
       formData.append("file", selectedFile);
+      formData.append("visibility", JSON.stringify({
+        departments: parseDepartments(uploadDepartments),
+        roles: uploadRoles,
+      }));
 
       const response = await fetch("/api/knowledge/upload", {
         method: "POST",
@@ -128,6 +168,8 @@ const KnowledgeUploader: React.FC = () => {
       // ドキュメントリストを更新
       fetchDocuments();
       setSelectedFile(null);
+      setUploadDepartments("");
+      setUploadRoles([]);
       
       // ファイル入力をリセット
       const fileInput = document.getElementById("file-upload") as HTMLInputElement;
@@ -197,9 +239,118 @@ const KnowledgeUploader: React.FC = () => {
     }
   };
 
+  // 車両型式の一覧取得
+  const fetchVehicleModels = async () => {
+    try {
+      const response = await fetch("/api/vehicle-models");
+      if (response.ok) {
+        setVehicleModels(await response.json());
+      }
+    } catch (error) {
+      console.error("Fetch vehicle models error:", error);
+    }
+  };
+
+  // 型式設定ダイアログを開く
+  const handleOpenTagging = (doc: KnowledgeDocument) => {
+    setTaggingDocument(doc);
+    setSelectedModelIds(doc.vehicleModelIds);
+  };
+
+  const toggleModel = (modelId: number, checked: boolean) => {
+    setSelectedModelIds((prev) =>
+      checked ? [...prev, modelId] : prev.filter((id) => id !== modelId)
+    );
+  };
+
+  // ドキュメントに適用する型式を保存
+  const handleSaveTags = async () => {
+    if (!taggingDocument) return;
+    setIsSavingTags(true);
+    try {
+      const response = await fetch(`/api/knowledge/${taggingDocument.id}/models`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ vehicleModelIds: selectedModelIds }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "型式の設定に失敗しました");
+      }
+
+      toast({
+        title: "設定完了",
+        description: `${taggingDocument.title} の対象型式を更新しました`,
+      });
+      setTaggingDocument(null);
+      await fetchDocuments();
+    } catch (error) {
+      console.error("Tagging error:", error);
+      toast({
+        title: "設定エラー",
+        description: error instanceof Error ? error.message : "未知のエラーが発生しました",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingTags(false);
+    }
+  };
+
+  // 公開範囲設定ダイアログを開く
+  const handleOpenVisibility = (doc: KnowledgeDocument) => {
+    const visibility = doc.visibility ?? PUBLIC_VISIBILITY;
+    setVisibilityDocument(doc);
+    setVisibilityDepartments(visibility.departments.join(", "));
+    setVisibilityRoles(visibility.roles);
+  };
+
+  // ドキュメントの公開範囲を保存
+  const handleSaveVisibility = async () => {
+    if (!visibilityDocument) return;
+    setIsSavingVisibility(true);
+    try {
+      const response = await fetch(`/api/knowledge/${visibilityDocument.id}/visibility`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          departments: parseDepartments(visibilityDepartments),
+          roles: visibilityRoles,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(errorText || "公開範囲の設定に失敗しました");
+      }
+
+      toast({
+        title: "設定完了",
+        description: `${visibilityDocument.title} の公開範囲を更新しました`,
+      });
+      setVisibilityDocument(null);
+      await fetchDocuments();
+    } catch (error) {
+      console.error("Visibility error:", error);
+      toast({
+        title: "設定エラー",
+        description: error instanceof Error ? error.message : "未知のエラーが発生しました",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingVisibility(false);
+    }
+  };
+
+  const modelLabel = (modelId: number) => {
+    const model = vehicleModels.find((m) => m.id === modelId);
+    return model ? `${model.maker} ${model.name}` : `型式#${modelId}`;
+  };
+
   // コンポーネントマウント時にドキュメントリストを取得
   React.useEffect(() => {
     fetchDocuments();
+    fetchVehicleModels();
   }, []);
 
   // ファイルタイプに応じたアイコンを返す
@@ -261,6 +412,13 @@ const KnowledgeUploader: React.FC = () => {
               対応フォーマット: PDF, Word (.docx), Excel (.xlsx), PowerPoint (.pptx), テキストファイル (.txt)
             </p>
           </div>
+          <VisibilityFields
+            id="upload-visibility"
+            departmentsText={uploadDepartments}
+            roles={uploadRoles}
+            onDepartmentsTextChange={setUploadDepartments}
+            onRolesChange={setUploadRoles}
+          />
         </CardContent>
       </Card>
 
@@ -288,6 +446,8 @@ const KnowledgeUploader: React.FC = () => {
                   <TableHead className="w-12"></TableHead>
                   <TableHead className="text-cyan-700">ファイル名</TableHead>
                   <TableHead className="text-cyan-700">タイプ</TableHead>
+                  <TableHead className="text-cyan-700">対象型式</TableHead>
+                  <TableHead className="text-cyan-700">公開範囲</TableHead>
                   <TableHead className="text-cyan-700">追加日時</TableHead>
                   <TableHead className="w-12"></TableHead>
                 </TableRow>
@@ -298,9 +458,41 @@ const KnowledgeUploader: React.FC = () => {
                     <TableCell>{getFileIcon(doc.type)}</TableCell>
                     <TableCell className="font-medium text-cyan-900">{doc.title}</TableCell>
                     <TableCell className="text-cyan-700">{doc.type}</TableCell>
+                    <TableCell>
+                      {doc.vehicleModelIds.length > 0 ? (
+                        <div className="flex flex-wrap gap-1">
+                          {doc.vehicleModelIds.map((modelId) => (
+                            <Badge key={modelId} variant="outline" className="border-cyan-300 text-cyan-700">
+                              {modelLabel(modelId)}
+                            </Badge>
+                          ))}
+                        </div>
+                      ) : (
+                        <span className="text-cyan-400 text-sm">全型式共通</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-cyan-700 text-sm">{describeVisibility(doc.visibility)}</TableCell>
                     <TableCell className="text-cyan-700">{new Date(doc.addedAt).toLocaleString("ja-JP")}</TableCell>
                     <TableCell>
                       <div className="flex space-x-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleOpenTagging(doc)}
+                          className="hover:bg-cyan-100 text-cyan-600"
+                          title="対象型式を設定"
+                        >
+                          <Tags className="h-5 w-5" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleOpenVisibility(doc)}
+                          className="hover:bg-cyan-100 text-cyan-600"
+                          title="公開範囲を設定"
+                        >
+                          <Eye className="h-5 w-5" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="icon"
@@ -328,6 +520,74 @@ const KnowledgeUploader: React.FC = () => {
           )}
         </CardContent>
       </Card>
+
+      {/* 対象型式設定ダイアログ */}
+      <Dialog open={taggingDocument !== null} onOpenChange={(open) => !open && setTaggingDocument(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>対象型式の設定</DialogTitle>
+            <DialogDescription>
+              チャットで車両を選んだ場合、その型式に設定された資料を優先して検索します。何も選ばない場合は全型式共通の資料になります。
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 py-2 max-h-72 overflow-y-auto">
+            {vehicleModels.length === 0 ? (
+              <p className="text-sm text-cyan-500">車両型式が登録されていません（設定の「車両管理」から登録してください）</p>
+            ) : (
+              vehicleModels.map((model) => (
+                <label key={model.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={selectedModelIds.includes(model.id)}
+                    onCheckedChange={(checked) => toggleModel(model.id, checked === true)}
+                  />
+                  {model.maker} {model.name}
+                </label>
+              ))
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTaggingDocument(null)}>
+              キャンセル
+            </Button>
+            <Button onClick={handleSaveTags} disabled={isSavingTags}>
+              {isSavingTags ? "保存中..." : "保存"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* 公開範囲設定ダイアログ */}
+      <Dialog open={visibilityDocument !== null} onOpenChange={(open) => !open && setVisibilityDocument(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>公開範囲の設定</DialogTitle>
+            <DialogDescription>
+              {visibilityDocument?.title} を参照できる部署・役割を設定します。
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-2">
+            <VisibilityFields
+              id="edit-visibility"
+              departmentsText={visibilityDepartments}
+              roles={visibilityRoles}
+              onDepartmentsTextChange={setVisibilityDepartments}
+              onRolesChange={setVisibilityRoles}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVisibilityDocument(null)}>
+              キャンセル
+            </Button>
+            <Button onClick={handleSaveVisibility} disabled={isSavingVisibility}>
+              {isSavingVisibility ? "保存中..." : "保存"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -24,6 +24,8 @@ import { FileText, Upload, Trash2, FileType, File, Presentation, FileBox } from
 import { Loader2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { reloadImageSearchData } from "@/lib/image-search";
+import type { UserRole } from "@shared/permissions";
+import { VisibilityFields, parseDepartments } from "./visibility-fields";
 
 interface TechDocument {
   id: string;
@@ -41,6 +43,9 @@ const TechSupportUploader: React.FC = () => {
   const [uploadedDocuments, setUploadedDocuments] = useState<TechDocument[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [keepOriginalFile, setKeepOriginalFile] = useState(true);
+  // アップロード時の公開範囲（ナレッジベースに追加する文書のみ）
+  const [uploadDepartments, setUploadDepartments] = useState("");
+  const [uploadRoles, setUploadRoles] = useState<UserRole[]>([]);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -155,6 +160,12 @@ const TechSupportUploader: React.FC = () => {
       formData.append("processingType", processingType);
       // 元ファイル保存設定を追加
       formData.append("keepOriginalFile", keepOriginalFile.toString());
+      if (processingType === 'document') {
+        formData.append("visibility", JSON.stringify({
+          departments: parseDepartments(uploadDepartments),
+          roles: uploadRoles,
+        }));
+      }
 
       console.log(`ファイルをアップロード: ${selectedFile.name}, 処理タイプ: ${processingType}`);
 
@@ -325,6 +336,15 @@ const TechSupportUploader: React.FC = () => {
                 元ファイルを保存する（チェックを外すとストレージ容量を節約できます）
               </label>
             </div>
+            {processingType === 'document' && (
+              <VisibilityFields
+                id="tech-upload-visibility"
+                departmentsText={uploadDepartments}
+                roles={uploadRoles}
+                onDepartmentsTextChange={setUploadDepartments}
+                onRolesChange={setUploadRoles}
+              />
+            )}
           </div>
 
           <div className="mt-8">
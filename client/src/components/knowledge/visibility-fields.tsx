@@ -0,0 +1,50 @@
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { USER_ROLES, ROLE_LABELS, type UserRole } from "@shared/permissions";
+
+// 部署の入力欄（カンマ・読点区切り）を一覧にする
+export const parseDepartments = (text: string) =>
+  text.split(/[,、]/).map((department) => department.trim()).filter(Boolean);
+
+// 公開範囲の入力欄（資料・技術支援資料のアップロード時と設定ダイアログで共通）
+export const VisibilityFields: React.FC<{
+  id: string;
+  departmentsText: string;
+  roles: UserRole[];
+  onDepartmentsTextChange: (text: string) => void;
+  onRolesChange: (roles: UserRole[]) => void;
+}> = ({ id, departmentsText, roles, onDepartmentsTextChange, onRolesChange }) => (
+  <div className="space-y-3">
+    <div>
+      <Label htmlFor={`${id}-departments`} className="text-cyan-700 font-medium">公開する部署</Label>
+      <Input
+        id={`${id}-departments`}
+        value={departmentsText}
+        onChange={(e) => onDepartmentsTextChange(e.target.value)}
+        placeholder="例: 保線課, 電気課（カンマ区切り）"
+        className="mt-1 bg-cyan-50 border-cyan-200 text-cyan-900"
+      />
+    </div>
+    <div>
+      <Label className="text-cyan-700 font-medium">公開する役割</Label>
+      <div className="flex flex-wrap gap-4 mt-1">
+        {USER_ROLES.map((role) => (
+          <label key={role} className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={roles.includes(role)}
+              onCheckedChange={(checked) =>
+                onRolesChange(checked === true ? [...roles, role] : roles.filter((r) => r !== role))
+              }
+            />
+            {ROLE_LABELS[role]}
+          </label>
+        ))}
+      </div>
+    </div>
+    <p className="text-xs text-cyan-600">
+      部署・役割のどちらかに該当するユーザーだけが一覧・チャットの回答・画像検索で参照できます。何も指定しない場合は全員に公開されます。
+    </p>
+  </div>
+);
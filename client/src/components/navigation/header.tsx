@@ -6,6 +6,7 @@ import { Menu, Settings, Trash2, Loader2 } from "lucide-react";
 import { useLocation } from "wouter";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Tabs } from "./tabs";
+import { roleLabel } from "@shared/permissions";
 
 export default function Header() {
   const { user } = useAuth();
@@ -68,7 +69,7 @@ export default function Header() {
         <div className="ml-3 flex items-center">
           <span className="text-sm">{user?.displayName}</span>
           <span className="ml-2 bg-secondary text-white text-xs px-2 py-0.5 rounded-full">
-            {user?.role === "admin" ? "管理者" : "一般"}
+            {user ? roleLabel(user.role) : ""}
           </span>
         </div>
       </div>
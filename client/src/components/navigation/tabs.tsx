@@ -3,6 +3,7 @@ import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { MessageSquare, Database, Settings } from "lucide-react";
 import { useAuth } from "@/context/auth-context";
+import type { Permission } from "@shared/permissions";
 
 interface TabsProps {
   currentPath: string;
@@ -12,7 +13,7 @@ interface TabsProps {
 
 export function Tabs({ currentPath, vertical = false, onNavigate }: TabsProps) {
   const [, setLocation] = useLocation();
-  const { user } = useAuth();
+  const { can } = useAuth();
 
   const handleNavigation = (path: string) => {
     setLocation(path);
@@ -21,9 +22,8 @@ export function Tabs({ currentPath, vertical = false, onNavigate }: TabsProps) {
     }
   };
 
-  const isAdmin = user?.role === "admin";
-
-  const tabs = [
+  // permission のあるタブは、その権限を持つ役割にだけ表示する
+  const tabs: { title: string; path: string; icon: React.ReactNode; permission?: Permission }[] = [
     {
       title: "チャット",
       path: "/chat",
@@ -33,7 +33,7 @@ export function Tabs({ currentPath, vertical = false, onNavigate }: TabsProps) {
       title: "データ処理",
       path: "/processing",
       icon: <Database className="mr-2 h-4 w-4" />,
-      adminOnly: true,
+      permission: "knowledge:manage",
     },
     {
       title: "設定",
@@ -42,7 +42,7 @@ export function Tabs({ currentPath, vertical = false, onNavigate }: TabsProps) {
     },
   ];
 
-  const filteredTabs = tabs.filter(tab => !tab.adminOnly || isAdmin);
+  const filteredTabs = tabs.filter(tab => !tab.permission || can(tab.permission));
 
   return (
     <div className={cn(
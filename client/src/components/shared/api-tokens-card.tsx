@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/auth-context";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { KeySquare, Plus, Trash2, Copy } from "lucide-react";
+import {
+  API_TOKEN_SCOPES,
+  API_TOKEN_SCOPE_LABELS,
+  API_TOKEN_SCOPE_PERMISSIONS,
+  API_TOKEN_EXPIRY_DAYS,
+  type ApiTokenScope,
+} from "@shared/api-tokens";
+
+interface ApiToken {
+  id: number;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdAt: string;
+  expired: boolean;
+}
+
+const TOKENS_KEY = "/api/api-tokens";
+
+export function ApiTokensCard() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState<number>(90);
+  // 発行直後の平文トークン（閉じると二度と表示できない）
+  const [issuedToken, setIssuedToken] = useState<string | null>(null);
+
+  // 役割の権限で使えないスコープは選ばせない
+  const availableScopes = API_TOKEN_SCOPES.filter((scope) => {
+    const permission = API_TOKEN_SCOPE_PERMISSIONS[scope];
+    return !permission || can(permission);
+  });
+
+  const { data: tokens = [], isLoading } = useQuery<ApiToken[]>({
+    queryKey: [TOKENS_KEY],
+  });
+
+  const createToken = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", TOKENS_KEY, { name, scopes, expiresInDays });
+      return res.json() as Promise<ApiToken & { token: string }>;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: [TOKENS_KEY] });
+      setIsCreateOpen(false);
+      setName("");
+      setScopes([]);
+      setIssuedToken(created.token);
+    },
+    onError: () => {
+      toast({
+        title: "発行失敗",
+        description: "APIトークンの発行中にエラーが発生しました。",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeToken = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `${TOKENS_KEY}/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [TOKENS_KEY] });
+      toast({ title: "APIトークンを失効させました" });
+    },
+    onError: () => {
+      toast({
+        title: "失効失敗",
+        description: "APIトークンの失効中にエラーが発生しました。",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((prev) => (checked ? [...prev, scope] : prev.filter((s) => s !== scope)));
+  };
+
+  const copyIssuedToken = async () => {
+    if (!issuedToken) return;
+    try {
+      await navigator.clipboard.writeText(issuedToken);
+      toast({ title: "トークンをコピーしました" });
+    } catch {
+      toast({ title: "コピーできませんでした", description: "トークンを選択してコピーしてください。", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="border border-blue-200 shadow-md overflow-hidden">
+      <CardHeader className="pb-2 bg-gradient-to-r from-sky-500 to-indigo-500 text-white">
+        <CardTitle className="text-lg flex items-center">
+          <KeySquare className="mr-2 h-5 w-5" />
+          APIトークン
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="bg-white">
+        <div className="space-y-4">
+          <p className="pt-2 text-sm text-blue-400">
+            スクリプトから資料・チャット・インシデントのAPIを呼び出すためのトークンです。
+            <code className="mx-1">Authorization: Bearer &lt;トークン&gt;</code>ヘッダーで送信します。
+          </p>
+
+          {isLoading ? (
+            <p className="py-2 text-sm text-blue-400">読み込み中...</p>
+          ) : tokens.map((token) => (
+            <div key={token.id} className="flex items-center justify-between border-t border-blue-100 pt-3">
+              <div>
+                <p className="font-medium text-blue-800 flex items-center gap-2">
+                  {token.name}
+                  <code className="text-xs text-blue-400">{token.tokenPrefix}…</code>
+                  {token.expired && <Badge variant="destructive">期限切れ</Badge>}
+                </p>
+                <div className="flex flex-wrap gap-1 my-1">
+                  {token.scopes.map((scope) => (
+                    <Badge key={scope} variant="outline" className="border-blue-300 text-blue-700">
+                      {API_TOKEN_SCOPE_LABELS[scope] ?? scope}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-sm text-blue-400">
+                  有効期限 {format(new Date(token.expiresAt), "yyyy/MM/dd")}・
+                  {token.lastUsedAt
+                    ? `最終利用 ${format(new Date(token.lastUsedAt), "yyyy/MM/dd HH:mm")}（${token.lastUsedIp || "IP不明"}）`
+                    : "未使用"}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-red-200 text-red-600 hover:bg-red-50"
+                disabled={revokeToken.isPending}
+                onClick={() => revokeToken.mutate(token.id)}
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                失効
+              </Button>
+            </div>
+          ))}
+
+          <div className="border-t border-blue-100 pt-3">
+            <Button
+              variant="outline"
+              className="w-full border-blue-300 text-blue-700 hover:bg-blue-50"
+              onClick={() => setIsCreateOpen(true)}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              トークンを発行
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+
+      {/* 発行ダイアログ */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>APIトークンの発行</DialogTitle>
+            <DialogDescription>
+              用途が分かる名前と、スクリプトに許可する操作を選んでください。役割の権限を超える操作はできません。
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-2">
+            <div className="grid gap-2">
+              <Label htmlFor="api-token-name">名前</Label>
+              <Input
+                id="api-token-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="例: マニュアル一括登録スクリプト"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>許可する操作</Label>
+              {availableScopes.map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={scopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  />
+                  {API_TOKEN_SCOPE_LABELS[scope]}
+                </label>
+              ))}
+            </div>
+            <div className="grid gap-2">
+              <Label>有効期限</Label>
+              <Select value={String(expiresInDays)} onValueChange={(value) => setExpiresInDays(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {API_TOKEN_EXPIRY_DAYS.map((days) => (
+                    <SelectItem key={days} value={String(days)}>{days}日</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+              キャンセル
+            </Button>
+            <Button
+              onClick={() => createToken.mutate()}
+              disabled={!name.trim() || scopes.length === 0 || createToken.isPending}
+            >
+              {createToken.isPending ? "発行中..." : "発行"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* 発行したトークンの表示（一度だけ） */}
+      <Dialog open={issuedToken !== null} onOpenChange={(open) => !open && setIssuedToken(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>APIトークンを発行しました</DialogTitle>
+            <DialogDescription>
+              このトークンは今だけ表示されます。閉じる前にコピーして安全な場所に保管してください。
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={issuedToken ?? ""} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="icon" onClick={copyIssuedToken} title="コピー">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setIssuedToken(null)}>閉じる</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,134 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { MonitorSmartphone, LogOut } from "lucide-react";
+
+interface LoginSession {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+const SESSIONS_KEY = "/api/auth/sessions";
+
+// User-Agent から「ブラウザ / OS」の表示名を作る
+const deviceLabel = (userAgent: string | null) => {
+  if (!userAgent) return "不明な端末";
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /OPR\//.test(userAgent) ? "Opera" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "ブラウザ";
+  const os =
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Android/.test(userAgent) ? "Android" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "不明なOS";
+  return `${browser} / ${os}`;
+};
+
+export function LoginSessionsCard() {
+  const { toast } = useToast();
+
+  const { data: sessions = [], isLoading } = useQuery<LoginSession[]>({
+    queryKey: [SESSIONS_KEY],
+  });
+
+  const onError = () => {
+    toast({
+      title: "ログアウト失敗",
+      description: "端末のログアウト中にエラーが発生しました。",
+      variant: "destructive",
+    });
+  };
+
+  const revokeSession = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `${SESSIONS_KEY}/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [SESSIONS_KEY] });
+      toast({ title: "端末をログアウトしました" });
+    },
+    onError,
+  });
+
+  const revokeOthers = useMutation({
+    mutationFn: () => apiRequest("POST", `${SESSIONS_KEY}/revoke-others`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [SESSIONS_KEY] });
+      toast({ title: "ほかの端末をすべてログアウトしました" });
+    },
+    onError,
+  });
+
+  const hasOthers = sessions.some(session => !session.current);
+
+  return (
+    <Card className="border border-blue-200 shadow-md overflow-hidden">
+      <CardHeader className="pb-2 bg-gradient-to-r from-sky-500 to-indigo-500 text-white">
+        <CardTitle className="text-lg flex items-center">
+          <MonitorSmartphone className="mr-2 h-5 w-5" />
+          ログイン中の端末
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="bg-white">
+        <div className="space-y-4">
+          {isLoading ? (
+            <p className="py-2 text-sm text-blue-400">読み込み中...</p>
+          ) : sessions.map((session, index) => (
+            <div
+              key={session.id}
+              className={`flex items-center justify-between py-2 ${index > 0 ? "border-t border-blue-100 pt-3" : ""}`}
+            >
+              <div>
+                <p className="font-medium text-blue-800 flex items-center gap-2">
+                  {deviceLabel(session.userAgent)}
+                  {session.current && <Badge variant="secondary">この端末</Badge>}
+                </p>
+                <p className="text-sm text-blue-400">
+                  {session.ipAddress || "IP不明"}・最終利用 {format(new Date(session.lastSeenAt), "yyyy/MM/dd HH:mm")}
+                </p>
+              </div>
+              {!session.current && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="border-blue-300 text-blue-700 hover:bg-blue-50"
+                  disabled={revokeSession.isPending}
+                  onClick={() => revokeSession.mutate(session.id)}
+                >
+                  <LogOut className="mr-2 h-4 w-4 text-blue-500" />
+                  ログアウト
+                </Button>
+              )}
+            </div>
+          ))}
+
+          {hasOthers && (
+            <div className="border-t border-blue-100 pt-3">
+              <Button
+                variant="outline"
+                className="w-full border-red-200 text-red-600 hover:bg-red-50"
+                disabled={revokeOthers.isPending}
+                onClick={() => revokeOthers.mutate()}
+              >
+                <LogOut className="mr-2 h-4 w-4" />
+                ほかの端末をすべてログアウト
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,13 +1,16 @@
 import React, { createContext, useContext, useState, useEffect } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { hasPermission, type Permission, type UserRole } from "@shared/permissions";
 
 interface User {
   id: number;
   username: string;
   displayName: string;
-  role: "employee" | "admin";
+  role: UserRole;
   department?: string;
+  // 管理者によるリセット後・初回ログイン時はパスワードを変更するまで他の画面を使えない
+  mustChangePassword?: boolean;
 }
 
 interface AuthContextType {
@@ -15,6 +18,9 @@ interface AuthContextType {
   isLoading: boolean;
   login: (username: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  // ログイン中のユーザーの役割が権限を持っているか（画面の表示切り替え用、判定はサーバーでも行う）
+  can: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
@@ -53,6 +59,30 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     fetchUser();
   }, []);
 
+  // 画像検索データはユーザーごとに公開範囲で絞り込まれるため、ログインユーザーが変わったら読み込み直す
+  useEffect(() => {
+    if (user) {
+      window.dispatchEvent(new Event("image-search-data-updated"));
+    }
+  }, [user?.id]);
+
+  // ログイン失敗の理由（失敗が続いたときはロック・待ち時間を知らせる）
+  const loginErrorMessage = (error: unknown) => {
+    const text = error instanceof Error ? error.message : "";
+    if (!text.startsWith("429: ")) {
+      return "ユーザー名またはパスワードが間違っています";
+    }
+    try {
+      const { code, retryAfter } = JSON.parse(text.slice(5));
+      const wait = retryAfter >= 60 ? `${Math.ceil(retryAfter / 60)}分` : `${retryAfter}秒`;
+      return code === "ACCOUNT_LOCKED"
+        ? `ログイン失敗が続いたためアカウントがロックされました。${wait}後に再度お試しいただくか、管理者に解除を依頼してください`
+        : `ログイン失敗が続いています。${wait}後に再度お試しください`;
+    } catch {
+      return "ログイン失敗が続いています。しばらくしてから再度お試しください";
+    }
+  };
+
   const login = async (username: string, password: string) => {
     try {
       setIsLoading(true);
@@ -66,7 +96,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     } catch (error) {
       toast({
         title: "ログイン失敗",
-        description: "ユーザー名またはパスワードが間違っています",
+        description: loginErrorMessage(error),
         variant: "destructive",
       });
       throw error;
@@ -75,6 +105,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    await apiRequest("POST", "/api/auth/change-password", { currentPassword, newPassword });
+    setUser((prev) => (prev ? { ...prev, mustChangePassword: false } : prev));
+    toast({
+      title: "パスワード変更完了",
+      description: "パスワードを変更しました",
+    });
+  };
+
   const logout = async () => {
     try {
       setIsLoading(true);
@@ -95,8 +134,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const can = (permission: Permission) => hasPermission(user?.role, permission);
+
   return (
-    <AuthContext.Provider value={{ user, isLoading, login, logout }}>
+    <AuthContext.Provider value={{ user, isLoading, login, logout, changePassword, can }}>
       {children}
     </AuthContext.Provider>
   );
@@ -10,6 +10,15 @@ import {
 // import the searchByText function and cancelSearch correctly
 import * as ImageSearch from '@/lib/image-search';
 import { searchByText, cancelSearch } from '@/lib/image-search';
+import {
+  getChatStreamClientId,
+  subscribeChatStream,
+  createStreamRequestId,
+  joinChat,
+  sendTyping
+} from '@/lib/chat-stream';
+import type { ChatCitation, ChatPresenceUser } from '@shared/chat-stream';
+import type { DecisionTreeStep, EscalationContact, ExportDeliveryStatus } from '@shared/schema';
 
 interface Media {
   id: number;
@@ -27,9 +36,28 @@ interface Message {
   timestamp: Date;
   chatId: number;
   media?: Media[];
+  // ストリーミング受信中のAI応答
+  isStreaming?: boolean;
+  citations?: ChatCitation[] | null;
+  // 判定ツリーの手順として送受信したメッセージ
+  treeStep?: DecisionTreeStep | null;
+  // 保守担当者への連絡を求めたAI応答に添える当番の連絡先
+  escalation?: { id: number; contacts: EscalationContact[] } | null;
 }
 
+// 履歴送信の送信先ごとの配信状況
+interface ExportDeliveryState {
+  id: number;
+  destinationName: string;
+  status: ExportDeliveryStatus;
+  lastError: string | null;
+}
+
+// 直近の履歴送信の配信状況（none: 送信先なし）
+export type ExportDeliveryOverall = 'none' | 'pending' | 'delivered' | 'failed';
+
 interface ChatContextValue {
+  chatId: number | null;
   messages: Message[];
   isLoading: boolean;
   searching: boolean;
@@ -48,11 +76,23 @@ interface ChatContextValue {
   lastExportTimestamp: Date | null;
   isExporting: boolean;
   hasUnexportedMessages: boolean;
+  exportDeliveryStatus: ExportDeliveryOverall;
+  exportDeliveryErrors: string[];
+  retryExportDelivery: () => Promise<void>;
   draftMessage: { content: string, media?: { type: string, url: string, thumbnail?: string }[] } | null;
   clearChatHistory: () => void;
   isClearing: boolean;
+  // 同じチャットに接続中のメンバーと入力中のメンバー
+  onlineMembers: ChatPresenceUser[];
+  typingMembers: ChatPresenceUser[];
+  notifyTyping: (isTyping: boolean) => void;
 }
 
+// 入力中表示を自動的に消すまでの時間（ミリ秒）
+const TYPING_INDICATOR_TIMEOUT = 5000;
+// 履歴の配信状況を確認する間隔（ミリ秒）
+const EXPORT_DELIVERY_POLL_INTERVAL = 5000;
+
 const ChatContext = createContext<ChatContextValue | null>(null);
 
 export const useChat = () => {
@@ -74,10 +114,14 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const [lastExportTimestamp, setLastExportTimestamp] = useState<Date | null>(null);
   const [isExporting, setIsExporting] = useState(false);
   const [hasUnexportedMessages, setHasUnexportedMessages] = useState(false);
+  const [lastExportId, setLastExportId] = useState<number | null>(null);
+  const [exportDeliveries, setExportDeliveries] = useState<ExportDeliveryState[]>([]);
   const [chatId, setChatId] = useState<number | null>(null);
   const [isInitializing, setIsInitializing] = useState(false);
   const [isClearing, setIsClearing] = useState(false);
   const [tempMedia, setTempMedia] = useState<{ type: string, url: string, thumbnail?: string }[]>([]);
+  const [onlineMembers, setOnlineMembers] = useState<ChatPresenceUser[]>([]);
+  const [typingMembers, setTypingMembers] = useState<ChatPresenceUser[]>([]);
   // プレビュー用一時メッセージ（まだ送信していないがユーザー入力前に表示するためのメッセージ）
   const [draftMessage, setDraftMessage] = useState<{
     content: string,
@@ -116,8 +160,8 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       return newChat.id;
     } catch (error) {
       console.error('Failed to initialize chat:', error);
-      // 401エラーの場合はトーストを表示しない（未ログイン時）
-      if (!(error instanceof Error && error.message.includes('401'))) {
+      // 401エラーの場合はトーストを表示しない（未ログイン時・パスワード変更前）
+      if (!(error instanceof Error && (error.message.includes('401') || error.message.includes('PASSWORD_CHANGE_REQUIRED')))) {
         toast({
           title: 'チャット初期化エラー',
           description: 'チャットの初期化に失敗しました。',
@@ -135,6 +179,61 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     initializeChat();
   }, [initializeChat]);
 
+  // チャットのWebSocketチャネルに参加し、他のメンバーの送信内容・入力中表示・接続状況を受け取る
+  useEffect(() => {
+    if (!chatId) return;
+    joinChat(chatId);
+    
+    const typingTimers = new Map<number, ReturnType<typeof setTimeout>>();
+    const stopTyping = (userId: number) => {
+      clearTimeout(typingTimers.get(userId));
+      typingTimers.delete(userId);
+      setTypingMembers(prev => prev.filter(member => member.userId !== userId));
+    };
+    
+    const unsubscribe = subscribeChatStream((event) => {
+      if (!('chatId' in event) || event.chatId !== chatId) return;
+      
+      switch (event.type) {
+        case 'subscribed':
+        case 'presence':
+          setOnlineMembers(event.members);
+          break;
+        case 'typing':
+          if (event.isTyping) {
+            clearTimeout(typingTimers.get(event.user.userId));
+            typingTimers.set(event.user.userId, setTimeout(() => stopTyping(event.user.userId), TYPING_INDICATOR_TIMEOUT));
+            setTypingMembers(prev => prev.some(member => member.userId === event.user.userId) ? prev : [...prev, event.user]);
+          } else {
+            stopTyping(event.user.userId);
+          }
+          break;
+        case 'message': {
+          const incoming = event.message;
+          if (incoming.senderId !== null) stopTyping(incoming.senderId);
+          // 自分の送信やストリーミングで追加済みのメッセージは重複させない
+          setMessages(prev => prev.some(msg => msg.id === incoming.id) ? prev : [
+            ...prev,
+            { ...incoming, chatId, timestamp: new Date(incoming.timestamp) }
+          ]);
+          break;
+        }
+        case 'denied':
+          console.warn('チャットへの参加が拒否されました:', event.message);
+          break;
+      }
+    });
+    
+    return () => {
+      unsubscribe();
+      typingTimers.forEach(timer => clearTimeout(timer));
+    };
+  }, [chatId]);
+  
+  const notifyTyping = useCallback((isTyping: boolean) => {
+    sendTyping(isTyping);
+  }, []);
+
   // チャットメッセージの初期読み込み
   useEffect(() => {
     const loadMessages = async () => {
@@ -182,12 +281,84 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       const usePerplexity = false; // localStorage.getItem('usePerplexity') === 'true';
       console.log('送信時設定: ナレッジベースのみを使用=', useOnlyKnowledgeBase, ', Perplexity使用=', usePerplexity);
       
-      const response = await apiRequest('POST', `/api/chats/${currentChatId}/messages`, { 
-        content,
-        useOnlyKnowledgeBase,
-        usePerplexity: false // Perplexity APIを一時的に無効化
-      });
+      // WebSocketが接続済みならAI応答をストリーミングで受け取る
+      const streamClientId = getChatStreamClientId();
+      const requestId = createStreamRequestId();
+      // ストリーミング中のAI応答の仮ID（完了時に保存済みメッセージに置き換える）
+      const streamingMessageId = -Date.now();
+      let streamedContent = '';
+      let streamedCitations: ChatCitation[] = [];
+      // HTTP応答より先にストリーミングが完了した場合の最終メッセージ
+      let finishedMessage: Message | null = null;
+      let unsubscribe: (() => void) | null = null;
+      
+      if (streamClientId) {
+        unsubscribe = subscribeChatStream((event) => {
+          if (!('requestId' in event) || event.requestId !== requestId) return;
+          
+          switch (event.type) {
+            case 'delta':
+              streamedContent += event.content;
+              setMessages(prev => prev.map(msg =>
+                msg.id === streamingMessageId ? { ...msg, content: streamedContent } : msg
+              ));
+              break;
+            case 'citation':
+              streamedCitations = event.citations;
+              setMessages(prev => prev.map(msg =>
+                msg.id === streamingMessageId ? { ...msg, citations: streamedCitations } : msg
+              ));
+              break;
+            case 'done':
+            case 'error': {
+              unsubscribe?.();
+              const finalMessage: Message = event.aiMessage
+                ? {
+                    ...event.aiMessage,
+                    chatId: event.aiMessage.chatId ?? currentChatId,
+                    timestamp: new Date(event.aiMessage.timestamp),
+                    citations: streamedCitations
+                  }
+                : {
+                    id: streamingMessageId,
+                    content: streamedContent,
+                    senderId: null,
+                    isAiResponse: true,
+                    timestamp: new Date(),
+                    chatId: currentChatId,
+                    citations: streamedCitations
+                  };
+              finishedMessage = finalMessage;
+              setMessages(prev => prev.map(msg =>
+                msg.id === streamingMessageId ? finalMessage : msg
+              ));
+              if (event.type === 'error') {
+                toast({
+                  title: 'AI応答エラー',
+                  description: event.message,
+                  variant: 'destructive',
+                });
+              }
+              break;
+            }
+          }
+        });
+      }
+      
+      let response: Response;
+      try {
+        response = await apiRequest('POST', `/api/chats/${currentChatId}/messages`, { 
+          content,
+          useOnlyKnowledgeBase,
+          usePerplexity: false, // Perplexity APIを一時的に無効化
+          stream: streamClientId ? { clientId: streamClientId, requestId } : undefined
+        });
+      } catch (error) {
+        unsubscribe?.();
+        throw error;
+      }
       if (!response.ok) {
+        unsubscribe?.();
         throw new Error('メッセージの送信に失敗しました');
       }
       
@@ -199,23 +370,45 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         ...(mediaUrls || [])
       ];
       
-      // ユーザーメッセージとAI応答を同時に追加（ユーザーメッセージが重複しないよう1回のみ追加）
-      setMessages(prev => [
-        ...prev, 
-        { 
-          ...data.userMessage, 
-          timestamp: new Date(data.userMessage.timestamp),
-          media: allMedia.length > 0 ? allMedia.map((media, idx) => ({
-            id: Date.now() + idx,
-            messageId: data.userMessage.id,
-            ...media
-          })) : []
-        },
-        {
-          ...data.aiMessage,
-          timestamp: new Date(data.aiMessage.timestamp)
-        }
-      ]);
+      const userMessage: Message = { 
+        ...data.userMessage, 
+        timestamp: new Date(data.userMessage.timestamp),
+        media: allMedia.length > 0 ? allMedia.map((media, idx) => ({
+          id: Date.now() + idx,
+          messageId: data.userMessage.id,
+          ...media
+        })) : []
+      };
+      
+      if (response.status === 202) {
+        // ストリーミング: ユーザーメッセージと受信中のAI応答を追加し、以降はWebSocketで更新する
+        setMessages(prev => [
+          ...prev.filter(msg => msg.id !== userMessage.id),
+          userMessage,
+          finishedMessage || {
+            id: streamingMessageId,
+            content: streamedContent,
+            senderId: null,
+            isAiResponse: true,
+            timestamp: new Date(),
+            chatId: currentChatId,
+            isStreaming: true,
+            citations: streamedCitations
+          }
+        ]);
+      } else {
+        unsubscribe?.();
+        // ユーザーメッセージとAI応答を同時に追加（ユーザーメッセージが重複しないよう1回のみ追加）
+        // WebSocket経由で先に届いている場合は置き換える
+        setMessages(prev => [
+          ...prev.filter(msg => msg.id !== userMessage.id && msg.id !== data.aiMessage.id), 
+          userMessage,
+          {
+            ...data.aiMessage,
+            timestamp: new Date(data.aiMessage.timestamp)
+          }
+        ]);
+      }
       
       // 一時メディアをクリア
       setTempMedia([]);
@@ -510,6 +703,18 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
   
+  // 報告書を取得し、サーバーが指定したファイル名で保存する
+  const downloadReport = async (url: string) => {
+    const res = await apiRequest('GET', url);
+    const blob = await res.blob();
+    const fileName = res.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'report';
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+  
   // チャット履歴をエクスポートする関数
   const exportChatHistory = async () => {
     if (!chatId) return;
@@ -531,6 +736,11 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         const exportTime = new Date(result.exportTimestamp);
         setLastExportTimestamp(exportTime);
         setHasUnexportedMessages(false);
+        setLastExportId(result.exportId);
+        setExportDeliveries(result.deliveries);
+        
+        // 対象期間の報告書をダウンロードする（PDF は日本語の表示がビューアに依存するため Word のみ）
+        await downloadReport(result.reports.docx);
         
         // エクスポート成功時に履歴を画面からクリア
         // エクスポート時間より前のメッセージのみをクリア
@@ -541,7 +751,7 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         
         toast({
           title: 'チャット履歴を送信しました',
-          description: `${result.messageCount}件のメッセージが正常に送信されました。`,
+          description: `${result.messageCount}件のメッセージの報告書（Word）を出力しました。`,
         });
       }
     } catch (error) {
@@ -565,6 +775,58 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
   
+  // 配信状況をまとめる（1件でも失敗があれば失敗、未完了があれば配信中）
+  const exportDeliveryStatus: ExportDeliveryOverall =
+    exportDeliveries.length === 0 ? 'none'
+      : exportDeliveries.some(delivery => delivery.status === 'failed') ? 'failed'
+      : exportDeliveries.some(delivery => delivery.status === 'pending') ? 'pending'
+      : 'delivered';
+  const exportDeliveryErrors = exportDeliveries
+    .filter(delivery => delivery.status === 'failed')
+    .map(delivery => `${delivery.destinationName}: ${delivery.lastError || '不明なエラー'}`);
+  
+  // 配信中は状況を定期的に確認する
+  useEffect(() => {
+    if (!chatId || !lastExportId || exportDeliveryStatus !== 'pending') return;
+    
+    const timer = setInterval(async () => {
+      try {
+        const response = await apiRequest('GET', `/api/chats/${chatId}/exports/${lastExportId}/deliveries`);
+        setExportDeliveries(await response.json());
+      } catch (error) {
+        console.error('Failed to fetch export deliveries:', error);
+      }
+    }, EXPORT_DELIVERY_POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [chatId, lastExportId, exportDeliveryStatus]);
+  
+  // 配信が失敗したら知らせる
+  useEffect(() => {
+    if (exportDeliveryStatus === 'failed') {
+      toast({
+        title: '履歴の配信に失敗しました',
+        description: '履歴送信ボタンから再送できます。',
+        variant: 'destructive',
+      });
+    }
+  }, [exportDeliveryStatus]);
+  
+  // 失敗した配信を再送する
+  const retryExportDelivery = async () => {
+    if (!chatId || !lastExportId) return;
+    
+    try {
+      const response = await apiRequest('POST', `/api/chats/${chatId}/exports/${lastExportId}/retry`);
+      setExportDeliveries(await response.json());
+    } catch (error) {
+      toast({
+        title: '再送エラー',
+        description: '履歴の再送に失敗しました。',
+        variant: 'destructive',
+      });
+    }
+  };
+  
   // 最後のエクスポート履歴を取得
   const fetchLastExport = useCallback(async () => {
     if (!chatId) return;
@@ -717,6 +979,7 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   return (
     <ChatContext.Provider
       value={{
+        chatId,
         messages,
         isLoading,
         searching,
@@ -735,9 +998,15 @@ export const ChatProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         lastExportTimestamp,
         isExporting,
         hasUnexportedMessages,
+        exportDeliveryStatus,
+        exportDeliveryErrors,
+        retryExportDelivery,
         draftMessage,
         clearChatHistory,
         isClearing,
+        onlineMembers,
+        typingMembers,
+        notifyTyping,
       }}
     >
       {children}
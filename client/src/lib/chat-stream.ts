@@ -0,0 +1,105 @@
+import type { ChatStreamMessage, ChatClientMessage } from '@shared/chat-stream';
+
+type StreamListener = (message: ChatStreamMessage) => void;
+
+// 再接続までの待ち時間（ミリ秒）。失敗が続くほど長くする
+const RECONNECT_DELAYS = [1000, 2000, 5000, 10000, 30000];
+
+let socket: WebSocket | null = null;
+let clientId: string | null = null;
+let reconnectAttempts = 0;
+// 購読中のチャットID（再接続時に購読し直す）
+let joinedChatId: number | null = null;
+const listeners = new Set<StreamListener>();
+
+const send = (message: ChatClientMessage) => {
+  if (socket && socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+/**
+ * /ws への接続を開く（接続済みの場合は何もしない）
+ * 接続はログインセッションで認証される。切断された場合は自動的に再接続する
+ */
+export const connectChatStream = () => {
+  if (socket && (socket.readyState === WebSocket.OPEN || socket.readyState === WebSocket.CONNECTING)) {
+    return;
+  }
+
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+  socket.onmessage = (event) => {
+    let message: ChatStreamMessage;
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+
+    if (message.type === 'system') {
+      clientId = message.clientId;
+      reconnectAttempts = 0;
+      if (joinedChatId !== null) {
+        send({ type: 'subscribe', chatId: joinedChatId });
+      }
+    }
+    listeners.forEach((listener) => listener(message));
+  };
+
+  socket.onclose = () => {
+    clientId = null;
+    socket = null;
+    const delay = RECONNECT_DELAYS[Math.min(reconnectAttempts, RECONNECT_DELAYS.length - 1)];
+    reconnectAttempts++;
+    setTimeout(connectChatStream, delay);
+  };
+};
+
+/**
+ * ストリーミングに使えるクライアントID（未接続の場合は null）
+ */
+export const getChatStreamClientId = (): string | null => {
+  return socket && socket.readyState === WebSocket.OPEN ? clientId : null;
+};
+
+/**
+ * ストリーミングメッセージを購読する
+ * @returns 購読解除関数
+ */
+export const subscribeChatStream = (listener: StreamListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * チャットを購読する（以前のチャットの購読は解除する）
+ * 同じチャットのメンバーの送信内容・入力中表示・接続状況が届くようになる
+ */
+export const joinChat = (chatId: number) => {
+  if (joinedChatId === chatId) return;
+  if (joinedChatId !== null) {
+    send({ type: 'unsubscribe', chatId: joinedChatId });
+  }
+  joinedChatId = chatId;
+  connectChatStream();
+  send({ type: 'subscribe', chatId });
+};
+
+/**
+ * 入力中かどうかを同じチャットのメンバーに通知する
+ */
+export const sendTyping = (isTyping: boolean) => {
+  if (joinedChatId === null) return;
+  send({ type: 'typing', chatId: joinedChatId, isTyping });
+};
+
+/**
+ * リクエストIDを生成する（非HTTPS環境でも使えるよう crypto.randomUUID は使わない）
+ */
+export const createStreamRequestId = () => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
@@ -18,31 +18,27 @@ interface ImageSearchItem {
 // 画像検索用データ
 let imageSearchData: ImageSearchItem[] = [];
 
+// ログイン中のユーザーが閲覧できる画像検索データを取得する
+// （元の資料が公開範囲外のスライド・画像はサーバー側で除かれる）
+async function fetchVisibleImageSearchData(): Promise<{ metadata: any; images: ImageSearchItem[] }> {
+  const response = await fetch(`/api/knowledge/image-search-data?t=${Date.now()}`, {
+    credentials: 'include',
+    cache: 'no-store'
+  });
+  if (!response.ok) {
+    throw new Error(`画像検索データの取得に失敗: ${response.status}`);
+  }
+  return response.json();
+}
+
 // 画像検索専用JSONデータを読み込む
 async function loadImageSearchData() {
   try {
-    // 最新のJSON ファイルを取得する
-    const timestamp = new Date().getTime();
-    
-    // 最新のmetadataJSONを探す
-    const dirResponse = await fetch(`/api/tech-support/list-json-files?t=${timestamp}`);
-    let metadataFile = 'mc_1744105287766_metadata.json'; // デフォルトファイル
-    
-    if (dirResponse.ok) {
-      const fileList = await dirResponse.json();
-      if (Array.isArray(fileList) && fileList.length > 0) {
-        // 最新のメタデータファイルを選択
-        metadataFile = fileList[0];
-        console.log(`最新のメタデータファイルを使用します: ${metadataFile}`);
-      }
-    }
-    
-    // 選択したJSONファイルを読み込む
-    const response = await fetch(`/uploads/json/${metadataFile}?t=${timestamp}`);
-    if (!response.ok) {
-      throw new Error(`メタデータJSONの読み込みに失敗: ${metadataFile}`);
+    // 閲覧できる最新のスライドメタデータを取得する
+    const { metadata } = await fetchVisibleImageSearchData();
+    if (!metadata) {
+      throw new Error('閲覧できるメタデータJSONがありません');
     }
-    const metadata = await response.json();
     
     // 既存データをクリア
     imageSearchData = [];
@@ -135,39 +131,17 @@ async function loadImageSearchData() {
         console.log("画像検索データを初期化しました:", initData);
         
         // 再度データを読み込み
-        const reloadResponse = await fetch(`/uploads/data/image_search_data.json?t=${Date.now()}`);
-        if (reloadResponse.ok) {
-          const reloadedData = await reloadResponse.json();
-          if (Array.isArray(reloadedData)) {
-            console.log(`再読み込みした画像検索データ: ${reloadedData.length}件`);
-            imageSearchData = reloadedData;
-            return;
-          }
+        const { images } = await fetchVisibleImageSearchData();
+        if (Array.isArray(images) && images.length > 0) {
+          console.log(`再読み込みした画像検索データ: ${images.length}件`);
+          imageSearchData = images;
+          return;
         }
       }
     } catch (initError) {
       console.error("画像検索データの初期化に失敗:", initError);
     }
     
-    // それでも失敗した場合は直接JSONファイルを読み込む（エラーハンドリング用）
-    console.log("直接JSONからの読み込みを試みます");
-    try {
-      const directFetch = await fetch('/uploads/data/image_search_data.json', { 
-        cache: 'no-store',  // キャッシュを無視
-        headers: { 'pragma': 'no-cache', 'cache-control': 'no-cache' }
-      });
-      if (directFetch.ok) {
-        const directData = await directFetch.json();
-        if (Array.isArray(directData) && directData.length > 0) {
-          console.log(`直接JSONから画像検索データを読み込みました: ${directData.length}件`);
-          imageSearchData = directData;
-          return;
-        }
-      }
-    } catch (directError) {
-      console.error("直接JSONからの読み込みに失敗:", directError);
-    }
-    
     // それでも失敗した場合はフォールバックデータ
     console.log("フォールバック画像検索データを使用します");
     // データ構造は実際のJSONファイルと同じ構造を保持
@@ -0,0 +1,45 @@
+import type { Incident, IncidentSeverity, IncidentStatus } from '@shared/schema';
+
+// API から受け取るインシデント（日時は文字列）
+export type IncidentData = Omit<Incident, 'startedAt' | 'endedAt' | 'updatedAt'> & {
+  startedAt: string;
+  endedAt: string | null;
+  updatedAt: string;
+};
+
+export { INCIDENT_STATUS_LABELS, INCIDENT_SEVERITY_LABELS } from '@shared/incident';
+
+// 状態・重大度ごとの表示色
+export const INCIDENT_STATUS_CLASSES: Record<IncidentStatus, string> = {
+  open: 'bg-yellow-100 text-yellow-800',
+  in_progress: 'bg-blue-100 text-blue-800',
+  resolved: 'bg-green-100 text-green-800',
+  escalated: 'bg-red-100 text-red-800',
+};
+
+export const INCIDENT_SEVERITY_CLASSES: Record<IncidentSeverity, string> = {
+  low: 'bg-gray-100 text-gray-700',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-orange-100 text-orange-800',
+  critical: 'bg-red-100 text-red-800',
+};
+
+// 症状分類の候補（自由入力も可）
+export const SYMPTOM_CATEGORIES = ['エンジン', 'ブレーキ', '油圧', '電気系統', '走行装置', '空気系統', '作業装置', 'その他'];
+
+/**
+ * Date / ISO文字列を datetime-local 入力欄の値（ローカル時刻）に変換する
+ */
+export const toDateTimeLocal = (value: string | Date | null | undefined): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+/**
+ * 日時を一覧表示用に整形する
+ */
+export const formatIncidentTime = (value: string | null): string => {
+  return value ? new Date(value).toLocaleString('ja-JP', { dateStyle: 'short', timeStyle: 'short' }) : '-';
+};
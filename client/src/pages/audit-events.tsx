@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { ScrollText, ArrowLeft, Search, Download } from "lucide-react";
+import { Link } from "wouter";
+import { AUDIT_ACTIONS, type AuditAction, type AuditEvent } from "@shared/schema";
+
+const actionLabels: Record<AuditAction, string> = {
+  "user.create": "ユーザー作成",
+  "user.update": "ユーザー編集",
+  "user.delete": "ユーザー削除",
+  "user.reset_password": "パスワードリセット",
+  "user.unlock": "ロック解除",
+  "user.force_logout": "強制ログアウト",
+  "user.sso_provision": "SSOでのユーザー作成・連携",
+  "api_token.create": "APIトークン発行",
+  "api_token.revoke": "APIトークン失効",
+  "knowledge.upload": "資料アップロード",
+  "knowledge.delete": "資料削除",
+  "knowledge.reprocess": "資料再処理",
+  "knowledge.update_models": "資料の対象型式変更",
+  "knowledge.update_visibility": "資料の公開範囲変更",
+  "chat.clear": "チャット履歴クリア",
+  "chat.export": "履歴送信",
+  "tech_support.upload": "技術支援資料アップロード",
+  "tech_support.init_image_search_data": "画像検索データ初期化",
+};
+
+const actionVariant = (action: AuditAction) =>
+  action.endsWith(".delete") || action === "chat.clear" || action === "tech_support.init_image_search_data"
+    ? "destructive"
+    : action.startsWith("user.") ? "secondary" : "outline";
+
+interface AuditFilter {
+  actorUsername: string;
+  action: AuditAction | "all";
+  from: string; // yyyy-MM-dd
+  to: string;
+}
+
+const emptyFilter: AuditFilter = { actorUsername: "", action: "all", from: "", to: "" };
+
+// 絞り込み条件をクエリ文字列にする（空欄の条件は付けない、終了日はその日の終わりまで含める）
+const toQueryString = (filter: AuditFilter) => {
+  const params = new URLSearchParams();
+  if (filter.actorUsername.trim()) params.set("actorUsername", filter.actorUsername.trim());
+  if (filter.action !== "all") params.set("action", filter.action);
+  if (filter.from) params.set("from", new Date(`${filter.from}T00:00:00`).toISOString());
+  if (filter.to) params.set("to", new Date(`${filter.to}T23:59:59.999`).toISOString());
+  const query = params.toString();
+  return query ? `?${query}` : "";
+};
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined ? "-" : typeof value === "string" ? value : JSON.stringify(value);
+
+// 変更前後の要約を表示用の行にする（両方ある場合は変わった項目だけ）
+const describeChange = (event: AuditEvent): string[] => {
+  const before = event.before ?? {};
+  const after = event.after ?? {};
+  if (event.before && event.after) {
+    return Object.keys({ ...before, ...after })
+      .filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+      .map((key) => `${key}: ${formatValue(before[key])} → ${formatValue(after[key])}`);
+  }
+  const summary = event.after ?? event.before;
+  return summary ? Object.entries(summary).map(([key, value]) => `${key}: ${formatValue(value)}`) : [];
+};
+
+export default function AuditEventsPage() {
+  const [form, setForm] = useState<AuditFilter>(emptyFilter);
+  const [filter, setFilter] = useState<AuditFilter>(emptyFilter);
+  const query = toQueryString(filter);
+
+  // 監査ログ（新しい順）
+  const { data: events, isLoading } = useQuery<AuditEvent[]>({
+    queryKey: [`/api/audit-events${query}`],
+    refetchOnWindowFocus: false,
+  });
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilter(form);
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 md:p-6 max-w-6xl mx-auto w-full">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center">
+            <ScrollText className="mr-2 h-6 w-6" />
+            監査ログ
+          </h1>
+          <p className="text-neutral-300">ユーザー・資料・チャットに対する操作を、操作者と変更内容とともに確認します</p>
+        </div>
+
+        <div className="flex gap-2">
+          {/* 画面と同じ絞り込み条件で CSV をダウンロードする */}
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/audit-events/export${query}`} download>
+              <Download className="mr-2 h-4 w-4" />
+              CSV出力
+            </a>
+          </Button>
+          <Link href="/settings">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              設定に戻る
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="grid gap-2">
+              <Label htmlFor="actorUsername">操作者</Label>
+              <Input
+                id="actorUsername"
+                value={form.actorUsername}
+                onChange={(e) => setForm((prev) => ({ ...prev, actorUsername: e.target.value }))}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>操作</Label>
+              <Select
+                value={form.action}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, action: value as AuditFilter["action"] }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">すべて</SelectItem>
+                  {AUDIT_ACTIONS.map((action) => (
+                    <SelectItem key={action} value={action}>{actionLabels[action]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="from">開始日</Label>
+              <Input
+                id="from"
+                type="date"
+                value={form.from}
+                onChange={(e) => setForm((prev) => ({ ...prev, from: e.target.value }))}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="to">終了日</Label>
+              <Input
+                id="to"
+                type="date"
+                value={form.to}
+                onChange={(e) => setForm((prev) => ({ ...prev, to: e.target.value }))}
+              />
+            </div>
+            <Button type="submit">
+              <Search className="mr-2 h-4 w-4" />
+              検索
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center">
+            <ScrollText className="mr-2 h-5 w-5" />
+            操作一覧（最新200件）
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center p-4">読み込み中...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>日時</TableHead>
+                  <TableHead>操作者</TableHead>
+                  <TableHead>操作</TableHead>
+                  <TableHead>対象</TableHead>
+                  <TableHead>内容</TableHead>
+                  <TableHead>IPアドレス</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events && events.length > 0 ? (
+                  events.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(event.createdAt), "yyyy/MM/dd HH:mm:ss")}
+                      </TableCell>
+                      <TableCell>
+                        {event.actorUsername || "-"}
+                        {event.actorUsername && !event.actorId && (
+                          <span className="ml-2 text-xs text-neutral-400">（削除済み）</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={actionVariant(event.action)}>{actionLabels[event.action] ?? event.action}</Badge>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {event.targetType ? `${event.targetType}${event.targetId ? ` #${event.targetId}` : ""}` : "-"}
+                      </TableCell>
+                      <TableCell className="max-w-md text-xs">
+                        {describeChange(event).map((line, index) => (
+                          <div key={index} className="truncate" title={line}>{line}</div>
+                        ))}
+                      </TableCell>
+                      <TableCell>{event.ipAddress || "-"}</TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center">
+                      監査ログはありません
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useAuth } from "@/context/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { KeyRound, LogOut } from "lucide-react";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  checkPasswordPolicy,
+  describePasswordPolicy,
+  type PasswordPolicy
+} from "@shared/password-policy";
+
+// apiRequest のエラー（"400: {...}"）からサーバーのメッセージを取り出す
+const errorMessage = (error: unknown) => {
+  const text = error instanceof Error ? error.message.replace(/^\d+: /, "") : "";
+  try {
+    const { message } = JSON.parse(text);
+    return Array.isArray(message) ? message.map((issue: { message: string }) => issue.message).join("、") : message;
+  } catch {
+    return text || "パスワードの変更中にエラーが発生しました";
+  }
+};
+
+interface ChangePasswordPageProps {
+  // 変更するまで他の画面を使えない場合
+  forced?: boolean;
+}
+
+export default function ChangePasswordPage({ forced = false }: ChangePasswordPageProps) {
+  const { changePassword, logout } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: policy = DEFAULT_PASSWORD_POLICY } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/auth/password-policy"],
+    refetchOnWindowFocus: false,
+  });
+
+  const violations = newPassword ? checkPasswordPolicy(newPassword, policy) : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (violations.length > 0 || !newPassword) {
+      toast({
+        title: "入力エラー",
+        description: `パスワードは${describePasswordPolicy(policy)}にしてください`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      toast({
+        title: "入力エラー",
+        description: "確認用のパスワードが一致しません",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await changePassword(currentPassword, newPassword);
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      if (!forced) {
+        setLocation("/settings");
+      }
+    } catch (error) {
+      toast({
+        title: "パスワード変更失敗",
+        description: errorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 md:p-6 w-full flex justify-center">
+      <Card className="w-full max-w-md h-fit border border-blue-200 shadow-md">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center">
+            <KeyRound className="mr-2 h-5 w-5" />
+            パスワード変更
+          </CardTitle>
+          {forced && (
+            <p className="text-sm text-red-600">
+              パスワードの変更が必要です。変更するまで他の機能は利用できません。
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="grid gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="currentPassword">現在のパスワード</Label>
+              <Input
+                id="currentPassword"
+                type="password"
+                autoComplete="current-password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="newPassword">新しいパスワード</Label>
+              <Input
+                id="newPassword"
+                type="password"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                required
+              />
+              <p className={`text-xs ${violations.length > 0 ? "text-red-500" : "text-blue-400"}`}>
+                {violations.length > 0 ? violations.join("、") : describePasswordPolicy(policy)}
+              </p>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="confirmPassword">新しいパスワード（確認）</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+              />
+            </div>
+            <div className="flex justify-between gap-2">
+              {forced ? (
+                <Button type="button" variant="outline" onClick={() => logout()}>
+                  <LogOut className="mr-2 h-4 w-4" />
+                  ログアウト
+                </Button>
+              ) : (
+                <Button type="button" variant="outline" onClick={() => setLocation("/settings")}>
+                  キャンセル
+                </Button>
+              )}
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "変更中..." : "変更"}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -4,6 +4,9 @@ import MessageBubble from "@/components/chat/message-bubble";
 import MessageInput from "@/components/chat/message-input";
 import TextSelectionControls from "@/components/chat/text-selection-controls";
 import SearchResults from "@/components/chat/search-results";
+import ChatMembers from "@/components/chat/chat-members";
+import IncidentPanel from "@/components/chat/incident-panel";
+import VehicleSelector from "@/components/chat/vehicle-selector";
 import CameraModal from "@/components/chat/camera-modal";
 import ImagePreviewModal from "@/components/chat/image-preview-modal";
 import { useQuery } from "@tanstack/react-query";
@@ -16,7 +19,9 @@ import { useOrientation } from "@/hooks/use-orientation";
 
 export default function Chat() {
   const {
+    chatId,
     messages,
+    sendMessage,
     isLoading,
     selectedText,
     setSelectedText,
@@ -27,9 +32,14 @@ export default function Chat() {
     lastExportTimestamp,
     isExporting,
     hasUnexportedMessages,
+    exportDeliveryStatus,
+    exportDeliveryErrors,
+    retryExportDelivery,
     draftMessage,
     clearChatHistory,
-    isClearing
+    isClearing,
+    onlineMembers,
+    typingMembers
   } = useChat();
   
   const [isEndChatDialogOpen, setIsEndChatDialogOpen] = useState(false);
@@ -243,28 +253,63 @@ export default function Chat() {
       <div className="border-b border-blue-200 p-2 md:p-3 flex justify-between items-center bg-blue-100 mobile-landscape-header">
         <div className="flex items-center">
           {/* タイトルはヘッダーに移動 */}
+          {/* チャットのメンバー一覧（オーナーは招待・削除ができる） */}
+          {chatId && <ChatMembers chatId={chatId} onlineMembers={onlineMembers} />}
+          {/* 車両・場所・対応結果などのインシデント記録 */}
+          {chatId && <IncidentPanel chatId={chatId} />}
+          {/* 対象車両（型式の資料を優先して検索する） */}
+          {chatId && <VehicleSelector chatId={chatId} />}
+          {/* 同じチャットに接続中のメンバーと入力中表示 */}
+          {onlineMembers.length > 1 && (
+            <div className="flex items-center gap-1 text-xs md:text-sm text-blue-700">
+              <span>{onlineMembers.map(member => member.displayName).join("、")}</span>
+              {typingMembers.length > 0 && (
+                <span className="ml-2 text-blue-400 animate-pulse">
+                  {typingMembers.map(member => member.displayName).join("、")} が入力中...
+                </span>
+              )}
+            </div>
+          )}
         </div>
         <div className="flex items-center gap-2 md:gap-3">
-          {/* チャット履歴送信ボタン */}
-          <Button 
-            variant="outline"
-            size="sm"
-            onClick={exportChatHistory}
-            disabled={isExporting || !hasUnexportedMessages}
-            className="flex items-center gap-1 md:gap-2 border-green-400 bg-green-50 hover:bg-green-100 text-green-700 text-xs md:text-sm"
-          >
-            {isExporting ? (
-              <>
-                <Loader2 className="h-4 w-4 animate-spin text-green-600" />
-                <span>送信中...</span>
-              </>
-            ) : (
-              <>
-                <Send className="h-4 w-4 text-green-600" />
-                <span>履歴送信</span>
-              </>
-            )}
-          </Button>
+          {/* チャット履歴送信ボタン（配信に失敗した場合は再送ボタンになる） */}
+          {exportDeliveryStatus === 'failed' && !hasUnexportedMessages ? (
+            <Button 
+              variant="outline"
+              size="sm"
+              onClick={retryExportDelivery}
+              title={exportDeliveryErrors.join("\n")}
+              className="flex items-center gap-1 md:gap-2 border-red-400 bg-red-50 hover:bg-red-100 text-red-700 text-xs md:text-sm"
+            >
+              <AlertTriangle className="h-4 w-4 text-red-600" />
+              <span>配信失敗・再送</span>
+            </Button>
+          ) : (
+            <Button 
+              variant="outline"
+              size="sm"
+              onClick={exportChatHistory}
+              disabled={isExporting || exportDeliveryStatus === 'pending' || !hasUnexportedMessages}
+              className="flex items-center gap-1 md:gap-2 border-green-400 bg-green-50 hover:bg-green-100 text-green-700 text-xs md:text-sm"
+            >
+              {isExporting ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin text-green-600" />
+                  <span>送信中...</span>
+                </>
+              ) : exportDeliveryStatus === 'pending' ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin text-green-600" />
+                  <span>配信中...</span>
+                </>
+              ) : (
+                <>
+                  <Send className="h-4 w-4 text-green-600" />
+                  <span>履歴送信</span>
+                </>
+              )}
+            </Button>
+          )}
           
           {/* チャット履歴クリアボタンはヘッダーに移動 */}
           
@@ -301,7 +346,10 @@ export default function Chat() {
                 {/* 通常のメッセージリスト */}
                 {displayMessages.map((message: any, index: number) => (
                   <div key={index} className="w-full md:max-w-2xl mx-auto">
-                    <MessageBubble message={message} />
+                    <MessageBubble
+                      message={message}
+                      onAnswer={index === displayMessages.length - 1 && !isLoading ? (answer) => sendMessage(answer) : undefined}
+                    />
                   </div>
                 ))}
               </>
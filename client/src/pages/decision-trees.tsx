@@ -0,0 +1,582 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GitBranch, Plus, ArrowLeft, Edit, Trash2, AlertCircle, X } from "lucide-react";
+import { Link } from "wouter";
+import type { DecisionTree, DecisionTreeNode, VehicleModel } from "@shared/schema";
+
+// 編集フォームの値（開始語句はカンマ区切りで入力）
+interface DecisionTreeFormData {
+  title: string;
+  description: string;
+  triggerKeywords: string;
+  vehicleModelId: string;
+  isActive: boolean;
+  rootNodeId: string;
+  nodes: DecisionTreeNode[];
+}
+
+// Select で「全型式共通」「終了」を表す値（空文字は SelectItem に使えないため）
+const ALL_MODELS = "all";
+const END_OF_TREE = "end";
+
+const newNode = (id: string): DecisionTreeNode => ({
+  id,
+  instruction: "",
+  hazard: false,
+  imageUrl: null,
+  branches: [],
+});
+
+const emptyForm = (): DecisionTreeFormData => ({
+  title: "",
+  description: "",
+  triggerKeywords: "",
+  vehicleModelId: ALL_MODELS,
+  isActive: true,
+  rootNodeId: "start",
+  nodes: [newNode("start")],
+});
+
+// カンマ（全角・読点含む）区切りの文字列を配列に変換
+const splitList = (value: string) =>
+  value.split(/[,、，]/).map((item) => item.trim()).filter((item) => item.length > 0);
+
+// 既存のノードIDと重ならない新しいIDを作る
+const nextNodeId = (nodes: DecisionTreeNode[]) => {
+  let index = nodes.length + 1;
+  while (nodes.some((node) => node.id === `step${index}`)) index++;
+  return `step${index}`;
+};
+
+export default function DecisionTreesPage() {
+  const { toast } = useToast();
+
+  const { data: trees, isLoading } = useQuery<DecisionTree[]>({
+    queryKey: ["/api/decision-trees"],
+    refetchOnWindowFocus: false,
+  });
+  const { data: models = [] } = useQuery<VehicleModel[]>({
+    queryKey: ["/api/vehicle-models"],
+  });
+
+  const [showFormDialog, setShowFormDialog] = useState(false);
+  const [showDeleteConfirmDialog, setShowDeleteConfirmDialog] = useState(false);
+  // 編集中のツリーID（nullの場合は新規作成）
+  const [selectedTreeId, setSelectedTreeId] = useState<number | null>(null);
+  const [form, setForm] = useState<DecisionTreeFormData>(emptyForm());
+
+  const modelName = (modelId: number | null) => {
+    if (modelId === null) return "全型式共通";
+    const model = models.find((m) => m.id === modelId);
+    return model ? `${model.maker} ${model.name}` : "-";
+  };
+
+  // 新規作成準備
+  const handleNewTree = () => {
+    setSelectedTreeId(null);
+    setForm(emptyForm());
+    setShowFormDialog(true);
+  };
+
+  // 編集準備
+  const handleEditTree = (tree: DecisionTree) => {
+    setSelectedTreeId(tree.id);
+    setForm({
+      title: tree.title,
+      description: tree.description || "",
+      triggerKeywords: tree.triggerKeywords.join(", "),
+      vehicleModelId: tree.vehicleModelId ? String(tree.vehicleModelId) : ALL_MODELS,
+      isActive: tree.isActive,
+      rootNodeId: tree.rootNodeId,
+      nodes: tree.nodes,
+    });
+    setShowFormDialog(true);
+  };
+
+  // 削除準備
+  const handleDeleteTree = (treeId: number) => {
+    setSelectedTreeId(treeId);
+    setShowDeleteConfirmDialog(true);
+  };
+
+  // 入力フィールド更新処理
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  // ノードの更新
+  const updateNode = (index: number, updates: Partial<DecisionTreeNode>) => {
+    setForm((prev) => ({
+      ...prev,
+      nodes: prev.nodes.map((node, i) => (i === index ? { ...node, ...updates } : node)),
+    }));
+  };
+
+  const handleAddNode = () => {
+    setForm((prev) => ({ ...prev, nodes: [...prev.nodes, newNode(nextNodeId(prev.nodes))] }));
+  };
+
+  const handleRemoveNode = (index: number) => {
+    setForm((prev) => ({ ...prev, nodes: prev.nodes.filter((_, i) => i !== index) }));
+  };
+
+  // 分岐の追加・更新・削除
+  const handleAddBranch = (nodeIndex: number) => {
+    const node = form.nodes[nodeIndex];
+    updateNode(nodeIndex, { branches: [...node.branches, { answer: "", nextNodeId: null }] });
+  };
+
+  const updateBranch = (nodeIndex: number, branchIndex: number, updates: { answer?: string; nextNodeId?: string | null }) => {
+    const node = form.nodes[nodeIndex];
+    updateNode(nodeIndex, {
+      branches: node.branches.map((branch, i) => (i === branchIndex ? { ...branch, ...updates } : branch)),
+    });
+  };
+
+  const handleRemoveBranch = (nodeIndex: number, branchIndex: number) => {
+    const node = form.nodes[nodeIndex];
+    updateNode(nodeIndex, { branches: node.branches.filter((_, i) => i !== branchIndex) });
+  };
+
+  // ツリーの作成・更新のミューテーション
+  const saveTreeMutation = useMutation({
+    mutationFn: async (formData: DecisionTreeFormData) => {
+      const payload = {
+        title: formData.title.trim(),
+        description: formData.description.trim() || null,
+        triggerKeywords: splitList(formData.triggerKeywords),
+        vehicleModelId: formData.vehicleModelId === ALL_MODELS ? null : parseInt(formData.vehicleModelId),
+        isActive: formData.isActive,
+        rootNodeId: formData.rootNodeId,
+        nodes: formData.nodes.map((node) => ({
+          ...node,
+          id: node.id.trim(),
+          instruction: node.instruction.trim(),
+          imageUrl: node.imageUrl?.trim() || null,
+          branches: node.branches
+            .map((branch) => ({ ...branch, answer: branch.answer.trim() }))
+            .filter((branch) => branch.answer.length > 0),
+        })),
+      };
+      const res = selectedTreeId
+        ? await apiRequest("PATCH", `/api/decision-trees/${selectedTreeId}`, payload)
+        : await apiRequest("POST", "/api/decision-trees", payload);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/decision-trees"] });
+      toast({
+        title: selectedTreeId ? "判定ツリー更新完了" : "判定ツリー登録完了",
+        description: "判定ツリーが保存されました",
+      });
+      setShowFormDialog(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "判定ツリー保存失敗",
+        description: error.message || "判定ツリーの保存中にエラーが発生しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // ツリー削除のミューテーション
+  const deleteTreeMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedTreeId) throw new Error("判定ツリーが選択されていません");
+      await apiRequest("DELETE", `/api/decision-trees/${selectedTreeId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/decision-trees"] });
+      toast({
+        title: "判定ツリー削除完了",
+        description: "判定ツリーが削除されました",
+      });
+      setShowDeleteConfirmDialog(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "判定ツリー削除失敗",
+        description: error.message || "判定ツリーの削除中にエラーが発生しました",
+        variant: "destructive",
+      });
+      setShowDeleteConfirmDialog(false);
+    },
+  });
+
+  // フォーム送信処理
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // バリデーション
+    if (!form.title.trim() || splitList(form.triggerKeywords).length === 0) {
+      toast({
+        title: "入力エラー",
+        description: "タイトルと開始語句を入力してください",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (form.nodes.some((node) => !node.id.trim() || !node.instruction.trim())) {
+      toast({
+        title: "入力エラー",
+        description: "すべてのノードにIDと指示を入力してください",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveTreeMutation.mutate(form);
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 md:p-6 max-w-5xl mx-auto w-full">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center">
+            <GitBranch className="mr-2 h-6 w-6" />
+            判定ツリー
+          </h1>
+          <p className="text-neutral-300">チャットで一問ずつ案内する故障診断の手順を管理します</p>
+        </div>
+
+        <div className="flex space-x-2">
+          <Link href="/settings">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              設定に戻る
+            </Button>
+          </Link>
+          <Button onClick={handleNewTree}>
+            <Plus className="mr-2 h-4 w-4" />
+            新規ツリー作成
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center">
+            <GitBranch className="mr-2 h-5 w-5" />
+            ツリー一覧
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center p-4">読み込み中...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>タイトル</TableHead>
+                  <TableHead>開始語句</TableHead>
+                  <TableHead>対象型式</TableHead>
+                  <TableHead>ノード数</TableHead>
+                  <TableHead>状態</TableHead>
+                  <TableHead className="text-right">アクション</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {trees && trees.length > 0 ? (
+                  trees.map((tree) => (
+                    <TableRow key={tree.id}>
+                      <TableCell className="font-medium">{tree.title}</TableCell>
+                      <TableCell>{tree.triggerKeywords.join("、")}</TableCell>
+                      <TableCell>{modelName(tree.vehicleModelId)}</TableCell>
+                      <TableCell>{tree.nodes.length}</TableCell>
+                      <TableCell>
+                        <Badge variant={tree.isActive ? "default" : "secondary"}>
+                          {tree.isActive ? "有効" : "無効"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleEditTree(tree)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDeleteTree(tree.id)}
+                            className="text-red-500 hover:text-red-700"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center">
+                      判定ツリーが登録されていません
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* ツリー作成・編集ダイアログ */}
+      <Dialog open={showFormDialog} onOpenChange={setShowFormDialog}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedTreeId ? "判定ツリー編集" : "新規判定ツリー作成"}</DialogTitle>
+            <DialogDescription>
+              質問に開始語句が含まれると開始ノードから案内します。開始語句はカンマ区切りで入力してください。
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit}>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="title">タイトル</Label>
+                <Input
+                  id="title"
+                  name="title"
+                  value={form.title}
+                  onChange={handleInputChange}
+                  placeholder="例: エンジンが始動しない"
+                  required
+                />
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="description">説明</Label>
+                <Textarea
+                  id="description"
+                  name="description"
+                  value={form.description}
+                  onChange={handleInputChange}
+                />
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="triggerKeywords">開始語句</Label>
+                <Input
+                  id="triggerKeywords"
+                  name="triggerKeywords"
+                  value={form.triggerKeywords}
+                  onChange={handleInputChange}
+                  placeholder="例: エンジン始動しない, セルが回らない"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="grid gap-2">
+                  <Label>対象型式</Label>
+                  <Select value={form.vehicleModelId} onValueChange={(value) => setForm((prev) => ({ ...prev, vehicleModelId: value }))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_MODELS}>全型式共通</SelectItem>
+                      {models.map((model) => (
+                        <SelectItem key={model.id} value={String(model.id)}>
+                          {model.maker} {model.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-2">
+                  <Label>開始ノード</Label>
+                  <Select value={form.rootNodeId} onValueChange={(value) => setForm((prev) => ({ ...prev, rootNodeId: value }))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {form.nodes.filter((node) => node.id.trim()).map((node) => (
+                        <SelectItem key={node.id} value={node.id}>{node.id}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="isActive"
+                  checked={form.isActive}
+                  onCheckedChange={(checked) => setForm((prev) => ({ ...prev, isActive: checked === true }))}
+                />
+                <Label htmlFor="isActive">チャットで使用する</Label>
+              </div>
+
+              <div className="grid gap-3">
+                <div className="flex items-center justify-between">
+                  <Label>ノード</Label>
+                  <Button type="button" variant="outline" size="sm" onClick={handleAddNode}>
+                    <Plus className="mr-1 h-4 w-4" />
+                    ノード追加
+                  </Button>
+                </div>
+
+                {form.nodes.map((node, nodeIndex) => (
+                  <div key={nodeIndex} className="rounded-md border border-blue-200 p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={node.id}
+                        onChange={(e) => updateNode(nodeIndex, { id: e.target.value })}
+                        placeholder="ノードID"
+                        className="w-40"
+                      />
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`hazard-${nodeIndex}`}
+                          checked={node.hazard}
+                          onCheckedChange={(checked) => updateNode(nodeIndex, { hazard: checked === true })}
+                        />
+                        <Label htmlFor={`hazard-${nodeIndex}`} className="text-red-600">危険作業</Label>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="ml-auto text-red-500 hover:text-red-700"
+                        onClick={() => handleRemoveNode(nodeIndex)}
+                        disabled={form.nodes.length <= 1}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <Textarea
+                      value={node.instruction}
+                      onChange={(e) => updateNode(nodeIndex, { instruction: e.target.value })}
+                      placeholder="作業者への指示（例: バッテリーの電圧を測定してください）"
+                    />
+                    <Input
+                      value={node.imageUrl || ""}
+                      onChange={(e) => updateNode(nodeIndex, { imageUrl: e.target.value })}
+                      placeholder="参考画像のURL（任意）"
+                    />
+
+                    {node.branches.map((branch, branchIndex) => (
+                      <div key={branchIndex} className="flex items-center gap-2">
+                        <Input
+                          value={branch.answer}
+                          onChange={(e) => updateBranch(nodeIndex, branchIndex, { answer: e.target.value })}
+                          placeholder="回答（例: 12V以上）"
+                        />
+                        <span className="text-sm text-blue-400 whitespace-nowrap">→</span>
+                        <Select
+                          value={branch.nextNodeId ?? END_OF_TREE}
+                          onValueChange={(value) => updateBranch(nodeIndex, branchIndex, { nextNodeId: value === END_OF_TREE ? null : value })}
+                        >
+                          <SelectTrigger className="w-40">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={END_OF_TREE}>終了</SelectItem>
+                            {form.nodes
+                              .filter((target) => target.id.trim() && target.id !== node.id)
+                              .map((target) => (
+                                <SelectItem key={target.id} value={target.id}>{target.id}</SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemoveBranch(nodeIndex, branchIndex)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button type="button" variant="outline" size="sm" onClick={() => handleAddBranch(nodeIndex)}>
+                      <Plus className="mr-1 h-4 w-4" />
+                      回答追加
+                    </Button>
+                    {node.branches.length === 0 && (
+                      <p className="text-xs text-blue-400">回答がないノードは手順の終了として扱われます。</p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setShowFormDialog(false)}
+              >
+                キャンセル
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveTreeMutation.isPending}
+              >
+                {saveTreeMutation.isPending ? "保存中..." : "保存"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* ツリー削除確認ダイアログ */}
+      <Dialog open={showDeleteConfirmDialog} onOpenChange={setShowDeleteConfirmDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <AlertCircle className="h-5 w-5 mr-2 text-red-500" />
+              判定ツリー削除の確認
+            </DialogTitle>
+            <DialogDescription>
+              削除すると、このツリーの実行記録も削除されます。
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setShowDeleteConfirmDialog(false)}
+            >
+              キャンセル
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteTreeMutation.mutate()}
+              disabled={deleteTreeMutation.isPending}
+            >
+              {deleteTreeMutation.isPending ? "削除中..." : "削除"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -68,13 +68,13 @@ const documentTypes = [
 ];
 
 export default function DocumentsPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const { toast } = useToast();
   const [, navigate] = useLocation();
 
   // 管理者でない場合はホームページにリダイレクト
   useEffect(() => {
-    if (user && user.role !== "admin") {
+    if (user && !can("knowledge:manage")) {
       navigate("/");
     }
   }, [user, navigate]);
@@ -180,7 +180,7 @@ export default function DocumentsPage() {
   };
 
   // 管理者でない場合のローディング表示
-  if (!user || (user && user.role !== "admin")) {
+  if (!user || !can("knowledge:manage")) {
     return <div>Loading...</div>;
   }
 
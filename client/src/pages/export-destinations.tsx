@@ -0,0 +1,652 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Share2, Plus, ArrowLeft, Edit, Trash2, AlertCircle, Send, History, RefreshCw } from "lucide-react";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import type { ExportDeliveryStatus, ExportDestinationType } from "@shared/schema";
+
+// API から受け取る送信先（シークレット・パスワードは返されない）
+interface ExportDestinationData {
+  id: number;
+  name: string;
+  type: ExportDestinationType;
+  isActive: boolean;
+  hasSecret: boolean;
+  config: {
+    url?: string;
+    path?: string;
+    host?: string;
+    port?: number;
+    secure?: boolean;
+    username?: string;
+    allowInsecureAuth?: boolean;
+    from?: string;
+    to?: string[];
+  };
+}
+
+interface ExportDeliveryData {
+  id: number;
+  exportId: number;
+  chatId: number;
+  destinationName: string;
+  destinationType: ExportDestinationType;
+  status: ExportDeliveryStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+// 編集フォームの値（種類ごとの設定をまとめて持つ）
+interface ExportDestinationFormData {
+  name: string;
+  type: ExportDestinationType;
+  isActive: boolean;
+  url: string;
+  secret: string;
+  path: string;
+  host: string;
+  port: string;
+  secure: boolean;
+  username: string;
+  password: string;
+  allowInsecureAuth: boolean;
+  from: string;
+  to: string;
+}
+
+const emptyForm: ExportDestinationFormData = {
+  name: "",
+  type: "webhook",
+  isActive: true,
+  url: "",
+  secret: "",
+  path: "",
+  host: "",
+  port: "587",
+  secure: false,
+  username: "",
+  password: "",
+  allowInsecureAuth: false,
+  from: "",
+  to: "",
+};
+
+const TYPE_LABELS: Record<ExportDestinationType, string> = {
+  webhook: "Webhook",
+  folder: "共有フォルダ",
+  email: "メール",
+};
+
+const STATUS_LABELS: Record<ExportDeliveryStatus, string> = {
+  pending: "配信待ち",
+  delivered: "配信済み",
+  failed: "失敗",
+};
+
+const STATUS_CLASSES: Record<ExportDeliveryStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  delivered: "bg-green-100 text-green-800",
+  failed: "bg-red-100 text-red-800",
+};
+
+// カンマ（全角・読点含む）区切りの文字列を配列に変換
+const splitList = (value: string) =>
+  value.split(/[,、，]/).map((item) => item.trim()).filter((item) => item.length > 0);
+
+// 署名用シークレットを生成する（32バイトの16進数）
+const generateSecret = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(32)), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const formatTime = (value: string | null) => (value ? format(new Date(value), "yyyy/MM/dd HH:mm:ss") : "-");
+
+// 一覧に表示する宛先
+const describeDestination = (destination: ExportDestinationData) => {
+  switch (destination.type) {
+    case "webhook":
+      return destination.config.url;
+    case "folder":
+      return destination.config.path;
+    case "email":
+      return destination.config.to?.join(", ");
+  }
+};
+
+export default function ExportDestinationsPage() {
+  const { toast } = useToast();
+
+  const { data: destinations, isLoading } = useQuery<ExportDestinationData[]>({
+    queryKey: ["/api/export-destinations"],
+    refetchOnWindowFocus: false,
+  });
+  const { data: deliveries, refetch: refetchDeliveries, isFetching: isFetchingDeliveries } = useQuery<ExportDeliveryData[]>({
+    queryKey: ["/api/export-deliveries"],
+    refetchOnWindowFocus: false,
+  });
+
+  const [showFormDialog, setShowFormDialog] = useState(false);
+  const [showDeleteConfirmDialog, setShowDeleteConfirmDialog] = useState(false);
+  // 編集中の送信先（nullの場合は新規作成）
+  const [selectedDestination, setSelectedDestination] = useState<ExportDestinationData | null>(null);
+  const [form, setForm] = useState<ExportDestinationFormData>(emptyForm);
+
+  // 新規作成準備
+  const handleNewDestination = () => {
+    setSelectedDestination(null);
+    setForm({ ...emptyForm, secret: generateSecret() });
+    setShowFormDialog(true);
+  };
+
+  // 編集準備（シークレット・パスワードは空欄にし、入力がなければ変更しない）
+  const handleEditDestination = (destination: ExportDestinationData) => {
+    setSelectedDestination(destination);
+    setForm({
+      ...emptyForm,
+      name: destination.name,
+      type: destination.type,
+      isActive: destination.isActive,
+      url: destination.config.url || "",
+      path: destination.config.path || "",
+      host: destination.config.host || "",
+      port: String(destination.config.port || 587),
+      secure: destination.config.secure || false,
+      username: destination.config.username || "",
+      allowInsecureAuth: destination.config.allowInsecureAuth || false,
+      from: destination.config.from || "",
+      to: destination.config.to?.join(", ") || "",
+    });
+    setShowFormDialog(true);
+  };
+
+  // 削除準備
+  const handleDeleteDestination = (destination: ExportDestinationData) => {
+    setSelectedDestination(destination);
+    setShowDeleteConfirmDialog(true);
+  };
+
+  // 入力フィールド更新処理
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  // 送信先の作成・更新のミューテーション
+  const saveDestinationMutation = useMutation({
+    mutationFn: async (formData: ExportDestinationFormData) => {
+      const config =
+        formData.type === "webhook"
+          ? { url: formData.url.trim(), secret: formData.secret.trim() || undefined }
+          : formData.type === "folder"
+            ? { path: formData.path.trim() }
+            : {
+                host: formData.host.trim(),
+                port: parseInt(formData.port) || 587,
+                secure: formData.secure,
+                username: formData.username.trim() || undefined,
+                password: formData.password || undefined,
+                allowInsecureAuth: formData.allowInsecureAuth,
+                from: formData.from.trim(),
+                to: splitList(formData.to),
+              };
+      const payload = { name: formData.name.trim(), type: formData.type, isActive: formData.isActive, config };
+      const res = selectedDestination
+        ? await apiRequest("PUT", `/api/export-destinations/${selectedDestination.id}`, payload)
+        : await apiRequest("POST", "/api/export-destinations", payload);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/export-destinations"] });
+      toast({
+        title: selectedDestination ? "送信先更新完了" : "送信先登録完了",
+        description: "履歴送信先が保存されました",
+      });
+      setShowFormDialog(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "送信先保存失敗",
+        description: error.message || "送信先の保存中にエラーが発生しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // 送信先削除のミューテーション
+  const deleteDestinationMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedDestination) throw new Error("送信先が選択されていません");
+      await apiRequest("DELETE", `/api/export-destinations/${selectedDestination.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/export-destinations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/export-deliveries"] });
+      toast({
+        title: "送信先削除完了",
+        description: "送信先が削除されました",
+      });
+      setShowDeleteConfirmDialog(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "送信先削除失敗",
+        description: error.message || "送信先の削除中にエラーが発生しました",
+        variant: "destructive",
+      });
+      setShowDeleteConfirmDialog(false);
+    },
+  });
+
+  // テスト送信のミューテーション
+  const testDestinationMutation = useMutation({
+    mutationFn: async (destinationId: number) => {
+      const res = await apiRequest("POST", `/api/export-destinations/${destinationId}/test`);
+      return (await res.json()) as { success: boolean; error: string | null };
+    },
+    onSuccess: (result) => {
+      toast(result.success
+        ? { title: "テスト送信成功", description: "送信先に届きました" }
+        : { title: "テスト送信失敗", description: result.error || "送信できませんでした", variant: "destructive" });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "テスト送信失敗",
+        description: error.message || "テスト送信中にエラーが発生しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // フォーム送信処理
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // バリデーション
+    const missing =
+      !form.name.trim() ||
+      (form.type === "webhook" && (!form.url.trim() || (!selectedDestination?.hasSecret && form.secret.trim().length < 16))) ||
+      (form.type === "folder" && !form.path.trim()) ||
+      (form.type === "email" && (!form.host.trim() || !form.from.trim() || splitList(form.to).length === 0));
+    if (missing) {
+      toast({
+        title: "入力エラー",
+        description: "名前と送信先の設定を入力してください（シークレットは16文字以上）",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveDestinationMutation.mutate(form);
+  };
+
+  const isEditingSecret = Boolean(selectedDestination?.hasSecret && selectedDestination.type === form.type);
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 md:p-6 max-w-6xl mx-auto w-full">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center">
+            <Share2 className="mr-2 h-6 w-6" />
+            履歴送信先
+          </h1>
+          <p className="text-neutral-300">履歴送信のたびに報告書と会話記録を届ける送信先を管理します</p>
+        </div>
+
+        <div className="flex space-x-2">
+          <Link href="/settings">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              設定に戻る
+            </Button>
+          </Link>
+          <Button onClick={handleNewDestination}>
+            <Plus className="mr-2 h-4 w-4" />
+            新規送信先登録
+          </Button>
+        </div>
+      </div>
+
+      <Card className="mb-4">
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center">
+            <Share2 className="mr-2 h-5 w-5" />
+            送信先一覧
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center p-4">読み込み中...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>名前</TableHead>
+                  <TableHead>種類</TableHead>
+                  <TableHead>宛先</TableHead>
+                  <TableHead>状態</TableHead>
+                  <TableHead className="text-right">アクション</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {destinations && destinations.length > 0 ? (
+                  destinations.map((destination) => (
+                    <TableRow key={destination.id}>
+                      <TableCell className="font-medium">{destination.name}</TableCell>
+                      <TableCell>{TYPE_LABELS[destination.type]}</TableCell>
+                      <TableCell className="max-w-xs truncate">{describeDestination(destination) || "-"}</TableCell>
+                      <TableCell>
+                        <Badge variant={destination.isActive ? "default" : "secondary"}>
+                          {destination.isActive ? "有効" : "無効"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => testDestinationMutation.mutate(destination.id)}
+                            disabled={testDestinationMutation.isPending}
+                            title="テスト送信"
+                          >
+                            <Send className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleEditDestination(destination)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDeleteDestination(destination)}
+                            className="text-red-500 hover:text-red-700"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center">
+                      送信先が登録されていません（履歴送信は記録のみ行われます）
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center justify-between">
+            <span className="flex items-center">
+              <History className="mr-2 h-5 w-5" />
+              配信ログ
+            </span>
+            <Button variant="outline" size="sm" onClick={() => refetchDeliveries()} disabled={isFetchingDeliveries}>
+              <RefreshCw className={`h-4 w-4 ${isFetchingDeliveries ? "animate-spin" : ""}`} />
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>送信日時</TableHead>
+                <TableHead>チャット</TableHead>
+                <TableHead>送信先</TableHead>
+                <TableHead>状態</TableHead>
+                <TableHead>試行回数</TableHead>
+                <TableHead>配信日時・次回試行</TableHead>
+                <TableHead>エラー</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries && deliveries.length > 0 ? (
+                deliveries.map((delivery) => (
+                  <TableRow key={delivery.id}>
+                    <TableCell className="whitespace-nowrap">{formatTime(delivery.createdAt)}</TableCell>
+                    <TableCell>#{delivery.chatId}</TableCell>
+                    <TableCell>{delivery.destinationName}（{TYPE_LABELS[delivery.destinationType]}）</TableCell>
+                    <TableCell>
+                      <span className={`rounded px-2 py-0.5 text-xs whitespace-nowrap ${STATUS_CLASSES[delivery.status]}`}>
+                        {STATUS_LABELS[delivery.status]}
+                      </span>
+                    </TableCell>
+                    <TableCell>{delivery.attempts}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {delivery.status === "pending" ? formatTime(delivery.nextAttemptAt) : formatTime(delivery.deliveredAt)}
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate text-red-600" title={delivery.lastError || undefined}>
+                      {delivery.lastError || "-"}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center">
+                    配信の記録はありません
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* 送信先登録・編集ダイアログ */}
+      <Dialog open={showFormDialog} onOpenChange={setShowFormDialog}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedDestination ? "送信先編集" : "新規送信先登録"}</DialogTitle>
+            <DialogDescription>
+              履歴送信のたびに、報告書（PDF・Word）と会話記録をこの送信先へ届けます。
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit}>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="name">名前</Label>
+                <Input id="name" name="name" value={form.name} onChange={handleInputChange} placeholder="例: 保守事務所" required />
+              </div>
+
+              <div className="grid gap-2">
+                <Label>種類</Label>
+                <Select value={form.type} onValueChange={(value) => setForm((prev) => ({ ...prev, type: value as ExportDestinationType }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(TYPE_LABELS) as ExportDestinationType[]).map((type) => (
+                      <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {form.type === "webhook" && (
+                <>
+                  <div className="grid gap-2">
+                    <Label htmlFor="url">URL</Label>
+                    <Input id="url" name="url" value={form.url} onChange={handleInputChange} placeholder="https://example.com/hooks/chat-export" />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="secret">署名用シークレット</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="secret"
+                        name="secret"
+                        value={form.secret}
+                        onChange={handleInputChange}
+                        placeholder={isEditingSecret ? "変更しない場合は空欄" : "16文字以上"}
+                        className="font-mono text-xs"
+                      />
+                      <Button type="button" variant="outline" size="sm" onClick={() => setForm((prev) => ({ ...prev, secret: generateSecret() }))}>
+                        生成
+                      </Button>
+                    </div>
+                    <p className="text-xs text-blue-400">
+                      受信側は X-Export-Signature ヘッダー（X-Export-Timestamp と本文の HMAC-SHA256）で検証してください。保存後は表示されません。
+                    </p>
+                  </div>
+                </>
+              )}
+
+              {form.type === "folder" && (
+                <div className="grid gap-2">
+                  <Label htmlFor="path">フォルダのパス</Label>
+                  <Input id="path" name="path" value={form.path} onChange={handleInputChange} placeholder="/mnt/shared/chat-exports" />
+                  <p className="text-xs text-blue-400">サーバーから書き込めるフォルダの絶対パスを指定してください。</p>
+                </div>
+              )}
+
+              {form.type === "email" && (
+                <>
+                  <div className="grid grid-cols-3 gap-3">
+                    <div className="grid gap-2 col-span-2">
+                      <Label htmlFor="host">SMTPサーバー</Label>
+                      <Input id="host" name="host" value={form.host} onChange={handleInputChange} placeholder="smtp.example.com" />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="port">ポート</Label>
+                      <Input id="port" name="port" type="number" value={form.port} onChange={handleInputChange} />
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="secure"
+                      checked={form.secure}
+                      onCheckedChange={(checked) => setForm((prev) => ({ ...prev, secure: checked === true }))}
+                    />
+                    <Label htmlFor="secure">接続時からTLSを使う（ポート465など）</Label>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="grid gap-2">
+                      <Label htmlFor="username">ユーザー名</Label>
+                      <Input id="username" name="username" value={form.username} onChange={handleInputChange} />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="password">パスワード</Label>
+                      <Input
+                        id="password"
+                        name="password"
+                        type="password"
+                        value={form.password}
+                        onChange={handleInputChange}
+                        placeholder={isEditingSecret ? "変更しない場合は空欄" : ""}
+                      />
+                    </div>
+                  </div>
+                  {/* STARTTLS に対応していないサーバーでは、明示的に許可した場合だけ平文で認証する */}
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="allowInsecureAuth"
+                      checked={form.allowInsecureAuth}
+                      onCheckedChange={(checked) => setForm((prev) => ({ ...prev, allowInsecureAuth: checked === true }))}
+                    />
+                    <Label htmlFor="allowInsecureAuth">暗号化されていない接続でも認証する（パスワードが平文で送られます）</Label>
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="from">差出人</Label>
+                    <Input id="from" name="from" value={form.from} onChange={handleInputChange} placeholder="chat@example.com" />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="to">宛先</Label>
+                    <Input id="to" name="to" value={form.to} onChange={handleInputChange} placeholder="カンマ区切りで複数指定" />
+                  </div>
+                </>
+              )}
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="isActive"
+                  checked={form.isActive}
+                  onCheckedChange={(checked) => setForm((prev) => ({ ...prev, isActive: checked === true }))}
+                />
+                <Label htmlFor="isActive">履歴送信で使用する</Label>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setShowFormDialog(false)}
+              >
+                キャンセル
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveDestinationMutation.isPending}
+              >
+                {saveDestinationMutation.isPending ? "保存中..." : "保存"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* 送信先削除確認ダイアログ */}
+      <Dialog open={showDeleteConfirmDialog} onOpenChange={setShowDeleteConfirmDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <AlertCircle className="h-5 w-5 mr-2 text-red-500" />
+              送信先削除の確認
+            </DialogTitle>
+            <DialogDescription>
+              「{selectedDestination?.name}」を削除しますか？これまでの配信ログは残ります。
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setShowDeleteConfirmDialog(false)}
+            >
+              キャンセル
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteDestinationMutation.mutate()}
+              disabled={deleteDestinationMutation.isPending}
+            >
+              {deleteDestinationMutation.isPending ? "削除中..." : "削除"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,428 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/context/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Book, Plus, ArrowLeft, Edit, Trash2, AlertCircle } from "lucide-react";
+import { useLocation, Link } from "wouter";
+
+// 用語辞書エントリのインターフェース
+interface GlossaryTermData {
+  id: number;
+  term: string;
+  category: string | null;
+  synonyms: string[];
+  readings: string[];
+  boost: number;
+  promptHint: string | null;
+}
+
+// 編集フォームの値（同義語・読みはカンマ区切りで入力）
+interface GlossaryFormData {
+  term: string;
+  category: string;
+  synonyms: string;
+  readings: string;
+  boost: string;
+  promptHint: string;
+}
+
+const emptyForm: GlossaryFormData = {
+  term: "",
+  category: "",
+  synonyms: "",
+  readings: "",
+  boost: "1",
+  promptHint: "",
+};
+
+// カンマ（全角・読点含む）区切りの文字列を配列に変換
+const splitList = (value: string) =>
+  value.split(/[,、，]/).map((item) => item.trim()).filter((item) => item.length > 0);
+
+export default function GlossaryPage() {
+  const { user, can } = useAuth();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+
+  // 管理者でない場合はホームページにリダイレクト
+  useEffect(() => {
+    if (user && !can("glossary:manage")) {
+      navigate("/");
+    }
+  }, [user, navigate]);
+
+  // 用語辞書の取得
+  const { data: terms, isLoading } = useQuery<GlossaryTermData[]>({
+    queryKey: ["/api/glossary"],
+    refetchOnWindowFocus: false,
+  });
+
+  const [showFormDialog, setShowFormDialog] = useState(false);
+  const [showDeleteConfirmDialog, setShowDeleteConfirmDialog] = useState(false);
+  // 編集中の用語ID（nullの場合は新規作成）
+  const [selectedTermId, setSelectedTermId] = useState<number | null>(null);
+  const [form, setForm] = useState<GlossaryFormData>(emptyForm);
+
+  // 新規作成準備
+  const handleNewTerm = () => {
+    setSelectedTermId(null);
+    setForm(emptyForm);
+    setShowFormDialog(true);
+  };
+
+  // 編集準備
+  const handleEditTerm = (term: GlossaryTermData) => {
+    setSelectedTermId(term.id);
+    setForm({
+      term: term.term,
+      category: term.category || "",
+      synonyms: term.synonyms.join(", "),
+      readings: term.readings.join(", "),
+      boost: String(term.boost),
+      promptHint: term.promptHint || "",
+    });
+    setShowFormDialog(true);
+  };
+
+  // 削除準備
+  const handleDeleteTerm = (termId: number) => {
+    setSelectedTermId(termId);
+    setShowDeleteConfirmDialog(true);
+  };
+
+  // 入力フィールド更新処理
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  // 用語の作成・更新のミューテーション
+  const saveTermMutation = useMutation({
+    mutationFn: async (formData: GlossaryFormData) => {
+      const payload = {
+        term: formData.term.trim(),
+        category: formData.category.trim() || null,
+        synonyms: splitList(formData.synonyms),
+        readings: splitList(formData.readings),
+        boost: parseInt(formData.boost) || 0,
+        promptHint: formData.promptHint.trim() || null,
+      };
+      const res = selectedTermId
+        ? await apiRequest("PATCH", `/api/glossary/${selectedTermId}`, payload)
+        : await apiRequest("POST", "/api/glossary", payload);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/glossary"] });
+      toast({
+        title: selectedTermId ? "用語更新完了" : "用語登録完了",
+        description: "用語辞書が更新されました",
+      });
+      setShowFormDialog(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "用語保存失敗",
+        description: error.message || "用語の保存中にエラーが発生しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // 用語削除のミューテーション
+  const deleteTermMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedTermId) throw new Error("用語が選択されていません");
+      await apiRequest("DELETE", `/api/glossary/${selectedTermId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/glossary"] });
+      toast({
+        title: "用語削除完了",
+        description: "用語が削除されました",
+      });
+      setShowDeleteConfirmDialog(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "用語削除失敗",
+        description: error.message || "用語の削除中にエラーが発生しました",
+        variant: "destructive",
+      });
+      setShowDeleteConfirmDialog(false);
+    },
+  });
+
+  // フォーム送信処理
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // バリデーション
+    const boost = parseInt(form.boost);
+    if (!form.term.trim() || isNaN(boost) || boost < 0 || boost > 10) {
+      toast({
+        title: "入力エラー",
+        description: "用語を入力し、重みは0〜10で指定してください",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveTermMutation.mutate(form);
+  };
+
+  // 管理者でない場合のローディング表示
+  if (!user || !can("glossary:manage")) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 md:p-6 max-w-5xl mx-auto w-full">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center">
+            <Book className="mr-2 h-6 w-6" />
+            用語辞書
+          </h1>
+          <p className="text-neutral-300">検索の同義語展開とAIへの検索ヒントに使う用語を管理します</p>
+        </div>
+
+        <div className="flex space-x-2">
+          <Link href="/settings">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              設定に戻る
+            </Button>
+          </Link>
+          <Button onClick={handleNewTerm}>
+            <Plus className="mr-2 h-4 w-4" />
+            新規用語登録
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center">
+            <Book className="mr-2 h-5 w-5" />
+            用語一覧
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center p-4">読み込み中...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>用語</TableHead>
+                  <TableHead>分類</TableHead>
+                  <TableHead>同義語</TableHead>
+                  <TableHead>読み</TableHead>
+                  <TableHead>重み</TableHead>
+                  <TableHead className="text-right">アクション</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {terms && terms.length > 0 ? (
+                  terms.map((term) => (
+                    <TableRow key={term.id}>
+                      <TableCell className="font-medium">{term.term}</TableCell>
+                      <TableCell>{term.category || "-"}</TableCell>
+                      <TableCell>{term.synonyms.join("、") || "-"}</TableCell>
+                      <TableCell>{term.readings.join("、") || "-"}</TableCell>
+                      <TableCell>{term.boost}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleEditTerm(term)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDeleteTerm(term.id)}
+                            className="text-red-500 hover:text-red-700"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center">
+                      用語が登録されていません
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 用語登録・編集ダイアログ */}
+      <Dialog open={showFormDialog} onOpenChange={setShowFormDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedTermId ? "用語編集" : "新規用語登録"}</DialogTitle>
+            <DialogDescription>
+              同義語と読みはカンマ区切りで入力してください。
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit}>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="term">用語</Label>
+                <Input
+                  id="term"
+                  name="term"
+                  value={form.term}
+                  onChange={handleInputChange}
+                  required
+                />
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="category">分類</Label>
+                <Input
+                  id="category"
+                  name="category"
+                  value={form.category}
+                  onChange={handleInputChange}
+                  placeholder="例: 部位、故障、操作"
+                />
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="synonyms">同義語</Label>
+                <Input
+                  id="synonyms"
+                  name="synonyms"
+                  value={form.synonyms}
+                  onChange={handleInputChange}
+                  placeholder="例: ブレーキ, 制動装置"
+                />
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="readings">読み</Label>
+                <Input
+                  id="readings"
+                  name="readings"
+                  value={form.readings}
+                  onChange={handleInputChange}
+                  placeholder="例: せいどう"
+                />
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="boost">重み (0〜10)</Label>
+                <Input
+                  id="boost"
+                  name="boost"
+                  type="number"
+                  min={0}
+                  max={10}
+                  value={form.boost}
+                  onChange={handleInputChange}
+                />
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="promptHint">検索ヒント</Label>
+                <Textarea
+                  id="promptHint"
+                  name="promptHint"
+                  value={form.promptHint}
+                  onChange={handleInputChange}
+                  placeholder="この用語が質問に含まれる場合にAIへ伝える検索のヒント"
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setShowFormDialog(false)}
+              >
+                キャンセル
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveTermMutation.isPending}
+              >
+                {saveTermMutation.isPending ? "保存中..." : "保存"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* 用語削除確認ダイアログ */}
+      <Dialog open={showDeleteConfirmDialog} onOpenChange={setShowDeleteConfirmDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <AlertCircle className="h-5 w-5 mr-2 text-red-500" />
+              用語削除の確認
+            </DialogTitle>
+            <DialogDescription>
+              削除した用語は検索の同義語展開とヒントに使われなくなります。
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="py-4">
+            <p className="text-center font-medium">本当にこの用語を削除しますか？</p>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setShowDeleteConfirmDialog(false)}
+            >
+              キャンセル
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={() => deleteTermMutation.mutate()}
+              disabled={deleteTermMutation.isPending}
+            >
+              {deleteTermMutation.isPending ? "削除中..." : "削除"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardList, ArrowLeft, RotateCcw } from "lucide-react";
+import { Link } from "wouter";
+import type { IncidentSeverity, IncidentStatus } from "@shared/schema";
+import {
+  type IncidentData,
+  INCIDENT_STATUS_LABELS,
+  INCIDENT_SEVERITY_LABELS,
+  INCIDENT_STATUS_CLASSES,
+  INCIDENT_SEVERITY_CLASSES,
+  SYMPTOM_CATEGORIES,
+  formatIncidentTime,
+} from "@/lib/incident";
+
+// 絞り込み条件（空文字は条件なし）
+interface IncidentFilterForm {
+  status: IncidentStatus | "";
+  severity: IncidentSeverity | "";
+  vehicle: string;
+  symptomCategory: string;
+  from: string;
+  to: string;
+}
+
+const emptyFilter: IncidentFilterForm = {
+  status: "",
+  severity: "",
+  vehicle: "",
+  symptomCategory: "",
+  from: "",
+  to: "",
+};
+
+// Select で「すべて」を表す値（空文字は SelectItem に使えないため）
+const ALL = "all";
+
+// 絞り込み条件をクエリ文字列に変換する（終了日はその日の終わりまでを含める）
+const toQueryString = (filter: IncidentFilterForm) => {
+  const params = new URLSearchParams();
+  if (filter.status) params.set("status", filter.status);
+  if (filter.severity) params.set("severity", filter.severity);
+  if (filter.vehicle.trim()) params.set("vehicle", filter.vehicle.trim());
+  if (filter.symptomCategory) params.set("symptomCategory", filter.symptomCategory);
+  if (filter.from) params.set("from", new Date(`${filter.from}T00:00:00`).toISOString());
+  if (filter.to) params.set("to", new Date(`${filter.to}T23:59:59`).toISOString());
+  return params.toString();
+};
+
+export default function IncidentsPage() {
+  const [filter, setFilter] = useState<IncidentFilterForm>(emptyFilter);
+
+  const queryString = toQueryString(filter);
+  const { data: incidents, isLoading } = useQuery<IncidentData[]>({
+    queryKey: [queryString ? `/api/incidents?${queryString}` : "/api/incidents"],
+    refetchOnWindowFocus: false,
+  });
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFilter((prev) => ({ ...prev, [name]: value }));
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 md:p-6 max-w-6xl mx-auto w-full">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center">
+            <ClipboardList className="mr-2 h-6 w-6" />
+            インシデント一覧
+          </h1>
+          <p className="text-neutral-300">復旧チャットで記録された故障対応を確認します</p>
+        </div>
+
+        <Link href="/settings">
+          <Button variant="outline" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            設定に戻る
+          </Button>
+        </Link>
+      </div>
+
+      <Card className="mb-4">
+        <CardContent className="pt-4">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+            <div className="space-y-1">
+              <Label>状態</Label>
+              <Select
+                value={filter.status || ALL}
+                onValueChange={(value) => setFilter((prev) => ({ ...prev, status: value === ALL ? "" : value as IncidentStatus }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>すべて</SelectItem>
+                  {(Object.keys(INCIDENT_STATUS_LABELS) as IncidentStatus[]).map((status) => (
+                    <SelectItem key={status} value={status}>{INCIDENT_STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>重大度</Label>
+              <Select
+                value={filter.severity || ALL}
+                onValueChange={(value) => setFilter((prev) => ({ ...prev, severity: value === ALL ? "" : value as IncidentSeverity }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>すべて</SelectItem>
+                  {(Object.keys(INCIDENT_SEVERITY_LABELS) as IncidentSeverity[]).map((severity) => (
+                    <SelectItem key={severity} value={severity}>{INCIDENT_SEVERITY_LABELS[severity]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>症状分類</Label>
+              <Select
+                value={filter.symptomCategory || ALL}
+                onValueChange={(value) => setFilter((prev) => ({ ...prev, symptomCategory: value === ALL ? "" : value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>すべて</SelectItem>
+                  {SYMPTOM_CATEGORIES.map((category) => (
+                    <SelectItem key={category} value={category}>{category}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="vehicle">車両</Label>
+              <Input id="vehicle" name="vehicle" value={filter.vehicle} onChange={handleInputChange} placeholder="部分一致" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="from">発生日（から）</Label>
+              <Input id="from" name="from" type="date" value={filter.from} onChange={handleInputChange} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="to">発生日（まで）</Label>
+              <Input id="to" name="to" type="date" value={filter.to} onChange={handleInputChange} />
+            </div>
+          </div>
+          <div className="flex justify-end mt-3">
+            <Button variant="outline" size="sm" onClick={() => setFilter(emptyFilter)}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              条件をクリア
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center">
+            <ClipboardList className="mr-2 h-5 w-5" />
+            記録一覧
+            {incidents && <span className="ml-2 text-sm font-normal text-neutral-400">{incidents.length}件</span>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center p-4">読み込み中...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>発生日時</TableHead>
+                  <TableHead>車両</TableHead>
+                  <TableHead>場所</TableHead>
+                  <TableHead>症状分類</TableHead>
+                  <TableHead>重大度</TableHead>
+                  <TableHead>状態</TableHead>
+                  <TableHead>終了日時</TableHead>
+                  <TableHead>対応結果</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {incidents && incidents.length > 0 ? (
+                  incidents.map((incident) => (
+                    <TableRow key={incident.id}>
+                      <TableCell className="whitespace-nowrap">{formatIncidentTime(incident.startedAt)}</TableCell>
+                      <TableCell className="font-medium">{incident.vehicle || "-"}</TableCell>
+                      <TableCell>{incident.location || "-"}</TableCell>
+                      <TableCell>{incident.symptomCategory || "-"}</TableCell>
+                      <TableCell>
+                        <span className={`rounded px-2 py-0.5 text-xs ${INCIDENT_SEVERITY_CLASSES[incident.severity]}`}>
+                          {INCIDENT_SEVERITY_LABELS[incident.severity]}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <span className={`rounded px-2 py-0.5 text-xs whitespace-nowrap ${INCIDENT_STATUS_CLASSES[incident.status]}`}>
+                          {INCIDENT_STATUS_LABELS[incident.status]}
+                        </span>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatIncidentTime(incident.endedAt)}</TableCell>
+                      <TableCell className="max-w-xs truncate" title={incident.resolutionSummary || undefined}>
+                        {incident.resolutionSummary || "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center">
+                      該当するインシデントはありません
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
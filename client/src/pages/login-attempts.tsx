@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { ShieldAlert, ArrowLeft, Search } from "lucide-react";
+import { Link } from "wouter";
+import type { LoginAttempt, LoginAttemptResult } from "@shared/schema";
+
+const resultLabels: Record<LoginAttemptResult, string> = {
+  success: "成功",
+  invalid_credentials: "認証失敗",
+  throttled: "待機中に拒否",
+  locked: "ロック中に拒否",
+  pending: "照合中",
+};
+
+const resultVariant = (result: LoginAttemptResult) =>
+  result === "success" ? "secondary" : result === "invalid_credentials" ? "outline" : "destructive";
+
+interface AttemptFilter {
+  username: string;
+  ipAddress: string;
+  result: LoginAttemptResult | "all";
+}
+
+const emptyFilter: AttemptFilter = { username: "", ipAddress: "", result: "all" };
+
+// 絞り込み条件をクエリ文字列にする（空欄の条件は付けない）
+const toQueryKey = (filter: AttemptFilter) => {
+  const params = new URLSearchParams();
+  if (filter.username.trim()) params.set("username", filter.username.trim());
+  if (filter.ipAddress.trim()) params.set("ipAddress", filter.ipAddress.trim());
+  if (filter.result !== "all") params.set("result", filter.result);
+  const query = params.toString();
+  return query ? `/api/login-attempts?${query}` : "/api/login-attempts";
+};
+
+export default function LoginAttemptsPage() {
+  const [form, setForm] = useState<AttemptFilter>(emptyFilter);
+  const [filter, setFilter] = useState<AttemptFilter>(emptyFilter);
+
+  // ログイン試行の履歴（新しい順）
+  const { data: attempts, isLoading } = useQuery<LoginAttempt[]>({
+    queryKey: [toQueryKey(filter)],
+    refetchOnWindowFocus: false,
+  });
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilter(form);
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 md:p-6 max-w-6xl mx-auto w-full">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center">
+            <ShieldAlert className="mr-2 h-6 w-6" />
+            ログイン履歴
+          </h1>
+          <p className="text-neutral-300">ログインの成功・失敗と、失敗が続いたときの拒否を確認します</p>
+        </div>
+
+        <Link href="/settings">
+          <Button variant="outline" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            設定に戻る
+          </Button>
+        </Link>
+      </div>
+
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <form onSubmit={handleSearch} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="grid gap-2">
+              <Label htmlFor="username">ユーザー名</Label>
+              <Input
+                id="username"
+                value={form.username}
+                onChange={(e) => setForm((prev) => ({ ...prev, username: e.target.value }))}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="ipAddress">IPアドレス</Label>
+              <Input
+                id="ipAddress"
+                value={form.ipAddress}
+                onChange={(e) => setForm((prev) => ({ ...prev, ipAddress: e.target.value }))}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>結果</Label>
+              <Select
+                value={form.result}
+                onValueChange={(value) => setForm((prev) => ({ ...prev, result: value as AttemptFilter["result"] }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">すべて</SelectItem>
+                  {(Object.keys(resultLabels) as LoginAttemptResult[]).map((result) => (
+                    <SelectItem key={result} value={result}>{resultLabels[result]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit">
+              <Search className="mr-2 h-4 w-4" />
+              検索
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center">
+            <ShieldAlert className="mr-2 h-5 w-5" />
+            試行一覧（最新200件）
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center p-4">読み込み中...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>日時</TableHead>
+                  <TableHead>ユーザー名</TableHead>
+                  <TableHead>結果</TableHead>
+                  <TableHead>IPアドレス</TableHead>
+                  <TableHead>ブラウザ</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attempts && attempts.length > 0 ? (
+                  attempts.map((attempt) => (
+                    <TableRow key={attempt.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(attempt.createdAt), "yyyy/MM/dd HH:mm:ss")}
+                      </TableCell>
+                      <TableCell>
+                        {attempt.username}
+                        {!attempt.userId && (
+                          <span className="ml-2 text-xs text-neutral-400">（未登録）</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={resultVariant(attempt.result)}>{resultLabels[attempt.result]}</Badge>
+                      </TableCell>
+                      <TableCell>{attempt.ipAddress || "-"}</TableCell>
+                      <TableCell className="max-w-xs truncate" title={attempt.userAgent || undefined}>
+                        {attempt.userAgent || "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center">
+                      ログイン履歴はありません
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
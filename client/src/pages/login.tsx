@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { loginSchema } from "@shared/schema";
@@ -8,11 +9,30 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { KeyRound } from "lucide-react";
+
+// SSO のコールバックで失敗したときに /login?sso_error=... で渡される理由
+const ssoErrorMessages: Record<string, string> = {
+  conflict: "同じユーザー名のアカウントが既にあるため、SSOでログインできません。管理者に連絡してください。",
+  failed: "SSOでのログインに失敗しました。もう一度お試しください。",
+};
+
+interface OidcConfig {
+  enabled: boolean;
+  buttonLabel?: string;
+}
 
 export default function Login() {
   const [isLoading, setIsLoading] = useState(false);
   const { login } = useAuth();
   const [, setLocation] = useLocation();
+  const ssoError = new URLSearchParams(window.location.search).get("sso_error");
+
+  // SSO が設定されている場合だけボタンを表示する
+  const { data: oidcConfig } = useQuery<OidcConfig>({
+    queryKey: ["/api/auth/oidc/config"],
+    retry: false,
+  });
 
   const form = useForm({
     resolver: zodResolver(loginSchema),
@@ -74,11 +94,35 @@ export default function Login() {
               </Button>
             </form>
           </Form>
+
+          {oidcConfig?.enabled && (
+            <div className="mt-4 space-y-2">
+              <div className="flex items-center gap-2 text-xs text-neutral-400">
+                <div className="h-px flex-1 bg-neutral-200" />
+                または
+                <div className="h-px flex-1 bg-neutral-200" />
+              </div>
+              {/* IdP へのリダイレクトはサーバーが行う */}
+              <Button variant="outline" className="w-full" asChild>
+                <a href="/api/auth/oidc/login">
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  {oidcConfig.buttonLabel || "社内アカウントでログイン"}
+                </a>
+              </Button>
+            </div>
+          )}
+
+          {ssoError && (
+            <p className="mt-4 text-sm text-red-600">
+              {ssoErrorMessages[ssoError] ?? ssoErrorMessages.failed}
+            </p>
+          )}
         </CardContent>
         <CardFooter className="flex flex-col space-y-2 text-center text-sm text-neutral-500">
           <p>デモ用ログイン情報:</p>
           <p>管理者: niina / 0077</p>
           <p>一般ユーザー: employee / employee123</p>
+          <p>初回ログイン時にパスワードの変更が必要です</p>
         </CardFooter>
       </Card>
     </div>
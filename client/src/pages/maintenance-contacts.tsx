@@ -0,0 +1,418 @@
+import { useState } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Phone, Plus, ArrowLeft, Edit, Trash2, AlertCircle } from "lucide-react";
+import { Link } from "wouter";
+import type { MaintenanceContact } from "@shared/schema";
+
+// 編集フォームの値（当番時刻は HH:MM、空欄なら終日）
+interface ContactFormData {
+  name: string;
+  department: string;
+  region: string;
+  shiftStart: string;
+  shiftEnd: string;
+  phone: string;
+  email: string;
+  priority: string;
+  isActive: boolean;
+  notes: string;
+}
+
+const emptyForm: ContactFormData = {
+  name: "",
+  department: "",
+  region: "",
+  shiftStart: "",
+  shiftEnd: "",
+  phone: "",
+  email: "",
+  priority: "1",
+  isActive: true,
+  notes: "",
+};
+
+const formatShift = (contact: MaintenanceContact) =>
+  contact.shiftStart && contact.shiftEnd ? `${contact.shiftStart}〜${contact.shiftEnd}` : "終日";
+
+export default function MaintenanceContactsPage() {
+  const { toast } = useToast();
+
+  // 連絡先の取得（優先順位順）
+  const { data: contacts, isLoading } = useQuery<MaintenanceContact[]>({
+    queryKey: ["/api/maintenance-contacts"],
+    refetchOnWindowFocus: false,
+  });
+
+  const [showFormDialog, setShowFormDialog] = useState(false);
+  const [showDeleteConfirmDialog, setShowDeleteConfirmDialog] = useState(false);
+  // 編集中の連絡先（nullの場合は新規作成）
+  const [selectedContact, setSelectedContact] = useState<MaintenanceContact | null>(null);
+  const [form, setForm] = useState<ContactFormData>(emptyForm);
+
+  // 新規作成準備
+  const handleNewContact = () => {
+    setSelectedContact(null);
+    setForm(emptyForm);
+    setShowFormDialog(true);
+  };
+
+  // 編集準備
+  const handleEditContact = (contact: MaintenanceContact) => {
+    setSelectedContact(contact);
+    setForm({
+      name: contact.name,
+      department: contact.department,
+      region: contact.region || "",
+      shiftStart: contact.shiftStart || "",
+      shiftEnd: contact.shiftEnd || "",
+      phone: contact.phone,
+      email: contact.email || "",
+      priority: String(contact.priority),
+      isActive: contact.isActive,
+      notes: contact.notes || "",
+    });
+    setShowFormDialog(true);
+  };
+
+  // 削除準備
+  const handleDeleteContact = (contact: MaintenanceContact) => {
+    setSelectedContact(contact);
+    setShowDeleteConfirmDialog(true);
+  };
+
+  // 入力フィールド更新処理
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  // 連絡先の作成・更新のミューテーション
+  const saveContactMutation = useMutation({
+    mutationFn: async (formData: ContactFormData) => {
+      const payload = {
+        name: formData.name.trim(),
+        department: formData.department.trim(),
+        region: formData.region.trim() || null,
+        shiftStart: formData.shiftStart || null,
+        shiftEnd: formData.shiftEnd || null,
+        phone: formData.phone.trim(),
+        email: formData.email.trim() || null,
+        priority: parseInt(formData.priority) || 1,
+        isActive: formData.isActive,
+        notes: formData.notes.trim() || null,
+      };
+      const res = selectedContact
+        ? await apiRequest("PATCH", `/api/maintenance-contacts/${selectedContact.id}`, payload)
+        : await apiRequest("POST", "/api/maintenance-contacts", payload);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-contacts"] });
+      toast({
+        title: selectedContact ? "連絡先更新完了" : "連絡先登録完了",
+        description: "保守担当者の連絡先が保存されました",
+      });
+      setShowFormDialog(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "連絡先保存失敗",
+        description: error.message || "連絡先の保存中にエラーが発生しました",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // 連絡先削除のミューテーション
+  const deleteContactMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedContact) throw new Error("連絡先が選択されていません");
+      await apiRequest("DELETE", `/api/maintenance-contacts/${selectedContact.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance-contacts"] });
+      toast({
+        title: "連絡先削除完了",
+        description: "連絡先が削除されました",
+      });
+      setShowDeleteConfirmDialog(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "連絡先削除失敗",
+        description: error.message || "連絡先の削除中にエラーが発生しました",
+        variant: "destructive",
+      });
+      setShowDeleteConfirmDialog(false);
+    },
+  });
+
+  // フォーム送信処理
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // バリデーション
+    if (!form.name.trim() || !form.department.trim() || !form.phone.trim()) {
+      toast({
+        title: "入力エラー",
+        description: "氏名・部署・電話番号は必須です",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (Boolean(form.shiftStart) !== Boolean(form.shiftEnd)) {
+      toast({
+        title: "入力エラー",
+        description: "当番時間は開始と終了の両方を入力してください（終日の場合は両方空欄）",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    saveContactMutation.mutate(form);
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 md:p-6 max-w-6xl mx-auto w-full">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center">
+            <Phone className="mr-2 h-6 w-6" />
+            保守担当者連絡先
+          </h1>
+          <p className="text-neutral-300">AIが保守担当者への連絡を求めたときに、当番の連絡先を優先順位順に案内します</p>
+        </div>
+
+        <div className="flex space-x-2">
+          <Link href="/settings">
+            <Button variant="outline" size="sm">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              設定に戻る
+            </Button>
+          </Link>
+          <Button onClick={handleNewContact}>
+            <Plus className="mr-2 h-4 w-4" />
+            新規連絡先登録
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle className="text-lg flex items-center">
+            <Phone className="mr-2 h-5 w-5" />
+            連絡先一覧
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center p-4">読み込み中...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>優先順位</TableHead>
+                  <TableHead>氏名</TableHead>
+                  <TableHead>部署</TableHead>
+                  <TableHead>担当地域</TableHead>
+                  <TableHead>当番時間</TableHead>
+                  <TableHead>電話番号</TableHead>
+                  <TableHead>状態</TableHead>
+                  <TableHead className="text-right">アクション</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {contacts && contacts.length > 0 ? (
+                  contacts.map((contact) => (
+                    <TableRow key={contact.id}>
+                      <TableCell>{contact.priority}</TableCell>
+                      <TableCell className="font-medium">{contact.name}</TableCell>
+                      <TableCell>{contact.department}</TableCell>
+                      <TableCell>{contact.region || "全地域"}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatShift(contact)}</TableCell>
+                      <TableCell className="whitespace-nowrap">{contact.phone}</TableCell>
+                      <TableCell>
+                        <Badge variant={contact.isActive ? "default" : "secondary"}>
+                          {contact.isActive ? "有効" : "無効"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleEditContact(contact)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleDeleteContact(contact)}
+                            className="text-red-500 hover:text-red-700"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center">
+                      連絡先が登録されていません
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 連絡先登録・編集ダイアログ */}
+      <Dialog open={showFormDialog} onOpenChange={setShowFormDialog}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedContact ? "連絡先編集" : "新規連絡先登録"}</DialogTitle>
+            <DialogDescription>
+              担当地域が発生場所や依頼者の所属に含まれる連絡先を優先して案内します。
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit}>
+            <div className="grid gap-4 py-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="grid gap-2">
+                  <Label htmlFor="name">氏名</Label>
+                  <Input id="name" name="name" value={form.name} onChange={handleInputChange} required />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="department">部署</Label>
+                  <Input id="department" name="department" value={form.department} onChange={handleInputChange} placeholder="例: 機械課" required />
+                </div>
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="region">担当地域</Label>
+                <Input id="region" name="region" value={form.region} onChange={handleInputChange} placeholder="空欄の場合は全地域" />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="grid gap-2">
+                  <Label htmlFor="shiftStart">当番開始</Label>
+                  <Input id="shiftStart" name="shiftStart" type="time" value={form.shiftStart} onChange={handleInputChange} />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="shiftEnd">当番終了</Label>
+                  <Input id="shiftEnd" name="shiftEnd" type="time" value={form.shiftEnd} onChange={handleInputChange} />
+                </div>
+              </div>
+              <p className="text-xs text-blue-400 -mt-2">両方空欄で終日、終了が開始より前なら翌日の終了時刻とみなします。</p>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div className="grid gap-2 col-span-2">
+                  <Label htmlFor="phone">電話番号</Label>
+                  <Input id="phone" name="phone" type="tel" value={form.phone} onChange={handleInputChange} placeholder="090-1234-5678" required />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="priority">優先順位</Label>
+                  <Input id="priority" name="priority" type="number" min={1} value={form.priority} onChange={handleInputChange} />
+                </div>
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="email">通知用メールアドレス</Label>
+                <Input id="email" name="email" type="email" value={form.email} onChange={handleInputChange} placeholder="メール通知が有効な場合に使用" />
+              </div>
+
+              <div className="grid gap-2">
+                <Label htmlFor="notes">備考</Label>
+                <Textarea id="notes" name="notes" value={form.notes} onChange={handleInputChange} rows={2} />
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="isActive"
+                  checked={form.isActive}
+                  onCheckedChange={(checked) => setForm((prev) => ({ ...prev, isActive: checked === true }))}
+                />
+                <Label htmlFor="isActive">エスカレーション時に案内する</Label>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setShowFormDialog(false)}
+              >
+                キャンセル
+              </Button>
+              <Button
+                type="submit"
+                disabled={saveContactMutation.isPending}
+              >
+                {saveContactMutation.isPending ? "保存中..." : "保存"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* 連絡先削除確認ダイアログ */}
+      <Dialog open={showDeleteConfirmDialog} onOpenChange={setShowDeleteConfirmDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <AlertCircle className="h-5 w-5 mr-2 text-red-500" />
+              連絡先削除の確認
+            </DialogTitle>
+            <DialogDescription>
+              「{selectedContact?.name}」を削除しますか？過去のエスカレーション記録には案内した時点の連絡先が残ります。
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setShowDeleteConfirmDialog(false)}
+            >
+              キャンセル
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteContactMutation.mutate()}
+              disabled={deleteContactMutation.isPending}
+            >
+              {deleteContactMutation.isPending ? "削除中..." : "削除"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
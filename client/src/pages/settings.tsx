@@ -5,12 +5,30 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
 import { useToast } from "@/hooks/use-toast";
-import { Settings, Info, User, Bell, Shield, Database, Volume2, UserPlus, FileType, Book, LogOut, Save } from "lucide-react";
+import { Settings, Info, User, Bell, Shield, Database, Volume2, UserPlus, FileType, Book, ClipboardList, Truck, GitBranch, Share2, Phone, ShieldAlert, ScrollText, KeyRound, LogOut, Save, type LucideIcon } from "lucide-react";
 import { WarningDialog } from "@/components/shared/warning-dialog";
+import { LoginSessionsCard } from "@/components/shared/login-sessions-card";
+import { ApiTokensCard } from "@/components/shared/api-tokens-card";
 import { Link } from "wouter";
+import { roleLabel, type Permission } from "@shared/permissions";
+
+// 管理機能へのリンク（役割が permission を持つものだけ表示する）
+const adminLinks: { href: string; title: string; description: string; icon: LucideIcon; action: string; permission: Permission }[] = [
+  { href: "/users", title: "ユーザー管理", description: "ユーザーアカウントを管理する", icon: UserPlus, action: "管理", permission: "users:manage" },
+  { href: "/documents", title: "ドキュメント管理", description: "検索対象の資料を管理する", icon: FileType, action: "管理", permission: "knowledge:manage" },
+  { href: "/glossary", title: "用語辞書", description: "検索で使う同義語や読みを管理する", icon: Book, action: "管理", permission: "glossary:manage" },
+  { href: "/vehicles", title: "車両管理", description: "保守用車の型式と車両を管理する", icon: Truck, action: "管理", permission: "vehicles:manage" },
+  { href: "/decision-trees", title: "判定ツリー", description: "チャットで案内する故障診断の手順を管理する", icon: GitBranch, action: "管理", permission: "decision_trees:manage" },
+  { href: "/export-destinations", title: "履歴送信先", description: "履歴送信の配信先と配信ログを管理する", icon: Share2, action: "管理", permission: "export_destinations:manage" },
+  { href: "/maintenance-contacts", title: "保守担当者連絡先", description: "エスカレーション時に案内する当番の連絡先を管理する", icon: Phone, action: "管理", permission: "maintenance_contacts:manage" },
+  { href: "/login-attempts", title: "ログイン履歴", description: "ログインの成功・失敗とアカウントロックを確認する", icon: ShieldAlert, action: "管理", permission: "security:view" },
+  { href: "/audit-events", title: "監査ログ", description: "ユーザー・資料・チャットに対する操作の記録を確認する", icon: ScrollText, action: "表示", permission: "audit:view" },
+  { href: "/incidents", title: "インシデント一覧", description: "故障対応の記録を確認する", icon: ClipboardList, action: "表示", permission: "incidents:view_department" },
+];
 
 export default function SettingsPage() {
-  const { user, logout } = useAuth();
+  const { user, logout, can } = useAuth();
+  const visibleAdminLinks = adminLinks.filter(link => can(link.permission));
   const { toast } = useToast();
   const [showWarningDialog, setShowWarningDialog] = useState(false);
   
@@ -152,13 +170,32 @@ export default function SettingsPage() {
                   <p className="text-sm text-blue-400">{user?.department || '部署未設定'}</p>
                 </div>
                 <div className={`text-white text-xs px-3 py-1 rounded-full ${user?.role === 'admin' ? 'bg-gradient-to-r from-purple-500 to-indigo-500' : 'bg-gradient-to-r from-blue-500 to-green-500'}`}>
-                  {user?.role === 'admin' ? '管理者' : '一般ユーザー'}
+                  {user ? roleLabel(user.role) : ''}
+                </div>
+              </div>
+              
+              <div className="flex items-center justify-between py-2 border-t border-blue-100 pt-3">
+                <div>
+                  <p className="font-medium text-blue-800">パスワード</p>
+                  <p className="text-sm text-blue-400">ログインパスワードを変更する</p>
                 </div>
+                <Link href="/change-password">
+                  <Button variant="outline" size="sm" className="border-blue-300 text-blue-700 hover:bg-blue-50">
+                    <KeyRound className="mr-2 h-4 w-4 text-blue-500" />
+                    変更
+                  </Button>
+                </Link>
               </div>
             </div>
           </CardContent>
         </Card>
 
+        {/* Login Sessions */}
+        <LoginSessionsCard />
+
+        {/* API Tokens */}
+        <ApiTokensCard />
+
         {/* Notifications */}
         <Card className="border border-blue-200 shadow-md overflow-hidden">
           <CardHeader className="pb-2 bg-gradient-to-r from-blue-400 to-sky-500 text-white">
@@ -291,8 +328,8 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
 
-        {/* Admin Settings (only shown for admins) */}
-        {user?.role === 'admin' && (
+        {/* Admin Settings (only shown for roles with admin features) */}
+        {visibleAdminLinks.length > 0 && (
           <Card className="border border-blue-200 shadow-md overflow-hidden">
             <CardHeader className="pb-2 bg-gradient-to-r from-blue-700 to-indigo-700 text-white">
               <CardTitle className="text-lg flex items-center">
@@ -302,31 +339,20 @@ export default function SettingsPage() {
             </CardHeader>
             <CardContent className="bg-white">
               <div className="space-y-4">
-                <div className="flex items-center justify-between py-2">
-                  <div>
-                    <p className="font-medium text-blue-800">ユーザー管理</p>
-                    <p className="text-sm text-blue-400">ユーザーアカウントを管理する</p>
+                {visibleAdminLinks.map(({ href, title, description, icon: Icon, action }, index) => (
+                  <div key={href} className={`flex items-center justify-between py-2 ${index > 0 ? "border-t border-blue-100 pt-3" : ""}`}>
+                    <div>
+                      <p className="font-medium text-blue-800">{title}</p>
+                      <p className="text-sm text-blue-400">{description}</p>
+                    </div>
+                    <Link href={href}>
+                      <Button variant="outline" size="sm" className="border-blue-300 text-blue-700 hover:bg-blue-50">
+                        <Icon className="mr-2 h-4 w-4 text-blue-500" />
+                        {action}
+                      </Button>
+                    </Link>
                   </div>
-                  <Link href="/users">
-                    <Button variant="outline" size="sm" className="border-blue-300 text-blue-700 hover:bg-blue-50">
-                      <UserPlus className="mr-2 h-4 w-4 text-blue-500" />
-                      管理
-                    </Button>
-                  </Link>
-                </div>
-                
-                <div className="flex items-center justify-between py-2 border-t border-blue-100 pt-3">
-                  <div>
-                    <p className="font-medium text-blue-800">ドキュメント管理</p>
-                    <p className="text-sm text-blue-400">検索対象の資料を管理する</p>
-                  </div>
-                  <Link href="/documents">
-                    <Button variant="outline" size="sm" className="border-blue-300 text-blue-700 hover:bg-blue-50">
-                      <FileType className="mr-2 h-4 w-4 text-blue-500" />
-                      管理
-                    </Button>
-                  </Link>
-                </div>
+                ))}
 
                 <div className="flex items-center justify-between py-2 border-t border-blue-100 pt-3">
                   <div>
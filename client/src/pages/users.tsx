@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { 
   Table, 
   TableBody, 
@@ -31,35 +32,46 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Shield, UserPlus, ArrowLeft, User, Edit, Trash2, AlertCircle } from "lucide-react";
+import { Shield, UserPlus, ArrowLeft, User, Edit, Trash2, AlertCircle, KeyRound, LogOut, LockOpen } from "lucide-react";
 import { useLocation, Link } from "wouter";
+import { DEFAULT_PASSWORD_POLICY, checkPasswordPolicy, describePasswordPolicy, type PasswordPolicy } from "@shared/password-policy";
+import { USER_ROLES, ROLE_LABELS, type UserRole } from "@shared/permissions";
 
 // ユーザーインターフェース
 interface UserData {
   id: number;
   username: string;
   displayName: string;
-  role: "employee" | "admin";
+  role: UserRole;
   department?: string;
+  // パスワードの変更待ち（初回ログイン前・リセット後）
+  mustChangePassword?: boolean;
+  // ログイン失敗が続いたときのロック解除時刻
+  lockedUntil?: string | null;
 }
 
+// ロック中か（解除時刻を過ぎていればロックは外れている）
+const isLocked = (user: UserData) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date();
+
 // 新規ユーザー作成用インターフェース
 interface NewUserData {
   username: string;
   password: string;
   displayName: string;
-  role: "employee" | "admin";
+  role: UserRole;
   department?: string;
+  mustChangePassword: boolean;
 }
 
 export default function UsersPage() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
+  const currentUserId = user?.id;
   const { toast } = useToast();
   const [, navigate] = useLocation();
 
   // 管理者でない場合はホームページにリダイレクト
   useEffect(() => {
-    if (user && user.role !== "admin") {
+    if (user && !can("users:manage")) {
       navigate("/");
     }
   }, [user, navigate]);
@@ -69,17 +81,27 @@ export default function UsersPage() {
     queryKey: ["/api/users"],
     refetchOnWindowFocus: false,
   });
+  
+  // パスワードポリシーの取得
+  const { data: passwordPolicy = DEFAULT_PASSWORD_POLICY } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/auth/password-policy"],
+    refetchOnWindowFocus: false,
+  });
 
   // 新規ユーザーフォーム
   const [showNewUserDialog, setShowNewUserDialog] = useState(false);
   const [showEditUserDialog, setShowEditUserDialog] = useState(false);
   const [showDeleteConfirmDialog, setShowDeleteConfirmDialog] = useState(false);
+  const [showResetPasswordDialog, setShowResetPasswordDialog] = useState(false);
+  // リセットで発行した一時パスワード（ダイアログを閉じると破棄する）
+  const [temporaryPassword, setTemporaryPassword] = useState<string | null>(null);
   const [selectedUserId, setSelectedUserId] = useState<number | null>(null);
   const [newUser, setNewUser] = useState<Partial<NewUserData>>({
     username: "",
     password: "",
     displayName: "",
     role: "employee",
+    mustChangePassword: true,
   });
   const [editUser, setEditUser] = useState<Partial<UserData>>({
     username: "",
@@ -95,6 +117,7 @@ export default function UsersPage() {
       displayName: "",
       role: "employee",
       department: "",
+      mustChangePassword: true,
     });
   };
 
@@ -134,6 +157,14 @@ export default function UsersPage() {
       });
       return;
     }
+    if (checkPasswordPolicy(newUser.password, passwordPolicy).length > 0) {
+      toast({
+        title: "入力エラー",
+        description: `パスワードは${describePasswordPolicy(passwordPolicy)}にしてください`,
+        variant: "destructive",
+      });
+      return;
+    }
 
     createUserMutation.mutate(newUser as NewUserData);
   };
@@ -178,6 +209,81 @@ export default function UsersPage() {
     setShowDeleteConfirmDialog(true);
   };
   
+  // パスワードリセット準備
+  const handleResetPassword = (userId: number) => {
+    setSelectedUserId(userId);
+    setTemporaryPassword(null);
+    setShowResetPasswordDialog(true);
+  };
+  
+  // パスワードリセットのミューテーション（一時パスワードを発行し、次回ログイン時に変更させる）
+  const resetPasswordMutation = useMutation({
+    mutationFn: async () => {
+      if (!selectedUserId) throw new Error("ユーザーIDが選択されていません");
+      const res = await apiRequest("POST", `/api/users/${selectedUserId}/reset-password`, {});
+      return (await res.json()) as { temporaryPassword: string | null };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setTemporaryPassword(result.temporaryPassword);
+      toast({
+        title: "パスワードリセット完了",
+        description: "次回ログイン時にパスワードの変更が求められます",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "パスワードリセット失敗",
+        description: error.message || "パスワードのリセット中にエラーが発生しました",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // アカウントロック解除のミューテーション
+  const unlockUserMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      await apiRequest("POST", `/api/users/${userId}/unlock`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "ロック解除完了",
+        description: "アカウントのロックを解除しました",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "ロック解除失敗",
+        description: error.message || "ロック解除中にエラーが発生しました",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // 強制ログアウトのミューテーション（対象ユーザーのすべての端末のセッションを終了させる）
+  const forceLogoutMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const res = await apiRequest("POST", `/api/users/${userId}/logout`, {});
+      return (await res.json()) as { revoked: number };
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "強制ログアウト完了",
+        description: result.revoked > 0
+          ? `${result.revoked}台の端末をログアウトさせました`
+          : "ログイン中の端末はありませんでした",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "強制ログアウト失敗",
+        description: error.message || "強制ログアウト中にエラーが発生しました",
+        variant: "destructive",
+      });
+    },
+  });
+  
   // ユーザー編集のミューテーション
   const updateUserMutation = useMutation({
     mutationFn: async (userData: Partial<UserData>) => {
@@ -254,7 +360,7 @@ export default function UsersPage() {
   };
 
   // 管理者でない場合のローディング表示
-  if (!user || (user && user.role !== "admin")) {
+  if (!user || !can("users:manage")) {
     return <div>Loading...</div>;
   }
 
@@ -314,6 +420,7 @@ export default function UsersPage() {
                       onChange={handleInputChange}
                       required
                     />
+                    <p className="text-xs text-blue-400">{describePasswordPolicy(passwordPolicy)}</p>
                   </div>
 
                   <div className="grid gap-2">
@@ -347,11 +454,21 @@ export default function UsersPage() {
                         <SelectValue placeholder="権限を選択" />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="employee">一般ユーザー</SelectItem>
-                        <SelectItem value="admin">管理者</SelectItem>
+                        {USER_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="mustChangePassword"
+                      checked={newUser.mustChangePassword}
+                      onCheckedChange={(checked) => setNewUser((prev) => ({ ...prev, mustChangePassword: checked === true }))}
+                    />
+                    <Label htmlFor="mustChangePassword">初回ログイン時にパスワードを変更させる</Label>
+                  </div>
                 </div>
 
                 <DialogFooter>
@@ -402,13 +519,21 @@ export default function UsersPage() {
                   users.map((user) => (
                     <TableRow key={user.id}>
                       <TableCell>{user.id}</TableCell>
-                      <TableCell>{user.username}</TableCell>
+                      <TableCell>
+                        {user.username}
+                        {user.mustChangePassword && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-700">パスワード変更待ち</span>
+                        )}
+                        {isLocked(user) && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-orange-100 text-orange-700">ロック中</span>
+                        )}
+                      </TableCell>
                       <TableCell>{user.displayName}</TableCell>
                       <TableCell>
                         <span className={`px-2 py-1 rounded-full text-xs ${
-                          user.role === "admin" ? "bg-amber-100 text-amber-800" : "bg-blue-100 text-blue-800"
+                          user.role === "admin" ? "bg-amber-100 text-amber-800" : user.role === "employee" ? "bg-blue-100 text-blue-800" : "bg-green-100 text-green-800"
                         }`}>
-                          {user.role === "admin" ? "管理者" : "一般ユーザー"}
+                          {ROLE_LABELS[user.role]}
                         </span>
                       </TableCell>
                       <TableCell>{user.department || "-"}</TableCell>
@@ -421,6 +546,34 @@ export default function UsersPage() {
                           >
                             <Edit className="h-4 w-4" />
                           </Button>
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            onClick={() => handleResetPassword(user.id)}
+                            title="パスワードリセット"
+                          >
+                            <KeyRound className="h-4 w-4" />
+                          </Button>
+                          {isLocked(user) && (
+                            <Button 
+                              variant="outline" 
+                              size="sm"
+                              onClick={() => unlockUserMutation.mutate(user.id)}
+                              disabled={unlockUserMutation.isPending}
+                              title="ロック解除"
+                            >
+                              <LockOpen className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            onClick={() => forceLogoutMutation.mutate(user.id)}
+                            disabled={forceLogoutMutation.isPending || user.id === currentUserId}
+                            title="強制ログアウト"
+                          >
+                            <LogOut className="h-4 w-4" />
+                          </Button>
                           <Button 
                             variant="outline" 
                             size="sm"
@@ -500,8 +653,9 @@ export default function UsersPage() {
                     <SelectValue placeholder="権限を選択" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="employee">一般ユーザー</SelectItem>
-                    <SelectItem value="admin">管理者</SelectItem>
+                    {USER_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -562,6 +716,53 @@ export default function UsersPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+      
+      {/* パスワードリセットダイアログ */}
+      <Dialog
+        open={showResetPasswordDialog}
+        onOpenChange={(open) => {
+          setShowResetPasswordDialog(open);
+          if (!open) setTemporaryPassword(null);
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <KeyRound className="h-5 w-5 mr-2 text-blue-500" />
+              パスワードリセット
+            </DialogTitle>
+            <DialogDescription>
+              一時パスワードを発行します。ユーザーは次回ログイン時に新しいパスワードへの変更が必要になります。
+            </DialogDescription>
+          </DialogHeader>
+          
+          {temporaryPassword && (
+            <div className="py-4 grid gap-2">
+              <p className="text-sm">一時パスワード（この画面を閉じると再表示できません）</p>
+              <Input readOnly value={temporaryPassword} className="font-mono" onFocus={(e) => e.target.select()} />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setShowResetPasswordDialog(false)}
+            >
+              {temporaryPassword ? "閉じる" : "キャンセル"}
+            </Button>
+            {!temporaryPassword && (
+              <Button 
+                type="button"
+                onClick={() => resetPasswordMutation.mutate()}
+                disabled={resetPasswordMutation.isPending}
+              >
+                {resetPasswordMutation.isPending ? "発行中..." : "一時パスワードを発行"}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
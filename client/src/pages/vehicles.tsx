@@ -0,0 +1,504 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/context/auth-context";
+import { useToast } from "@/hooks/use-toast";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Truck, Plus, ArrowLeft, Edit, Trash2, AlertCircle } from "lucide-react";
+import { useLocation, Link } from "wouter";
+import type { VehicleModel, Vehicle } from "@shared/schema";
+
+type VehicleWithModel = Vehicle & { model: VehicleModel };
+
+// 型式の編集フォーム
+interface ModelFormData {
+  name: string;
+  maker: string;
+  engineType: string;
+  description: string;
+}
+
+// 車両の編集フォーム
+interface VehicleFormData {
+  number: string;
+  modelId: string;
+  engineType: string;
+  inServiceDate: string;
+  notes: string;
+}
+
+const emptyModelForm: ModelFormData = { name: "", maker: "", engineType: "", description: "" };
+const emptyVehicleForm: VehicleFormData = { number: "", modelId: "", engineType: "", inServiceDate: "", notes: "" };
+
+// 削除対象（型式または車両）
+type DeleteTarget = { kind: "model" | "vehicle"; id: number } | null;
+
+export default function VehiclesPage() {
+  const { user, can } = useAuth();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+
+  // 管理者でない場合はホームページにリダイレクト
+  useEffect(() => {
+    if (user && !can("vehicles:manage")) {
+      navigate("/");
+    }
+  }, [user, navigate]);
+
+  const { data: models, isLoading: modelsLoading } = useQuery<VehicleModel[]>({
+    queryKey: ["/api/vehicle-models"],
+    refetchOnWindowFocus: false,
+  });
+  const { data: vehicles, isLoading: vehiclesLoading } = useQuery<VehicleWithModel[]>({
+    queryKey: ["/api/vehicles"],
+    refetchOnWindowFocus: false,
+  });
+
+  // 編集中の型式・車両ID（nullの場合は新規作成）
+  const [showModelDialog, setShowModelDialog] = useState(false);
+  const [selectedModelId, setSelectedModelId] = useState<number | null>(null);
+  const [modelForm, setModelForm] = useState<ModelFormData>(emptyModelForm);
+  const [showVehicleDialog, setShowVehicleDialog] = useState(false);
+  const [selectedVehicleId, setSelectedVehicleId] = useState<number | null>(null);
+  const [vehicleForm, setVehicleForm] = useState<VehicleFormData>(emptyVehicleForm);
+  const [deleteTarget, setDeleteTarget] = useState<DeleteTarget>(null);
+
+  const handleEditModel = (model: VehicleModel | null) => {
+    setSelectedModelId(model?.id ?? null);
+    setModelForm(model ? {
+      name: model.name,
+      maker: model.maker,
+      engineType: model.engineType || "",
+      description: model.description || "",
+    } : emptyModelForm);
+    setShowModelDialog(true);
+  };
+
+  const handleEditVehicle = (vehicle: VehicleWithModel | null) => {
+    setSelectedVehicleId(vehicle?.id ?? null);
+    setVehicleForm(vehicle ? {
+      number: vehicle.number,
+      modelId: String(vehicle.modelId),
+      engineType: vehicle.engineType || "",
+      inServiceDate: vehicle.inServiceDate || "",
+      notes: vehicle.notes || "",
+    } : emptyVehicleForm);
+    setShowVehicleDialog(true);
+  };
+
+  const handleModelInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setModelForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleVehicleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setVehicleForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const showError = (title: string, error: any) => {
+    toast({
+      title,
+      description: error.message || "エラーが発生しました",
+      variant: "destructive",
+    });
+  };
+
+  // 型式の作成・更新
+  const saveModelMutation = useMutation({
+    mutationFn: async (formData: ModelFormData) => {
+      const payload = {
+        name: formData.name.trim(),
+        maker: formData.maker.trim(),
+        engineType: formData.engineType.trim() || null,
+        description: formData.description.trim() || null,
+      };
+      const res = selectedModelId
+        ? await apiRequest("PATCH", `/api/vehicle-models/${selectedModelId}`, payload)
+        : await apiRequest("POST", "/api/vehicle-models", payload);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicle-models"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+      toast({
+        title: selectedModelId ? "型式更新完了" : "型式登録完了",
+        description: "車両型式が更新されました",
+      });
+      setShowModelDialog(false);
+    },
+    onError: (error: any) => showError("型式保存失敗", error),
+  });
+
+  // 車両の作成・更新
+  const saveVehicleMutation = useMutation({
+    mutationFn: async (formData: VehicleFormData) => {
+      const payload = {
+        number: formData.number.trim(),
+        modelId: parseInt(formData.modelId),
+        engineType: formData.engineType.trim() || null,
+        inServiceDate: formData.inServiceDate || null,
+        notes: formData.notes.trim() || null,
+      };
+      const res = selectedVehicleId
+        ? await apiRequest("PATCH", `/api/vehicles/${selectedVehicleId}`, payload)
+        : await apiRequest("POST", "/api/vehicles", payload);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+      toast({
+        title: selectedVehicleId ? "車両更新完了" : "車両登録完了",
+        description: "車両情報が更新されました",
+      });
+      setShowVehicleDialog(false);
+    },
+    onError: (error: any) => showError("車両保存失敗", error),
+  });
+
+  // 型式・車両の削除
+  const deleteMutation = useMutation({
+    mutationFn: async (target: NonNullable<DeleteTarget>) => {
+      const url = target.kind === "model" ? `/api/vehicle-models/${target.id}` : `/api/vehicles/${target.id}`;
+      await apiRequest("DELETE", url);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicle-models"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/vehicles"] });
+      toast({
+        title: "削除完了",
+        description: deleteTarget?.kind === "model" ? "型式が削除されました" : "車両が削除されました",
+      });
+      setDeleteTarget(null);
+    },
+    onError: (error: any) => {
+      showError("削除失敗", error);
+      setDeleteTarget(null);
+    },
+  });
+
+  const handleModelSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!modelForm.name.trim() || !modelForm.maker.trim()) {
+      toast({
+        title: "入力エラー",
+        description: "型式名とメーカーを入力してください",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveModelMutation.mutate(modelForm);
+  };
+
+  const handleVehicleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!vehicleForm.number.trim() || !vehicleForm.modelId) {
+      toast({
+        title: "入力エラー",
+        description: "車両番号と型式を入力してください",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveVehicleMutation.mutate(vehicleForm);
+  };
+
+  // 管理者でない場合のローディング表示
+  if (!user || !can("vehicles:manage")) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 md:p-6 max-w-5xl mx-auto w-full">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center">
+            <Truck className="mr-2 h-6 w-6" />
+            車両管理
+          </h1>
+          <p className="text-neutral-300">保守用車の型式と車両を管理します。チャットで車両を選ぶと、その型式の資料を優先して検索します</p>
+        </div>
+
+        <Link href="/settings">
+          <Button variant="outline" size="sm">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            設定に戻る
+          </Button>
+        </Link>
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader className="pb-2 flex flex-row items-center justify-between">
+          <CardTitle className="text-lg">型式一覧</CardTitle>
+          <Button size="sm" onClick={() => handleEditModel(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            型式登録
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {modelsLoading ? (
+            <div className="flex justify-center p-4">読み込み中...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>型式</TableHead>
+                  <TableHead>メーカー</TableHead>
+                  <TableHead>エンジン</TableHead>
+                  <TableHead>説明</TableHead>
+                  <TableHead className="text-right">アクション</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {models && models.length > 0 ? (
+                  models.map((model) => (
+                    <TableRow key={model.id}>
+                      <TableCell className="font-medium">{model.name}</TableCell>
+                      <TableCell>{model.maker}</TableCell>
+                      <TableCell>{model.engineType || "-"}</TableCell>
+                      <TableCell>{model.description || "-"}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => handleEditModel(model)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setDeleteTarget({ kind: "model", id: model.id })}
+                            className="text-red-500 hover:text-red-700"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center">
+                      型式が登録されていません
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-2 flex flex-row items-center justify-between">
+          <CardTitle className="text-lg">車両一覧</CardTitle>
+          <Button size="sm" onClick={() => handleEditVehicle(null)} disabled={!models || models.length === 0}>
+            <Plus className="mr-2 h-4 w-4" />
+            車両登録
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {vehiclesLoading ? (
+            <div className="flex justify-center p-4">読み込み中...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>車両番号</TableHead>
+                  <TableHead>型式</TableHead>
+                  <TableHead>メーカー</TableHead>
+                  <TableHead>エンジン</TableHead>
+                  <TableHead>使用開始日</TableHead>
+                  <TableHead className="text-right">アクション</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {vehicles && vehicles.length > 0 ? (
+                  vehicles.map((vehicle) => (
+                    <TableRow key={vehicle.id}>
+                      <TableCell className="font-medium">{vehicle.number}</TableCell>
+                      <TableCell>{vehicle.model.name}</TableCell>
+                      <TableCell>{vehicle.model.maker}</TableCell>
+                      <TableCell>{vehicle.engineType || vehicle.model.engineType || "-"}</TableCell>
+                      <TableCell>{vehicle.inServiceDate || "-"}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" onClick={() => handleEditVehicle(vehicle)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setDeleteTarget({ kind: "vehicle", id: vehicle.id })}
+                            className="text-red-500 hover:text-red-700"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center">
+                      車両が登録されていません
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* 型式登録・編集ダイアログ */}
+      <Dialog open={showModelDialog} onOpenChange={setShowModelDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedModelId ? "型式編集" : "型式登録"}</DialogTitle>
+            <DialogDescription>
+              同じ型式名でもメーカーが異なる場合は別の型式として登録してください。
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleModelSubmit}>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="name">型式名</Label>
+                <Input id="name" name="name" value={modelForm.name} onChange={handleModelInputChange} placeholder="例: 300型" required />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="maker">メーカー</Label>
+                <Input id="maker" name="maker" value={modelForm.maker} onChange={handleModelInputChange} placeholder="例: 堀川工機" required />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="model-engineType">エンジン</Label>
+                <Input id="model-engineType" name="engineType" value={modelForm.engineType} onChange={handleModelInputChange} placeholder="例: 機械式、電子噴射式" />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="description">説明</Label>
+                <Textarea id="description" name="description" value={modelForm.description} onChange={handleModelInputChange} />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowModelDialog(false)}>
+                キャンセル
+              </Button>
+              <Button type="submit" disabled={saveModelMutation.isPending}>
+                {saveModelMutation.isPending ? "保存中..." : "保存"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* 車両登録・編集ダイアログ */}
+      <Dialog open={showVehicleDialog} onOpenChange={setShowVehicleDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedVehicleId ? "車両編集" : "車両登録"}</DialogTitle>
+            <DialogDescription>
+              エンジンは型式の標準と異なる場合のみ入力してください。
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleVehicleSubmit}>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="number">車両番号</Label>
+                <Input id="number" name="number" value={vehicleForm.number} onChange={handleVehicleInputChange} required />
+              </div>
+              <div className="grid gap-2">
+                <Label>型式</Label>
+                <Select value={vehicleForm.modelId} onValueChange={(value) => setVehicleForm((prev) => ({ ...prev, modelId: value }))}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="型式を選択" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {models?.map((model) => (
+                      <SelectItem key={model.id} value={String(model.id)}>
+                        {model.maker} {model.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="vehicle-engineType">エンジン</Label>
+                <Input id="vehicle-engineType" name="engineType" value={vehicleForm.engineType} onChange={handleVehicleInputChange} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="inServiceDate">使用開始日</Label>
+                <Input id="inServiceDate" name="inServiceDate" type="date" value={vehicleForm.inServiceDate} onChange={handleVehicleInputChange} />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="notes">備考</Label>
+                <Textarea id="notes" name="notes" value={vehicleForm.notes} onChange={handleVehicleInputChange} />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowVehicleDialog(false)}>
+                キャンセル
+              </Button>
+              <Button type="submit" disabled={saveVehicleMutation.isPending}>
+                {saveVehicleMutation.isPending ? "保存中..." : "保存"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* 削除確認ダイアログ */}
+      <Dialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <AlertCircle className="h-5 w-5 mr-2 text-red-500" />
+              削除の確認
+            </DialogTitle>
+            <DialogDescription>
+              {deleteTarget?.kind === "model"
+                ? "車両が登録されている型式は削除できません。"
+                : "この車両を対象にしているチャットは車両の指定が解除されます。"}
+            </DialogDescription>
+          </DialogHeader>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setDeleteTarget(null)}>
+              キャンセル
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget)}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? "削除中..." : "削除"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+// 履歴送信の Webhook を受け取るテスト用のサーバー
+// 使い方: EXPORT_WEBHOOK_SECRET=<送信先に設定したシークレット> node scripts/export-webhook-receiver.js
+//   PORT        待ち受けポート（既定: 4010）
+//   OUTPUT_DIR  受け取った報告書の保存先（既定: OSの一時ディレクトリ/export-webhook-received）
+//   FAIL_FIRST  最初の N 回は 503 を返す（再試行の確認用）
+import http from 'http';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+
+const port = parseInt(process.env.PORT || '4010');
+const secret = process.env.EXPORT_WEBHOOK_SECRET || '';
+const outputDir = process.env.OUTPUT_DIR || path.join(os.tmpdir(), 'export-webhook-received');
+let failRemaining = parseInt(process.env.FAIL_FIRST || '0');
+
+// 送信側と同じく「タイムスタンプ.本文」の HMAC-SHA256 を比較する
+function verifySignature(timestamp, body, signature) {
+  if (!secret) return true;
+  if (!timestamp || !signature) return false;
+  const expected = `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  return expected.length === signature.length && crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+}
+
+const server = http.createServer((req, res) => {
+  if (req.method !== 'POST') {
+    res.writeHead(405).end();
+    return;
+  }
+
+  const chunks = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8');
+    const delivery = req.headers['x-export-delivery'];
+
+    if (!verifySignature(req.headers['x-export-timestamp'], body, req.headers['x-export-signature'])) {
+      console.log(`署名が一致しません: delivery=${delivery}`);
+      res.writeHead(401).end('invalid signature');
+      return;
+    }
+    if (failRemaining > 0) {
+      failRemaining--;
+      console.log(`失敗を返します（残り${failRemaining}回）: delivery=${delivery}`);
+      res.writeHead(503).end('temporarily unavailable');
+      return;
+    }
+
+    const payload = JSON.parse(body);
+    fs.mkdirSync(outputDir, { recursive: true });
+    for (const file of payload.files || []) {
+      fs.writeFileSync(path.join(outputDir, path.basename(file.fileName)), Buffer.from(file.data, 'base64'));
+    }
+    console.log(`受信: delivery=${delivery}, チャット「${payload.chat.title}」, メッセージ${payload.messageCount}件, 添付${(payload.files || []).length}件`);
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ received: true }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook 受信テストサーバー: http://localhost:${port}/ (署名検証: ${secret ? 'あり' : 'なし'})`);
+});
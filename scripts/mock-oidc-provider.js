@@ -0,0 +1,192 @@
+// SSO（OIDC）の動作確認用のテスト用 IdP（認可コードフロー + PKCE のみ）
+// 使い方: node scripts/mock-oidc-provider.js
+//   アプリ側は OIDC_ISSUER=http://localhost:4020 OIDC_CLIENT_ID=mock-client（CLIENT_SECRET を設定した場合は OIDC_CLIENT_SECRET も）を設定する
+//   PORT           待ち受けポート（既定: 4020）
+//   ISSUER         issuer（既定: http://localhost:<PORT>）
+//   CLIENT_ID      受け付けるクライアントID（既定: mock-client）
+//   CLIENT_SECRET  設定した場合はトークン要求で Basic 認証を求める
+// ログイン画面でユーザー名・部署・ロールを入力すると、そのクレームで ID トークンを発行する
+import http from 'http';
+import crypto from 'crypto';
+
+const port = parseInt(process.env.PORT || '4020');
+const issuer = (process.env.ISSUER || `http://localhost:${port}`).replace(/\/+$/, '');
+const clientId = process.env.CLIENT_ID || 'mock-client';
+const clientSecret = process.env.CLIENT_SECRET || '';
+
+// 起動のたびに署名鍵を作る
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const kid = crypto.randomBytes(8).toString('hex');
+const jwk = { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' };
+
+const CODE_TTL = 60 * 1000;
+const codes = new Map(); // 認可コード → { redirectUri, codeChallenge, nonce, claims, expiresAt }
+const accessTokens = new Map(); // アクセストークン → claims
+
+const base64url = (value) => Buffer.from(value).toString('base64url');
+
+function signIdToken(claims) {
+  const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid }));
+  const payload = base64url(JSON.stringify(claims));
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+const escapeHtml = (value) => String(value ?? '').replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+function readForm(req) {
+  return new Promise((resolve) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolve(new URLSearchParams(Buffer.concat(chunks).toString('utf8'))));
+  });
+}
+
+// 認可リクエストを検証し、問題があれば理由を返す
+function validateAuthorizationRequest(params) {
+  if (params.get('response_type') !== 'code') return 'response_type は code のみ対応しています';
+  if (params.get('client_id') !== clientId) return `client_id が一致しません: ${params.get('client_id')}`;
+  if (!params.get('redirect_uri')) return 'redirect_uri がありません';
+  if (!params.get('code_challenge') || params.get('code_challenge_method') !== 'S256') return 'PKCE（S256）が必要です';
+  return null;
+}
+
+function loginPage(params) {
+  const hidden = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge', 'code_challenge_method', 'response_type', 'scope']
+    .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params.get(name))}">`)
+    .join('\n');
+  return `<!doctype html>
+<html lang="ja"><head><meta charset="utf-8"><title>Mock OIDC Provider</title></head>
+<body style="font-family: sans-serif; max-width: 420px; margin: 40px auto;">
+  <h1>Mock OIDC Provider</h1>
+  <form method="post" action="/authorize">
+    ${hidden}
+    <p><label>ユーザー名 (preferred_username)<br><input name="preferred_username" value="sso.user" required></label></p>
+    <p><label>表示名 (name)<br><input name="name" value="SSO ユーザー"></label></p>
+    <p><label>部署 (department)<br><input name="department" value="保線課"></label></p>
+    <p><label>ロール (roles, カンマ区切り)<br><input name="roles" value=""></label></p>
+    <p><button type="submit">ログイン</button></p>
+  </form>
+</body></html>`;
+}
+
+async function handleAuthorize(req, res, url) {
+  const params = req.method === 'POST' ? await readForm(req) : url.searchParams;
+  const error = validateAuthorizationRequest(params);
+  if (error) {
+    res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' }).end(error);
+    return;
+  }
+  if (req.method === 'GET') {
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(loginPage(params));
+    return;
+  }
+
+  const username = params.get('preferred_username') || 'sso.user';
+  const roles = (params.get('roles') || '').split(',').map((role) => role.trim()).filter(Boolean);
+  const code = crypto.randomBytes(16).toString('base64url');
+  codes.set(code, {
+    redirectUri: params.get('redirect_uri'),
+    codeChallenge: params.get('code_challenge'),
+    nonce: params.get('nonce') || undefined,
+    claims: {
+      sub: `mock-${username}`,
+      preferred_username: username,
+      name: params.get('name') || username,
+      email: `${username}@example.com`,
+      department: params.get('department') || undefined,
+      roles,
+    },
+    expiresAt: Date.now() + CODE_TTL,
+  });
+  console.log(`認可コードを発行しました: username=${username}, roles=${roles.join(',')}`);
+
+  const redirect = new URL(params.get('redirect_uri'));
+  redirect.searchParams.set('code', code);
+  if (params.get('state')) redirect.searchParams.set('state', params.get('state'));
+  res.writeHead(302, { Location: redirect.toString() }).end();
+}
+
+async function handleToken(req, res) {
+  const params = await readForm(req);
+
+  if (clientSecret) {
+    const expected = `Basic ${Buffer.from(`${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`).toString('base64')}`;
+    if (req.headers.authorization !== expected && params.get('client_secret') !== clientSecret) {
+      sendJson(res, 401, { error: 'invalid_client' });
+      return;
+    }
+  }
+  if (params.get('grant_type') !== 'authorization_code') {
+    sendJson(res, 400, { error: 'unsupported_grant_type' });
+    return;
+  }
+
+  // 認可コードは一度だけ使える
+  const code = params.get('code');
+  const grant = codes.get(code);
+  codes.delete(code);
+  if (!grant || grant.expiresAt < Date.now() || grant.redirectUri !== params.get('redirect_uri')) {
+    sendJson(res, 400, { error: 'invalid_grant' });
+    return;
+  }
+  const challenge = crypto.createHash('sha256').update(params.get('code_verifier') || '').digest('base64url');
+  if (challenge !== grant.codeChallenge) {
+    sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE の code_verifier が一致しません' });
+    return;
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const accessToken = crypto.randomBytes(24).toString('base64url');
+  accessTokens.set(accessToken, grant.claims);
+  sendJson(res, 200, {
+    token_type: 'Bearer',
+    access_token: accessToken,
+    expires_in: 3600,
+    id_token: signIdToken({ iss: issuer, aud: clientId, iat: now, exp: now + 3600, nonce: grant.nonce, ...grant.claims }),
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, issuer);
+  try {
+    if (url.pathname === '/.well-known/openid-configuration') {
+      sendJson(res, 200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        userinfo_endpoint: `${issuer}/userinfo`,
+        jwks_uri: `${issuer}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+        code_challenge_methods_supported: ['S256'],
+        token_endpoint_auth_methods_supported: clientSecret ? ['client_secret_basic', 'client_secret_post'] : ['none'],
+      });
+    } else if (url.pathname === '/jwks') {
+      sendJson(res, 200, { keys: [jwk] });
+    } else if (url.pathname === '/authorize') {
+      await handleAuthorize(req, res, url);
+    } else if (url.pathname === '/token' && req.method === 'POST') {
+      await handleToken(req, res);
+    } else if (url.pathname === '/userinfo') {
+      const claims = accessTokens.get((req.headers.authorization || '').replace(/^Bearer /, ''));
+      if (claims) sendJson(res, 200, claims);
+      else sendJson(res, 401, { error: 'invalid_token' });
+    } else {
+      res.writeHead(404).end();
+    }
+  } catch (error) {
+    console.error('リクエストの処理に失敗しました:', error);
+    res.writeHead(500).end();
+  }
+});
+
+server.listen(port, () => {
+  console.log(`テスト用 IdP を起動しました: ${issuer}（client_id=${clientId}${clientSecret ? '、client_secret あり' : ''}）`);
+});
@@ -1,43 +1,57 @@
 import { 
   users, type User, type InsertUser,
+  loginSessions, type LoginSession, type InsertLoginSession,
+  apiTokens, type ApiToken, type InsertApiToken,
+  loginAttempts, type LoginAttempt, type InsertLoginAttempt, type LoginAttemptResult,
+  auditEvents, type AuditEvent, type InsertAuditEvent,
   messages, type Message, type InsertMessage,
   media, type Media, type InsertMedia,
   chats, type Chat, type InsertChat,
+  vehicleModels, type VehicleModel, type InsertVehicleModel,
+  vehicles, type Vehicle, type InsertVehicle,
+  chatMembers, type ChatMember, type InsertChatMember,
+  decisionTrees, type DecisionTree, type InsertDecisionTree,
+  decisionTreeRuns, type DecisionTreeRun, type InsertDecisionTreeRun,
+  maintenanceContacts, type MaintenanceContact, type InsertMaintenanceContact,
+  chatEscalations, type ChatEscalation, type InsertChatEscalation,
+  incidents, type Incident, type InsertIncident,
   documents, type Document, type InsertDocument,
   keywords, type Keyword, type InsertKeyword,
-  chatExports, type ChatExport, type InsertChatExport
+  chatExports, type ChatExport, type InsertChatExport,
+  exportDestinations, type ExportDestination, type InsertExportDestination, type ExportDestinationType,
+  exportDeliveries, type ExportDelivery, type InsertExportDelivery,
+  glossaryTerms, type GlossaryTerm, type InsertGlossaryTerm
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, like, sql } from "drizzle-orm";
+import { hashPassword } from "./lib/password";
+import { eq, desc, like, sql, and, gte, lt, lte, ilike, inArray, isNull, type SQL } from "drizzle-orm";
 import session from "express-session";
-import memorystore from "memorystore";
-import { IStorage } from "./storage";
-
-// Create a memory store for session that is compatible with express-session
-const MemoryStore = memorystore(session);
+import { createSessionStore } from "./lib/session-store";
+import { IStorage, LoginAttemptFilter, AuditEventFilter, ChatMemberWithUser, IncidentFilter, VehicleWithModel, ExportDeliveryWithDestination } from "./storage";
 
 export class DatabaseStorage implements IStorage {
   sessionStore: session.Store;
 
   constructor() {
-    // Initialize session store with memory store
-    this.sessionStore = new MemoryStore({
-      checkPeriod: 86400000, // prune expired entries every 24h
-    });
+    // セッションストアは SESSION_STORE で切り替える（既定は PostgreSQL）
+    this.sessionStore = createSessionStore();
 
     // Seed initial users if not present
     this.seedInitialUsers();
+    this.seedInitialGlossary();
   }
 
+  // 初期パスワードはポリシーを満たさないため、初回ログイン時に変更させる
   private async seedInitialUsers() {
     // Check if admin user exists
     const adminUser = await this.getUserByUsername("niina");
     if (!adminUser) {
       await this.createUser({
         username: "niina",
-        password: "0077", // In a real app, this would be hashed
+        password: await hashPassword("0077"),
         displayName: "新名 管理者",
-        role: "admin"
+        role: "admin",
+        mustChangePassword: true
       });
     }
 
@@ -46,13 +60,94 @@ export class DatabaseStorage implements IStorage {
     if (!employeeUser) {
       await this.createUser({
         username: "employee",
-        password: "employee123", // In a real app, this would be hashed
+        password: await hashPassword("employee123"),
         displayName: "山田太郎",
-        role: "employee"
+        role: "employee",
+        mustChangePassword: true
       });
     }
   }
 
+  private async seedInitialGlossary() {
+    try {
+      const existing = await this.getGlossaryTerms();
+      if (existing.length > 0) return;
+      
+      const initialTerms: InsertGlossaryTerm[] = [
+        {
+          term: "エンジン",
+          category: "機関",
+          synonyms: ["機関", "ディーゼルエンジン"],
+          readings: ["えんじん"],
+          boost: 3,
+          promptHint: "軌道モータカーのディーゼルエンジン構造、分類（600型、400型、300型、200型）、製造メーカー別の型式（堀川工機、松山重車両など）、機械式と電子噴射式、高トルク、油圧ポンプ、エアーコンプレッサーの情報を含める"
+        },
+        {
+          term: "フレーム",
+          category: "車体",
+          synonyms: ["メーンフレーム", "サイドメンバー", "クロスメンバー"],
+          readings: ["ふれーむ"],
+          boost: 2,
+          promptHint: "軌道モータカーのフレーム構造、H鋼、メーンフレーム、サイドメンバー、クロスメンバー、強度、はしご状構造に関する情報を含める"
+        },
+        {
+          term: "キャビン",
+          category: "車体",
+          synonyms: ["運転室"],
+          readings: ["きゃびん", "うんてんしつ"],
+          boost: 2,
+          promptHint: "防振ゴム、ガラス、モール、ひねり対策、ワイパー、冷暖房、乗務、労働安全衛生規則に関する情報を含める"
+        },
+        {
+          term: "ドア",
+          category: "車体",
+          synonyms: ["扉", "幅"],
+          readings: ["どあ", "とびら"],
+          boost: 3,
+          promptHint: "運転室のドア幅（600mm～800mm）、ドアの構造、開閉方式、ドアの寸法、安全基準に関する情報を含める"
+        },
+        {
+          term: "油圧",
+          category: "油圧",
+          synonyms: ["作動油", "油圧ポンプ", "油圧シリンダー"],
+          readings: ["ゆあつ"],
+          boost: 2,
+          promptHint: "油圧ポンプ、作動油の量と漏れ、油圧ホース、リリーフ弁に関する情報を含める"
+        },
+        {
+          term: "制動",
+          category: "制動",
+          synonyms: ["ブレーキ", "ブレーキ弁", "ブレーキシリンダー"],
+          readings: ["せいどう"],
+          boost: 3,
+          promptHint: "ブレーキ管のエアー漏れ、入換ブレーキ弁、双針圧力計、ブレーキシリンダーのストロークに関する情報を含める"
+        },
+        {
+          term: "走行装置",
+          category: "走行装置",
+          synonyms: ["車輪", "車軸", "台車"],
+          readings: ["そうこうそうち"],
+          boost: 2,
+          promptHint: "車輪、車軸、軸受、減速機、推進軸に関する情報を含める"
+        },
+        {
+          term: "発電機",
+          category: "電気",
+          synonyms: ["オルタネーター", "ダイナモ", "充電"],
+          readings: ["はつでんき"],
+          boost: 2,
+          promptHint: "発電機の出力、充電警告灯、ベルトの張り、バッテリー電圧に関する情報を含める"
+        }
+      ];
+      
+      for (const term of initialTerms) {
+        await this.createGlossaryTerm(term);
+      }
+    } catch (error) {
+      console.error("Failed to seed glossary terms:", error);
+    }
+  }
+
   // User methods
   async getUser(id: number): Promise<User | undefined> {
     const [user] = await db.select().from(users).where(eq(users.id, id));
@@ -64,7 +159,12 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async getUserByOidcSubject(subject: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.oidcSubject, subject));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser & Pick<Partial<User>, 'oidcSubject'>): Promise<User> {
     const [user] = await db.insert(users).values(insertUser).returning();
     return user;
   }
@@ -79,9 +179,130 @@ export class DatabaseStorage implements IStorage {
   }
   
   async deleteUser(id: number): Promise<void> {
+    await db.delete(chatMembers).where(eq(chatMembers.userId, id));
+    await db.delete(loginSessions).where(eq(loginSessions.userId, id));
+    await db.delete(apiTokens).where(eq(apiTokens.userId, id));
+    // ログイン試行の履歴はユーザー名で残す
+    await db.update(loginAttempts).set({ userId: null }).where(eq(loginAttempts.userId, id));
+    // 監査ログは追記のみなので書き換えない（削除されたユーザーの操作は actorUsername で分かる）
     await db.delete(users).where(eq(users.id, id));
   }
   
+  // Login session methods
+  async getLoginSessionsForUser(userId: number): Promise<LoginSession[]> {
+    return db.select()
+      .from(loginSessions)
+      .where(eq(loginSessions.userId, userId))
+      .orderBy(desc(loginSessions.lastSeenAt));
+  }
+  
+  async getLoginSession(id: number): Promise<LoginSession | undefined> {
+    const [loginSession] = await db.select().from(loginSessions).where(eq(loginSessions.id, id));
+    return loginSession;
+  }
+  
+  async createLoginSession(loginSession: InsertLoginSession): Promise<LoginSession> {
+    const [newLoginSession] = await db.insert(loginSessions).values(loginSession).returning();
+    return newLoginSession;
+  }
+  
+  async touchLoginSession(sid: string, lastSeenAt: Date): Promise<void> {
+    await db.update(loginSessions).set({ lastSeenAt }).where(eq(loginSessions.sid, sid));
+  }
+  
+  async deleteLoginSession(sid: string): Promise<void> {
+    await db.delete(loginSessions).where(eq(loginSessions.sid, sid));
+  }
+  
+  // API token methods
+  async getApiTokensForUser(userId: number): Promise<ApiToken[]> {
+    return db.select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.createdAt));
+  }
+  
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [apiToken] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return apiToken;
+  }
+  
+  async createApiToken(apiToken: InsertApiToken): Promise<ApiToken> {
+    const [newApiToken] = await db.insert(apiTokens).values(apiToken).returning();
+    return newApiToken;
+  }
+  
+  async touchApiToken(id: number, lastUsedAt: Date, lastUsedIp: string | null): Promise<void> {
+    await db.update(apiTokens).set({ lastUsedAt, lastUsedIp }).where(eq(apiTokens.id, id));
+  }
+  
+  async deleteApiToken(id: number): Promise<void> {
+    await db.delete(apiTokens).where(eq(apiTokens.id, id));
+  }
+  
+  // Login attempt methods
+  async createLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt> {
+    const [newAttempt] = await db.insert(loginAttempts).values(attempt).returning();
+    return newAttempt;
+  }
+  
+  async updateLoginAttemptResult(id: number, result: LoginAttemptResult): Promise<void> {
+    await db.update(loginAttempts).set({ result }).where(eq(loginAttempts.id, id));
+  }
+  
+  async getLoginAttempts(filter: LoginAttemptFilter = {}): Promise<LoginAttempt[]> {
+    const conditions: SQL[] = [];
+    if (filter.username) conditions.push(eq(loginAttempts.username, filter.username));
+    if (filter.ipAddress) conditions.push(eq(loginAttempts.ipAddress, filter.ipAddress));
+    if (filter.result) conditions.push(eq(loginAttempts.result, filter.result));
+    
+    return db.select()
+      .from(loginAttempts)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(loginAttempts.createdAt))
+      .limit(filter.limit ?? 200);
+  }
+  
+  async getLoginFailureStats(key: { username: string } | { ipAddress: string }, since: Date, beforeId?: number): Promise<{ count: number; lastFailureAt: Date | null }> {
+    const keyCondition = 'username' in key
+      ? eq(loginAttempts.username, key.username)
+      : eq(loginAttempts.ipAddress, key.ipAddress);
+    const [stats] = await db.select({
+      count: sql<number>`count(*)::int`,
+      lastFailureAt: sql<Date | null>`max(${loginAttempts.createdAt})`.mapWith(loginAttempts.createdAt),
+    })
+      .from(loginAttempts)
+      .where(and(
+        keyCondition,
+        inArray(loginAttempts.result, ['invalid_credentials', 'pending']),
+        gte(loginAttempts.createdAt, since),
+        beforeId !== undefined ? lt(loginAttempts.id, beforeId) : undefined
+      ));
+    return { count: stats?.count ?? 0, lastFailureAt: stats?.lastFailureAt ?? null };
+  }
+  
+  // Audit event methods
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    const [newEvent] = await db.insert(auditEvents).values(event).returning();
+    return newEvent;
+  }
+  
+  async getAuditEvents(filter: AuditEventFilter = {}): Promise<AuditEvent[]> {
+    const conditions: SQL[] = [];
+    if (filter.actorUsername) conditions.push(eq(auditEvents.actorUsername, filter.actorUsername));
+    if (filter.action) conditions.push(eq(auditEvents.action, filter.action));
+    if (filter.targetType) conditions.push(eq(auditEvents.targetType, filter.targetType));
+    if (filter.targetId) conditions.push(eq(auditEvents.targetId, filter.targetId));
+    if (filter.from) conditions.push(gte(auditEvents.createdAt, filter.from));
+    if (filter.to) conditions.push(lte(auditEvents.createdAt, filter.to));
+    
+    return db.select()
+      .from(auditEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(auditEvents.createdAt))
+      .limit(filter.limit ?? 200);
+  }
+  
   // Chat methods
   async getChat(id: number): Promise<Chat | undefined> {
     const [chat] = await db.select().from(chats).where(eq(chats.id, id));
@@ -89,14 +310,302 @@ export class DatabaseStorage implements IStorage {
   }
   
   async getChatsForUser(userId: number): Promise<Chat[]> {
-    return db.select().from(chats).where(eq(chats.userId, userId));
+    // 自分が作成したチャットを先に、招待されたチャットを後に並べる
+    const ownChats = await db.select().from(chats).where(eq(chats.userId, userId));
+    const memberChats = await db.select({ chat: chats })
+      .from(chatMembers)
+      .innerJoin(chats, eq(chatMembers.chatId, chats.id))
+      .where(eq(chatMembers.userId, userId));
+    
+    const ownIds = new Set(ownChats.map(chat => chat.id));
+    return [
+      ...ownChats,
+      ...memberChats.map(row => row.chat).filter(chat => !ownIds.has(chat.id))
+    ];
   }
   
   async createChat(chat: InsertChat): Promise<Chat> {
     const [newChat] = await db.insert(chats).values(chat).returning();
+    
+    // 作成者をオーナーとしてメンバーに登録
+    if (newChat.userId) {
+      await this.addChatMember({ chatId: newChat.id, userId: newChat.userId, role: 'owner' });
+    }
     return newChat;
   }
   
+  async updateChat(id: number, updates: Partial<InsertChat>): Promise<Chat | undefined> {
+    const [updatedChat] = await db
+      .update(chats)
+      .set(updates)
+      .where(eq(chats.id, id))
+      .returning();
+    return updatedChat;
+  }
+  
+  // Vehicle methods
+  async getVehicleModels(): Promise<VehicleModel[]> {
+    const result = await db.select().from(vehicleModels);
+    return result.sort((a, b) => a.maker.localeCompare(b.maker, 'ja') || a.name.localeCompare(b.name, 'ja'));
+  }
+  
+  async getVehicleModel(id: number): Promise<VehicleModel | undefined> {
+    const [model] = await db.select().from(vehicleModels).where(eq(vehicleModels.id, id));
+    return model;
+  }
+  
+  async createVehicleModel(model: InsertVehicleModel): Promise<VehicleModel> {
+    const [newModel] = await db.insert(vehicleModels).values(model).returning();
+    return newModel;
+  }
+  
+  async updateVehicleModel(id: number, updates: Partial<InsertVehicleModel>): Promise<VehicleModel | undefined> {
+    const [updatedModel] = await db
+      .update(vehicleModels)
+      .set(updates)
+      .where(eq(vehicleModels.id, id))
+      .returning();
+    return updatedModel;
+  }
+  
+  async deleteVehicleModel(id: number): Promise<void> {
+    await db.delete(vehicleModels).where(eq(vehicleModels.id, id));
+  }
+  
+  async getVehicles(): Promise<VehicleWithModel[]> {
+    const rows = await db.select({ vehicle: vehicles, model: vehicleModels })
+      .from(vehicles)
+      .innerJoin(vehicleModels, eq(vehicles.modelId, vehicleModels.id));
+    return rows
+      .map(row => ({ ...row.vehicle, model: row.model }))
+      .sort((a, b) => a.number.localeCompare(b.number, 'ja'));
+  }
+  
+  async getVehicle(id: number): Promise<VehicleWithModel | undefined> {
+    const [row] = await db.select({ vehicle: vehicles, model: vehicleModels })
+      .from(vehicles)
+      .innerJoin(vehicleModels, eq(vehicles.modelId, vehicleModels.id))
+      .where(eq(vehicles.id, id));
+    return row ? { ...row.vehicle, model: row.model } : undefined;
+  }
+  
+  async createVehicle(vehicle: InsertVehicle): Promise<Vehicle> {
+    const [newVehicle] = await db.insert(vehicles).values(vehicle).returning();
+    return newVehicle;
+  }
+  
+  async updateVehicle(id: number, updates: Partial<InsertVehicle>): Promise<Vehicle | undefined> {
+    const [updatedVehicle] = await db
+      .update(vehicles)
+      .set(updates)
+      .where(eq(vehicles.id, id))
+      .returning();
+    return updatedVehicle;
+  }
+  
+  async deleteVehicle(id: number): Promise<void> {
+    // チャットとの紐づけを外してから削除する
+    await db.update(chats).set({ vehicleId: null }).where(eq(chats.vehicleId, id));
+    await db.delete(vehicles).where(eq(vehicles.id, id));
+  }
+  
+  // Chat member methods
+  async getChatMembers(chatId: number): Promise<ChatMemberWithUser[]> {
+    const rows = await db.select({
+      member: chatMembers,
+      username: users.username,
+      displayName: users.displayName
+    })
+      .from(chatMembers)
+      .innerJoin(users, eq(chatMembers.userId, users.id))
+      .where(eq(chatMembers.chatId, chatId));
+    
+    return rows
+      .map(row => ({ ...row.member, username: row.username, displayName: row.displayName }))
+      .sort((a, b) => a.addedAt.getTime() - b.addedAt.getTime());
+  }
+  
+  async getChatMember(chatId: number, userId: number): Promise<ChatMember | undefined> {
+    const [member] = await db.select()
+      .from(chatMembers)
+      .where(and(eq(chatMembers.chatId, chatId), eq(chatMembers.userId, userId)));
+    return member;
+  }
+  
+  async addChatMember(member: InsertChatMember): Promise<ChatMember> {
+    // 既にメンバーの場合は役割を更新する
+    const [saved] = await db.insert(chatMembers)
+      .values(member)
+      .onConflictDoUpdate({
+        target: [chatMembers.chatId, chatMembers.userId],
+        set: { role: member.role }
+      })
+      .returning();
+    return saved;
+  }
+  
+  async removeChatMember(chatId: number, userId: number): Promise<void> {
+    await db.delete(chatMembers)
+      .where(and(eq(chatMembers.chatId, chatId), eq(chatMembers.userId, userId)));
+  }
+  
+  // Incident methods
+  async getIncident(id: number): Promise<Incident | undefined> {
+    const [incident] = await db.select().from(incidents).where(eq(incidents.id, id));
+    return incident;
+  }
+  
+  async getIncidentForChat(chatId: number): Promise<Incident | undefined> {
+    const [incident] = await db.select().from(incidents).where(eq(incidents.chatId, chatId));
+    return incident;
+  }
+  
+  async getIncidents(filter: IncidentFilter = {}): Promise<Incident[]> {
+    const conditions: SQL[] = [];
+    if (filter.status) conditions.push(eq(incidents.status, filter.status));
+    if (filter.severity) conditions.push(eq(incidents.severity, filter.severity));
+    if (filter.vehicle) conditions.push(ilike(incidents.vehicle, `%${filter.vehicle}%`));
+    if (filter.symptomCategory) conditions.push(eq(incidents.symptomCategory, filter.symptomCategory));
+    if (filter.from) conditions.push(gte(incidents.startedAt, filter.from));
+    if (filter.to) conditions.push(lte(incidents.startedAt, filter.to));
+    if (filter.department) {
+      conditions.push(inArray(incidents.chatId, db.select({ id: chats.id })
+        .from(chats)
+        .innerJoin(users, eq(chats.userId, users.id))
+        .where(eq(users.department, filter.department))));
+    }
+    
+    return db.select()
+      .from(incidents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(incidents.startedAt));
+  }
+  
+  async createIncident(incident: InsertIncident): Promise<Incident> {
+    const [newIncident] = await db.insert(incidents).values(incident).returning();
+    return newIncident;
+  }
+  
+  async updateIncident(id: number, updates: Partial<InsertIncident>): Promise<Incident | undefined> {
+    const [updatedIncident] = await db
+      .update(incidents)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(incidents.id, id))
+      .returning();
+    return updatedIncident;
+  }
+  
+  // Decision tree methods
+  async getDecisionTrees(): Promise<DecisionTree[]> {
+    const result = await db.select().from(decisionTrees);
+    return result.sort((a, b) => a.title.localeCompare(b.title, 'ja'));
+  }
+  
+  async getDecisionTree(id: number): Promise<DecisionTree | undefined> {
+    const [tree] = await db.select().from(decisionTrees).where(eq(decisionTrees.id, id));
+    return tree;
+  }
+  
+  async createDecisionTree(tree: InsertDecisionTree): Promise<DecisionTree> {
+    const [newTree] = await db.insert(decisionTrees).values(tree).returning();
+    return newTree;
+  }
+  
+  async updateDecisionTree(id: number, updates: Partial<InsertDecisionTree>): Promise<DecisionTree | undefined> {
+    const [updatedTree] = await db
+      .update(decisionTrees)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(decisionTrees.id, id))
+      .returning();
+    return updatedTree;
+  }
+  
+  async deleteDecisionTree(id: number): Promise<void> {
+    await db.delete(decisionTreeRuns).where(eq(decisionTreeRuns.treeId, id));
+    await db.delete(decisionTrees).where(eq(decisionTrees.id, id));
+  }
+  
+  async getActiveDecisionTreeRun(chatId: number): Promise<DecisionTreeRun | undefined> {
+    const [run] = await db.select()
+      .from(decisionTreeRuns)
+      .where(and(eq(decisionTreeRuns.chatId, chatId), eq(decisionTreeRuns.status, 'active')))
+      .orderBy(desc(decisionTreeRuns.startedAt));
+    return run;
+  }
+  
+  async getDecisionTreeRunsForChat(chatId: number): Promise<DecisionTreeRun[]> {
+    return db.select()
+      .from(decisionTreeRuns)
+      .where(eq(decisionTreeRuns.chatId, chatId))
+      .orderBy(decisionTreeRuns.startedAt);
+  }
+  
+  async createDecisionTreeRun(run: InsertDecisionTreeRun): Promise<DecisionTreeRun> {
+    const [newRun] = await db.insert(decisionTreeRuns).values(run).returning();
+    return newRun;
+  }
+  
+  async updateDecisionTreeRun(id: number, updates: Partial<InsertDecisionTreeRun>): Promise<DecisionTreeRun | undefined> {
+    const [updatedRun] = await db
+      .update(decisionTreeRuns)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(decisionTreeRuns.id, id))
+      .returning();
+    return updatedRun;
+  }
+  
+  // Maintenance contact methods
+  async getMaintenanceContacts(): Promise<MaintenanceContact[]> {
+    return db.select()
+      .from(maintenanceContacts)
+      .orderBy(maintenanceContacts.priority, maintenanceContacts.id);
+  }
+  
+  async getMaintenanceContact(id: number): Promise<MaintenanceContact | undefined> {
+    const [contact] = await db.select().from(maintenanceContacts).where(eq(maintenanceContacts.id, id));
+    return contact;
+  }
+  
+  async createMaintenanceContact(contact: InsertMaintenanceContact): Promise<MaintenanceContact> {
+    const [newContact] = await db.insert(maintenanceContacts).values(contact).returning();
+    return newContact;
+  }
+  
+  async updateMaintenanceContact(id: number, updates: Partial<InsertMaintenanceContact>): Promise<MaintenanceContact | undefined> {
+    const [updatedContact] = await db
+      .update(maintenanceContacts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(maintenanceContacts.id, id))
+      .returning();
+    return updatedContact;
+  }
+  
+  async deleteMaintenanceContact(id: number): Promise<void> {
+    await db.delete(maintenanceContacts).where(eq(maintenanceContacts.id, id));
+  }
+  
+  // Escalation methods
+  async getEscalationsForChat(chatId: number): Promise<ChatEscalation[]> {
+    return db.select()
+      .from(chatEscalations)
+      .where(eq(chatEscalations.chatId, chatId))
+      .orderBy(chatEscalations.createdAt);
+  }
+  
+  async createEscalation(escalation: InsertChatEscalation): Promise<ChatEscalation> {
+    const [newEscalation] = await db.insert(chatEscalations).values(escalation).returning();
+    return newEscalation;
+  }
+  
+  async updateEscalation(id: number, updates: Partial<InsertChatEscalation>): Promise<ChatEscalation | undefined> {
+    const [updatedEscalation] = await db
+      .update(chatEscalations)
+      .set(updates)
+      .where(eq(chatEscalations.id, id))
+      .returning();
+    return updatedEscalation;
+  }
+  
   // Message methods
   async getMessage(id: number): Promise<Message | undefined> {
     const [message] = await db.select().from(messages).where(eq(messages.id, id));
@@ -132,9 +641,19 @@ export class DatabaseStorage implements IStorage {
         }
       }
       
+      // エスカレーション記録は残し、メッセージとの紐付けだけ外す
+      await db.update(chatEscalations)
+        .set({ messageId: null })
+        .where(eq(chatEscalations.chatId, chatId));
+      
       // メッセージの削除
       await db.delete(messages).where(eq(messages.chatId, chatId));
       
+      // 実行中の判定ツリーは中断扱いにする
+      await db.update(decisionTreeRuns)
+        .set({ status: 'abandoned', currentNodeId: null, updatedAt: new Date() })
+        .where(and(eq(decisionTreeRuns.chatId, chatId), eq(decisionTreeRuns.status, 'active')));
+      
       console.log(`[INFO] Cleared all messages for chat ID: ${chatId}`);
     } catch (error) {
       console.error(`[ERROR] Failed to clear messages for chat ID: ${chatId}:`, error);
@@ -236,12 +755,19 @@ export class DatabaseStorage implements IStorage {
       .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
   }
 
-  async saveChatExport(chatId: number, userId: number, timestamp: Date): Promise<void> {
-    await db.insert(chatExports).values({
+  async saveChatExport(chatId: number, userId: number, timestamp: Date, since: Date | null = null): Promise<ChatExport> {
+    const [chatExport] = await db.insert(chatExports).values({
       chatId,
       userId,
-      timestamp
-    });
+      timestamp,
+      since
+    }).returning();
+    return chatExport;
+  }
+  
+  async getChatExport(id: number): Promise<ChatExport | undefined> {
+    const [chatExport] = await db.select().from(chatExports).where(eq(chatExports.id, id));
+    return chatExport;
   }
 
   async getLastChatExport(chatId: number): Promise<ChatExport | null> {
@@ -256,4 +782,116 @@ export class DatabaseStorage implements IStorage {
     // タイムスタンプの降順でソートし、最初の要素を返す
     return exports.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())[0];
   }
-}
\ No newline at end of file
+
+  // 履歴送信先関連のメソッド
+  async getExportDestinations(): Promise<ExportDestination[]> {
+    return await db.select()
+      .from(exportDestinations)
+      .where(isNull(exportDestinations.deletedAt))
+      .orderBy(exportDestinations.name);
+  }
+  
+  async getExportDestination(id: number): Promise<ExportDestination | undefined> {
+    const [destination] = await db.select().from(exportDestinations).where(eq(exportDestinations.id, id));
+    return destination;
+  }
+  
+  async createExportDestination(destination: InsertExportDestination): Promise<ExportDestination> {
+    const [newDestination] = await db.insert(exportDestinations).values(destination).returning();
+    return newDestination;
+  }
+  
+  async updateExportDestination(id: number, updates: Partial<InsertExportDestination>): Promise<ExportDestination | undefined> {
+    const [updatedDestination] = await db
+      .update(exportDestinations)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(exportDestinations.id, id))
+      .returning();
+    return updatedDestination;
+  }
+  
+  async deleteExportDestination(id: number): Promise<void> {
+    // 配信記録から送信先名を引けるように、行は残して削除済みにする
+    await db
+      .update(exportDestinations)
+      .set({ isActive: false, deletedAt: new Date(), updatedAt: new Date() })
+      .where(eq(exportDestinations.id, id));
+  }
+  
+  // 配信記録関連のメソッド
+  async createExportDelivery(delivery: InsertExportDelivery): Promise<ExportDelivery> {
+    const [newDelivery] = await db.insert(exportDeliveries).values(delivery).returning();
+    return newDelivery;
+  }
+  
+  async updateExportDelivery(id: number, updates: Partial<InsertExportDelivery>): Promise<ExportDelivery | undefined> {
+    const [updatedDelivery] = await db
+      .update(exportDeliveries)
+      .set(updates)
+      .where(eq(exportDeliveries.id, id))
+      .returning();
+    return updatedDelivery;
+  }
+  
+  private selectDeliveriesWithDestination() {
+    return db.select({
+      delivery: exportDeliveries,
+      destinationName: exportDestinations.name,
+      destinationType: exportDestinations.type,
+      chatId: chatExports.chatId
+    })
+      .from(exportDeliveries)
+      .innerJoin(exportDestinations, eq(exportDeliveries.destinationId, exportDestinations.id))
+      .innerJoin(chatExports, eq(exportDeliveries.exportId, chatExports.id));
+  }
+  
+  async getExportDeliveriesForExport(exportId: number): Promise<ExportDeliveryWithDestination[]> {
+    const rows = await this.selectDeliveriesWithDestination()
+      .where(eq(exportDeliveries.exportId, exportId))
+      .orderBy(exportDestinations.name);
+    return rows.map(({ delivery, ...rest }) => ({ ...delivery, ...rest }));
+  }
+  
+  async getDueExportDeliveries(now: Date): Promise<ExportDelivery[]> {
+    return await db.select()
+      .from(exportDeliveries)
+      .where(and(eq(exportDeliveries.status, 'pending'), lte(exportDeliveries.nextAttemptAt, now)))
+      .orderBy(exportDeliveries.nextAttemptAt);
+  }
+  
+  async getRecentExportDeliveries(limit: number): Promise<ExportDeliveryWithDestination[]> {
+    const rows = await this.selectDeliveriesWithDestination()
+      .orderBy(desc(exportDeliveries.createdAt))
+      .limit(limit);
+    return rows.map(({ delivery, ...rest }) => ({ ...delivery, ...rest }));
+  }
+
+  // 用語辞書関連のメソッド
+  async getGlossaryTerms(): Promise<GlossaryTerm[]> {
+    const result = await db.select().from(glossaryTerms);
+    return result.sort((a, b) => a.term.localeCompare(b.term, 'ja'));
+  }
+
+  async getGlossaryTerm(id: number): Promise<GlossaryTerm | undefined> {
+    const [term] = await db.select().from(glossaryTerms).where(eq(glossaryTerms.id, id));
+    return term;
+  }
+
+  async createGlossaryTerm(term: InsertGlossaryTerm): Promise<GlossaryTerm> {
+    const [newTerm] = await db.insert(glossaryTerms).values(term).returning();
+    return newTerm;
+  }
+
+  async updateGlossaryTerm(id: number, updates: Partial<InsertGlossaryTerm>): Promise<GlossaryTerm | undefined> {
+    const [updatedTerm] = await db
+      .update(glossaryTerms)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(glossaryTerms.id, id))
+      .returning();
+    return updatedTerm;
+  }
+
+  async deleteGlossaryTerm(id: number): Promise<void> {
+    await db.delete(glossaryTerms).where(eq(glossaryTerms.id, id));
+  }
+}
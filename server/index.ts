@@ -8,7 +8,20 @@ app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
 // Serve static files from public directory
-app.use('/static', express.static(path.join(process.cwd(), 'public')));
+// public/uploads は資料の公開範囲に従って routes.ts で配信するため、ここでは配信しない
+const servePublic = express.static(path.join(process.cwd(), 'public'));
+app.use('/static', (req, res, next) => {
+  let requestPath: string;
+  try {
+    requestPath = path.posix.normalize(decodeURIComponent(req.path)).toLowerCase();
+  } catch {
+    return res.status(400).end();
+  }
+  if (requestPath === '/uploads' || requestPath.startsWith('/uploads/')) {
+    return next();
+  }
+  servePublic(req, res, next);
+});
 
 // Add a test route to serve our HTML test page
 app.get('/test', (req, res) => {
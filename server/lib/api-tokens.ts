@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import type { Request, Response, NextFunction } from 'express';
+import type { ApiToken } from '@shared/schema';
+import { requiredApiTokenScope, type ApiTokenScope } from '@shared/api-tokens';
+import { storage } from '../storage';
+
+// トークンの形式: mct_<ランダム32バイトの base64url>（先頭で種類が分かるようにする）
+const TOKEN_PREFIX = 'mct_';
+const TOKEN_BYTES = 32;
+// 一覧で見分けるために保存する先頭の文字数
+const DISPLAY_PREFIX_LENGTH = TOKEN_PREFIX.length + 6;
+// 最終利用時刻を記録する間隔（リクエストのたびに更新しない）
+const TOUCH_INTERVAL = 60 * 1000;
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiToken?: ApiToken; // Authorization: Bearer で認証したトークン
+    }
+  }
+}
+
+// 画面に返すトークン（ハッシュは含めない）
+export type ApiTokenSummary = Omit<ApiToken, 'tokenHash'> & { expired: boolean };
+
+export function toApiTokenSummary(apiToken: ApiToken, now = new Date()): ApiTokenSummary {
+  const { tokenHash, ...summary } = apiToken;
+  return { ...summary, expired: apiToken.expiresAt <= now };
+}
+
+// トークンは十分に長い乱数なので、ソルトなしの SHA-256 で照合できる
+export function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * トークンを発行する
+ * @returns 平文のトークン（保存しないので、この時だけ画面に表示する）
+ */
+export async function issueApiToken(userId: number, options: { name: string; scopes: ApiTokenScope[]; expiresInDays: number }): Promise<{ token: string; apiToken: ApiToken }> {
+  const token = `${TOKEN_PREFIX}${crypto.randomBytes(TOKEN_BYTES).toString('base64url')}`;
+  const apiToken = await storage.createApiToken({
+    userId,
+    name: options.name,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+    scopes: options.scopes,
+    expiresAt: new Date(Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000)
+  });
+  return { token, apiToken };
+}
+
+/**
+ * Authorization: Bearer のトークンで認証するミドルウェア（/api のセッションミドルウェアより前に置く）
+ * 認証できたら req.session にユーザーを設定し、requireAuth・requirePermission をセッションと同じように通す
+ * トークンでの呼び出しはセッションストアを使わず、Cookie も発行しない
+ */
+export async function authenticateApiToken(req: Request, res: Response, next: NextFunction) {
+  const header = req.get('authorization');
+  if (!header?.startsWith('Bearer ')) {
+    return next();
+  }
+
+  try {
+    const apiToken = await storage.getApiTokenByHash(hashApiToken(header.slice('Bearer '.length).trim()));
+    const now = new Date();
+    if (!apiToken || apiToken.expiresAt <= now) {
+      return res.status(401).json({ message: "Invalid or expired API token", code: "INVALID_API_TOKEN" });
+    }
+
+    const scope = requiredApiTokenScope(req.method, req.path);
+    if (!scope || !apiToken.scopes.includes(scope)) {
+      return res.status(403).json({ message: "API token scope does not allow this request", code: "INSUFFICIENT_SCOPE", requiredScope: scope });
+    }
+
+    const user = await storage.getUser(apiToken.userId);
+    if (!user) {
+      return res.status(401).json({ message: "Invalid or expired API token", code: "INVALID_API_TOKEN" });
+    }
+
+    if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() >= TOUCH_INTERVAL) {
+      storage.touchApiToken(apiToken.id, now, req.ip || null)
+        .catch(error => console.error("Error touching API token:", error));
+    }
+
+    req.apiToken = apiToken;
+    req.session = { userId: user.id, userRole: user.role } as Request['session'];
+    next();
+  } catch (error) {
+    console.error("Error authenticating API token:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+}
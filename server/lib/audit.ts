@@ -0,0 +1,77 @@
+import type { Request } from 'express';
+import type { AuditAction, AuditEvent, User } from '@shared/schema';
+import { storage } from '../storage';
+
+export interface AuditEventInput {
+  action: AuditAction;
+  targetType?: string;
+  targetId?: string | number;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+/**
+ * 監査ログに残すユーザーの要約（パスワードは含めない）
+ */
+export function summarizeUser(user: User): Record<string, unknown> {
+  return {
+    username: user.username,
+    displayName: user.displayName,
+    role: user.role,
+    department: user.department,
+    mustChangePassword: user.mustChangePassword
+  };
+}
+
+/**
+ * 監査ログを記録する
+ * 記録に失敗しても操作自体は取り消せないため、エラーはログに残して呼び出し元には投げない
+ */
+export async function recordAuditEvent(req: Request, actor: Pick<User, 'id' | 'username'> | undefined, event: AuditEventInput): Promise<void> {
+  try {
+    await storage.createAuditEvent({
+      actorId: actor?.id ?? null,
+      actorUsername: actor?.username ?? null,
+      action: event.action,
+      targetType: event.targetType ?? null,
+      targetId: event.targetId !== undefined ? String(event.targetId) : null,
+      before: event.before ?? null,
+      after: event.after ?? null,
+      ipAddress: req.ip || null
+    });
+  } catch (error) {
+    console.error(`監査ログの記録に失敗しました: action=${event.action}, actorId=${actor?.id}`, error);
+  }
+}
+
+// CSV の1項目（カンマ・引用符・改行を含む場合は引用符で囲む）
+// ユーザー名などに入力された = + - @ で始まる値は、表計算ソフトで数式として実行されないよう ' を付ける
+const csvField = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  const raw = typeof value === 'string' ? value : value instanceof Date ? value.toISOString() : JSON.stringify(value);
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS: { header: string; value: (event: AuditEvent) => unknown }[] = [
+  { header: '日時', value: event => event.createdAt },
+  { header: '操作者ID', value: event => event.actorId },
+  { header: '操作者', value: event => event.actorUsername },
+  { header: '操作', value: event => event.action },
+  { header: '対象の種類', value: event => event.targetType },
+  { header: '対象ID', value: event => event.targetId },
+  { header: '変更前', value: event => event.before },
+  { header: '変更後', value: event => event.after },
+  { header: 'IPアドレス', value: event => event.ipAddress },
+];
+
+/**
+ * 監査ログを CSV にする（Excel で文字化けしないよう先頭に BOM を付ける）
+ */
+export function auditEventsToCsv(events: AuditEvent[]): string {
+  const lines = [
+    CSV_COLUMNS.map(column => csvField(column.header)).join(','),
+    ...events.map(event => CSV_COLUMNS.map(column => csvField(column.value(event))).join(',')),
+  ];
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
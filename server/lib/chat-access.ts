@@ -0,0 +1,41 @@
+import type { Chat, ChatMemberRole, User } from '@shared/schema';
+import { hasPermission } from '@shared/permissions';
+import { storage } from '../storage';
+
+// 役割の強さ（大きいほど多くの操作ができる）
+const CHAT_ROLE_LEVEL: Record<ChatMemberRole, number> = {
+  observer: 1,
+  participant: 2,
+  owner: 3
+};
+
+/**
+ * ユーザーのチャットでの役割を求める
+ * メンバー登録より前に作成されたチャットは作成者をオーナーとみなし、
+ * chats:manage_all の権限を持つユーザーはメンバーでなくてもオーナーと同じ操作ができる
+ * incidents:view_department の権限を持つユーザーは自部署のユーザーが作成したチャットを閲覧できる
+ * @returns 役割（アクセスできない場合は null）
+ */
+export async function resolveChatRole(chat: Chat, user: Pick<User, 'id' | 'role' | 'department'>): Promise<ChatMemberRole | null> {
+  if (chat.userId === user.id || hasPermission(user.role, 'chats:manage_all')) {
+    return 'owner';
+  }
+  const member = await storage.getChatMember(chat.id, user.id);
+  if (member) {
+    return member.role;
+  }
+  if (chat.userId && user.department && hasPermission(user.role, 'incidents:view_department')) {
+    const creator = await storage.getUser(chat.userId);
+    if (creator?.department === user.department) {
+      return 'observer';
+    }
+  }
+  return null;
+}
+
+/**
+ * 役割が必要な役割以上かどうか
+ */
+export function hasChatRole(role: ChatMemberRole | null, required: ChatMemberRole): boolean {
+  return role !== null && CHAT_ROLE_LEVEL[role] >= CHAT_ROLE_LEVEL[required];
+}
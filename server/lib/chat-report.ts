@@ -0,0 +1,186 @@
+import fs from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { format } from 'date-fns';
+import type { Chat, MessageCitation } from '@shared/schema';
+import { INCIDENT_STATUS_LABELS, INCIDENT_SEVERITY_LABELS } from '@shared/incident';
+import { storage } from '../storage';
+import { extractStepLines } from './conversation';
+
+// 報告書に埋め込む画像の最大幅（ピクセル）
+const MAX_IMAGE_WIDTH = 1200;
+
+// 報告書に埋め込む画像（JPEGに変換済み）
+export interface ReportImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+// 報告書の構成要素（PDF・DOCX の両方で同じ順に出力する）
+export type ReportBlock =
+  | { type: 'heading'; text: string; level: 1 | 2 }
+  | { type: 'paragraph'; text: string; muted?: boolean }
+  | { type: 'image'; image: ReportImage };
+
+export interface ChatReport {
+  title: string;
+  // ダウンロード時のファイル名（拡張子なし）
+  fileName: string;
+  blocks: ReportBlock[];
+  messageCount: number;
+}
+
+// 報告書に含めるメッセージの期間
+export interface ChatReportRange {
+  since: Date;
+  until: Date;
+}
+
+const formatTime = (date: Date) => format(date, 'yyyy/MM/dd HH:mm');
+
+/**
+ * メディアのURLから画像を読み込み、JPEGに変換する
+ * data URL と公開ディレクトリ（/uploads, /static）のファイルのみ扱い、外部URLは読み込まない
+ */
+async function loadReportImage(url: string): Promise<ReportImage | null> {
+  try {
+    let input: Buffer;
+    const dataUrl = url.match(/^data:image\/[a-z+]+;base64,(.+)$/i);
+    if (dataUrl) {
+      input = Buffer.from(dataUrl[1], 'base64');
+    } else if (url.startsWith('/')) {
+      const publicDir = path.join(process.cwd(), 'public');
+      const filePath = path.resolve(publicDir, '.' + url.replace(/^\/static\//, '/').split('?')[0]);
+      if (!filePath.startsWith(publicDir + path.sep) || !fs.existsSync(filePath)) return null;
+      input = await fs.promises.readFile(filePath);
+    } else {
+      return null;
+    }
+
+    const { data, info } = await sharp(input)
+      .rotate()
+      .resize({ width: MAX_IMAGE_WIDTH, withoutEnlargement: true })
+      .flatten({ background: '#ffffff' })
+      .toColourspace('srgb')
+      .jpeg({ quality: 80 })
+      .toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height };
+  } catch (error) {
+    console.error('報告書用の画像を読み込めませんでした:', error);
+    return null;
+  }
+}
+
+/**
+ * チャットのインシデント報告書を組み立てる
+ * 対象期間のメッセージ（写真を含む）、判定ツリーで実施した手順、参照資料、インシデント情報をまとめる
+ * @param chat 対象チャット
+ * @param range 含めるメッセージの期間（前回の履歴送信以降など）
+ */
+export async function buildChatReport(chat: Chat, range: ChatReportRange): Promise<ChatReport> {
+  const messages = (await storage.getMessagesForChatAfterTimestamp(chat.id, range.since))
+    .filter(message => message.timestamp <= range.until);
+  const incident = await storage.getIncidentForChat(chat.id);
+  const vehicle = chat.vehicleId ? await storage.getVehicle(chat.vehicleId) : undefined;
+
+  const blocks: ReportBlock[] = [];
+  const title = `故障対応報告書 ${chat.title}`;
+  blocks.push({ type: 'heading', text: title, level: 1 });
+  blocks.push({
+    type: 'paragraph',
+    text: `対象期間: ${range.since.getTime() > 0 ? formatTime(range.since) : 'チャット開始'} 〜 ${formatTime(range.until)}`,
+    muted: true
+  });
+
+  // インシデント情報
+  blocks.push({ type: 'heading', text: 'インシデント情報', level: 2 });
+  const vehicleLabel = vehicle ? `${vehicle.number}（${vehicle.model.maker} ${vehicle.model.name}）` : incident?.vehicle;
+  if (incident) {
+    blocks.push(
+      { type: 'paragraph', text: `車両: ${vehicleLabel || '-'}` },
+      { type: 'paragraph', text: `場所: ${incident.location || '-'}` },
+      { type: 'paragraph', text: `症状分類: ${incident.symptomCategory || '-'}` },
+      { type: 'paragraph', text: `重大度: ${INCIDENT_SEVERITY_LABELS[incident.severity]}` },
+      { type: 'paragraph', text: `状態: ${INCIDENT_STATUS_LABELS[incident.status]}` },
+      { type: 'paragraph', text: `発生日時: ${formatTime(incident.startedAt)}` },
+      { type: 'paragraph', text: `終了日時: ${incident.endedAt ? formatTime(incident.endedAt) : '-'}` },
+      { type: 'paragraph', text: `対応結果: ${incident.resolutionSummary || '-'}` }
+    );
+  } else {
+    if (vehicleLabel) blocks.push({ type: 'paragraph', text: `車両: ${vehicleLabel}` });
+    blocks.push({ type: 'paragraph', text: 'インシデントは記録されていません', muted: true });
+  }
+
+  // 判定ツリーとAIの回答で示された復旧手順
+  const runs = (await storage.getDecisionTreeRunsForChat(chat.id))
+    .filter(run => run.updatedAt >= range.since && run.startedAt <= range.until && run.path.length > 0);
+  const aiSteps = messages
+    .filter(message => message.isAiResponse)
+    .map(message => ({ message, steps: extractStepLines(message.content) }))
+    .filter(({ steps }) => steps.length > 0);
+  blocks.push({ type: 'heading', text: '実施した復旧手順', level: 2 });
+  if (runs.length === 0 && aiSteps.length === 0) {
+    blocks.push({ type: 'paragraph', text: '手順の記録はありません', muted: true });
+  }
+  for (const run of runs) {
+    const tree = await storage.getDecisionTree(run.treeId);
+    const status = run.status === 'completed' ? '完了' : run.status === 'abandoned' ? '中断' : '実施中';
+    blocks.push({ type: 'paragraph', text: `${tree?.title || '削除された判定ツリー'}（${formatTime(run.startedAt)} 開始・${status}）` });
+    run.path.forEach((step, index) => {
+      const node = tree?.nodes.find(n => n.id === step.nodeId);
+      const instruction = node ? (node.hazard ? `【危険】${node.instruction}` : node.instruction) : step.nodeId;
+      blocks.push({ type: 'paragraph', text: `${index + 1}. ${instruction} → ${step.answer}` });
+    });
+  }
+  for (const { message, steps } of aiSteps) {
+    blocks.push({ type: 'paragraph', text: `AIの回答で示された手順（${formatTime(message.timestamp)}）` });
+    steps.forEach(step => blocks.push({ type: 'paragraph', text: step }));
+  }
+
+  // 会話記録
+  blocks.push({ type: 'heading', text: '会話記録', level: 2 });
+  if (messages.length === 0) {
+    blocks.push({ type: 'paragraph', text: '対象期間のメッセージはありません', muted: true });
+  }
+  const senderNames = new Map<number, string>();
+  const citations = new Map<string, MessageCitation>();
+  for (const message of messages) {
+    let speaker = 'AI';
+    if (!message.isAiResponse && message.senderId) {
+      if (!senderNames.has(message.senderId)) {
+        const sender = await storage.getUser(message.senderId);
+        senderNames.set(message.senderId, sender?.displayName || '不明なユーザー');
+      }
+      speaker = senderNames.get(message.senderId)!;
+    }
+    blocks.push({ type: 'paragraph', text: `${formatTime(message.timestamp)}  ${speaker}`, muted: true });
+    blocks.push({ type: 'paragraph', text: message.content });
+
+    for (const item of await storage.getMediaForMessage(message.id)) {
+      const image = item.type === 'image' ? await loadReportImage(item.url) : null;
+      blocks.push(image
+        ? { type: 'image', image }
+        : { type: 'paragraph', text: item.type === 'video' ? '（動画の添付あり）' : '（画像を読み込めませんでした）', muted: true });
+    }
+    for (const citation of message.citations || []) {
+      citations.set(`${citation.source}|${citation.location || ''}`, citation);
+    }
+  }
+
+  // 参照資料
+  blocks.push({ type: 'heading', text: '参照資料', level: 2 });
+  if (citations.size === 0) {
+    blocks.push({ type: 'paragraph', text: '参照した資料はありません', muted: true });
+  }
+  for (const citation of Array.from(citations.values())) {
+    blocks.push({ type: 'paragraph', text: citation.location ? `${citation.source}（${citation.location}）` : citation.source });
+  }
+
+  return {
+    title,
+    fileName: `incident-report-${chat.id}-${format(range.until, 'yyyyMMdd-HHmm')}`,
+    blocks,
+    messageCount: messages.length
+  };
+}
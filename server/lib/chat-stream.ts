@@ -0,0 +1,151 @@
+import { randomUUID } from 'crypto';
+import { WebSocket } from 'ws';
+import type { ChatStreamMessage, ChatPresenceUser } from '@shared/chat-stream';
+
+// セッションの終了・ユーザーの削除で接続を閉じるときのクローズコード
+const SESSION_REVOKED_CLOSE_CODE = 4001;
+
+// 認証済みの WebSocket 接続
+interface StreamClient {
+  ws: WebSocket;
+  user: ChatPresenceUser;
+  // 接続時に認証したセッションID
+  sid: string;
+  // 購読中のチャットID
+  chatIds: Set<number>;
+}
+
+// クライアントID → 接続
+const streamClients = new Map<string, StreamClient>();
+
+/**
+ * 認証済みの WebSocket 接続を登録し、クライアントIDを返す
+ * 接続が閉じられると購読中のチャットから外れ、登録も解除される
+ */
+export function registerStreamClient(ws: WebSocket, user: ChatPresenceUser, sid: string): string {
+  const clientId = randomUUID();
+  const client: StreamClient = { ws, user, sid, chatIds: new Set() };
+  streamClients.set(clientId, client);
+
+  ws.on('close', () => {
+    streamClients.delete(clientId);
+    client.chatIds.forEach(chatId => broadcastPresence(chatId));
+  });
+  return clientId;
+}
+
+/**
+ * クライアントIDに対応する開いている接続を返す
+ * 他のユーザーの接続にはストリーミングさせないため、ユーザーIDも照合する
+ */
+export function getStreamClient(clientId: string, userId: number): WebSocket | null {
+  const client = streamClients.get(clientId);
+  if (!client || client.user.userId !== userId) return null;
+  return client.ws.readyState === WebSocket.OPEN ? client.ws : null;
+}
+
+/**
+ * 型付きのメッセージを送る（接続が閉じていれば破棄する）
+ */
+export function sendStreamMessage(ws: WebSocket, message: ChatStreamMessage): void {
+  if (ws.readyState !== WebSocket.OPEN) return;
+  ws.send(JSON.stringify(message));
+}
+
+/**
+ * 接続をチャットに参加させ、参加者に接続中ユーザーの変化を通知する
+ * 参加可否の判定は呼び出し側で行う
+ */
+export function subscribeToChat(clientId: string, chatId: number): ChatPresenceUser[] {
+  const client = streamClients.get(clientId);
+  if (!client) return [];
+  client.chatIds.add(chatId);
+  broadcastPresence(chatId);
+  return getChatPresence(chatId);
+}
+
+/**
+ * 接続をチャットから外す
+ */
+export function unsubscribeFromChat(clientId: string, chatId: number): void {
+  const client = streamClients.get(clientId);
+  if (!client || !client.chatIds.delete(chatId)) return;
+  broadcastPresence(chatId);
+}
+
+/**
+ * ユーザーのすべての接続をチャットから外し、購読拒否を通知する
+ * メンバーから外されたユーザーにそれ以降のメッセージが届かないようにする
+ */
+export function removeUserFromChat(chatId: number, userId: number, reason: string): void {
+  let removed = false;
+  streamClients.forEach(client => {
+    if (client.user.userId !== userId || !client.chatIds.delete(chatId)) return;
+    removed = true;
+    sendStreamMessage(client.ws, { type: 'denied', chatId, message: reason });
+  });
+  if (removed) broadcastPresence(chatId);
+}
+
+/**
+ * ユーザーの接続を閉じる（ログアウト・セッションの終了・ユーザーの削除で呼ぶ）
+ * 接続は確立時に一度だけ認証するため、閉じないと終了したセッションでメッセージを受け取り続ける
+ * @param sid 指定した場合はそのセッションで確立した接続だけを閉じる
+ * @returns 閉じた接続数
+ */
+export function disconnectUser(userId: number, sid?: string): number {
+  let closed = 0;
+  streamClients.forEach((client, clientId) => {
+    if (client.user.userId !== userId || (sid !== undefined && client.sid !== sid)) return;
+    // 閉じる前に登録を外し、終了処理の間にメッセージが届かないようにする
+    streamClients.delete(clientId);
+    client.chatIds.forEach(chatId => broadcastPresence(chatId));
+    client.ws.close(SESSION_REVOKED_CLOSE_CODE, 'Session revoked');
+    closed++;
+  });
+  return closed;
+}
+
+/**
+ * 接続が指定チャットを購読しているか
+ */
+export function isSubscribedToChat(clientId: string, chatId: number): boolean {
+  return streamClients.get(clientId)?.chatIds.has(chatId) ?? false;
+}
+
+/**
+ * チャットに接続中のユーザー（同じユーザーの複数接続は1件にまとめる）
+ */
+export function getChatPresence(chatId: number): ChatPresenceUser[] {
+  const members = new Map<number, ChatPresenceUser>();
+  streamClients.forEach(client => {
+    if (client.chatIds.has(chatId)) members.set(client.user.userId, client.user);
+  });
+  return Array.from(members.values());
+}
+
+/**
+ * チャットを購読している接続にメッセージを送る
+ * @param options.exceptClientId 送信元など、送らない接続
+ */
+export function broadcastToChat(
+  chatId: number,
+  message: ChatStreamMessage,
+  options: { exceptClientId?: string } = {}
+): void {
+  streamClients.forEach((client, clientId) => {
+    if (clientId === options.exceptClientId || !client.chatIds.has(chatId)) return;
+    sendStreamMessage(client.ws, message);
+  });
+}
+
+function broadcastPresence(chatId: number): void {
+  broadcastToChat(chatId, { type: 'presence', chatId, members: getChatPresence(chatId) });
+}
+
+/**
+ * 接続のユーザー情報を返す
+ */
+export function getStreamClientUser(clientId: string): ChatPresenceUser | null {
+  return streamClients.get(clientId)?.user ?? null;
+}
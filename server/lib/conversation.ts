@@ -0,0 +1,128 @@
+import { Message } from '@shared/schema';
+
+// OpenAIに送る会話の1ターン
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// トークン予算内に収めた会話履歴
+export interface ConversationHistory {
+  // 予算内でそのまま送る直近のターン（古い順）
+  recent: ConversationTurn[];
+  // 予算からあふれた古いターン（要約の対象、古い順）
+  overflow: ConversationTurn[];
+}
+
+// 会話履歴に使うトークン数の上限
+export const HISTORY_TOKEN_BUDGET = parseInt(process.env.CHAT_HISTORY_TOKEN_BUDGET || '', 10) || 2000;
+
+// 検索クエリに含める直近のアシスタント応答の数
+const RETRIEVAL_ASSISTANT_TURNS = 1;
+// 検索クエリに含める直近のユーザー発話の数（最初の質問とは別に）
+const RETRIEVAL_USER_TURNS = 2;
+
+/**
+ * トークン数を概算する
+ * 日本語は1文字≒1トークン、英数字は4文字≒1トークンとして数える
+ */
+export function estimateTokens(text: string): number {
+  const cjk = (text.match(/[぀-ヿ㐀-鿿豈-﫿々〆ー]/g) || []).length;
+  const others = text.length - cjk;
+  return cjk + Math.ceil(others / 4);
+}
+
+/**
+ * チャットのメッセージを会話ターンに変換する
+ */
+export function toConversationTurns(messages: Message[]): ConversationTurn[] {
+  return messages
+    .filter(message => message.content && message.content.trim().length > 0)
+    .map(message => ({
+      role: message.isAiResponse ? 'assistant' : 'user',
+      content: message.content
+    }));
+}
+
+/**
+ * 新しいターンから順にトークン予算に収まるだけ残し、残りを要約対象に回す
+ * @param turns 会話ターン（古い順）
+ * @param budget トークン予算
+ */
+export function fitHistoryToBudget(turns: ConversationTurn[], budget: number = HISTORY_TOKEN_BUDGET): ConversationHistory {
+  let used = 0;
+  let start = turns.length;
+  while (start > 0) {
+    const cost = estimateTokens(turns[start - 1].content);
+    if (used + cost > budget) break;
+    used += cost;
+    start--;
+  }
+
+  // 直近のターンがアシスタントの応答から始まらないよう、ユーザー発話の位置まで詰める
+  while (start > 0 && start < turns.length && turns[start].role === 'assistant') {
+    start++;
+  }
+
+  return {
+    recent: turns.slice(start),
+    overflow: turns.slice(0, start)
+  };
+}
+
+/**
+ * アシスタントの応答から番号付きの手順行（「1. 〜」）を取り出す
+ * @param content アシスタントの応答本文
+ */
+export function extractStepLines(content: string): string[] {
+  return content.split('\n')
+    .filter(line => /^\s*\d+\.\s/.test(line))
+    .map(line => line.trim());
+}
+
+/**
+ * LLMを使わずに古いターンを要約する
+ * ユーザーの最初の質問と、アシスタントが示した番号付きの手順だけを残す
+ */
+export function summarizeTurnsExtractively(turns: ConversationTurn[], maxTokens: number = Math.floor(HISTORY_TOKEN_BUDGET / 4)): string {
+  const lines: string[] = [];
+  const firstQuestion = turns.find(turn => turn.role === 'user');
+  if (firstQuestion) {
+    lines.push(`最初の質問: ${firstQuestion.content.trim()}`);
+  }
+
+  for (const turn of turns) {
+    if (turn.role === 'assistant') {
+      extractStepLines(turn.content).forEach(step => lines.push(`実施済み手順: ${step}`));
+    } else if (turn !== firstQuestion) {
+      lines.push(`ユーザーの返答: ${turn.content.trim()}`);
+    }
+  }
+
+  // 予算を超える場合は古い行から落とす（最初の質問は残す）
+  while (lines.length > 1 && estimateTokens(lines.join('\n')) > maxTokens) {
+    lines.splice(1, 1);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * 会話全体を踏まえた検索クエリを組み立てる
+ * 「下がらない」のような短い返答だけでは検索できないため、
+ * 最初の質問と直前の手順・直近の返答を合わせて検索する
+ * @param turns これまでの会話ターン（今回の発話を含まない）
+ * @param currentMessage 今回のユーザー発話
+ */
+export function buildThreadRetrievalQuery(turns: ConversationTurn[], currentMessage: string): string {
+  const userTurns = turns.filter(turn => turn.role === 'user');
+  if (userTurns.length === 0) return currentMessage;
+
+  const parts: string[] = [userTurns[0].content];
+  userTurns.slice(1).slice(-RETRIEVAL_USER_TURNS).forEach(turn => parts.push(turn.content));
+  turns.filter(turn => turn.role === 'assistant')
+    .slice(-RETRIEVAL_ASSISTANT_TURNS)
+    .forEach(turn => parts.push(turn.content));
+  parts.push(currentMessage);
+
+  return parts.join('\n');
+}
@@ -0,0 +1,176 @@
+import type { Chat, DecisionTree, DecisionTreeBranch, DecisionTreeNode, DecisionTreeRun, DecisionTreeStep } from '@shared/schema';
+import { storage } from '../storage';
+import { matchForm } from './query-understanding';
+
+// 判定ツリーで進めた1ターンの結果
+export interface DecisionTreeTurn {
+  // ユーザーの発話に記録するステップ（ツリーを開始したターンでは undefined）
+  userStep?: DecisionTreeStep;
+  // AIの応答として保存する内容とステップ
+  reply: string;
+  replyStep: DecisionTreeStep;
+  // ノードに設定された参考画像
+  imageUrl: string | null;
+}
+
+/**
+ * 判定ツリーの構成を検証する
+ * @returns エラーメッセージ（問題がなければ空配列）
+ */
+export function validateDecisionTree(rootNodeId: string, nodes: DecisionTreeNode[]): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  for (const node of nodes) {
+    if (ids.has(node.id)) errors.push(`ノードID「${node.id}」が重複しています`);
+    ids.add(node.id);
+  }
+  if (!ids.has(rootNodeId)) {
+    errors.push(`開始ノード「${rootNodeId}」が存在しません`);
+  }
+
+  for (const node of nodes) {
+    const answers = new Set<string>();
+    for (const branch of node.branches) {
+      if (answers.has(branch.answer)) errors.push(`ノード「${node.id}」の回答「${branch.answer}」が重複しています`);
+      answers.add(branch.answer);
+      if (branch.nextNodeId !== null && !ids.has(branch.nextNodeId)) {
+        errors.push(`ノード「${node.id}」の回答「${branch.answer}」の移動先「${branch.nextNodeId}」が存在しません`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * 質問に合う判定ツリーを選ぶ
+ * 開始語句を多く含むツリーを優先し、同数なら車両の型式専用のツリーを優先する
+ * @param vehicleModelId チャットの対象車両の型式（未設定の場合は全型式共通のツリーのみ）
+ */
+export function findDecisionTree(query: string, trees: DecisionTree[], vehicleModelId?: number | null): DecisionTree | null {
+  const folded = matchForm(query);
+  let best: { tree: DecisionTree, score: number } | null = null;
+
+  for (const tree of trees) {
+    if (!tree.isActive) continue;
+    if (tree.vehicleModelId !== null && tree.vehicleModelId !== vehicleModelId) continue;
+
+    const hits = tree.triggerKeywords.filter(keyword => keyword.trim() && folded.includes(matchForm(keyword))).length;
+    if (hits === 0) continue;
+
+    const score = hits + (tree.vehicleModelId !== null ? 0.5 : 0);
+    if (!best || score > best.score) best = { tree, score };
+  }
+  return best ? best.tree : null;
+}
+
+/**
+ * ユーザーの回答に合う分岐を選ぶ
+ * 完全一致を優先し、なければ回答に含まれる最も長い選択肢を選ぶ（「下がらないです」→「下がらない」）
+ */
+export function matchBranch(node: DecisionTreeNode, answer: string): DecisionTreeBranch | null {
+  const folded = matchForm(answer);
+  const exact = node.branches.find(branch => matchForm(branch.answer) === folded);
+  if (exact) return exact;
+
+  const contained = node.branches
+    .filter(branch => folded.includes(matchForm(branch.answer)))
+    .sort((a, b) => b.answer.length - a.answer.length);
+  return contained[0] || null;
+}
+
+/**
+ * ノードをチャットに表示する文面にする
+ */
+export function formatNodeMessage(node: DecisionTreeNode): string {
+  const instruction = node.hazard ? `【危険】${node.instruction}` : node.instruction;
+  if (node.branches.length === 0) {
+    return `${instruction}\n\n以上で手順は終了です。解決しない場合は保守担当者に連絡してください。`;
+  }
+  return `${instruction}\n\n結果を次から選んでください: ${node.branches.map(branch => `「${branch.answer}」`).join(' ')}`;
+}
+
+function findNode(tree: DecisionTree, nodeId: string | null): DecisionTreeNode | undefined {
+  return nodeId ? tree.nodes.find(node => node.id === nodeId) : undefined;
+}
+
+// ノードを表示するAI応答のステップ
+function replyStepFor(tree: DecisionTree, run: DecisionTreeRun, node: DecisionTreeNode): DecisionTreeStep {
+  return { treeId: tree.id, runId: run.id, nodeId: node.id, answers: node.branches.map(branch => branch.answer) };
+}
+
+async function abandonRun(run: DecisionTreeRun, reason: string): Promise<void> {
+  await storage.updateDecisionTreeRun(run.id, { status: 'abandoned', currentNodeId: null });
+  console.log(`判定ツリー中断: runId=${run.id}, 理由=${reason}`);
+}
+
+/**
+ * チャットの発話を判定ツリーで処理する
+ * 実行中のツリーがあれば回答に従って次のノードへ進め、なければ質問に合うツリーを開始する
+ * 回答が選択肢に合わない場合や合うツリーがない場合は null を返す（LLMで回答する）
+ * @param chat 対象チャット
+ * @param content ユーザーの発話
+ * @param vehicleModelId チャットの対象車両の型式
+ */
+export async function runDecisionTreeTurn(
+  chat: Chat,
+  content: string,
+  vehicleModelId?: number | null
+): Promise<DecisionTreeTurn | null> {
+  const activeRun = await storage.getActiveDecisionTreeRun(chat.id);
+  if (activeRun) {
+    const tree = await storage.getDecisionTree(activeRun.treeId);
+    const node = tree ? findNode(tree, activeRun.currentNodeId) : undefined;
+    if (!tree || !node) {
+      await abandonRun(activeRun, 'ツリーまたはノードが削除されました');
+      return null;
+    }
+
+    const branch = matchBranch(node, content);
+    if (!branch) {
+      await abandonRun(activeRun, '選択肢にない回答');
+      return null;
+    }
+
+    const userStep: DecisionTreeStep = { treeId: tree.id, runId: activeRun.id, nodeId: node.id, answer: branch.answer };
+    const path = [...activeRun.path, { nodeId: node.id, answer: branch.answer }];
+    const next = findNode(tree, branch.nextNodeId);
+
+    // 移動先がない分岐、または終端ノードに着いたら完了
+    const finished = !next || next.branches.length === 0;
+    const run = await storage.updateDecisionTreeRun(activeRun.id, {
+      path,
+      currentNodeId: finished ? null : next.id,
+      status: finished ? 'completed' : 'active'
+    }) || activeRun;
+
+    if (!next) {
+      return {
+        userStep,
+        reply: '以上で手順は終了です。解決しない場合は保守担当者に連絡してください。',
+        replyStep: { treeId: tree.id, runId: run.id, nodeId: node.id, answers: [] },
+        imageUrl: null
+      };
+    }
+    return { userStep, reply: formatNodeMessage(next), replyStep: replyStepFor(tree, run, next), imageUrl: next.imageUrl };
+  }
+
+  const tree = findDecisionTree(content, await storage.getDecisionTrees(), vehicleModelId);
+  const root = tree ? findNode(tree, tree.rootNodeId) : undefined;
+  if (!tree || !root) return null;
+
+  const run = await storage.createDecisionTreeRun({
+    chatId: chat.id,
+    treeId: tree.id,
+    currentNodeId: root.branches.length > 0 ? root.id : null,
+    path: [],
+    status: root.branches.length > 0 ? 'active' : 'completed'
+  });
+  console.log(`判定ツリー開始: treeId=${tree.id}, chatId=${chat.id}, runId=${run.id}`);
+
+  return {
+    reply: `「${tree.title}」の手順で確認します。\n\n${formatNodeMessage(root)}`,
+    replyStep: replyStepFor(tree, run, root),
+    imageUrl: root.imageUrl
+  };
+}
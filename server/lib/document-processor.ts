@@ -1,16 +1,14 @@
 import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.js';
 import * as mammoth from 'mammoth';
 import * as XLSX from 'xlsx';
-import { parse } from 'node-html-parser';
+import { parse, HTMLElement } from 'node-html-parser';
 import fs from 'fs';
 import path from 'path';
 import { pipeline } from 'stream/promises';
 import { promisify } from 'util';
 import sharp from 'sharp';
 import AdmZip from 'adm-zip';
-
-// adm-zipモジュールの型定義
-declare module 'adm-zip';
+import { writeVectorIndex, searchVectorIndex, listIndexedDocumentIds } from './vector-index';
 
 // We'll handle PDF worker in the extractPdfText function instead of at the module level
 
@@ -31,23 +29,41 @@ export interface ProcessedDocument {
   };
 }
 
+// Location of a chunk inside its source document
+export interface ChunkLocation {
+  pageNumber?: number;
+  slide?: number;
+  sheet?: string;
+  heading?: string;
+}
+
 // Interface for document chunks
 export interface DocumentChunk {
   text: string;
-  metadata: {
+  metadata: ChunkLocation & {
     source: string;
-    pageNumber?: number;
     chunkNumber: number;
     isImportant?: boolean;
   };
 }
 
+/**
+ * Structural unit reported by an extractor (page, slide, sheet or heading section)
+ * Chunks never cross section boundaries
+ */
+export interface TextSection {
+  text: string;
+  location?: ChunkLocation;
+  // Repeated at the top of every chunk of the section (e.g. Excel column headers)
+  header?: string;
+}
+
 /**
  * Extract text content from a PDF file
  * @param filePath Path to PDF file
  * @returns Extracted text and metadata
  */
-export async function extractPdfText(filePath: string): Promise<{ text: string, pageCount: number }> {
+export async function extractPdfText(filePath: string): Promise<{ text: string, pageCount: number, pages: TextSection[] }> {
   try {
     // PDF.js workerを設定
     pdfjs.GlobalWorkerOptions.workerSrc = `//cdnjs.cloudflare.com/ajax/libs/pdf.js/${pdfjs.version}/pdf.worker.min.js`;
@@ -58,6 +74,7 @@ export async function extractPdfText(filePath: string): Promise<{ text: string,
     
     const pageCount = pdf.numPages;
     let text = '';
+    const pages: TextSection[] = [];
     
     for (let i = 1; i <= pageCount; i++) {
       const page = await pdf.getPage(i);
@@ -68,9 +85,10 @@ export async function extractPdfText(filePath: string): Promise<{ text: string,
         .join(' ');
       
       text += pageText + '\n\n';
+      pages.push({ text: pageText, location: { pageNumber: i } });
     }
     
-    return { text, pageCount };
+    return { text, pageCount, pages };
   } catch (error) {
     console.error('Error extracting PDF text:', error);
     throw new Error('PDF text extraction failed');
@@ -92,6 +110,43 @@ export async function extractWordText(filePath: string): Promise<string> {
   }
 }
 
+/**
+ * Extract heading-delimited sections from a Word document
+ * @param filePath Path to Word document
+ * @returns Sections split at h1-h6 headings
+ */
+export async function extractWordSections(filePath: string): Promise<TextSection[]> {
+  try {
+    const result = await mammoth.convertToHtml({ path: filePath });
+    const root = parse(result.value);
+    const sections: TextSection[] = [];
+    let current: TextSection = { text: '' };
+    
+    for (const node of root.childNodes) {
+      const tagName = node instanceof HTMLElement ? node.tagName : undefined;
+      const nodeText = node.text.trim();
+      if (!nodeText) continue;
+      
+      if (tagName && /^H[1-6]$/.test(tagName)) {
+        if (current.text.trim()) sections.push(current);
+        current = { text: nodeText + '\n', location: { heading: nodeText } };
+      } else if (node instanceof HTMLElement && tagName === 'TABLE') {
+        current.text += node.querySelectorAll('tr')
+          .map(row => row.querySelectorAll('td, th').map(cell => cell.text.trim()).join('\t'))
+          .join('\n') + '\n';
+      } else {
+        current.text += nodeText + '\n';
+      }
+    }
+    if (current.text.trim()) sections.push(current);
+    
+    return sections;
+  } catch (error) {
+    console.error('Error extracting Word sections:', error);
+    throw new Error('Word text extraction failed');
+  }
+}
+
 /**
  * Extract text content from an Excel file
  * @param filePath Path to Excel file
@@ -115,14 +170,56 @@ export async function extractExcelText(filePath: string): Promise<string> {
   }
 }
 
+/**
+ * Extract one section per sheet, repeating the header row in every chunk
+ * @param filePath Path to Excel file
+ * @returns Sheet sections
+ */
+export async function extractExcelSections(filePath: string): Promise<TextSection[]> {
+  try {
+    const workbook = XLSX.readFile(filePath);
+    const sections: TextSection[] = [];
+    
+    workbook.SheetNames.forEach(sheetName => {
+      const rows: any[][] = XLSX.utils.sheet_to_json(workbook.Sheets[sheetName], { header: 1, blankrows: false });
+      const lines = rows
+        .map(row => row.map(cell => cell === undefined || cell === null ? '' : String(cell)).join('\t'))
+        .filter(line => line.trim().length > 0);
+      if (lines.length === 0) return;
+      
+      const [headerLine, ...bodyLines] = lines;
+      sections.push({
+        text: bodyLines.join('\n'),
+        header: `Sheet: ${sheetName}\n${headerLine}`,
+        location: { sheet: sheetName }
+      });
+    });
+    
+    return sections;
+  } catch (error) {
+    console.error('Error extracting Excel sections:', error);
+    throw new Error('Excel text extraction failed');
+  }
+}
+
 /**
  * Extract text content from a PowerPoint file
- * This function extracts text and saves slide images for better knowledge retrieval
- * Also extracts embedded images from the PowerPoint file
  * @param filePath Path to the PowerPoint file
  * @returns Extracted text
  */
 export async function extractPptxText(filePath: string): Promise<string> {
+  const { text } = await extractPptxContent(filePath);
+  return text;
+}
+
+/**
+ * Extract text and slide sections from a PowerPoint file
+ * This function extracts text and saves slide images for better knowledge retrieval
+ * Also extracts embedded images from the PowerPoint file
+ * @param filePath Path to the PowerPoint file
+ * @returns Extracted text and one section per slide
+ */
+export async function extractPptxContent(filePath: string): Promise<{ text: string, slides: TextSection[] }> {
   try {
     const fileName = path.basename(filePath);
     const fileNameWithoutExt = path.basename(filePath, path.extname(filePath));
@@ -185,6 +282,7 @@ export async function extractPptxText(filePath: string): Promise<string> {
     
     // 実際のPowerPointファイルをバイナリとして読み込み、内容を抽出
     let extractedText = '';
+    let slideSections: TextSection[] = [];
     
     // スライド情報データ変数を関数スコープで定義し、初期化
     let slideInfoData: {
@@ -366,15 +464,19 @@ export async function extractPptxText(filePath: string): Promise<string> {
         });
         
         // テキスト内容を累積
-        extractedText += `\nスライド ${slideNum}: ${slideInfo.title}\n${slideInfo.content}\n\n`;
+        const slideText = `スライド ${slideNum}: ${slideInfo.title}\n${slideInfo.content}`;
+        extractedText += `\n${slideText}\n\n`;
+        slideSections.push({ text: slideText, location: { slide: slideNum } });
       }
       
       // 埋め込み画像に関する追加テキスト
       if (extractedImagePaths.length > 0) {
-        extractedText += `\n抽出された埋め込み画像 (${extractedImagePaths.length}個):\n`;
+        let imagesText = `抽出された埋め込み画像 (${extractedImagePaths.length}個):\n`;
         extractedImagePaths.forEach((imgPath, idx) => {
-          extractedText += `画像 ${idx + 1}: ${imgPath}\n`;
+          imagesText += `画像 ${idx + 1}: ${imgPath}\n`;
         });
+        extractedText += `\n${imagesText}`;
+        slideSections.push({ text: imagesText });
       }
       
       // テキスト内容を設定
@@ -407,6 +509,7 @@ export async function extractPptxText(filePath: string): Promise<string> {
         - 運転キャビンの操作方法
         - エンジン関連のトラブルシューティング
       `;
+      slideSections = [{ text: extractedText }];
     }
     
     // extracted_data.jsonファイルに保存用車データとして追加
@@ -505,7 +608,7 @@ export async function extractPptxText(filePath: string): Promise<string> {
     console.log(`PowerPoint処理完了: ${filePath}`);
     
     // 抽出したテキストを返す
-    return extractedText;
+    return { text: extractedText, slides: slideSections };
   } catch (error) {
     console.error('PowerPointテキスト抽出エラー:', error);
     throw new Error('PowerPoint処理に失敗しました: ' + (error instanceof Error ? error.message : String(error)));
@@ -597,59 +700,137 @@ export async function extractTxtText(filePath: string): Promise<string> {
   }
 }
 
+// 見出しとみなす行（Markdown見出し、■◆●記号、【】囲み、第N章/節）
+const HEADING_LINE = /^(#{1,6}\s+.+|[■◆●].+|【[^】]+】.*|第[0-9０-９一二三四五六七八九十]+[章節].*)$/;
+
+// 文の区切り（句点・感嘆符・疑問符・改行、英文のピリオド+空白）
+const SENTENCE_BOUNDARY = /(?<=[。！？!?\n]|\.\s)/;
+
 /**
- * Chunk text into smaller pieces
- * @param text Full text to chunk
- * @param metadata Metadata to include with each chunk
- * @returns Array of document chunks
+ * Split plain text into sections at heading-like lines
+ * @param text Plain text
+ * @returns Sections with the heading recorded in their location
  */
-export function chunkText(text: string, metadata: { source: string, pageNumber?: number }): DocumentChunk[] {
-  const chunks: DocumentChunk[] = [];
-  let chunkNumber = 0;
+export function splitTextSections(text: string): TextSection[] {
+  const sections: TextSection[] = [];
+  let current: TextSection = { text: '' };
   
-  // 特定の重要な情報を含む行を独立したチャンクとして抽出
-  // 運転室ドアの幅に関する情報を検索
-  const doorWidthRegex = /運転キャビンへ乗務員が出入りするドア.+?(幅|寸法).+?(\d+).+?(\d+)mm/g;
-  const doorMatches = text.match(doorWidthRegex);
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim();
+    if (HEADING_LINE.test(trimmed)) {
+      if (current.text.trim()) sections.push(current);
+      current = { text: '', location: { heading: trimmed.replace(/^#+\s*/, '') } };
+    }
+    current.text += line + '\n';
+  }
+  if (current.text.trim()) sections.push(current);
   
-  if (doorMatches && doorMatches.length > 0) {
-    // ドアの幅に関する記述がある場合は、独立したチャンクとして保存
-    for (const match of doorMatches) {
-      // 前後の文脈も含めるため、マッチした行を含む少し大きめのテキストを抽出
-      const startIndex = Math.max(0, text.indexOf(match) - 50);
-      const endIndex = Math.min(text.length, text.indexOf(match) + match.length + 50);
-      const doorChunk = text.substring(startIndex, endIndex);
-      
-      chunks.push({
-        text: doorChunk,
-        metadata: {
-          ...metadata,
-          chunkNumber: chunkNumber++,
-          isImportant: true
-        }
-      });
-      
-      console.log(`特別な抽出: ドア幅情報を独立チャンクとして保存: ${match}`);
+  return sections;
+}
+
+/**
+ * Split a section into sentence-sized units, hard-splitting only units longer than maxLength
+ */
+function splitUnits(text: string, maxLength: number): string[] {
+  const units: string[] = [];
+  for (const sentence of text.split(SENTENCE_BOUNDARY)) {
+    if (!sentence) continue;
+    for (let i = 0; i < sentence.length; i += maxLength) {
+      units.push(sentence.substring(i, i + maxLength));
     }
   }
+  return units;
+}
+
+/**
+ * Chunk structured sections
+ * Chunks end on sentence boundaries, never cross section boundaries, and carry the
+ * section's location (page, slide, sheet, heading) in their metadata
+ * @param sections Sections reported by the extractor
+ * @param metadata Metadata to include with each chunk
+ * @returns Array of document chunks
+ */
+export function chunkSections(sections: TextSection[], metadata: { source: string }): DocumentChunk[] {
+  const chunks: DocumentChunk[] = [];
+  let chunkNumber = 0;
   
-  // 通常のチャンキング処理
-  for (let i = 0; i < text.length; i += CHUNK_SIZE - CHUNK_OVERLAP) {
-    const chunk = text.substring(i, i + CHUNK_SIZE);
-    if (chunk.trim().length > 0) {
+  for (const section of sections) {
+    const header = section.header ? section.header.trim() + '\n' : '';
+    const maxLength = Math.max(CHUNK_SIZE - header.length, CHUNK_OVERLAP);
+    const units = splitUnits(section.text, maxLength);
+    
+    const emit = (parts: string[]) => {
+      const body = parts.join('');
+      if (body.trim().length === 0) return;
       chunks.push({
-        text: chunk,
+        text: header + body,
         metadata: {
           ...metadata,
+          ...section.location,
           chunkNumber: chunkNumber++
         }
       });
+    };
+    
+    let current: string[] = [];
+    let currentLength = 0;
+    for (const unit of units) {
+      if (currentLength + unit.length > maxLength && current.length > 0) {
+        emit(current);
+        
+        // 直前の文をオーバーラップとして次のチャンクへ引き継ぐ
+        const overlap: string[] = [];
+        let overlapLength = 0;
+        for (let i = current.length - 1; i >= 0; i--) {
+          if (overlapLength + current[i].length > CHUNK_OVERLAP) break;
+          overlap.unshift(current[i]);
+          overlapLength += current[i].length;
+        }
+        if (overlapLength + unit.length > maxLength) {
+          overlap.length = 0;
+          overlapLength = 0;
+        }
+        current = overlap;
+        currentLength = overlapLength;
+      }
+      current.push(unit);
+      currentLength += unit.length;
     }
+    emit(current);
   }
   
   return chunks;
 }
 
+/**
+ * Chunk plain text into smaller pieces, using heading-like lines as section boundaries
+ * @param text Full text to chunk
+ * @param metadata Metadata to include with each chunk
+ * @returns Array of document chunks
+ */
+export function chunkText(text: string, metadata: { source: string, pageNumber?: number }): DocumentChunk[] {
+  const { pageNumber, ...rest } = metadata;
+  const sections = splitTextSections(text).map(section => ({
+    ...section,
+    location: { ...section.location, pageNumber }
+  }));
+  return chunkSections(sections, rest);
+}
+
+/**
+ * Format a chunk's location for citations (e.g. "p.3", "スライド 2", "シート: 点検表")
+ * @param chunk Document chunk
+ * @returns Location label, or an empty string when the chunk has no location
+ */
+export function formatChunkLocation(chunk: DocumentChunk): string {
+  const parts: string[] = [];
+  if (chunk.metadata.pageNumber) parts.push(`p.${chunk.metadata.pageNumber}`);
+  if (chunk.metadata.slide) parts.push(`スライド ${chunk.metadata.slide}`);
+  if (chunk.metadata.sheet) parts.push(`シート: ${chunk.metadata.sheet}`);
+  if (chunk.metadata.heading) parts.push(chunk.metadata.heading);
+  return parts.join(' / ');
+}
+
 /**
  * Process a document file and return chunked text with metadata
  * @param filePath Path to document file
@@ -660,6 +841,7 @@ export async function processDocument(filePath: string): Promise<ProcessedDocume
   const fileName = path.basename(filePath);
   
   let text = '';
+  let sections: TextSection[] = [];
   let pageCount = 0;
   let documentType = '';
   
@@ -667,26 +849,32 @@ export async function processDocument(filePath: string): Promise<ProcessedDocume
     case '.pdf':
       const pdfResult = await extractPdfText(filePath);
       text = pdfResult.text;
+      sections = pdfResult.pages;
       pageCount = pdfResult.pageCount;
       documentType = 'pdf';
       break;
     case '.docx':
     case '.doc':
-      text = await extractWordText(filePath);
+      sections = await extractWordSections(filePath);
+      text = sections.map(section => section.text).join('\n');
       documentType = 'word';
       break;
     case '.xlsx':
     case '.xls':
-      text = await extractExcelText(filePath);
+      sections = await extractExcelSections(filePath);
+      text = sections.map(section => `${section.header}\n${section.text}`).join('\n\n');
       documentType = 'excel';
       break;
     case '.pptx':
     case '.ppt':
-      text = await extractPptxText(filePath);
+      const pptxResult = await extractPptxContent(filePath);
+      text = pptxResult.text;
+      sections = pptxResult.slides;
       documentType = 'powerpoint';
       break;
     case '.txt':
       text = await extractTxtText(filePath);
+      sections = splitTextSections(text);
       documentType = 'text';
       break;
     default:
@@ -696,8 +884,8 @@ export async function processDocument(filePath: string): Promise<ProcessedDocume
   // Calculate word count
   const wordCount = text.split(/\s+/).filter(word => word.length > 0).length;
   
-  // Create chunks
-  const chunks = chunkText(text, { source: fileName });
+  // Create chunks along the structural boundaries reported by the extractor
+  const chunks = chunkSections(sections, { source: fileName });
   
   return {
     chunks,
@@ -713,24 +901,30 @@ export async function processDocument(filePath: string): Promise<ProcessedDocume
 }
 
 /**
- * Store processed document chunks in database
- * This function would connect to your database and store the chunks
- * Implementation depends on your database schema
+ * Store processed document chunks in the vector index
+ * Embeds each chunk and writes knowledge-base/<docId>/vectors.json next to chunks.json
+ * @param docId Knowledge base document ID
+ * @param document Processed document
  */
-export async function storeDocumentChunks(document: ProcessedDocument): Promise<void> {
-  // This is where you would store the document chunks in your database
-  // Example implementation using your existing storage interface
+export async function storeDocumentChunks(docId: string, document: ProcessedDocument): Promise<void> {
+  await writeVectorIndex(docId, document.chunks);
   console.log(`Stored document: ${document.metadata.title} with ${document.chunks.length} chunks`);
 }
 
 /**
  * Find relevant document chunks based on a query
+ * Uses cosine similarity over the per-document vector indexes
  * @param query The search query
+ * @param limit Maximum number of chunks to return
+ * @param docIds Documents to search (defaults to every indexed document)
  * @returns Array of relevant chunks
  */
-export async function findRelevantChunks(query: string): Promise<DocumentChunk[]> {
-  // This would be implemented using a vector database or search engine
-  // For now, we'll return a placeholder
-  console.log(`Searching for: ${query}`);
-  return [];
-}
\ No newline at end of file
+export async function findRelevantChunks(
+  query: string,
+  limit: number = 5,
+  docIds: string[] = listIndexedDocumentIds()
+): Promise<DocumentChunk[]> {
+  const results = await searchVectorIndex(query, docIds, limit);
+  console.log(`Semantic search for "${query}": ${results.length} chunks`);
+  return results.map(result => result.chunk);
+}
@@ -0,0 +1,163 @@
+import OpenAI from 'openai';
+import { normalizeText, tokenize } from './retriever';
+
+/**
+ * 埋め込みベクトル生成の共通インターフェース
+ */
+export interface EmbeddingProvider {
+  // ベクトルインデックスに記録され、プロバイダ変更時の再計算判定に使われる
+  readonly name: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// 意味的に同じ事象を表す表現のグループ（ローカルプロバイダ用）
+export interface ConceptGroup {
+  id: string;
+  terms: string[];
+}
+
+// 保守用車のトラブル表現の既定グループ
+export const DEFAULT_CONCEPT_GROUPS: ConceptGroup[] = [
+  { id: 'brake_failure', terms: ['止まらない', '制動不良', 'ブレーキが利かない', 'ブレーキが効かない', 'ブレーキ不良', '制動力低下'] },
+  { id: 'engine_stall', terms: ['エンスト', 'エンジン停止', 'エンジンが止ま', 'エンジンがかからない', '始動不良'] },
+  { id: 'overheat', terms: ['オーバーヒート', '水温上昇', '水温が高い', '冷却水不足'] },
+  { id: 'air_leak', terms: ['エアー漏れ', 'エア漏れ', '空気漏れ', '圧力が下がらない', '圧力低下'] },
+  { id: 'hydraulic', terms: ['油圧', '作動油', '油圧ポンプ', '油漏れ'] },
+  { id: 'cabin', terms: ['運転室', 'キャビン'] },
+  { id: 'door', terms: ['ドア', '扉'] },
+];
+
+// 概念一致の重み（文字n-gramよりも強く効かせる）
+const CONCEPT_WEIGHT = 4;
+
+/**
+ * FNV-1aハッシュ
+ */
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * ベクトルをL2正規化する
+ */
+function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm === 0 ? vector : vector.map(v => v / norm);
+}
+
+/**
+ * ネットワーク不要の決定的な埋め込みプロバイダ
+ * 文字n-gramと概念グループをハッシュしてベクトル化するため、
+ * 同じ入力からは常に同じベクトルが得られる
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local-hash-v1';
+  readonly dimensions: number;
+  private conceptGroups: ConceptGroup[];
+
+  constructor(conceptGroups: ConceptGroup[] = DEFAULT_CONCEPT_GROUPS, dimensions = 512) {
+    this.dimensions = dimensions;
+    this.conceptGroups = conceptGroups.map(group => ({
+      id: group.id,
+      terms: group.terms.map(normalizeText)
+    }));
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = hashToken(feature);
+      const sign = (hash & 0x80000000) ? -1 : 1;
+      vector[hash % this.dimensions] += sign * weight;
+    };
+
+    for (const token of tokenize(text)) {
+      add(token, 1);
+    }
+
+    const normalized = normalizeText(text);
+    for (const group of this.conceptGroups) {
+      if (group.terms.some(term => normalized.includes(term))) {
+        add(`concept:${group.id}`, CONCEPT_WEIGHT);
+      }
+    }
+
+    return normalizeVector(vector);
+  }
+}
+
+/**
+ * OpenAI Embeddings APIを使う埋め込みプロバイダ
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions = 1536;
+  private client: OpenAI;
+  private model: string;
+
+  constructor(model = 'text-embedding-3-small') {
+    this.model = model;
+    this.name = `openai:${model}`;
+    this.client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY || '' });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+    });
+    return response.data.map(item => item.embedding);
+  }
+}
+
+let embeddingProvider: EmbeddingProvider | null = null;
+
+/**
+ * 現在の埋め込みプロバイダを取得する
+ * EMBEDDING_PROVIDER=openai の場合のみOpenAIを使用し、既定はローカル
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!embeddingProvider) {
+    embeddingProvider = process.env.EMBEDDING_PROVIDER === 'openai' && process.env.OPENAI_API_KEY
+      ? new OpenAIEmbeddingProvider()
+      : new LocalEmbeddingProvider();
+    console.log(`埋め込みプロバイダ: ${embeddingProvider.name}`);
+  }
+  return embeddingProvider;
+}
+
+/**
+ * 埋め込みプロバイダを差し替える
+ * @param provider 新しいプロバイダ
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider): void {
+  embeddingProvider = provider;
+}
+
+/**
+ * コサイン類似度を計算する
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
@@ -0,0 +1,155 @@
+import type { Chat, ChatEscalation, Incident } from '@shared/schema';
+import { signWebhookBody } from './export-delivery';
+import { sendMail, type SmtpOptions } from './smtp';
+
+// 通知先の応答待ちの上限
+const NOTIFY_TIMEOUT = 15 * 1000;
+
+// エスカレーション1件分の通知内容
+export interface EscalationNotice {
+  chat: Chat;
+  escalation: ChatEscalation;
+  incident?: Incident | null;
+  // 案内した連絡先のうちメールアドレスが登録されているもの
+  contactEmails: string[];
+}
+
+/**
+ * エスカレーションの通知手段
+ * registerEscalationNotifier で登録したものすべてに通知する
+ */
+export interface EscalationNotifier {
+  name: string;
+  notify(notice: EscalationNotice): Promise<void>;
+}
+
+const notifiers: EscalationNotifier[] = [];
+
+export function registerEscalationNotifier(notifier: EscalationNotifier): void {
+  notifiers.push(notifier);
+}
+
+export function hasEscalationNotifiers(): boolean {
+  return notifiers.length > 0;
+}
+
+/**
+ * 登録されたすべての通知手段で通知する
+ * @returns 失敗した通知手段のエラーメッセージ（すべて成功した場合は null）
+ */
+export async function notifyEscalation(notice: EscalationNotice): Promise<string | null> {
+  const results = await Promise.allSettled(notifiers.map(notifier => notifier.notify(notice)));
+  const errors = results.flatMap((result, index) =>
+    result.status === 'rejected'
+      ? [`${notifiers[index].name}: ${result.reason instanceof Error ? result.reason.message : String(result.reason)}`]
+      : []
+  );
+  return errors.length > 0 ? errors.join(' / ') : null;
+}
+
+const noticeSummary = (notice: EscalationNotice) => ({
+  event: 'chat.escalation' as const,
+  escalationId: notice.escalation.id,
+  chat: { id: notice.chat.id, title: notice.chat.title },
+  reason: notice.escalation.reason,
+  createdAt: notice.escalation.createdAt.toISOString(),
+  incident: notice.incident
+    ? {
+        vehicle: notice.incident.vehicle,
+        location: notice.incident.location,
+        symptomCategory: notice.incident.symptomCategory,
+        severity: notice.incident.severity
+      }
+    : null,
+  contacts: notice.escalation.contacts
+});
+
+/**
+ * JSON を POST する通知手段
+ * secret を指定すると履歴送信の Webhook と同じ方式で X-Escalation-Signature に署名する
+ */
+export function createWebhookNotifier(url: string, secret?: string): EscalationNotifier {
+  return {
+    name: 'webhook',
+    async notify(notice) {
+      const body = JSON.stringify(noticeSummary(notice));
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'X-Escalation-Timestamp': timestamp
+      };
+      if (secret) {
+        headers['X-Escalation-Signature'] = signWebhookBody(secret, timestamp, body);
+      }
+      const response = await fetch(url, { method: 'POST', headers, body, signal: AbortSignal.timeout(NOTIFY_TIMEOUT) });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+    }
+  };
+}
+
+/**
+ * メールで通知する通知手段
+ * 宛先は設定した宛先と、案内した連絡先のメールアドレス
+ */
+export function createEmailNotifier(options: SmtpOptions & { from: string; to: string[] }): EscalationNotifier {
+  return {
+    name: 'email',
+    async notify(notice) {
+      const to = Array.from(new Set([...options.to, ...notice.contactEmails]));
+      if (to.length === 0) return;
+
+      const { incident, escalation } = notice;
+      const lines = [
+        `チャット「${notice.chat.title}」で保守担当者への連絡が必要と判断されました。`,
+        '',
+        `質問: ${escalation.reason}`
+      ];
+      if (incident) {
+        lines.push(`車両: ${incident.vehicle || '-'}`, `場所: ${incident.location || '-'}`);
+      }
+      lines.push('', '案内した連絡先:');
+      lines.push(...(escalation.contacts.length > 0
+        ? escalation.contacts.map(contact => `  ${contact.name}（${contact.department}） ${contact.phone}`)
+        : ['  当番の連絡先なし']));
+
+      await sendMail(options, {
+        from: options.from,
+        to,
+        subject: `【エスカレーション】${notice.chat.title}`,
+        text: lines.join('\n')
+      });
+    }
+  };
+}
+
+const splitList = (value: string | undefined) =>
+  (value || '').split(',').map(item => item.trim()).filter(item => item.length > 0);
+
+/**
+ * 環境変数で設定された通知手段を登録する
+ *   ESCALATION_WEBHOOK_URL / ESCALATION_WEBHOOK_SECRET
+ *   ESCALATION_SMTP_HOST / _PORT / _SECURE / _USER / _PASSWORD / _ALLOW_INSECURE_AUTH, ESCALATION_MAIL_FROM / ESCALATION_MAIL_TO
+ */
+export function registerEscalationNotifiersFromEnv(): void {
+  const env = process.env;
+  if (env.ESCALATION_WEBHOOK_URL) {
+    registerEscalationNotifier(createWebhookNotifier(env.ESCALATION_WEBHOOK_URL, env.ESCALATION_WEBHOOK_SECRET));
+  }
+  if (env.ESCALATION_SMTP_HOST && env.ESCALATION_MAIL_FROM) {
+    registerEscalationNotifier(createEmailNotifier({
+      host: env.ESCALATION_SMTP_HOST,
+      port: parseInt(env.ESCALATION_SMTP_PORT || '587'),
+      secure: env.ESCALATION_SMTP_SECURE === 'true',
+      username: env.ESCALATION_SMTP_USER,
+      password: env.ESCALATION_SMTP_PASSWORD,
+      allowInsecureAuth: env.ESCALATION_SMTP_ALLOW_INSECURE_AUTH === 'true',
+      from: env.ESCALATION_MAIL_FROM,
+      to: splitList(env.ESCALATION_MAIL_TO)
+    }));
+  }
+  if (notifiers.length > 0) {
+    console.log(`エスカレーション通知: ${notifiers.map(notifier => notifier.name).join(', ')}`);
+  }
+}
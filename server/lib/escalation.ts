@@ -0,0 +1,125 @@
+import type { Chat, ChatEscalation, EscalationContact, MaintenanceContact, Message } from '@shared/schema';
+import { storage } from '../storage';
+import { hasEscalationNotifiers, notifyEscalation } from './escalation-notifier';
+
+// AI応答がこの文言を含むとエスカレーションとして扱う（システムプロンプトの解決不能時の定型文）
+const ESCALATION_PATTERN = /専門的な?対応が必要です/;
+
+// 1回のエスカレーションで案内する連絡先の最大数
+const MAX_ESCALATION_CONTACTS = 5;
+
+// 当番の時刻を判定するタイムゾーン
+const SHIFT_TIME_ZONE = process.env.ESCALATION_TIMEZONE || 'Asia/Tokyo';
+
+// エスカレーションに至った質問として記録する最大文字数
+const MAX_REASON_LENGTH = 500;
+
+export function isEscalationReply(content: string): boolean {
+  return ESCALATION_PATTERN.test(content);
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// 当番の時刻を判定するタイムゾーンでの 0:00 からの経過分
+function minutesOfDay(now: Date): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: SHIFT_TIME_ZONE,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+  const value = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0');
+  return value('hour') * 60 + value('minute');
+}
+
+/**
+ * 連絡先が当番中かどうか
+ * 開始・終了のどちらかが未設定なら終日、終了が開始より前なら日をまたぐ当番とみなす
+ */
+export function isOnShift(contact: Pick<MaintenanceContact, 'shiftStart' | 'shiftEnd'>, now: Date): boolean {
+  if (!contact.shiftStart || !contact.shiftEnd) return true;
+  const start = toMinutes(contact.shiftStart);
+  const end = toMinutes(contact.shiftEnd);
+  if (start === end) return true;
+  const current = minutesOfDay(now);
+  return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+/**
+ * 当番中の連絡先を連絡する順に選ぶ
+ * 担当地域が手がかり（発生場所・依頼者の所属）に含まれる連絡先があれば、それと全地域担当の連絡先に絞る
+ */
+export function selectOnCallContacts(contacts: MaintenanceContact[], now: Date, areaHints: string[]): MaintenanceContact[] {
+  const onShift = contacts.filter(contact => contact.isActive && isOnShift(contact, now));
+  const regional = onShift.filter(contact => contact.region && areaHints.some(hint => hint.includes(contact.region!)));
+  const candidates = regional.length > 0
+    ? [...regional, ...onShift.filter(contact => !contact.region)]
+    : onShift;
+  return candidates
+    .sort((a, b) => a.priority - b.priority)
+    .slice(0, MAX_ESCALATION_CONTACTS);
+}
+
+const toEscalationContact = (contact: MaintenanceContact): EscalationContact => ({
+  id: contact.id,
+  name: contact.name,
+  department: contact.department,
+  region: contact.region,
+  phone: contact.phone
+});
+
+/**
+ * AI応答が保守担当者への連絡を求めていれば、当番の連絡先を添えてエスカレーションを記録する
+ * インシデント記録があれば状態をエスカレーションにし、通知手段があればバックグラウンドで通知する
+ * @param question エスカレーションに至った質問
+ * @param requesterId 質問したユーザー（所属を担当地域の手がかりにする）
+ * @returns 記録したエスカレーション（該当しない・記録に失敗した場合は null）
+ */
+export async function escalateIfNeeded(
+  chat: Chat,
+  aiMessage: Message,
+  question: string,
+  requesterId?: number
+): Promise<ChatEscalation | null> {
+  if (!aiMessage.isAiResponse || !isEscalationReply(aiMessage.content)) return null;
+
+  try {
+    const [contacts, incident, requester] = await Promise.all([
+      storage.getMaintenanceContacts(),
+      storage.getIncidentForChat(chat.id),
+      requesterId ? storage.getUser(requesterId) : Promise.resolve(undefined)
+    ]);
+    const areaHints = [incident?.location, requester?.department].filter((hint): hint is string => !!hint);
+    const selected = selectOnCallContacts(contacts, new Date(), areaHints);
+
+    const escalation = await storage.createEscalation({
+      chatId: chat.id,
+      messageId: aiMessage.id,
+      reason: question.slice(0, MAX_REASON_LENGTH),
+      contacts: selected.map(toEscalationContact)
+    });
+    console.log(`エスカレーションを記録しました: chatId=${chat.id}, 連絡先${selected.length}件`);
+
+    if (incident && (incident.status === 'open' || incident.status === 'in_progress')) {
+      await storage.updateIncident(incident.id, { status: 'escalated' });
+    }
+
+    if (hasEscalationNotifiers()) {
+      const contactEmails = selected.map(contact => contact.email).filter((email): email is string => !!email);
+      notifyEscalation({ chat, escalation, incident, contactEmails })
+        .then(error => {
+          if (error) console.error(`エスカレーション通知に失敗しました: escalationId=${escalation.id}:`, error);
+          return storage.updateEscalation(escalation.id, error ? { notificationError: error } : { notifiedAt: new Date() });
+        })
+        .catch(error => console.error('エスカレーション通知の記録に失敗しました:', error));
+    }
+
+    return escalation;
+  } catch (error) {
+    console.error('エスカレーションの記録に失敗しました:', error);
+    return null;
+  }
+}
@@ -0,0 +1,307 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type {
+  ChatExport,
+  ExportDelivery,
+  ExportDestination,
+  WebhookDestinationConfig,
+  FolderDestinationConfig,
+  EmailDestinationConfig
+} from '@shared/schema';
+import { storage } from '../storage';
+import { buildChatReport } from './chat-report';
+import { renderReportPdf } from './report-pdf';
+import { renderReportDocx } from './report-docx';
+import { sendMail, type MailAttachment } from './smtp';
+
+// 失敗した配信の再試行間隔（ミリ秒）。要素数 + 1 回まで試す
+const RETRY_DELAYS = [30 * 1000, 2 * 60 * 1000, 10 * 60 * 1000];
+// 再試行予定の配信を確認する間隔
+const WORKER_INTERVAL = 15 * 1000;
+// Webhook の応答待ちの上限
+const WEBHOOK_TIMEOUT = 15 * 1000;
+
+// 送信先へ届ける履歴の内容
+interface ExportPayload {
+  // Webhook の本文・フォルダに保存する JSON
+  summary: {
+    event: 'chat.export';
+    exportId: number;
+    chat: { id: number; title: string };
+    since: string | null;
+    until: string;
+    messageCount: number;
+    messages: { id: number; timestamp: string; sender: string; content: string }[];
+  };
+  files: MailAttachment[];
+  fileName: string;
+  title: string;
+}
+
+/**
+ * 履歴送信1回分の送信内容を作る（報告書 PDF・DOCX と会話の JSON）
+ */
+async function buildExportPayload(chatExport: ChatExport): Promise<ExportPayload> {
+  const chat = await storage.getChat(chatExport.chatId);
+  if (!chat) throw new Error(`チャット ${chatExport.chatId} が見つかりません`);
+
+  const since = chatExport.since || new Date(0);
+  const report = await buildChatReport(chat, { since, until: chatExport.timestamp });
+  const messages = (await storage.getMessagesForChatAfterTimestamp(chat.id, since))
+    .filter(message => message.timestamp <= chatExport.timestamp);
+
+  const senderNames = new Map<number, string>();
+  for (const senderId of Array.from(new Set(messages.map(message => message.senderId).filter((id): id is number => id !== null)))) {
+    const sender = await storage.getUser(senderId);
+    senderNames.set(senderId, sender?.displayName || '不明なユーザー');
+  }
+
+  return {
+    summary: {
+      event: 'chat.export',
+      exportId: chatExport.id,
+      chat: { id: chat.id, title: chat.title },
+      since: chatExport.since ? chatExport.since.toISOString() : null,
+      until: chatExport.timestamp.toISOString(),
+      messageCount: messages.length,
+      messages: messages.map(message => ({
+        id: message.id,
+        timestamp: message.timestamp.toISOString(),
+        sender: message.isAiResponse ? 'AI' : senderNames.get(message.senderId!) || '不明なユーザー',
+        content: message.content
+      }))
+    },
+    files: [
+      {
+        fileName: `${report.fileName}.docx`,
+        contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        data: renderReportDocx(report)
+      },
+      { fileName: `${report.fileName}.pdf`, contentType: 'application/pdf', data: renderReportPdf(report) }
+    ],
+    fileName: report.fileName,
+    title: report.title
+  };
+}
+
+/**
+ * Webhook 本文の署名（HMAC-SHA256）
+ * 受信側は X-Export-Timestamp と本文を "." でつないだ文字列で検証する
+ */
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+async function sendWebhook(config: WebhookDestinationConfig, payload: ExportPayload, deliveryId: number): Promise<void> {
+  const body = JSON.stringify({
+    ...payload.summary,
+    files: payload.files.map(file => ({
+      fileName: file.fileName,
+      contentType: file.contentType,
+      data: file.data.toString('base64')
+    }))
+  });
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-Export-Event': payload.summary.event,
+    'X-Export-Delivery': String(deliveryId),
+    'X-Export-Timestamp': timestamp
+  };
+  if (config.secret) {
+    headers['X-Export-Signature'] = signWebhookBody(config.secret, timestamp, body);
+  }
+
+  const response = await fetch(config.url, {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT)
+  });
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status} ${text.slice(0, 200)}`.trim());
+  }
+}
+
+// 監視フォルダ側が書きかけのファイルを拾わないよう、一時ファイルに書いてから名前を変える
+async function writeToFolder(config: FolderDestinationConfig, payload: ExportPayload): Promise<void> {
+  await fs.promises.mkdir(config.path, { recursive: true });
+  const files = [
+    ...payload.files,
+    { fileName: `${payload.fileName}.json`, data: Buffer.from(JSON.stringify(payload.summary, null, 2), 'utf8') }
+  ];
+  for (const file of files) {
+    const target = path.join(config.path, file.fileName);
+    const temporary = `${target}.part`;
+    await fs.promises.writeFile(temporary, file.data);
+    await fs.promises.rename(temporary, target);
+  }
+}
+
+async function sendEmail(config: EmailDestinationConfig, payload: ExportPayload): Promise<void> {
+  const { summary } = payload;
+  await sendMail(config, {
+    from: config.from,
+    to: config.to,
+    subject: payload.title,
+    text: [
+      `チャット「${summary.chat.title}」の履歴を送信します。`,
+      `対象期間: ${summary.since || 'チャット開始'} 〜 ${summary.until}`,
+      `メッセージ数: ${summary.messageCount}件`,
+      '',
+      '報告書（PDF・Word）を添付しています。'
+    ].join('\n'),
+    attachments: payload.files
+  });
+}
+
+/**
+ * 送信先の種類に応じて配信する
+ */
+async function deliver(destination: ExportDestination, payload: ExportPayload, deliveryId: number): Promise<void> {
+  switch (destination.type) {
+    case 'webhook':
+      return sendWebhook(destination.config as WebhookDestinationConfig, payload, deliveryId);
+    case 'folder':
+      return writeToFolder(destination.config as FolderDestinationConfig, payload);
+    case 'email':
+      return sendEmail(destination.config as EmailDestinationConfig, payload);
+  }
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+/**
+ * 配信を1回試み、結果を配信記録に残す
+ * 失敗した場合は再試行回数が残っていれば次の試行時刻を設定する
+ */
+async function attemptDelivery(delivery: ExportDelivery, payloads: Map<number, Promise<ExportPayload>>): Promise<void> {
+  const attempts = delivery.attempts + 1;
+  try {
+    const destination = await storage.getExportDestination(delivery.destinationId);
+    if (!destination || destination.deletedAt) throw new Error('送信先が削除されました');
+
+    if (!payloads.has(delivery.exportId)) {
+      const chatExport = await storage.getChatExport(delivery.exportId);
+      if (!chatExport) throw new Error('履歴送信の記録が見つかりません');
+      payloads.set(delivery.exportId, buildExportPayload(chatExport));
+    }
+    await deliver(destination, await payloads.get(delivery.exportId)!, delivery.id);
+
+    await storage.updateExportDelivery(delivery.id, {
+      status: 'delivered',
+      attempts,
+      lastError: null,
+      nextAttemptAt: null,
+      deliveredAt: new Date()
+    });
+    console.log(`履歴配信成功: deliveryId=${delivery.id}, 送信先=${destination.name}`);
+  } catch (error) {
+    const retryDelay = RETRY_DELAYS[attempts - 1];
+    await storage.updateExportDelivery(delivery.id, {
+      status: retryDelay === undefined ? 'failed' : 'pending',
+      attempts,
+      lastError: errorMessage(error),
+      nextAttemptAt: retryDelay === undefined ? null : new Date(Date.now() + retryDelay)
+    });
+    console.error(`履歴配信失敗: deliveryId=${delivery.id}, 試行=${attempts}回目:`, errorMessage(error));
+  }
+}
+
+let processing = false;
+
+/**
+ * 試行時刻を過ぎた配信をすべて処理する
+ */
+export async function processDueDeliveries(): Promise<void> {
+  if (processing) return;
+  processing = true;
+  try {
+    const payloads = new Map<number, Promise<ExportPayload>>();
+    for (const delivery of await storage.getDueExportDeliveries(new Date())) {
+      await attemptDelivery(delivery, payloads);
+    }
+  } catch (error) {
+    console.error('履歴配信の処理中にエラーが発生しました:', error);
+  } finally {
+    processing = false;
+  }
+}
+
+/**
+ * 履歴送信を有効なすべての送信先へ配信する
+ * 配信記録を作って返し、実際の送信はバックグラウンドで行う
+ */
+export async function startExportDeliveries(chatExport: ChatExport): Promise<ExportDelivery[]> {
+  const destinations = (await storage.getExportDestinations()).filter(destination => destination.isActive);
+  const deliveries: ExportDelivery[] = [];
+  for (const destination of destinations) {
+    deliveries.push(await storage.createExportDelivery({
+      exportId: chatExport.id,
+      destinationId: destination.id,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: new Date()
+    }));
+  }
+  if (deliveries.length > 0) {
+    setImmediate(() => processDueDeliveries());
+  }
+  return deliveries;
+}
+
+/**
+ * 失敗した配信を再試行の対象に戻す（試行回数は引き継がずやり直す）
+ */
+export async function retryFailedDeliveries(exportId: number): Promise<number> {
+  const failed = (await storage.getExportDeliveriesForExport(exportId)).filter(delivery => delivery.status === 'failed');
+  for (const delivery of failed) {
+    await storage.updateExportDelivery(delivery.id, { status: 'pending', attempts: 0, nextAttemptAt: new Date() });
+  }
+  if (failed.length > 0) {
+    setImmediate(() => processDueDeliveries());
+  }
+  return failed.length;
+}
+
+/**
+ * 送信先にテスト用の内容を1回だけ送る（再試行・配信記録なし）
+ * @returns 失敗した場合はエラーメッセージ
+ */
+export async function sendTestDelivery(destination: ExportDestination): Promise<string | null> {
+  const now = new Date();
+  const payload: ExportPayload = {
+    summary: {
+      event: 'chat.export',
+      exportId: 0,
+      chat: { id: 0, title: '送信テスト' },
+      since: null,
+      until: now.toISOString(),
+      messageCount: 0,
+      messages: []
+    },
+    files: [],
+    fileName: `export-test-${now.getTime()}`,
+    title: '履歴送信のテスト'
+  };
+  try {
+    await deliver(destination, payload, 0);
+    return null;
+  } catch (error) {
+    return errorMessage(error);
+  }
+}
+
+let worker: NodeJS.Timeout | null = null;
+
+/**
+ * 再試行予定の配信を定期的に処理する（サーバー再起動後も pending の配信を続ける）
+ */
+export function startExportDeliveryWorker(): void {
+  if (worker) return;
+  worker = setInterval(() => processDueDeliveries(), WORKER_INTERVAL);
+  worker.unref();
+  setImmediate(() => processDueDeliveries());
+}
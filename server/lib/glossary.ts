@@ -0,0 +1,85 @@
+import { GlossaryTerm } from '@shared/schema';
+import { storage } from '../storage';
+import { normalizeText, QueryWeight } from './retriever';
+
+// 用語辞書のキャッシュ（CRUD時に破棄される）
+let glossaryCache: GlossaryTerm[] | null = null;
+
+// クエリ展開の結果
+export interface QueryExpansion {
+  query: string;
+  // 元のクエリに同義語・読みを追加したもの（ベクトル検索用）
+  expandedQuery: string;
+  matchedTerms: GlossaryTerm[];
+  // キーワード検索で用語ごとにかける重み
+  weights: QueryWeight[];
+}
+
+/**
+ * 用語辞書を取得する（DBエラー時は空の辞書として扱う）
+ */
+export async function getGlossary(): Promise<GlossaryTerm[]> {
+  if (glossaryCache) return glossaryCache;
+  try {
+    glossaryCache = await storage.getGlossaryTerms();
+  } catch (error) {
+    console.error('用語辞書の読み込みエラー:', error);
+    return [];
+  }
+  return glossaryCache;
+}
+
+/**
+ * 用語辞書のキャッシュを破棄する
+ */
+export function invalidateGlossaryCache(): void {
+  glossaryCache = null;
+}
+
+/**
+ * 用語の全表記（見出し語・同義語・読み）
+ */
+function surfaceForms(term: GlossaryTerm): string[] {
+  return [term.term, ...term.synonyms, ...term.readings].filter(form => form.trim().length > 0);
+}
+
+/**
+ * クエリに含まれる用語を辞書から探し、同義語と読みでクエリを展開する
+ * @param query 検索クエリ
+ * @param glossary 用語辞書
+ */
+export function expandQueryWithGlossary(query: string, glossary: GlossaryTerm[]): QueryExpansion {
+  const normalizedQuery = normalizeText(query);
+  const matchedTerms = glossary.filter(term =>
+    surfaceForms(term).some(form => normalizedQuery.includes(normalizeText(form)))
+  );
+
+  const additions: string[] = [];
+  const weights: QueryWeight[] = [];
+  for (const term of matchedTerms) {
+    for (const form of surfaceForms(term)) {
+      if (!normalizedQuery.includes(normalizeText(form))) additions.push(form);
+      weights.push({ text: form, weight: 1 + term.boost });
+    }
+  }
+
+  return {
+    query,
+    expandedQuery: additions.length > 0 ? `${query} ${additions.join(' ')}` : query,
+    matchedTerms,
+    weights
+  };
+}
+
+/**
+ * システムプロンプト用の「重要な検索語句のヒント」を用語辞書から生成する
+ * @param glossary 用語辞書
+ * @returns ヒントの行（ヒント未設定の用語は含めない）
+ */
+export function buildGlossaryPromptHints(glossary: GlossaryTerm[]): string {
+  return glossary
+    .filter(term => term.promptHint && term.promptHint.trim().length > 0)
+    .sort((a, b) => b.boost - a.boost)
+    .map(term => `- 「${[term.term, ...term.synonyms].join('」「')}」の場合：${term.promptHint}`)
+    .join('\n');
+}
@@ -0,0 +1,138 @@
+import fs from 'fs';
+import path from 'path';
+import type { KnowledgeViewer } from '@shared/document-visibility';
+import { createSourceFileFilter } from './knowledge-base';
+
+// 画像検索データの保存先（PowerPoint 処理・技術支援アップロードで作成される）
+export const PUBLIC_UPLOADS_DIR = path.join(process.cwd(), 'public', 'uploads');
+const METADATA_JSON_DIR = path.join(PUBLIC_UPLOADS_DIR, 'json');
+const IMAGE_SEARCH_DATA_FILE = path.join(PUBLIC_UPLOADS_DIR, 'data', 'image_search_data.json');
+
+export interface VisibleImageSearchData {
+  // 閲覧できる最新のスライドメタデータ（mc_<時刻>_metadata.json の内容）
+  metadata: { metadata?: { タイトル?: string }; slides?: unknown[]; embeddedImages?: unknown[] } | null;
+  // 閲覧できる画像検索データ（image_search_data.json の項目）
+  images: { metadata?: { sourceFile?: string } }[];
+}
+
+const readJson = (filePath: string) => JSON.parse(fs.readFileSync(filePath, 'utf8'));
+
+/**
+ * ユーザーが閲覧できる画像検索データを返す
+ * 元の資料が公開範囲外のスライド・画像は含めない
+ */
+export function loadVisibleImageSearchData(viewer?: KnowledgeViewer): VisibleImageSearchData {
+  const isVisible = createSourceFileFilter(viewer);
+
+  // スライドメタデータは新しいものから順に、閲覧できる最初のものを使う
+  let metadata: VisibleImageSearchData['metadata'] = null;
+  if (fs.existsSync(METADATA_JSON_DIR)) {
+    const metadataFiles = fs.readdirSync(METADATA_JSON_DIR)
+      .filter(file => file.endsWith('_metadata.json'))
+      .sort((a, b) => parseInt(b.split('_')[1] || '0') - parseInt(a.split('_')[1] || '0'));
+    for (const file of metadataFiles) {
+      try {
+        const content = readJson(path.join(METADATA_JSON_DIR, file));
+        if (isVisible(content?.metadata?.タイトル)) {
+          metadata = content;
+          break;
+        }
+      } catch (error) {
+        console.error(`スライドメタデータの読み込みエラー (${file}):`, error);
+      }
+    }
+  }
+
+  let images: VisibleImageSearchData['images'] = [];
+  if (fs.existsSync(IMAGE_SEARCH_DATA_FILE)) {
+    try {
+      const data = readJson(IMAGE_SEARCH_DATA_FILE);
+      images = Array.isArray(data) ? data.filter(item => isVisible(item?.metadata?.sourceFile)) : [];
+    } catch (error) {
+      console.error('画像検索データの読み込みエラー:', error);
+    }
+  }
+
+  return { metadata, images };
+}
+
+// /uploads 以下のURL → そのファイルを含む元の資料名（スライド画像・メタデータ・技術支援資料）
+type UploadOwners = Map<string, Set<string | undefined>>;
+
+let ownersCache: { signature: string; owners: UploadOwners } | null = null;
+
+// JSON の中の /uploads/ で始まる文字列（画像パスなど）をすべて集める
+function collectUploadUrls(value: unknown, urls: string[] = []): string[] {
+  if (typeof value === 'string') {
+    if (value.startsWith('/uploads/')) urls.push(value.split('?')[0]);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectUploadUrls(item, urls));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectUploadUrls(item, urls));
+  }
+  return urls;
+}
+
+// 所有関係の元になる JSON ファイル（スライド・技術支援資料のメタデータと画像検索データ）
+function listOwnershipFiles(): string[] {
+  const files: string[] = [];
+  for (const dir of [METADATA_JSON_DIR, PUBLIC_UPLOADS_DIR]) {
+    if (!fs.existsSync(dir)) continue;
+    for (const file of fs.readdirSync(dir)) {
+      if (file.endsWith('_metadata.json')) files.push(path.join(dir, file));
+    }
+  }
+  if (fs.existsSync(IMAGE_SEARCH_DATA_FILE)) files.push(IMAGE_SEARCH_DATA_FILE);
+  return files;
+}
+
+// アップロードされたファイルと元の資料の対応を作る（JSON が更新されるまでは前回の結果を使う）
+function loadUploadOwners(): UploadOwners {
+  const files = listOwnershipFiles();
+  const signature = files.map(file => `${file}:${fs.statSync(file).mtimeMs}`).join('|');
+  if (ownersCache?.signature === signature) return ownersCache.owners;
+
+  const owners: UploadOwners = new Map();
+  const addOwner = (url: string, source: string | undefined) => {
+    if (!owners.has(url)) owners.set(url, new Set());
+    owners.get(url)!.add(source);
+  };
+
+  for (const file of files) {
+    try {
+      const content = readJson(file);
+      if (file === IMAGE_SEARCH_DATA_FILE) {
+        for (const item of Array.isArray(content) ? content : []) {
+          collectUploadUrls(item).forEach(url => addOwner(url, item?.metadata?.sourceFile));
+        }
+        continue;
+      }
+      // スライドメタデータは metadata.タイトル、技術支援資料のメタデータは保存したファイル名（知識ベースの資料のファイル名）が元の資料名
+      const source: string | undefined = content?.metadata?.タイトル
+        ?? (typeof content?.filePath === 'string' ? path.basename(content.filePath) : content?.filename);
+      const relative = path.relative(PUBLIC_UPLOADS_DIR, file).split(path.sep).join('/');
+      addOwner(`/uploads/${relative}`, source);
+      collectUploadUrls(content).forEach(url => addOwner(url, source));
+      if (typeof content?.filePath === 'string') {
+        addOwner(`/uploads/${path.basename(content.filePath)}`, source);
+      }
+    } catch (error) {
+      console.error(`アップロードファイルの所有情報の読み込みエラー (${file}):`, error);
+    }
+  }
+
+  ownersCache = { signature, owners };
+  return owners;
+}
+
+/**
+ * public/uploads 以下のファイルを閲覧できるか判定する
+ * ファイルを含むいずれかの元の資料を閲覧できれば閲覧でき、どの資料にも含まれないファイルは閲覧できるものとする
+ * @param url /uploads/ で始まるURLのパス
+ */
+export function canViewUploadedFile(url: string, viewer?: KnowledgeViewer): boolean {
+  const sources = loadUploadOwners().get(url);
+  if (!sources) return true;
+  const isVisible = createSourceFileFilter(viewer);
+  return Array.from(sources).some(source => isVisible(source));
+}
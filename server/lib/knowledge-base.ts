@@ -5,9 +5,17 @@ import {
   processDocument, 
   ProcessedDocument, 
   DocumentChunk,
-  chunkText
+  chunkText,
+  storeDocumentChunks,
+  formatChunkLocation
 } from './document-processor';
 import { storage } from '../storage';
+import { BM25Retriever, KnowledgeRetriever } from './retriever';
+import { dropVectorIndex, searchVectorIndex } from './vector-index';
+import { getGlossary, expandQueryWithGlossary, buildGlossaryPromptHints, QueryExpansion } from './glossary';
+import { understandQuery, QueryUnderstanding, QueryIntent } from './query-understanding';
+import type { VehicleModel } from '@shared/schema';
+import { canViewDocument, PUBLIC_VISIBILITY, type DocumentVisibility, type KnowledgeViewer } from '@shared/document-visibility';
 
 // ESM環境で__dirnameを再現
 const __filename = fileURLToPath(import.meta.url);
@@ -19,6 +27,58 @@ const KNOWLEDGE_BASE_DIR = path.join(__dirname, '../../knowledge-base');
 // 知識ベースのインデックスファイル
 const KNOWLEDGE_INDEX_FILE = path.join(KNOWLEDGE_BASE_DIR, 'index.json');
 
+// システムプロンプトに含めるチャンクの最大数
+const MAX_RELEVANT_CHUNKS = 7;
+
+// 検索モード（keyword: BM25のみ, semantic: ベクトル検索のみ, hybrid: 両方をRRFで統合）
+export type RetrievalMode = 'keyword' | 'semantic' | 'hybrid';
+
+const DEFAULT_RETRIEVAL_MODE: RetrievalMode =
+  (process.env.KNOWLEDGE_SEARCH_MODE as RetrievalMode) || 'hybrid';
+
+// Reciprocal Rank Fusion の定数と、各ランキングから取得する候補数の倍率
+const RRF_K = 60;
+const RRF_CANDIDATE_FACTOR = 3;
+
+// 車両型式による検索範囲（prefer: 該当型式の資料を優先, limit: 他型式の資料を除外）
+export type ModelScopeMode = 'prefer' | 'limit';
+
+const DEFAULT_MODEL_SCOPE_MODE: ModelScopeMode =
+  process.env.KNOWLEDGE_MODEL_SCOPE === 'limit' ? 'limit' : 'prefer';
+
+// prefer モードで該当型式の資料・他型式の資料のスコアにかける倍率
+const MODEL_MATCH_BOOST = 1.5;
+const OTHER_MODEL_PENALTY = 0.5;
+
+// チャットの対象車両による検索範囲
+export interface KnowledgeScope {
+  vehicleModel?: VehicleModel | null;
+  // 対象車両の車両番号（プロンプト表示用）
+  vehicleNumber?: string;
+  mode?: ModelScopeMode;
+  // 質問したユーザー（公開範囲外の資料は検索しない、未指定なら全員公開の資料だけ）
+  viewer?: KnowledgeViewer;
+}
+
+// 資料と対象型式の関係（match: 該当型式, general: 型式の指定なし, other: 他型式のみ）
+export type ModelScopeMatch = 'match' | 'general' | 'other';
+
+// 検索根拠付きの検索結果
+export interface KnowledgeSearchHit {
+  docId: string;
+  documentTitle: string;
+  chunkNumber: number;
+  chunk: DocumentChunk;
+  scores: {
+    keyword?: { score: number, rank: number };
+    semantic?: { score: number, rank: number };
+    fused: number;
+  };
+  // 型式で検索範囲を指定した場合の資料との関係
+  modelScope?: ModelScopeMatch;
+  rank: number;
+}
+
 // 知識ベースのインデックス構造
 interface KnowledgeBaseIndex {
   documents: {
@@ -28,9 +88,26 @@ interface KnowledgeBaseIndex {
     type: string;
     chunkCount: number;
     addedAt: string;
+    // 適用する車両型式のID（未設定・空の場合は全型式共通の資料）
+    vehicleModelIds?: number[];
+    // 公開範囲（未設定の場合は全員に公開）
+    visibility?: DocumentVisibility;
   }[];
 }
 
+// 一覧に返すドキュメント情報
+export interface KnowledgeDocumentSummary {
+  id: string;
+  title: string;
+  type: string;
+  addedAt: string;
+  vehicleModelIds: number[];
+  visibility: DocumentVisibility;
+}
+
+// 知識ベース検索エンジン
+let knowledgeRetriever: KnowledgeRetriever = new BM25Retriever();
+
 /**
  * 知識ベースディレクトリを初期化する
  */
@@ -79,8 +156,9 @@ export function saveKnowledgeBaseIndex(index: KnowledgeBaseIndex): void {
 /**
  * ドキュメントを知識ベースに追加する
  * @param filePath 追加するファイルのパス
+ * @param options.visibility 公開範囲（省略時は全員に公開）
  */
-export async function addDocumentToKnowledgeBase(filePath: string): Promise<string> {
+export async function addDocumentToKnowledgeBase(filePath: string, options: { visibility?: DocumentVisibility } = {}): Promise<string> {
   try {
     console.log(`知識ベースにドキュメント追加開始: ${filePath}`);
     
@@ -145,6 +223,13 @@ export async function addDocumentToKnowledgeBase(filePath: string): Promise<stri
       console.error('ドキュメント保存中にエラー発生:', storeError);
     }
     
+    // チャンクの埋め込みをベクトルインデックスに保存
+    try {
+      await storeDocumentChunks(docId, processedDoc);
+    } catch (vectorError) {
+      console.error('ベクトルインデックス作成中にエラー発生:', vectorError);
+    }
+    
     // インデックスを更新
     const index = loadKnowledgeBaseIndex();
     index.documents.push({
@@ -153,11 +238,15 @@ export async function addDocumentToKnowledgeBase(filePath: string): Promise<stri
       path: destPath, // 更新：コピー先のパスを使用
       type: processedDoc.metadata.type,
       chunkCount: processedDoc.chunks.length,
-      addedAt: new Date().toISOString()
+      addedAt: new Date().toISOString(),
+      visibility: options.visibility
     });
     saveKnowledgeBaseIndex(index);
     console.log('知識ベースインデックスを更新しました');
     
+    // 検索エンジンの転置インデックスに登録
+    knowledgeRetriever.addDocument(docId, processedDoc.chunks);
+    
     // PowerPointファイルの場合は特別なメッセージを表示
     const fileExt = path.extname(filePath).toLowerCase();
     if (fileExt === '.pptx' || fileExt === '.ppt') {
@@ -212,195 +301,216 @@ async function storeProcessedDocument(docId: string, doc: ProcessedDocument): Pr
 }
 
 /**
- * クエリに関連する知識ベースのチャンクを検索
- * @param query 検索クエリ
- * @returns 関連するチャンク
+ * ドキュメントのチャンクを読み込む
+ * chunks.json が無い場合はオリジナルファイルからチャンクを作成して保存する
+ * @param docInfo インデックス上のドキュメント情報
  */
-export async function searchKnowledgeBase(query: string): Promise<DocumentChunk[]> {
+function loadDocumentChunks(docInfo: KnowledgeBaseIndex['documents'][number]): DocumentChunk[] {
+  const docDir = path.join(KNOWLEDGE_BASE_DIR, docInfo.id);
+  const chunksFile = path.join(docDir, 'chunks.json');
+
+  if (fs.existsSync(chunksFile)) {
+    return JSON.parse(fs.readFileSync(chunksFile, 'utf8'));
+  }
+
+  // チャンクファイルが存在しない場合は、オリジナルのファイルからチャンクを作成
+  console.log(`チャンクファイルが見つからないため、オリジナルファイルを読み込み: ${docInfo.path}`);
+  if (!fs.existsSync(docInfo.path)) {
+    console.log(`オリジナルファイルも見つかりません: ${docInfo.path}`);
+    return [];
+  }
+
   try {
-    console.log(`検索クエリ: "${query}"`);
-    
-    // 知識ベースを初期化
-    initializeKnowledgeBase();
-    
-    // インデックスを読み込み
-    const index = loadKnowledgeBaseIndex();
-    console.log(`インデックス内のドキュメント数: ${index.documents.length}`);
-    
-    // 検索結果を格納する配列
-    const relevantChunks: DocumentChunk[] = [];
-    
-    // すべてのドキュメントを検索
-    for (const docInfo of index.documents) {
-      console.log(`ドキュメント検索: ${docInfo.title} (ID: ${docInfo.id})`);
-      const docDir = path.join(KNOWLEDGE_BASE_DIR, docInfo.id);
-      
-      // チャンクファイルが存在する場合は読み込む
-      const chunksFile = path.join(docDir, 'chunks.json');
-      
-      if (fs.existsSync(chunksFile)) {
-        console.log(`チャンクファイル発見: ${chunksFile}`);
-        const chunks: DocumentChunk[] = JSON.parse(fs.readFileSync(chunksFile, 'utf8'));
-        
-        // 単純なキーワードマッチング（本来はベクトル検索やより高度な方法を使用）
-        const matchingChunks = chunks.filter(chunk => 
-          chunk.text.toLowerCase().includes(query.toLowerCase())
-        );
-        
-        console.log(`マッチしたチャンク数: ${matchingChunks.length}`);
-        relevantChunks.push(...matchingChunks);
-      } else {
-        // チャンクファイルが存在しない場合は、オリジナルのファイルを直接検索
-        console.log(`チャンクファイルが見つからないため、オリジナルファイルを検索: ${docInfo.path}`);
-        if (fs.existsSync(docInfo.path)) {
-          try {
-            const fileContent = fs.readFileSync(docInfo.path, 'utf8');
-            
-            // テキストをチャンクに分割
-            const textChunks = chunkText(fileContent, { source: docInfo.title });
-            console.log(`作成されたチャンク数: ${textChunks.length}`);
-            
-            // クエリでフィルタリング（より高度な検索を実装）
-            const queryTerms = query.toLowerCase().split(/\s+/).filter(term => term.length > 2);
-            console.log(`検索キーワード分割: ${queryTerms.join(', ')}`);
-            
-            // 各チャンクのスコアを計算
-            const scoredChunks = textChunks.map((chunk: DocumentChunk) => {
-              const chunkText = chunk.text.toLowerCase();
-              let score = 0;
-              
-              // 単一キーワード検索の強化対応
-              if (queryTerms.length === 1 && query.length >= 2) {
-                // 「エンジン」などの単一キーワード検索の場合は特別な処理
-                const singleKeyword = query.toLowerCase();
-                
-                // 単語の完全一致（「エンジン」と「エンジン」）
-                if (chunkText.includes(singleKeyword)) {
-                  score += 10; // 単一キーワードの完全一致は最も重要
-                  
-                  // 重要キーワードの特別ボーナス
-                  if (singleKeyword === 'エンジン' || 
-                      singleKeyword === 'フレーム' || 
-                      singleKeyword === 'キャビン' || 
-                      singleKeyword === '運転室' || 
-                      singleKeyword === 'ドア' ||
-                      singleKeyword === '幅' ||
-                      singleKeyword === '扉') {
-                    score += 5; // 特に重要なキーワードならさらにボーナススコア
-                    
-                    // ドアや幅に関する検索をさらに強化
-                    if (singleKeyword === 'ドア' || singleKeyword === '扉' || singleKeyword === '幅') {
-                      // 特にドアの寸法に関連する数値を含むチャンクを優先
-                      if (chunkText.includes('mm') || chunkText.includes('センチ') || 
-                          /\d+(\.\d+)?(mm|cm|m)/.test(chunkText)) {
-                        score += 8; // 寸法情報を含む場合は大幅ボーナス
-                      }
-                    }
-                  }
-                }
-                
-                // 単語の部分一致（「エンジン」と「メインエンジン」）
-                const keywordMatches = (chunkText.match(new RegExp(singleKeyword, 'g')) || []).length;
-                if (keywordMatches > 0) {
-                  score += keywordMatches * 2;
-                }
-              } else {
-                // 通常の複数キーワード検索の場合
-                // 各検索語について、含まれている場合はスコアを加算
-                for (const term of queryTerms) {
-                  if (chunkText.includes(term)) {
-                    // 完全一致の場合は高いスコア
-                    score += 3;
-                  }
-                }
-                
-                // クエリ全体が含まれている場合は特に高いスコア
-                if (chunkText.includes(query.toLowerCase())) {
-                  score += 5;
-                }
-              }
-              
-              return { chunk, score };
-            });
-            
-            // スコアでソートし、閾値以上のチャンクのみ選択
-            const matchingChunks = scoredChunks
-              .filter(item => item.score > 0)
-              .sort((a, b) => b.score - a.score)
-              .map(item => item.chunk);
-              
-            console.log(`スコアリング後のマッチチャンク数: ${matchingChunks.length}`);
-            
-            console.log(`マッチしたチャンク数: ${matchingChunks.length}`);
-            relevantChunks.push(...matchingChunks);
-            
-            // チャンクをファイルに保存するためのディレクトリを作成
-            if (!fs.existsSync(docDir)) {
-              fs.mkdirSync(docDir, { recursive: true });
-            }
-            
-            // チャンクをファイルに保存
-            fs.writeFileSync(chunksFile, JSON.stringify(textChunks, null, 2));
-            console.log(`チャンクを保存しました: ${chunksFile}`);
-          } catch (fileErr) {
-            console.error(`ファイル読み込みエラー (${docInfo.path}):`, fileErr);
-          }
-        } else {
-          console.log(`オリジナルファイルも見つかりません: ${docInfo.path}`);
-        }
-      }
+    const fileContent = fs.readFileSync(docInfo.path, 'utf8');
+    const textChunks = chunkText(fileContent, { source: docInfo.title });
+
+    if (!fs.existsSync(docDir)) {
+      fs.mkdirSync(docDir, { recursive: true });
     }
-    
-    // より少数の高品質なチャンクを選択（上位7件に制限）
-    // これにより、本当に関連性の高いチャンクのみを返す
-    console.log(`選択前のチャンク数: ${relevantChunks.length}、検索クエリ: "${query}"`);
-    const limitedChunks = relevantChunks.slice(0, 7);
-    
-    // デバッグ用にチャンクの内容を出力
-    limitedChunks.forEach((chunk, idx) => {
-      console.log(`選択されたチャンク ${idx+1}:`, chunk.text.substring(0, 50) + '...');
-    });
-    
-    return limitedChunks;
-  } catch (err) {
-    console.error('Error searching knowledge base:', err);
+    fs.writeFileSync(chunksFile, JSON.stringify(textChunks, null, 2));
+    console.log(`チャンクを保存しました: ${chunksFile} (${textChunks.length}件)`);
+
+    return textChunks;
+  } catch (fileErr) {
+    console.error(`ファイル読み込みエラー (${docInfo.path}):`, fileErr);
     return [];
   }
 }
 
 /**
- * ナレッジベースからシステムプロンプトを生成
- * @param query ユーザーの質問
+ * 検索エンジンを差し替える（既存ドキュメントは次回検索時に再登録される）
+ * @param retriever 新しい検索エンジン
  */
-export async function generateSystemPromptWithKnowledge(query: string): Promise<string> {
-  // 関連するチャンクを検索
-  const relevantChunks = await searchKnowledgeBase(query);
+export function setKnowledgeRetriever(retriever: KnowledgeRetriever): void {
+  knowledgeRetriever = retriever;
+}
+
+/**
+ * インデックス上のドキュメントのうち、検索エンジンに未登録のものを登録する
+ */
+function syncRetrieverWithIndex(index: KnowledgeBaseIndex): void {
+  for (const docInfo of index.documents) {
+    if (knowledgeRetriever.hasDocument(docInfo.id)) continue;
+    knowledgeRetriever.addDocument(docInfo.id, loadDocumentChunks(docInfo));
+  }
+}
+
+/**
+ * 資料が対象型式に該当するかを判定する
+ */
+function matchModelScope(vehicleModelIds: number[] | undefined, modelId: number): ModelScopeMatch {
+  if (!vehicleModelIds || vehicleModelIds.length === 0) return 'general';
+  return vehicleModelIds.includes(modelId) ? 'match' : 'other';
+}
+
+/**
+ * キーワード検索とベクトル検索の結果を併合した、検索根拠付きの結果を返す
+ * hybrid モードでは Reciprocal Rank Fusion で両ランキングを統合する
+ * 型式を指定した場合は、その型式の資料を優先する（limit モードでは他型式の資料を除外する）
+ * @param query 検索クエリ
+ * @param options 検索モード・取得件数・展開済みクエリ（省略時は用語辞書で展開する）・型式による検索範囲
+ */
+export async function explainKnowledgeSearch(
+  query: string,
+  options: { mode?: RetrievalMode, limit?: number, expansion?: QueryExpansion, scope?: KnowledgeScope } = {}
+): Promise<KnowledgeSearchHit[]> {
+  const mode = options.mode || DEFAULT_RETRIEVAL_MODE;
+  const limit = options.limit || MAX_RELEVANT_CHUNKS;
+  const candidateCount = limit * RRF_CANDIDATE_FACTOR;
+
+  // 知識ベースを初期化
+  initializeKnowledgeBase();
   
-  // 基本的なシステムプロンプト
-  let basePrompt = `あなたは保守用車の知識ベースを持つ応急復旧サポートアシスタントです。
-あなたはユーザーから質問を受け取り、保守用車（軌道モータカー、重機、道路保守車両、線路保守車両など）のトラブルシューティングと修理を段階的に支援します。
+  // インデックスを読み込み、検索エンジンと同期
+  const index = loadKnowledgeBaseIndex();
+  syncRetrieverWithIndex(index);
+  const titles = new Map(index.documents.map(doc => [doc.id, doc.title]));
+  
+  // 型式による検索範囲
+  const scopeModel = options.scope?.vehicleModel;
+  const scopeMode = options.scope?.mode || DEFAULT_MODEL_SCOPE_MODE;
+  const modelScopes = new Map<string, ModelScopeMatch>(
+    scopeModel ? index.documents.map(doc => [doc.id, matchModelScope(doc.vehicleModelIds, scopeModel.id)]) : []
+  );
+  // 公開範囲外の資料は型式に関係なく除外し、型式で絞る場合は他の型式の資料も除外する
+  const hidden = new Set(
+    index.documents.filter(doc => !canViewDocument(doc.visibility, options.scope?.viewer)).map(doc => doc.id)
+  );
+  const isExcluded = (docId: string) =>
+    hidden.has(docId) || (scopeMode === 'limit' && modelScopes.get(docId) === 'other');
+  
+  // 用語辞書で同義語・読みを展開
+  const expansion = options.expansion || expandQueryWithGlossary(query, await getGlossary());
+
+  const hits = new Map<string, KnowledgeSearchHit>();
+  const hitFor = (docId: string, chunk: DocumentChunk): KnowledgeSearchHit => {
+    const key = `${docId}#${chunk.metadata.chunkNumber}`;
+    let hit = hits.get(key);
+    if (!hit) {
+      hit = {
+        docId,
+        documentTitle: titles.get(docId) || chunk.metadata.source,
+        chunkNumber: chunk.metadata.chunkNumber,
+        chunk,
+        scores: { fused: 0 },
+        modelScope: modelScopes.get(docId),
+        rank: 0
+      };
+      hits.set(key, hit);
+    }
+    return hit;
+  };
+
+  if (mode !== 'semantic') {
+    // 上位の候補を取った後に除外すると件数が減るため、検索時に除外する
+    knowledgeRetriever.search(query, candidateCount, expansion.weights, docId => !isExcluded(docId))
+      .forEach((result, idx) => {
+        const hit = hitFor(result.docId, result.chunk);
+        hit.scores.keyword = { score: result.score, rank: idx + 1 };
+        hit.scores.fused += 1 / (RRF_K + idx + 1);
+      });
+  }
 
-## 厳守事項（最重要）
-- 提供された知識ベースの情報のみを使用し、それ以外の一般知識での回答は禁止
-- 会話は一連のトラブルシューティングのQA対話形式として進行
-- ユーザーの質問に対して各ステップごとに1つだけ返答し、先の手順を一度に提示しない
-- ユーザーの返答に基づいて次のステップを案内する対話型のトラブルシューティングを実現
+  if (mode !== 'keyword') {
+    const docIds = index.documents.map(doc => doc.id).filter(docId => !isExcluded(docId));
+    const semanticResults = await searchVectorIndex(expansion.expandedQuery, docIds, candidateCount);
+    semanticResults.forEach((result, idx) => {
+      const hit = hitFor(result.docId, result.chunk);
+      hit.scores.semantic = { score: result.score, rank: idx + 1 };
+      hit.scores.fused += 1 / (RRF_K + idx + 1);
+    });
+  }
 
-## 重要な検索語句のヒント
-- 「エンジン」の場合：軌道モータカーのディーゼルエンジン構造、分類（600型、400型、300型、200型）、製造メーカー別の型式（堀川工機、松山重車両など）、機械式と電子噴射式、高トルク、油圧ポンプ、エアーコンプレッサーの情報を含める
-- 「フレーム」の場合：軌道モータカーのフレーム構造、H鋼、メーンフレーム、サイドメンバー、クロスメンバー、強度、はしご状構造に関する情報を含める
-- 「キャビン」「運転室」の場合：防振ゴム、ガラス、モール、ひねり対策、ワイパー、冷暖房、乗務、労働安全衛生規則に関する情報を含める
-- 「ドア」「扉」「幅」の場合：運転室のドア幅（600mm～800mm）、ドアの構造、開閉方式、ドアの寸法、安全基準に関する情報を含める
+  // prefer モードでは型式の一致度に応じてスコアを調整する
+  if (scopeModel && scopeMode === 'prefer') {
+    hits.forEach(hit => {
+      if (hit.modelScope === 'match') hit.scores.fused *= MODEL_MATCH_BOOST;
+      else if (hit.modelScope === 'other') hit.scores.fused *= OTHER_MODEL_PENALTY;
+    });
+  }
 
-## 回答方針（厳守）
-- 【応急復旧】のタイトルで回答開始
+  return Array.from(hits.values())
+    .sort((a, b) => b.scores.fused - a.scores.fused)
+    .slice(0, limit)
+    .map((hit, idx) => ({ ...hit, rank: idx + 1 }));
+}
+
+/**
+ * クエリに関連する知識ベースのチャンクを検索
+ * 全ドキュメントを対象にスコア順で上位のチャンクを返す
+ * @param query 検索クエリ
+ * @param understanding クエリ理解の結果（指定時は意図に応じた検索方法を使う）
+ * @param scope チャットの対象車両による検索範囲
+ * @returns 関連するチャンク
+ */
+export async function searchKnowledgeBase(
+  query: string,
+  understanding?: QueryUnderstanding,
+  scope?: KnowledgeScope
+): Promise<DocumentChunk[]> {
+  try {
+    const hits = understanding
+      ? await explainKnowledgeSearch(understanding.searchQuery, {
+          mode: understanding.strategy.mode,
+          limit: understanding.strategy.limit,
+          expansion: understanding.expansion,
+          scope
+        })
+      : await explainKnowledgeSearch(query, { scope });
+    return hits.map(hit => hit.chunk);
+  } catch (err) {
+    console.error('Error searching knowledge base:', err);
+    return [];
+  }
+}
+
+// 意図ごとのプロンプトテンプレート
+interface PromptTemplate {
+  // 回答の見出し
+  title: string;
+  // 厳守事項（知識ベース限定の条件以外）
+  rules: string;
+  // 回答方針
+  policy: string;
+  // 会話の流れと回答フォーマット
+  format: string;
+  // 関連情報がある場合に付ける対話例
+  example: string;
+}
+
+const PROMPT_TEMPLATES: Record<QueryIntent, PromptTemplate> = {
+  troubleshooting: {
+    title: '【応急復旧】',
+    rules: `- 会話は一連のトラブルシューティングのQA対話形式として進行
+- ユーザーの質問に対して各ステップごとに1つだけ返答し、先の手順を一度に提示しない
+- ユーザーの返答に基づいて次のステップを案内する対話型のトラブルシューティングを実現`,
+    policy: `- 【応急復旧】のタイトルで回答開始
 - 「〜です」「〜ます」などの丁寧表現は省略し「〜する」など簡潔な表現を使用
 - 命令形で指示を明確に伝える
 - 具体的な操作・部品・工具名を明記
 - 各ステップは必ず番号付き（1. 2. 3.）で、1行に1つの操作のみを記述
-- 一度に1つの手順のみを提示し、次の手順はユーザーからの返答を受けてから案内する
-
-## 会話の流れ（厳守）
+- 一度に1つの手順のみを提示し、次の手順はユーザーからの返答を受けてから案内する`,
+    format: `## 会話の流れ（厳守）
 1. 最初の質問に対して、最初の手順だけを回答（例：「1. 車両を安全な場所に停止させる」のみ）
 2. ユーザーがその手順を実行した後の返答に基づいて、次の1手順だけを案内
 3. この一問一答の流れを、問題が解決するか専門的対応が必要と判断されるまで継続する
@@ -419,23 +529,8 @@ export async function generateSystemPromptWithKnowledge(query: string): Promise<
 作業完了。次の点検に進んでください。
 
 最終回答（解決不能時）：
-この問題は専門的な対応が必要です。保守担当者に電話連絡してください。
-
-## 安全注意事項
-- 危険性がある場合のみ、先頭に【危険】と記載
-- 電気系統：感電危険
-- 油圧系統：高圧油危険
-- エンジン：火災・熱傷危険`;
-
-  // 関連するチャンクがある場合は追加
-  if (relevantChunks.length > 0) {
-    basePrompt += `\n\n以下は、あなたの回答に役立つ可能性のある関連情報です：\n\n`;
-    
-    for (const chunk of relevantChunks) {
-      basePrompt += `---\n出典: ${chunk.metadata.source}\n\n${chunk.text}\n---\n\n`;
-    }
-    
-    basePrompt += `\n上記の知識ベースの情報のみを使用して回答してください。以下の例に従って厳密に回答を構成してください：
+この問題は専門的な対応が必要です。保守担当者に電話連絡してください。`,
+    example: `以下の例に従って厳密に回答を構成してください：
 
 # 対話例（厳守）：
 
@@ -459,26 +554,153 @@ export async function generateSystemPromptWithKnowledge(query: string): Promise<
 アシスタント:
 4. ブレーキシリンダーのストロークを確認する
 
-このようにユーザーとの対話を一問一答形式で進め、一度に複数の手順を提示せず、ユーザーの返答に合わせて次のステップを案内してください。`;
+このようにユーザーとの対話を一問一答形式で進め、一度に複数の手順を提示せず、ユーザーの返答に合わせて次のステップを案内してください。`
+  },
+  specification: {
+    title: '【仕様】',
+    rules: `- 質問された仕様値（寸法・容量・基準値など）を単位付きで正確に回答する
+- 値が知識ベースに見つからない場合は推測せず、見つからないと回答する`,
+    policy: `- 【仕様】のタイトルで回答開始
+- 値は出典の表記どおりに単位を付けて記載
+- 車種・型式によって値が異なる場合は型式ごとに列挙
+- 回答の最後に出典を記載`,
+    format: `## 回答フォーマット（厳守）
+【仕様】
+- [項目]: [値と単位]
+出典: [資料名（ページ・シート等）]`,
+    example: `質問された項目の値だけを簡潔に回答してください。`
+  },
+  procedure: {
+    title: '【作業手順】',
+    rules: `- 点検・操作・交換などの作業手順を、知識ベースに記載された順序どおりに示す
+- 手順を省略・並べ替えしない`,
+    policy: `- 【作業手順】のタイトルで回答開始
+- 「〜です」「〜ます」などの丁寧表現は省略し「〜する」など簡潔な表現を使用
+- 各ステップは必ず番号付き（1. 2. 3.）で、1行に1つの操作のみを記述
+- 必要な工具・部品があれば手順の前に列挙
+- 回答の最後に出典を記載`,
+    format: `## 回答フォーマット（厳守）
+【作業手順】
+必要な工具: [工具名]（ある場合のみ）
+1. [手順]
+2. [手順]
+出典: [資料名（ページ・シート等）]`,
+    example: `安全確保の手順がある場合は必ず最初に含めてください。`
+  },
+  parts: {
+    title: '【部品】',
+    rules: `- 部品名・品番・取付位置を知識ベースの記載どおりに回答する
+- 品番が知識ベースに見つからない場合は推測せず、見つからないと回答する`,
+    policy: `- 【部品】のタイトルで回答開始
+- 部品名、品番、取付位置、交換時の注意を分けて記載
+- 車種・型式によって部品が異なる場合は型式ごとに列挙
+- 回答の最後に出典を記載`,
+    format: `## 回答フォーマット（厳守）
+【部品】
+- 部品名: [部品名]
+- 品番: [品番]
+- 取付位置: [位置]
+- 注意: [交換時の注意]（ある場合のみ）
+出典: [資料名（ページ・シート等）]`,
+    example: `質問された部品に関する情報だけを簡潔に回答してください。`
+  }
+};
+
+/**
+ * ナレッジベースからシステムプロンプトを生成
+ * @param query ユーザーの質問
+ * @param understanding クエリ理解の結果（省略時はLLMを使わずに解析する）
+ * @param scope 検索範囲（質問したユーザーなど）
+ */
+export async function generateSystemPromptWithKnowledge(query: string, understanding?: QueryUnderstanding, scope?: KnowledgeScope): Promise<string> {
+  const { prompt } = await generateSystemPromptWithSources(query, understanding, scope);
+  return prompt;
+}
+
+/**
+ * ナレッジベースからシステムプロンプトを生成し、根拠としたチャンクも返す
+ * 質問の意図に応じて検索方法と回答テンプレートを切り替える
+ * @param query ユーザーの質問
+ * @param understanding クエリ理解の結果（省略時はLLMを使わずに解析する）
+ * @param scope チャットの対象車両による検索範囲
+ */
+export async function generateSystemPromptWithSources(
+  query: string,
+  understanding?: QueryUnderstanding,
+  scope?: KnowledgeScope
+): Promise<{ prompt: string, sources: DocumentChunk[] }> {
+  const queryInfo = understanding || await understandQuery(query, { llm: 'never' });
+  const template = PROMPT_TEMPLATES[queryInfo.intent];
+
+  // 関連するチャンクを検索
+  const relevantChunks = await searchKnowledgeBase(query, queryInfo, scope);
+  
+  // 用語辞書から検索語句のヒントを生成
+  const glossaryHints = buildGlossaryPromptHints(await getGlossary());
+  const hintsSection = glossaryHints ? `## 重要な検索語句のヒント\n${glossaryHints}\n\n` : '';
+
+  // チャットの対象車両と、質問から抽出した車種・症状
+  const { vehicleModel, symptoms } = queryInfo.entities;
+  const scopeModel = scope?.vehicleModel;
+  const entityLines = [
+    scopeModel
+      ? `- 対象車両: ${[scope?.vehicleNumber, `${scopeModel.maker} ${scopeModel.name}`, scopeModel.engineType].filter(Boolean).join(' / ')}`
+      : '',
+    vehicleModel ? `- 車種・型式: ${vehicleModel}` : '',
+    symptoms.length > 0 ? `- 症状: ${symptoms.join('、')}` : ''
+  ].filter(line => line);
+  const entitySection = entityLines.length > 0 ? `## 質問から読み取った情報\n${entityLines.join('\n')}\n\n` : '';
+  
+  // 基本的なシステムプロンプト
+  let basePrompt = `あなたは保守用車の知識ベースを持つ応急復旧サポートアシスタントです。
+あなたはユーザーから質問を受け取り、保守用車（軌道モータカー、重機、道路保守車両、線路保守車両など）のトラブルシューティングと修理を段階的に支援します。
+
+## 厳守事項（最重要）
+- 提供された知識ベースの情報のみを使用し、それ以外の一般知識での回答は禁止
+${template.rules}
+
+${hintsSection}${entitySection}## 回答方針（厳守）
+${template.policy}
+
+${template.format}
+
+## 安全注意事項
+- 危険性がある場合のみ、先頭に【危険】と記載
+- 電気系統：感電危険
+- 油圧系統：高圧油危険
+- エンジン：火災・熱傷危険`;
+
+  // 関連するチャンクがある場合は追加
+  if (relevantChunks.length > 0) {
+    basePrompt += `\n\n以下は、あなたの回答に役立つ可能性のある関連情報です：\n\n`;
+    
+    for (const chunk of relevantChunks) {
+      const location = formatChunkLocation(chunk);
+      const citation = location ? `${chunk.metadata.source} (${location})` : chunk.metadata.source;
+      basePrompt += `---\n出典: ${citation}\n\n${chunk.text}\n---\n\n`;
+    }
+    
+    basePrompt += `\n上記の知識ベースの情報のみを使用して回答してください。${template.example}`;
   } else {
     // 関連情報が見つからない場合
     basePrompt += `\n\n質問に関する情報がナレッジベースにありません。以下のように回答してください：
 
-【応急復旧】
+${template.title}
 
 ナレッジベースに該当情報がありません。
 
 この問題は専門的な対応が必要です。保守担当者に電話連絡してください。`;
   }
   
-  return basePrompt;
+  return { prompt: basePrompt, sources: relevantChunks };
 }
 
 /**
- * 知識ベース内のすべてのドキュメントを一覧表示
+ * 知識ベース内のドキュメントを一覧表示
  * ディレクトリをスキャンして実際に存在するファイルからインデックスを更新
+ * @param viewer 閲覧するユーザー（公開範囲外のドキュメントは返さない、未指定なら全員公開のものだけ）
  */
-export function listKnowledgeBaseDocuments(): { id: string, title: string, type: string, addedAt: string }[] {
+export function listKnowledgeBaseDocuments(viewer?: KnowledgeViewer): KnowledgeDocumentSummary[] {
   try {
     // まず知識ベースを初期化
     initializeKnowledgeBase();
@@ -592,18 +814,73 @@ export function listKnowledgeBaseDocuments(): { id: string, title: string, type:
     saveKnowledgeBaseIndex(index);
     
     // ドキュメント情報を返す
-    return index.documents.map(doc => ({
-      id: doc.id,
-      title: doc.title,
-      type: doc.type,
-      addedAt: doc.addedAt
-    }));
+    return index.documents
+      .filter(doc => canViewDocument(doc.visibility, viewer))
+      .map(doc => ({
+        id: doc.id,
+        title: doc.title,
+        type: doc.type,
+        addedAt: doc.addedAt,
+        vehicleModelIds: doc.vehicleModelIds || [],
+        visibility: doc.visibility || PUBLIC_VISIBILITY
+      }));
   } catch (error) {
     console.error('ナレッジベース一覧取得エラー:', error);
     return [];
   }
 }
 
+/**
+ * ドキュメントに適用する車両型式を設定する（空配列で全型式共通に戻す）
+ * @param docId ドキュメントID
+ * @param vehicleModelIds 車両型式のID
+ * @returns ドキュメントが存在した場合は true
+ */
+export function setDocumentVehicleModels(docId: string, vehicleModelIds: number[]): boolean {
+  const index = loadKnowledgeBaseIndex();
+  const doc = index.documents.find(doc => doc.id === docId);
+  if (!doc) return false;
+
+  doc.vehicleModelIds = Array.from(new Set(vehicleModelIds));
+  saveKnowledgeBaseIndex(index);
+  return true;
+}
+
+/**
+ * ドキュメントの公開範囲を設定する
+ * @param docId ドキュメントID
+ * @param visibility 公開範囲（部署・役割を空にすると全員に公開）
+ * @returns ドキュメントが存在した場合は true
+ */
+export function setDocumentVisibility(docId: string, visibility: DocumentVisibility): boolean {
+  const index = loadKnowledgeBaseIndex();
+  const doc = index.documents.find(doc => doc.id === docId);
+  if (!doc) return false;
+
+  doc.visibility = {
+    departments: Array.from(new Set(visibility.departments)),
+    roles: Array.from(new Set(visibility.roles))
+  };
+  saveKnowledgeBaseIndex(index);
+  return true;
+}
+
+/**
+ * 元ファイル名から資料を閲覧できるかを判定する関数を返す（画像検索データの絞り込み用）
+ * 知識ベースに該当する資料が無いファイルは閲覧できるものとする
+ * @param viewer 閲覧するユーザー
+ */
+export function createSourceFileFilter(viewer?: KnowledgeViewer): (sourceFile: string | undefined) => boolean {
+  const visibleByFile = new Map<string, boolean>();
+  for (const doc of loadKnowledgeBaseIndex().documents) {
+    const visible = canViewDocument(doc.visibility, viewer);
+    for (const name of [path.basename(doc.path), doc.title]) {
+      visibleByFile.set(name, (visibleByFile.get(name) ?? false) || visible);
+    }
+  }
+  return (sourceFile) => !sourceFile || (visibleByFile.get(sourceFile) ?? true);
+}
+
 /**
  * 知識ベースからドキュメントを削除
  * @param docId 削除するドキュメントID
@@ -629,6 +906,8 @@ export function removeDocumentFromKnowledgeBase(docId: string): boolean {
     // インデックスから削除
     index.documents.splice(docIndex, 1);
     saveKnowledgeBaseIndex(index);
+    knowledgeRetriever.removeDocument(docId);
+    dropVectorIndex(docId);
     console.log(`インデックスから削除しました: ${docId}`);
     
     // ドキュメントファイルまたはディレクトリを削除
@@ -0,0 +1,91 @@
+import type { Request } from 'express';
+import type { LoginSession } from '@shared/schema';
+import { storage } from '../storage';
+import { sessionExists, destroySession } from './session-store';
+import { disconnectUser } from './chat-stream';
+
+// 最終利用時刻を記録する間隔（リクエストのたびに更新しない）
+const TOUCH_INTERVAL = 5 * 60 * 1000;
+
+// 画面に返すログイン中の端末（セッションIDは含めない）
+export interface LoginSessionSummary {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastSeenAt: Date;
+  current: boolean;
+}
+
+/**
+ * ログインしたセッションを端末の情報とともに記録する
+ */
+export async function recordLoginSession(req: Request, userId: number): Promise<void> {
+  const now = Date.now();
+  req.session.lastSeenAt = now;
+  await storage.createLoginSession({
+    sid: req.sessionID,
+    userId,
+    userAgent: req.get('user-agent')?.slice(0, 500) || null,
+    ipAddress: req.ip || null
+  });
+}
+
+/**
+ * ログイン中のセッションの最終利用時刻を一定間隔で更新する
+ */
+export async function touchLoginSession(req: Request): Promise<void> {
+  const now = Date.now();
+  if (req.session.lastSeenAt && now - req.session.lastSeenAt < TOUCH_INTERVAL) return;
+  req.session.lastSeenAt = now;
+  await storage.touchLoginSession(req.sessionID, new Date(now));
+}
+
+/**
+ * セッションを終了させ、端末の記録を削除する
+ * そのセッションで確立した WebSocket 接続も閉じる
+ */
+export async function revokeLoginSession(loginSession: Pick<LoginSession, 'sid' | 'userId'>): Promise<void> {
+  await destroySession(storage.sessionStore, loginSession.sid);
+  await storage.deleteLoginSession(loginSession.sid);
+  disconnectUser(loginSession.userId, loginSession.sid);
+}
+
+/**
+ * ユーザーのセッションをすべて終了させる
+ * @param exceptSid 残すセッション（本人がほかの端末だけをログアウトさせる場合）
+ * @returns 終了させたセッション数
+ */
+export async function revokeUserSessions(userId: number, exceptSid?: string): Promise<number> {
+  const loginSessions = (await storage.getLoginSessionsForUser(userId))
+    .filter(loginSession => loginSession.sid !== exceptSid);
+  for (const loginSession of loginSessions) {
+    await revokeLoginSession(loginSession);
+  }
+  // 端末の記録がないセッション（記録前からのログインなど）の接続も閉じる
+  if (!exceptSid) disconnectUser(userId);
+  return loginSessions.length;
+}
+
+/**
+ * ユーザーのログイン中の端末を新しく使った順に返す
+ * 期限切れなどでストアから消えたセッションの記録はここで削除する
+ */
+export async function getActiveLoginSessions(userId: number, currentSid?: string): Promise<LoginSessionSummary[]> {
+  const active: LoginSession[] = [];
+  for (const loginSession of await storage.getLoginSessionsForUser(userId)) {
+    if (await sessionExists(storage.sessionStore, loginSession.sid)) {
+      active.push(loginSession);
+    } else {
+      await storage.deleteLoginSession(loginSession.sid);
+    }
+  }
+  return active.map(({ id, userAgent, ipAddress, createdAt, lastSeenAt, sid }) => ({
+    id,
+    userAgent,
+    ipAddress,
+    createdAt,
+    lastSeenAt,
+    current: sid === currentSid
+  }));
+}
@@ -0,0 +1,125 @@
+import type { User } from '@shared/schema';
+import { storage } from '../storage';
+
+// ログイン失敗の制限
+//   ユーザー名・IPアドレスごとに、無料の回数を超えた失敗のたびに待ち時間を倍にする
+//   同じユーザーで lockoutThreshold 回続けて失敗したらアカウントを一時ロックする
+export interface LoginThrottleConfig {
+  windowMinutes: number; // 失敗を数える期間
+  usernameFreeAttempts: number; // 待ち時間なしで失敗できる回数（ユーザー名ごと）
+  ipFreeAttempts: number; // 待ち時間なしで失敗できる回数（IPアドレスごと、複数ユーザーを試す攻撃向け）
+  backoffBaseSeconds: number;
+  backoffMaxSeconds: number;
+  lockoutThreshold: number;
+  lockoutMinutes: number;
+}
+
+export const DEFAULT_LOGIN_THROTTLE_CONFIG: LoginThrottleConfig = {
+  windowMinutes: 60,
+  usernameFreeAttempts: 3,
+  ipFreeAttempts: 10,
+  backoffBaseSeconds: 2,
+  backoffMaxSeconds: 15 * 60,
+  lockoutThreshold: 10,
+  lockoutMinutes: 30,
+};
+
+let config: LoginThrottleConfig = DEFAULT_LOGIN_THROTTLE_CONFIG;
+
+export type LoginBlock =
+  | { reason: 'locked'; retryAfter: number }
+  | { reason: 'throttled'; retryAfter: number };
+
+/**
+ * 失敗回数から次の試行までの待ち時間（秒）を求める
+ */
+export function backoffSeconds(failures: number, freeAttempts: number, settings: LoginThrottleConfig = config): number {
+  if (failures < freeAttempts) return 0;
+  const exponent = Math.min(failures - freeAttempts, 30);
+  return Math.min(settings.backoffBaseSeconds * 2 ** exponent, settings.backoffMaxSeconds);
+}
+
+const windowStart = (now: Date) => new Date(now.getTime() - config.windowMinutes * 60 * 1000);
+
+// ユーザー名の失敗はログイン成功・ロック・管理者による解除より後のものだけを数える
+const usernameSince = (user: User | undefined, now: Date) => {
+  const start = windowStart(now);
+  return user?.loginFailuresResetAt && user.loginFailuresResetAt > start ? user.loginFailuresResetAt : start;
+};
+
+const secondsUntil = (time: number, now: Date) => Math.max(Math.ceil((time - now.getTime()) / 1000), 1);
+
+/**
+ * ログインを試行してよいか調べる（試行を pending で記録した後、パスワードの照合前に呼ぶ）
+ * 自分より前に記録された試行は照合中のものも失敗として数えるため、同時に送られた試行でも制限を回避できない
+ * @param attemptId 記録した試行のID
+ * @returns 拒否する場合はその理由と再試行できるまでの秒数
+ */
+export async function checkLoginAllowed(username: string, user: User | undefined, ipAddress: string | undefined, attemptId: number, now = new Date()): Promise<LoginBlock | null> {
+  if (user?.lockedUntil && user.lockedUntil > now) {
+    return { reason: 'locked', retryAfter: secondsUntil(user.lockedUntil.getTime(), now) };
+  }
+
+  const checks = [
+    { stats: await storage.getLoginFailureStats({ username }, usernameSince(user, now), attemptId), freeAttempts: config.usernameFreeAttempts },
+  ];
+  if (ipAddress) {
+    checks.push({ stats: await storage.getLoginFailureStats({ ipAddress }, windowStart(now), attemptId), freeAttempts: config.ipFreeAttempts });
+  }
+
+  let retryAt = 0;
+  for (const { stats, freeAttempts } of checks) {
+    const wait = backoffSeconds(stats.count, freeAttempts);
+    if (wait > 0 && stats.lastFailureAt) {
+      retryAt = Math.max(retryAt, stats.lastFailureAt.getTime() + wait * 1000);
+    }
+  }
+  return retryAt > now.getTime() ? { reason: 'throttled', retryAfter: secondsUntil(retryAt, now) } : null;
+}
+
+/**
+ * 認証に失敗した後に呼び、失敗が続いたユーザーをロックする
+ * @returns ロックした場合はロック解除の時刻
+ */
+export async function lockIfNeeded(user: User, now = new Date()): Promise<Date | null> {
+  const { count } = await storage.getLoginFailureStats({ username: user.username }, usernameSince(user, now));
+  if (count < config.lockoutThreshold) return null;
+
+  // ロック解除後は失敗回数を数え直す
+  const lockedUntil = new Date(now.getTime() + config.lockoutMinutes * 60 * 1000);
+  await storage.updateUser(user.id, { lockedUntil, loginFailuresResetAt: now });
+  console.warn(`ログイン失敗が続いたためアカウントをロックしました: userId=${user.id}, 失敗回数=${count}, 解除=${lockedUntil.toISOString()}`);
+  return lockedUntil;
+}
+
+/**
+ * ログイン成功・管理者による解除で、失敗回数とロックをリセットする
+ */
+export async function resetLoginFailures(userId: number, now = new Date()): Promise<User> {
+  return storage.updateUser(userId, { lockedUntil: null, loginFailuresResetAt: now });
+}
+
+const envInt = (value: string | undefined, fallback: number, min: number) => {
+  const parsed = parseInt(value || '');
+  return Number.isNaN(parsed) ? fallback : Math.max(parsed, min);
+};
+
+/**
+ * 環境変数からログイン失敗の制限を設定する
+ *   LOGIN_FAILURE_WINDOW_MINUTES, LOGIN_FREE_ATTEMPTS_PER_USER, LOGIN_FREE_ATTEMPTS_PER_IP,
+ *   LOGIN_BACKOFF_BASE_SECONDS, LOGIN_BACKOFF_MAX_SECONDS, LOGIN_LOCKOUT_THRESHOLD, LOGIN_LOCKOUT_MINUTES
+ */
+export function configureLoginThrottleFromEnv(): LoginThrottleConfig {
+  const env = process.env;
+  const defaults = DEFAULT_LOGIN_THROTTLE_CONFIG;
+  config = {
+    windowMinutes: envInt(env.LOGIN_FAILURE_WINDOW_MINUTES, defaults.windowMinutes, 1),
+    usernameFreeAttempts: envInt(env.LOGIN_FREE_ATTEMPTS_PER_USER, defaults.usernameFreeAttempts, 0),
+    ipFreeAttempts: envInt(env.LOGIN_FREE_ATTEMPTS_PER_IP, defaults.ipFreeAttempts, 0),
+    backoffBaseSeconds: envInt(env.LOGIN_BACKOFF_BASE_SECONDS, defaults.backoffBaseSeconds, 1),
+    backoffMaxSeconds: envInt(env.LOGIN_BACKOFF_MAX_SECONDS, defaults.backoffMaxSeconds, 1),
+    lockoutThreshold: envInt(env.LOGIN_LOCKOUT_THRESHOLD, defaults.lockoutThreshold, 1),
+    lockoutMinutes: envInt(env.LOGIN_LOCKOUT_MINUTES, defaults.lockoutMinutes, 1),
+  };
+  return config;
+}
@@ -0,0 +1,379 @@
+import crypto from 'crypto';
+import type { User } from '@shared/schema';
+import { USER_ROLES, type UserRole } from '@shared/permissions';
+import { storage } from '../storage';
+import { hashPassword } from './password';
+
+// OpenID Connect によるシングルサインオン（認可コードフロー + PKCE）
+//   OIDC_ISSUER と OIDC_CLIENT_ID を設定したときだけ有効になる
+//   初回ログイン時に ID トークン（と UserInfo）のクレームからユーザーを作成し、以降のログインで部署・役割を同期する
+
+// IdP への通信の上限（ミリ秒）
+const HTTP_TIMEOUT = 10000;
+// ID トークンの exp / iat の許容誤差（秒）
+const CLOCK_SKEW_SECONDS = 60;
+// ディスカバリー情報を再取得する間隔
+const METADATA_TTL = 60 * 60 * 1000;
+// 認可リクエストを開始してからコールバックまでの有効期限
+const AUTHORIZATION_REQUEST_TTL = 10 * 60 * 1000;
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string; // 未設定の場合は PKCE だけを使う公開クライアントとして扱う
+  redirectUri?: string; // 未設定の場合はリクエストのホストから組み立てる
+  scopes: string;
+  buttonLabel: string;
+  // ユーザー情報を取り出すクレーム（realm_access.roles のようにドット区切りで入れ子を指定できる）
+  claims: { username: string; displayName: string; department: string; role: string };
+  roleMap: Record<string, UserRole>; // IdP のロール・グループ名 → 役割
+  defaultRole: UserRole;
+  linkExistingUsers: boolean; // 同じユーザー名のローカルアカウントがあれば SSO と連携する
+}
+
+let config: OidcConfig | null = null;
+
+// 認可リクエストの開始時にセッションへ保存し、コールバックで照合する
+export interface PendingOidcLogin {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  createdAt: number;
+}
+
+// ID トークンと UserInfo から取り出したユーザー情報
+export interface OidcIdentity {
+  subject: string;
+  username: string;
+  displayName: string;
+  // クレームがない場合は null（既存ユーザーの部署・役割は変更しない）
+  department: string | null;
+  role: UserRole | null;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+}
+
+type Jwk = crypto.JsonWebKey & { kid?: string; use?: string };
+
+let metadataCache: { metadata: ProviderMetadata; fetchedAt: number } | null = null;
+let jwksCache: Jwk[] | null = null;
+
+const isUserRole = (value: string): value is UserRole => (USER_ROLES as readonly string[]).includes(value);
+
+/**
+ * OIDC_ROLE_MAP（例: "maintenance-admins=admin,editors=knowledge_editor"）を読み込む
+ */
+function parseRoleMap(value: string | undefined): Record<string, UserRole> {
+  const roleMap: Record<string, UserRole> = {};
+  for (const entry of (value || '').split(',')) {
+    const [claimValue, role] = entry.split('=').map(part => part.trim());
+    if (!claimValue || !role) continue;
+    if (!isUserRole(role)) {
+      console.warn(`OIDC_ROLE_MAP の役割が不明なため無視します: ${entry}`);
+      continue;
+    }
+    roleMap[claimValue] = role;
+  }
+  return roleMap;
+}
+
+/**
+ * 環境変数から SSO を設定する（OIDC_ISSUER と OIDC_CLIENT_ID がなければ無効）
+ *   OIDC_CLIENT_SECRET, OIDC_REDIRECT_URI, OIDC_SCOPES, OIDC_BUTTON_LABEL,
+ *   OIDC_USERNAME_CLAIM, OIDC_DISPLAY_NAME_CLAIM, OIDC_DEPARTMENT_CLAIM, OIDC_ROLE_CLAIM,
+ *   OIDC_ROLE_MAP, OIDC_DEFAULT_ROLE, OIDC_LINK_EXISTING_USERS
+ */
+export function configureOidcFromEnv(): OidcConfig | null {
+  const env = process.env;
+  metadataCache = null;
+  jwksCache = null;
+  if (!env.OIDC_ISSUER || !env.OIDC_CLIENT_ID) {
+    config = null;
+    return config;
+  }
+
+  const defaultRole = env.OIDC_DEFAULT_ROLE && isUserRole(env.OIDC_DEFAULT_ROLE) ? env.OIDC_DEFAULT_ROLE : 'employee';
+  config = {
+    issuer: env.OIDC_ISSUER.replace(/\/+$/, ''),
+    clientId: env.OIDC_CLIENT_ID,
+    clientSecret: env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri: env.OIDC_REDIRECT_URI || undefined,
+    scopes: env.OIDC_SCOPES || 'openid profile email',
+    buttonLabel: env.OIDC_BUTTON_LABEL || '社内アカウントでログイン',
+    claims: {
+      username: env.OIDC_USERNAME_CLAIM || 'preferred_username',
+      displayName: env.OIDC_DISPLAY_NAME_CLAIM || 'name',
+      department: env.OIDC_DEPARTMENT_CLAIM || 'department',
+      role: env.OIDC_ROLE_CLAIM || 'roles',
+    },
+    roleMap: parseRoleMap(env.OIDC_ROLE_MAP),
+    defaultRole,
+    linkExistingUsers: env.OIDC_LINK_EXISTING_USERS === 'true',
+  };
+  console.log(`SSO（OIDC）を有効にしました: issuer=${config.issuer}, clientId=${config.clientId}`);
+  return config;
+}
+
+export function getOidcConfig(): OidcConfig | null {
+  return config;
+}
+
+function requireConfig(): OidcConfig {
+  if (!config) throw new Error('SSO（OIDC）が設定されていません');
+  return config;
+}
+
+async function fetchJson(url: string, init: RequestInit = {}): Promise<any> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(HTTP_TIMEOUT) });
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`IdP への要求に失敗しました: ${url} ${response.status} ${text.slice(0, 200)}`);
+  }
+  return JSON.parse(text);
+}
+
+async function getProviderMetadata(): Promise<ProviderMetadata> {
+  const { issuer } = requireConfig();
+  if (metadataCache && Date.now() - metadataCache.fetchedAt < METADATA_TTL) {
+    return metadataCache.metadata;
+  }
+  const metadata: ProviderMetadata = await fetchJson(`${issuer}/.well-known/openid-configuration`);
+  // なりすましを防ぐため、ディスカバリーの issuer は設定と一致しなければならない
+  if (metadata.issuer?.replace(/\/+$/, '') !== issuer) {
+    throw new Error(`ディスカバリーの issuer が設定と一致しません: ${metadata.issuer}`);
+  }
+  if (!metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+    throw new Error('ディスカバリーに必要なエンドポイントがありません');
+  }
+  metadataCache = { metadata, fetchedAt: Date.now() };
+  return metadata;
+}
+
+// kid に一致する署名鍵を探す（見つからなければ鍵の更新とみなして一度だけ取り直す）
+async function findSigningKey(kid: string | undefined): Promise<Jwk> {
+  const metadata = await getProviderMetadata();
+  const find = (keys: Jwk[]) => {
+    const candidates = keys.filter(key => !key.use || key.use === 'sig');
+    return kid ? candidates.find(key => key.kid === kid) : candidates.length === 1 ? candidates[0] : undefined;
+  };
+
+  let key = jwksCache ? find(jwksCache) : undefined;
+  if (!key) {
+    const jwks = await fetchJson(metadata.jwks_uri);
+    jwksCache = Array.isArray(jwks?.keys) ? jwks.keys : [];
+    key = find(jwksCache!);
+  }
+  if (!key) throw new Error(`ID トークンの署名鍵が見つかりません: kid=${kid}`);
+  return key;
+}
+
+// ID トークンで受け付ける署名方式（none や共通鍵の HS* は受け付けない）
+const SIGNATURE_ALGORITHMS: Record<string, { hash: string; padding?: number; dsaEncoding?: 'ieee-p1363' }> = {
+  RS256: { hash: 'sha256' },
+  RS384: { hash: 'sha384' },
+  RS512: { hash: 'sha512' },
+  PS256: { hash: 'sha256', padding: crypto.constants.RSA_PKCS1_PSS_PADDING },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+  ES384: { hash: 'sha384', dsaEncoding: 'ieee-p1363' },
+};
+
+const decodeSegment = (segment: string) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+/**
+ * ID トークンの署名とクレーム（iss, aud, azp, exp, iat, nonce）を検証する
+ */
+async function verifyIdToken(idToken: string, nonce: string): Promise<Record<string, any>> {
+  const { issuer, clientId } = requireConfig();
+  const segments = idToken.split('.');
+  if (segments.length !== 3) throw new Error('ID トークンの形式が正しくありません');
+
+  const header = decodeSegment(segments[0]);
+  const algorithm = SIGNATURE_ALGORITHMS[header.alg];
+  if (!algorithm) throw new Error(`ID トークンの署名方式に対応していません: ${header.alg}`);
+
+  const publicKey = crypto.createPublicKey({ key: await findSigningKey(header.kid), format: 'jwk' });
+  const valid = crypto.verify(
+    algorithm.hash,
+    Buffer.from(`${segments[0]}.${segments[1]}`),
+    { key: publicKey, padding: algorithm.padding, dsaEncoding: algorithm.dsaEncoding },
+    Buffer.from(segments[2], 'base64url')
+  );
+  if (!valid) throw new Error('ID トークンの署名が正しくありません');
+
+  const claims = decodeSegment(segments[1]);
+  const now = Math.floor(Date.now() / 1000);
+  const audiences: string[] = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss?.replace(/\/+$/, '') !== issuer) throw new Error(`ID トークンの iss が一致しません: ${claims.iss}`);
+  if (!audiences.includes(clientId)) throw new Error('ID トークンの aud にクライアントIDが含まれていません');
+  if (audiences.length > 1 && claims.azp !== clientId) throw new Error('ID トークンの azp が一致しません');
+  if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECONDS < now) throw new Error('ID トークンの有効期限が切れています');
+  if (typeof claims.iat === 'number' && claims.iat - CLOCK_SKEW_SECONDS > now) throw new Error('ID トークンの発行時刻が未来です');
+  if (claims.nonce !== nonce) throw new Error('ID トークンの nonce が一致しません');
+  if (typeof claims.sub !== 'string' || !claims.sub) throw new Error('ID トークンに sub がありません');
+  return claims;
+}
+
+const randomToken = () => crypto.randomBytes(32).toString('base64url');
+
+/**
+ * 認可リクエストを作る（state・nonce・PKCE の code_verifier はセッションに保存しておく）
+ */
+export async function createAuthorizationRequest(redirectUri: string): Promise<{ url: string; pending: PendingOidcLogin }> {
+  const { clientId, scopes } = requireConfig();
+  const metadata = await getProviderMetadata();
+  const pending: PendingOidcLogin = {
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: randomToken(),
+    redirectUri,
+    createdAt: Date.now(),
+  };
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', clientId);
+  url.searchParams.set('redirect_uri', redirectUri);
+  url.searchParams.set('scope', scopes);
+  url.searchParams.set('state', pending.state);
+  url.searchParams.set('nonce', pending.nonce);
+  url.searchParams.set('code_challenge', crypto.createHash('sha256').update(pending.codeVerifier).digest('base64url'));
+  url.searchParams.set('code_challenge_method', 'S256');
+  return { url: url.toString(), pending };
+}
+
+// ドット区切りのパスでクレームを取り出す
+const getClaim = (claims: Record<string, any>, path: string): unknown =>
+  path.split('.').reduce<any>((value, key) => (value && typeof value === 'object' ? value[key] : undefined), claims);
+
+const claimString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : Array.isArray(value) && typeof value[0] === 'string' ? value[0] : null;
+
+/**
+ * ロールのクレームから役割を決める（複数に該当する場合は権限の強いものを使う）
+ * OIDC_ROLE_MAP に書かれた値だけを対応させる。IdP によくある "admin" などのグループ名が、
+ * そのまま同じ名前の役割にならないよう、役割名と同じ値でも対応表になければ既定の役割にする
+ */
+export function mapRole(claimValue: unknown, settings: Pick<OidcConfig, 'roleMap' | 'defaultRole'>): UserRole {
+  const values = Array.isArray(claimValue) ? claimValue : claimValue === undefined || claimValue === null ? [] : [claimValue];
+  const roles = values
+    .filter((value): value is string => typeof value === 'string')
+    .filter(value => Object.hasOwn(settings.roleMap, value))
+    .map(value => settings.roleMap[value]);
+  if (roles.length === 0) return settings.defaultRole;
+  return roles.reduce((strongest, role) => (USER_ROLES.indexOf(role) > USER_ROLES.indexOf(strongest) ? role : strongest));
+}
+
+/**
+ * コールバックの認可コードをトークンに交換し、ID トークンを検証してユーザー情報を返す
+ */
+export async function completeAuthorization(
+  query: { code?: unknown; state?: unknown; error?: unknown; error_description?: unknown },
+  pending: PendingOidcLogin | undefined
+): Promise<OidcIdentity> {
+  const settings = requireConfig();
+  if (!pending || Date.now() - pending.createdAt > AUTHORIZATION_REQUEST_TTL) {
+    throw new Error('SSO のログイン要求が見つからないか、有効期限が切れています');
+  }
+  if (typeof query.state !== 'string' || query.state !== pending.state) {
+    throw new Error('SSO の state が一致しません');
+  }
+  if (query.error) {
+    throw new Error(`IdP がエラーを返しました: ${query.error} ${query.error_description ?? ''}`);
+  }
+  if (typeof query.code !== 'string' || !query.code) {
+    throw new Error('認可コードがありません');
+  }
+
+  const metadata = await getProviderMetadata();
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' };
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: query.code,
+    redirect_uri: pending.redirectUri,
+    code_verifier: pending.codeVerifier,
+    client_id: settings.clientId,
+  });
+  if (settings.clientSecret) {
+    const credentials = `${encodeURIComponent(settings.clientId)}:${encodeURIComponent(settings.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  }
+  const tokens = await fetchJson(metadata.token_endpoint, { method: 'POST', headers, body });
+  if (typeof tokens.id_token !== 'string') throw new Error('トークン応答に ID トークンがありません');
+
+  let claims = await verifyIdToken(tokens.id_token, pending.nonce);
+
+  // 部署・ロールを UserInfo にだけ含める IdP もあるため、取得できればクレームに加える
+  if (metadata.userinfo_endpoint && typeof tokens.access_token === 'string') {
+    try {
+      const userinfo = await fetchJson(metadata.userinfo_endpoint, { headers: { Authorization: `Bearer ${tokens.access_token}` } });
+      if (userinfo?.sub === claims.sub) {
+        claims = { ...userinfo, ...claims };
+      } else {
+        console.warn('UserInfo の sub が ID トークンと一致しないため使用しません');
+      }
+    } catch (error) {
+      console.warn('UserInfo の取得に失敗しました（ID トークンのクレームだけを使用します）:', error);
+    }
+  }
+
+  const username = claimString(getClaim(claims, settings.claims.username)) ?? claimString(claims.email);
+  if (!username) throw new Error(`ユーザー名のクレームがありません: ${settings.claims.username}`);
+  const roleClaim = getClaim(claims, settings.claims.role);
+  return {
+    subject: claims.sub,
+    username,
+    displayName: claimString(getClaim(claims, settings.claims.displayName)) ?? username,
+    department: claimString(getClaim(claims, settings.claims.department)),
+    role: roleClaim === undefined || roleClaim === null ? null : mapRole(roleClaim, settings),
+  };
+}
+
+export type OidcProvisionResult =
+  | { status: 'ok'; user: User; provisioned: 'created' | 'linked' | null }
+  | { status: 'conflict' }; // 同じユーザー名のアカウントがあり、連携できない
+
+/**
+ * SSO のユーザーを作成・連携し、表示名・部署・役割を IdP のクレームに合わせる
+ * 部署・役割はクレームがある場合だけ変更する（クレームのない IdP で、連携したローカルの管理者が既定の役割に下がらないように）
+ */
+export async function provisionOidcUser(identity: OidcIdentity): Promise<OidcProvisionResult> {
+  const profile: Partial<Pick<User, 'displayName' | 'department' | 'role'>> = { displayName: identity.displayName };
+  if (identity.department !== null) profile.department = identity.department;
+  if (identity.role !== null) profile.role = identity.role;
+
+  const existing = await storage.getUserByOidcSubject(identity.subject);
+  if (existing) {
+    const changed = (Object.keys(profile) as (keyof typeof profile)[])
+      .some(key => existing[key] !== profile[key]);
+    const user = changed ? await storage.updateUser(existing.id, profile) : existing;
+    return { status: 'ok', user, provisioned: null };
+  }
+
+  const sameUsername = await storage.getUserByUsername(identity.username);
+  if (sameUsername) {
+    if (sameUsername.oidcSubject || !requireConfig().linkExistingUsers) {
+      return { status: 'conflict' };
+    }
+    const user = await storage.updateUser(sameUsername.id, { ...profile, oidcSubject: identity.subject });
+    return { status: 'ok', user, provisioned: 'linked' };
+  }
+
+  // SSO のユーザーはパスワードでログインしないため、推測できないパスワードを設定する
+  const user = await storage.createUser({
+    username: identity.username,
+    password: await hashPassword(randomToken()),
+    displayName: identity.displayName,
+    department: identity.department,
+    role: identity.role ?? requireConfig().defaultRole,
+    mustChangePassword: false,
+    oidcSubject: identity.subject,
+  });
+  return { status: 'ok', user, provisioned: 'created' };
+}
@@ -1,5 +1,14 @@
 import OpenAI from "openai";
-import { generateSystemPromptWithKnowledge } from "./knowledge-base";
+import { generateSystemPromptWithSources, type KnowledgeScope } from "./knowledge-base";
+import { DocumentChunk, formatChunkLocation } from "./document-processor";
+import type { ChatCitation } from "@shared/chat-stream";
+import { understandQuery } from "./query-understanding";
+import {
+  ConversationTurn,
+  fitHistoryToBudget,
+  summarizeTurnsExtractively,
+  buildThreadRetrievalQuery,
+} from "./conversation";
 
 // Check if API key is available
 const apiKey = process.env.OPENAI_API_KEY;
@@ -27,41 +36,134 @@ function validateApiKey(): boolean {
   return true;
 }
 
-// Process a text request and get an AI response
-export async function processOpenAIRequest(prompt: string, useOnlyKnowledgeBase: boolean = true): Promise<string> {
+// Summarize older conversation turns that no longer fit in the history budget
+async function summarizeConversation(turns: ConversationTurn[]): Promise<string> {
   try {
-    // Check if API key is available
-    if (!validateApiKey()) {
-      return "OpenAI APIキーが設定されていません。システム管理者に連絡してください。";
-    }
-
-    // ナレッジベースから関連情報を取得してシステムプロンプトを生成
-    const systemPrompt = await generateSystemPromptWithKnowledge(prompt);
+    const transcript = turns
+      .map((turn) => `${turn.role === "user" ? "ユーザー" : "アシスタント"}: ${turn.content}`)
+      .join("\n");
 
-    // ユーザー設定に応じて制約を追加
-    const finalSystemPrompt = useOnlyKnowledgeBase 
-      ? systemPrompt 
-      : systemPrompt.replace(
-          '- 提供された知識ベースの情報のみを使用し、それ以外の一般知識での回答は禁止',
-          '- 提供された知識ベースの情報を優先して使用し、必要に応じて一般知識も使用可能'
-        );
-
-    console.log("OpenAI APIに送信するシステムプロンプト:", finalSystemPrompt.substring(0, 200) + "...");
-    console.log("ユーザープロンプト:", prompt);
-    console.log("ナレッジベースのみを使用:", useOnlyKnowledgeBase);
-    
     const response = await openai.chat.completions.create({
       model: "gpt-4o",
       messages: [
         {
           role: "system",
-          content: finalSystemPrompt,
+          content:
+            "保守用車の応急復旧対話の記録を要約してください。\n- 最初に報告された症状・車種\n- アシスタントが示した手順（番号付きのまま）\n- 各手順に対するユーザーの確認結果\nを箇条書きで簡潔に残してください。",
         },
         {
           role: "user",
-          content: prompt,
+          content: transcript,
         },
       ],
+      temperature: 0,
+      max_tokens: 400,
+    });
+
+    return response.choices[0].message.content || summarizeTurnsExtractively(turns);
+  } catch (error) {
+    console.error("OpenAI API error in conversation summary:", error);
+    return summarizeTurnsExtractively(turns);
+  }
+}
+
+// Build the chat completion messages (system prompt with knowledge, summarized history, recent turns)
+async function buildChatMessages(
+  prompt: string,
+  useOnlyKnowledgeBase: boolean,
+  history: ConversationTurn[],
+  scope: KnowledgeScope,
+): Promise<{ messages: OpenAI.Chat.ChatCompletionMessageParam[]; sources: DocumentChunk[] }> {
+  // 会話履歴をトークン予算に収め、あふれた古いターンは要約する
+  const { recent, overflow } = fitHistoryToBudget(history);
+  const summary = overflow.length > 0 ? await summarizeConversation(overflow) : null;
+
+  // 「下がらない」のような短い返答でも検索できるよう、会話全体から検索クエリを組み立てる
+  const retrievalQuery = buildThreadRetrievalQuery(history, prompt);
+
+  // 質問の意図と車種・症状を解析し、意図に応じた検索とプロンプトを使う
+  const understanding = await understandQuery(retrievalQuery);
+  console.log(`クエリ理解: intent=${understanding.intent} (${understanding.confidence.toFixed(2)}), 検索クエリ=${understanding.searchQuery}`);
+
+  // ナレッジベースから関連情報を取得してシステムプロンプトを生成
+  const { prompt: systemPrompt, sources } = await generateSystemPromptWithSources(retrievalQuery, understanding, scope);
+
+  // ユーザー設定に応じて制約を追加
+  const finalSystemPrompt = useOnlyKnowledgeBase 
+    ? systemPrompt 
+    : systemPrompt.replace(
+        '- 提供された知識ベースの情報のみを使用し、それ以外の一般知識での回答は禁止',
+        '- 提供された知識ベースの情報を優先して使用し、必要に応じて一般知識も使用可能'
+      );
+
+  console.log("OpenAI APIに送信するシステムプロンプト:", finalSystemPrompt.substring(0, 200) + "...");
+  console.log("ユーザープロンプト:", prompt);
+  console.log("ナレッジベースのみを使用:", useOnlyKnowledgeBase);
+  console.log(`会話履歴: ${recent.length}件を送信, ${overflow.length}件を要約`);
+
+  const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+    {
+      role: "system",
+      content: finalSystemPrompt,
+    },
+  ];
+  if (summary) {
+    messages.push({
+      role: "system",
+      content: `## これまでの会話の要約\n${summary}\n\n手順番号はこの続きから案内してください。`,
+    });
+  }
+  messages.push(...recent, { role: "user", content: prompt });
+
+  return { messages, sources };
+}
+
+// Convert an OpenAI error into the message shown to the user
+function describeOpenAIError(error: any): string {
+  // Check for authentication errors
+  if (error?.status === 401) {
+    return "OpenAI APIキーが無効または設定されていません。システム管理者に連絡してください。";
+  }
+
+  // Check for rate limit errors
+  if (error?.status === 429) {
+    return "OpenAI APIのリクエスト制限に達しました。しばらく待ってからもう一度お試しください。";
+  }
+
+  return "申し訳ありませんが、エラーが発生しました。後でもう一度お試しください。";
+}
+
+// Collect the manual pages the answer was based on (one entry per source and location)
+function collectCitations(sources: Awaited<ReturnType<typeof buildChatMessages>>["sources"]): ChatCitation[] {
+  const citations = new Map<string, ChatCitation>();
+  for (const chunk of sources) {
+    const location = formatChunkLocation(chunk) || undefined;
+    citations.set(`${chunk.metadata.source}|${location || ""}`, { source: chunk.metadata.source, location });
+  }
+  return Array.from(citations.values());
+}
+
+// Process a text request and get an AI response
+// history: earlier turns of the same chat (oldest first, excluding the current prompt)
+// scope: the chat's vehicle model, used to prefer that model's manuals
+// Returns the response text with its citations, or the error message with failed=true
+export async function processOpenAIRequest(
+  prompt: string,
+  useOnlyKnowledgeBase: boolean = true,
+  history: ConversationTurn[] = [],
+  scope: KnowledgeScope = {},
+): Promise<{ content: string; citations: ChatCitation[]; failed: boolean }> {
+  try {
+    // Check if API key is available
+    if (!validateApiKey()) {
+      return { content: "OpenAI APIキーが設定されていません。システム管理者に連絡してください。", citations: [], failed: true };
+    }
+
+    const { messages, sources } = await buildChatMessages(prompt, useOnlyKnowledgeBase, history, scope);
+    
+    const response = await openai.chat.completions.create({
+      model: "gpt-4o",
+      messages,
       temperature: 0.1, // 非常に低い温度設定で確定的な回答を得る（デフォルトよりさらに低く設定）
       max_tokens: 800, // 回答の長さを制限して具体的にする
     });
@@ -72,57 +174,56 @@ export async function processOpenAIRequest(prompt: string, useOnlyKnowledgeBase:
     const content =
       response.choices[0].message.content ||
       "申し訳ありませんが、応答を生成できませんでした。";
-    return content;
+    return { content, citations: collectCitations(sources), failed: false };
   } catch (error: any) {
     console.error("OpenAI API error:", error);
-
-    // Check for authentication errors
-    if (error?.status === 401) {
-      return "OpenAI APIキーが無効または設定されていません。システム管理者に連絡してください。";
-    }
-
-    // Check for rate limit errors
-    if (error?.status === 429) {
-      return "OpenAI APIのリクエスト制限に達しました。しばらく待ってからもう一度お試しください。";
-    }
-
-    return "申し訳ありませんが、エラーが発生しました。後でもう一度お試しください。";
+    return { content: describeOpenAIError(error), citations: [], failed: true };
   }
 }
 
-// Process a selected text to generate a search query
-export async function generateSearchQuery(
-  selectedText: string,
-): Promise<string> {
+// Stream an AI response token by token
+// Returns the full response text, or the error message with failed=true
+export async function streamOpenAIRequest(
+  prompt: string,
+  useOnlyKnowledgeBase: boolean,
+  history: ConversationTurn[],
+  handlers: {
+    onCitations: (citations: ChatCitation[]) => void;
+    onDelta: (content: string) => void;
+  },
+  scope: KnowledgeScope = {},
+): Promise<{ content: string; failed: boolean }> {
   try {
     // Check if API key is available
     if (!validateApiKey()) {
-      return selectedText;
+      return { content: "OpenAI APIキーが設定されていません。システム管理者に連絡してください。", failed: true };
     }
 
-    const response = await openai.chat.completions.create({
+    const { messages, sources } = await buildChatMessages(prompt, useOnlyKnowledgeBase, history, scope);
+    handlers.onCitations(collectCitations(sources));
+
+    const stream = await openai.chat.completions.create({
       model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content:
-            "あなたは鉄道保守用車（軌道モータカーなど）の熟練技術者です。\n以下の方針に従って、ユーザーの質問に簡潔かつ的確に回答してください。\n\n- 参考とする情報は「保守用車ナレッジ.txt」に記載された内容に限る\n- 質問の内容を以下の3つに分類して回答を組み立てること\n  - 【構造説明】：装置や構造の概要や仕組み\n  - 【点検基準】：点検・検査での確認項目、法令等の基準\n  - 【応急処置】：故障時に現地で行う対処。手順を1つずつ簡潔に説明\n- 応急処置は、現場の作業者が理解しやすいように、手順を番号付きで段階的に示す\n- 専門用語は、可能であれば簡単な表現で補足すること\n- 回答は端的・明確にし、長い説明は避ける",
-        },
-        {
-          role: "user",
-          content: `このテキストから最適化された検索クエリを生成してください: "${selectedText}"`,
-        },
-      ],
-      max_tokens: 50,
+      messages,
+      temperature: 0.1,
+      max_tokens: 800,
+      stream: true,
     });
 
-    const content = response.choices[0].message.content || selectedText;
-    return content;
-  } catch (error: any) {
-    console.error("OpenAI API error in search query generation:", error);
+    let content = "";
+    for await (const part of stream) {
+      const delta = part.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        handlers.onDelta(delta);
+      }
+    }
 
-    // Still return the selected text even if there's an error
-    return selectedText;
+    console.log("GPTからのストリーミング応答:", content.substring(0, 100) + "...");
+    return { content: content || "申し訳ありませんが、応答を生成できませんでした。", failed: false };
+  } catch (error: any) {
+    console.error("OpenAI API streaming error:", error);
+    return { content: describeOpenAIError(error), failed: true };
   }
 }
 
@@ -0,0 +1,135 @@
+import crypto from 'crypto';
+import { DEFAULT_PASSWORD_POLICY, setPasswordPolicy, type PasswordPolicy } from '@shared/password-policy';
+
+// scrypt のパラメータ（N=2^15, r=8, p=1 は約32MBのメモリを使う）
+const SCRYPT_N = 32768;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+// 保存形式: scrypt$N$r$p$ソルト(base64)$ハッシュ(base64)
+const HASH_PREFIX = 'scrypt$';
+
+function scrypt(password: string, salt: Buffer, keyLength: number, options: crypto.ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, keyLength, options, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(HASH_PREFIX);
+}
+
+/**
+ * パスワードをソルト付きの scrypt でハッシュ化する
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const hash = await scrypt(password, salt, KEY_LENGTH, { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P, maxmem: SCRYPT_MAXMEM });
+  return `${HASH_PREFIX}${SCRYPT_N}$${SCRYPT_R}$${SCRYPT_P}$${salt.toString('base64')}$${hash.toString('base64')}`;
+}
+
+/**
+ * 保存されているパスワードと照合する
+ * ハッシュ化前の平文の行や、古いパラメータでハッシュ化した行は needsRehash を true にする
+ */
+export async function verifyPassword(stored: string, password: string): Promise<{ valid: boolean; needsRehash: boolean }> {
+  if (!isPasswordHash(stored)) {
+    const a = Buffer.from(stored, 'utf8');
+    const b = Buffer.from(password, 'utf8');
+    const valid = a.length === b.length && crypto.timingSafeEqual(a, b);
+    return { valid, needsRehash: valid };
+  }
+
+  const params = parsePasswordHash(stored);
+  if (!params) {
+    console.warn('保存されているパスワードハッシュの形式が不正です');
+    return { valid: false, needsRehash: false };
+  }
+
+  const { salt, expected, ...options } = params;
+  let actual: Buffer;
+  try {
+    actual = await scrypt(password, salt, expected.length, { ...options, maxmem: SCRYPT_MAXMEM });
+  } catch (error) {
+    console.warn('パスワードハッシュの照合に失敗しました:', error);
+    return { valid: false, needsRehash: false };
+  }
+  const valid = crypto.timingSafeEqual(actual, expected);
+  const outdated = options.N !== SCRYPT_N || options.r !== SCRYPT_R || options.p !== SCRYPT_P;
+  return { valid, needsRehash: valid && outdated };
+}
+
+// 存在しないユーザーの照合用のソルト（応答時間でユーザー名の有無が分からないよう、同じ計算をする）
+const DUMMY_SALT = crypto.randomBytes(SALT_LENGTH);
+
+/**
+ * 存在しないユーザーへのログインで、実在するユーザーと同じだけ時間をかけて失敗する
+ */
+export async function verifyPasswordForUnknownUser(password: string): Promise<{ valid: false; needsRehash: false }> {
+  await scrypt(password, DUMMY_SALT, KEY_LENGTH, { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P, maxmem: SCRYPT_MAXMEM });
+  return { valid: false, needsRehash: false };
+}
+
+const isPowerOfTwo = (value: number) => value > 1 && (value & (value - 1)) === 0;
+const parseCount = (value: string | undefined) => (value && /^\d{1,7}$/.test(value) ? parseInt(value) : NaN);
+
+// 保存されたハッシュのパラメータを取り出す（壊れた値・極端なパラメータは null）
+function parsePasswordHash(stored: string): { N: number; r: number; p: number; salt: Buffer; expected: Buffer } | null {
+  const parts = stored.split('$');
+  if (parts.length !== 6) return null;
+  const [, n, r, p, salt, hash] = parts;
+  const params = { N: parseCount(n), r: parseCount(r), p: parseCount(p) };
+  if (!isPowerOfTwo(params.N) || params.N > 2 ** 20) return null;
+  if (!(params.r >= 1 && params.r <= 32) || !(params.p >= 1 && params.p <= 16)) return null;
+  const saltBuffer = Buffer.from(salt, 'base64');
+  const expected = Buffer.from(hash, 'base64');
+  if (saltBuffer.length === 0 || expected.length < 16) return null;
+  return { ...params, salt: saltBuffer, expected };
+}
+
+/**
+ * 一時パスワードを生成する（管理者によるリセット用、ポリシーの文字種を満たす）
+ */
+export function generateTemporaryPassword(policy: PasswordPolicy): string {
+  const length = Math.max(policy.minLength, 12);
+  const sets = ['ABCDEFGHJKLMNPQRSTUVWXYZ', 'abcdefghijkmnpqrstuvwxyz', '23456789', '!@#$%&*?'];
+  const all = sets.slice(0, policy.requireSymbol ? 4 : 3).join('');
+  const chars = sets.slice(0, policy.requireSymbol ? 4 : 3).map(set => set[crypto.randomInt(set.length)]);
+  while (chars.length < length) {
+    chars.push(all[crypto.randomInt(all.length)]);
+  }
+  // 文字種ごとの先頭の文字が固定位置にならないよう並べ替える
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+  return chars.join('');
+}
+
+const envFlag = (value: string | undefined, fallback: boolean) =>
+  value === undefined ? fallback : value === 'true';
+
+/**
+ * 環境変数からパスワードポリシーを設定する
+ *   PASSWORD_MIN_LENGTH, PASSWORD_REQUIRE_LETTER, PASSWORD_REQUIRE_DIGIT,
+ *   PASSWORD_REQUIRE_MIXED_CASE, PASSWORD_REQUIRE_SYMBOL
+ */
+export function configurePasswordPolicyFromEnv(): PasswordPolicy {
+  const env = process.env;
+  const minLength = parseInt(env.PASSWORD_MIN_LENGTH || '');
+  const policy: PasswordPolicy = {
+    minLength: Number.isNaN(minLength) ? DEFAULT_PASSWORD_POLICY.minLength : Math.max(minLength, 1),
+    requireLetter: envFlag(env.PASSWORD_REQUIRE_LETTER, DEFAULT_PASSWORD_POLICY.requireLetter),
+    requireDigit: envFlag(env.PASSWORD_REQUIRE_DIGIT, DEFAULT_PASSWORD_POLICY.requireDigit),
+    requireMixedCase: envFlag(env.PASSWORD_REQUIRE_MIXED_CASE, DEFAULT_PASSWORD_POLICY.requireMixedCase),
+    requireSymbol: envFlag(env.PASSWORD_REQUIRE_SYMBOL, DEFAULT_PASSWORD_POLICY.requireSymbol)
+  };
+  setPasswordPolicy(policy);
+  return policy;
+}
@@ -0,0 +1,235 @@
+import OpenAI from 'openai';
+import { DEFAULT_CONCEPT_GROUPS } from './embeddings';
+import { getGlossary, expandQueryWithGlossary, QueryExpansion } from './glossary';
+import type { RetrievalMode } from './knowledge-base';
+
+// 質問の意図
+export type QueryIntent = 'troubleshooting' | 'specification' | 'procedure' | 'parts';
+
+// 意図ごとの検索方法
+export interface RetrievalStrategy {
+  mode: RetrievalMode;
+  limit: number;
+}
+
+// 質問から抽出した固有の情報
+export interface QueryEntities {
+  // 車種・型式（例: 軌道モータカー, MC-300）
+  vehicleModel: string | null;
+  // 症状（例: 止まらない, エアー漏れ）
+  symptoms: string[];
+}
+
+// クエリ理解の結果
+export interface QueryUnderstanding {
+  originalQuery: string;
+  // 全角/半角・空白などを統一したクエリ
+  normalizedQuery: string;
+  // 検索に使うクエリ（LLMで書き換えた場合はその結果）
+  searchQuery: string;
+  intent: QueryIntent;
+  // ルールで判定した場合の確信度（0〜1）
+  confidence: number;
+  entities: QueryEntities;
+  expansion: QueryExpansion;
+  strategy: RetrievalStrategy;
+  rewrittenByLLM: boolean;
+}
+
+// LLMでの書き換えを使うかどうか（auto: ルールで意図を判定できなかった場合のみ）
+export type LLMRewriteMode = 'never' | 'auto' | 'always';
+
+// 意図ごとの検索方法
+// 仕様・部品は型番や数値の完全一致が重要なのでキーワード検索を使う
+const INTENT_STRATEGIES: Record<QueryIntent, RetrievalStrategy> = {
+  troubleshooting: { mode: 'hybrid', limit: 7 },
+  procedure: { mode: 'hybrid', limit: 7 },
+  specification: { mode: 'keyword', limit: 5 },
+  parts: { mode: 'keyword', limit: 5 }
+};
+
+// 意図判定の手がかりになる語句（カタカナに統一して照合する）
+const INTENT_KEYWORDS: Record<QueryIntent, string[]> = {
+  troubleshooting: ['故障', '異常', '異音', '不良', 'しない', 'できない', 'かからな', '止まらな', 'きかな', '利かな', '効かな', '漏れ', '警告', 'トラブル', '応急', '復旧', 'おかしい'],
+  specification: ['仕様', '寸法', '幅', '長さ', '高さ', '重量', '重さ', '容量', '規定値', '基準値', '何mm', '何kg', '何l', 'いくつ', 'どのくらい', '最大', '最小', '定格'],
+  procedure: ['手順', '方法', 'やり方', 'どうやって', 'どうすれば', '仕方', '操作', '点検', '交換する', '取り付け', '取り外し', '調整'],
+  parts: ['部品', '品番', '型番', '部品番号', 'パーツ', '交換部品', '発注', '純正', '消耗品']
+};
+
+// 症状として扱う概念グループ（embeddings.ts の DEFAULT_CONCEPT_GROUPS のID）
+const SYMPTOM_GROUP_IDS = ['brake_failure', 'engine_stall', 'overheat', 'air_leak'];
+
+// 概念グループに含まれない症状表現（「〜ない」「〜なくなった」の両方に一致させる）
+const SYMPTOM_PATTERN = /[一-龯ァ-ヶー]+(?:が|は)?(?:(?:しな|できな|かからな|動かな|上がらな|下がらな|出な|入らな|利かな|効かな|止まらな)[いく]|漏れ)|異音|異臭|振動|警告灯/g;
+
+// 車種名（長いものから照合する）
+const VEHICLE_TYPES = [
+  '軌道モータカー', 'モータカー', 'マルチプルタイタンパー', 'マルタイ', 'バラストレギュレータ',
+  '軌道検測車', 'レール削正車', '散水車', '鉄トロ', 'トロリー'
+];
+
+// 型式（例: MC-300, TMC200A）
+const MODEL_CODE_PATTERN = /\b[A-Z]{1,4}-?\d{2,4}[A-Z]?\b/;
+
+/**
+ * 全角/半角（英数字・半角カナ）、波ダッシュ、空白を統一する
+ * 大文字小文字は型式の判定に使うため保持する
+ */
+export function normalizeQuery(text: string): string {
+  return text
+    .normalize('NFKC')
+    .replace(/[〜~]/g, '～')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * ひらがなをカタカナに変換する（かな表記ゆれの照合用）
+ */
+export function foldKana(text: string): string {
+  return text.replace(/[ぁ-ゖ]/g, ch => String.fromCharCode(ch.charCodeAt(0) + 0x60));
+}
+
+// 照合用の形（正規化 + カタカナ統一 + 小文字化）
+export function matchForm(text: string): string {
+  return foldKana(normalizeQuery(text)).toLowerCase();
+}
+
+/**
+ * 車種・型式と症状を抽出する
+ */
+export function extractEntities(normalizedQuery: string): QueryEntities {
+  const folded = matchForm(normalizedQuery);
+
+  const modelCode = normalizedQuery.match(MODEL_CODE_PATTERN);
+  const vehicleType = VEHICLE_TYPES.find(type => folded.includes(matchForm(type)));
+  const vehicleModel = modelCode ? modelCode[0] : vehicleType || null;
+
+  const symptoms = new Set<string>();
+  for (const group of DEFAULT_CONCEPT_GROUPS) {
+    if (!SYMPTOM_GROUP_IDS.includes(group.id)) continue;
+    const term = group.terms.find(t => folded.includes(matchForm(t)));
+    if (term) symptoms.add(term);
+  }
+  for (const match of normalizedQuery.match(SYMPTOM_PATTERN) || []) {
+    symptoms.add(match);
+  }
+
+  return { vehicleModel, symptoms: Array.from(symptoms) };
+}
+
+/**
+ * 語句と抽出結果から質問の意図を判定する
+ * いずれの語句にも一致しない場合は確信度0でトラブルシューティングとみなす
+ */
+export function classifyIntent(normalizedQuery: string, entities: QueryEntities): { intent: QueryIntent, confidence: number } {
+  const folded = matchForm(normalizedQuery);
+  const scores: Record<QueryIntent, number> = { troubleshooting: 0, specification: 0, procedure: 0, parts: 0 };
+
+  (Object.keys(INTENT_KEYWORDS) as QueryIntent[]).forEach(intent => {
+    for (const keyword of INTENT_KEYWORDS[intent]) {
+      if (folded.includes(matchForm(keyword))) scores[intent] += 1;
+    }
+  });
+  // 症状があれば故障対応の可能性が高い
+  scores.troubleshooting += entities.symptoms.length * 2;
+
+  const total = Object.values(scores).reduce((sum, score) => sum + score, 0);
+  if (total === 0) {
+    return { intent: 'troubleshooting', confidence: 0 };
+  }
+
+  const [intent, best] = (Object.entries(scores) as [QueryIntent, number][])
+    .sort((a, b) => b[1] - a[1])[0];
+  return { intent, confidence: best / total };
+}
+
+let openaiClient: OpenAI | null = null;
+
+/**
+ * LLMで検索クエリを書き換え、意図も判定する
+ * APIキーがない場合やエラー時は null を返す
+ */
+async function rewriteWithLLM(text: string): Promise<{ searchQuery: string, intent?: QueryIntent } | null> {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) return null;
+  if (!openaiClient) openaiClient = new OpenAI({ apiKey });
+
+  try {
+    const response = await openaiClient.chat.completions.create({
+      model: "gpt-4o",
+      messages: [
+        {
+          role: "system",
+          content: `あなたは鉄道保守用車（軌道モータカーなど）の熟練技術者です。
+ユーザーの質問を、保守用車の技術資料を検索するための簡潔な検索クエリに書き換えてください。
+あわせて質問の意図を次のいずれかに分類してください。
+- troubleshooting: 故障・異常時の対処
+- specification: 寸法・容量・基準値などの仕様
+- procedure: 点検・操作・交換などの作業手順
+- parts: 部品名・品番・交換部品
+JSON形式で {"searchQuery": "...", "intent": "..."} を返してください。`,
+        },
+        {
+          role: "user",
+          content: text,
+        },
+      ],
+      response_format: { type: "json_object" },
+      max_tokens: 100,
+    });
+
+    const result = JSON.parse(response.choices[0].message.content || "{}");
+    const searchQuery = typeof result.searchQuery === 'string' && result.searchQuery.trim()
+      ? result.searchQuery.trim()
+      : text;
+    const intent = typeof result.intent === 'string' && Object.hasOwn(INTENT_STRATEGIES, result.intent) ? result.intent as QueryIntent : undefined;
+    return { searchQuery, intent };
+  } catch (error) {
+    console.error("OpenAI API error in search query generation:", error);
+    return null;
+  }
+}
+
+/**
+ * 知識ベース検索の前段として質問を解析する
+ * 正規化 → 車種・症状の抽出 → 意図判定 →（必要なら）LLMでの書き換え → 用語辞書での展開
+ * @param query ユーザーの質問
+ * @param options llm: LLMでの書き換えを使うかどうか
+ */
+export async function understandQuery(
+  query: string,
+  options: { llm?: LLMRewriteMode } = {}
+): Promise<QueryUnderstanding> {
+  const llm = options.llm || 'auto';
+  const normalizedQuery = normalizeQuery(query);
+  const entities = extractEntities(normalizedQuery);
+  let { intent, confidence } = classifyIntent(normalizedQuery, entities);
+
+  let searchQuery = normalizedQuery;
+  let rewrittenByLLM = false;
+  if (llm === 'always' || (llm === 'auto' && confidence === 0)) {
+    const rewrite = await rewriteWithLLM(normalizedQuery);
+    if (rewrite) {
+      searchQuery = normalizeQuery(rewrite.searchQuery);
+      rewrittenByLLM = true;
+      if (rewrite.intent && confidence < 0.5) {
+        intent = rewrite.intent;
+      }
+    }
+  }
+
+  const expansion = expandQueryWithGlossary(searchQuery, await getGlossary());
+
+  return {
+    originalQuery: query,
+    normalizedQuery,
+    searchQuery,
+    intent,
+    confidence,
+    entities,
+    expansion,
+    strategy: INTENT_STRATEGIES[intent],
+    rewrittenByLLM
+  };
+}
@@ -0,0 +1,108 @@
+import AdmZip from 'adm-zip';
+import type { ChatReport, ReportBlock } from './chat-report';
+
+// 画像の最大幅（EMU、約16cm）と 96dpi でのピクセルあたりの EMU
+const MAX_IMAGE_WIDTH_EMU = 5760000;
+const EMU_PER_PIXEL = 9525;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// 段落内の改行は <w:br/> にする
+const textRuns = (text: string, muted?: boolean) => {
+  const props = muted ? '<w:rPr><w:color w:val="737373"/></w:rPr>' : '';
+  return text.split(/\r?\n/)
+    .map(line => `<w:r>${props}<w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>`)
+    .join('<w:r><w:br/></w:r>');
+};
+
+const imageXml = (index: number, width: number, height: number) => {
+  const scale = Math.min(MAX_IMAGE_WIDTH_EMU / (width * EMU_PER_PIXEL), 1);
+  const cx = Math.round(width * EMU_PER_PIXEL * scale);
+  const cy = Math.round(height * EMU_PER_PIXEL * scale);
+  return `<w:p><w:r><w:drawing><wp:inline><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${index}" name="写真${index}"/>` +
+    '<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">' +
+    '<a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+    '<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">' +
+    `<pic:nvPicPr><pic:cNvPr id="${index}" name="image${index}.jpeg"/><pic:cNvPicPr/></pic:nvPicPr>` +
+    `<pic:blipFill><a:blip r:embed="rIdImage${index}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+    `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr>` +
+    '</pic:pic></a:graphicData></a:graphic></wp:inline></w:drawing></w:r></w:p>';
+};
+
+const CONTENT_TYPES = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Default Extension="jpeg" ContentType="image/jpeg"/>' +
+  '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+  '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+  '</Relationships>';
+
+// 本文は游ゴシック（なければ Word の既定の日本語フォント）、見出しは太字
+const STYLES = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">' +
+  '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Yu Gothic" w:eastAsia="Yu Gothic" w:hAnsi="Yu Gothic"/>' +
+  '<w:sz w:val="21"/><w:lang w:eastAsia="ja-JP"/></w:rPr></w:rPrDefault>' +
+  '<w:pPrDefault><w:pPr><w:spacing w:after="60"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+  '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>' +
+  '<w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/></w:rPr></w:style>' +
+  '<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/>' +
+  '<w:pPr><w:keepNext/><w:pBdr><w:bottom w:val="single" w:sz="4" w:space="1" w:color="999999"/></w:pBdr>' +
+  '<w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="26"/></w:rPr></w:style>' +
+  '</w:styles>';
+
+/**
+ * 報告書を DOCX にする
+ * 写真は word/media に格納し、本文の幅に収まるように縮小して配置する
+ */
+export function renderReportDocx(report: ChatReport): Buffer {
+  const zip = new AdmZip();
+  const relationships: string[] = [
+    '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+  ];
+  let imageCount = 0;
+
+  const blockXml = (block: ReportBlock) => {
+    switch (block.type) {
+      case 'heading':
+        return `<w:p><w:pPr><w:pStyle w:val="Heading${block.level}"/></w:pPr>${textRuns(block.text)}</w:p>`;
+      case 'paragraph':
+        return `<w:p>${textRuns(block.text, block.muted)}</w:p>`;
+      case 'image': {
+        imageCount++;
+        zip.addFile(`word/media/image${imageCount}.jpeg`, block.image.data);
+        relationships.push(
+          `<Relationship Id="rIdImage${imageCount}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/image${imageCount}.jpeg"/>`
+        );
+        return imageXml(imageCount, block.image.width, block.image.height);
+      }
+    }
+  };
+
+  const body = report.blocks.map(blockXml).join('');
+  const document = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" ' +
+    'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing">' +
+    `<w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/>` +
+    '<w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="709" w:footer="709" w:gutter="0"/></w:sectPr>' +
+    '</w:body></w:document>';
+
+  zip.addFile('[Content_Types].xml', Buffer.from(CONTENT_TYPES, 'utf8'));
+  zip.addFile('_rels/.rels', Buffer.from(ROOT_RELS, 'utf8'));
+  zip.addFile('word/styles.xml', Buffer.from(STYLES, 'utf8'));
+  zip.addFile('word/document.xml', Buffer.from(document, 'utf8'));
+  zip.addFile('word/_rels/document.xml.rels', Buffer.from(
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${relationships.join('')}</Relationships>`,
+    'utf8'
+  ));
+  return zip.toBuffer();
+}
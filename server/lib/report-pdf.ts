@@ -0,0 +1,170 @@
+import zlib from 'zlib';
+import type { ChatReport, ReportBlock, ReportImage } from './chat-report';
+
+// A4 縦（ポイント）
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// 見出し・本文の文字サイズと行送り
+const FONT_SIZES = { 1: 18, 2: 13, body: 10.5 } as const;
+const LINE_HEIGHT = 1.6;
+const MAX_IMAGE_HEIGHT = 300;
+
+/**
+ * 文字の幅（em）
+ * 日本語フォントは全角 1em、半角英数・半角カナは 0.5em の等幅として扱う
+ */
+function charWidth(code: number): number {
+  return code < 0x7f || (code >= 0xff61 && code <= 0xff9f) ? 0.5 : 1;
+}
+
+// 指定幅に収まるように折り返す（改行はそのまま段落内の改行にする）
+function wrapText(text: string, fontSize: number, width: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    let lineWidth = 0;
+    for (const char of Array.from(paragraph)) {
+      const w = charWidth(char.codePointAt(0)!) * fontSize;
+      if (lineWidth + w > width && line) {
+        lines.push(line);
+        line = '';
+        lineWidth = 0;
+      }
+      line += char;
+      lineWidth += w;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+// UniJIS-UCS2 で描画する16進文字列（BMP外の文字は〓に置き換える）
+function encodeText(text: string): string {
+  let hex = '';
+  for (const char of Array.from(text)) {
+    const code = char.codePointAt(0)!;
+    hex += (code > 0xffff ? 0x3013 : code).toString(16).padStart(4, '0');
+  }
+  return `<${hex}>`;
+}
+
+/**
+ * 報告書を PDF にする
+ * フォントは埋め込まず、PDFビューアが備える日本語フォント（HeiseiKakuGo-W5）を参照する
+ * このため日本語が表示されるのは、Adobe Acrobat など Adobe-Japan1 の代替フォントを持つビューアに限られる
+ * （代替フォントを持たないビューアや印刷環境では文字化け・空白になるため、報告書の既定の形式は DOCX とする）
+ */
+export function renderReportPdf(report: ChatReport): Buffer {
+  const pages: string[][] = [[]];
+  const images: ReportImage[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+  const page = () => pages[pages.length - 1];
+
+  const drawLines = (text: string, fontSize: number, gray: number) => {
+    for (const line of wrapText(text, fontSize, CONTENT_WIDTH)) {
+      ensureSpace(fontSize * LINE_HEIGHT);
+      y -= fontSize * LINE_HEIGHT;
+      if (line) {
+        page().push(`BT ${gray} g /F1 ${fontSize} Tf ${MARGIN} ${y.toFixed(2)} Td ${encodeText(line)} Tj ET`);
+      }
+    }
+  };
+
+  const drawBlock = (block: ReportBlock) => {
+    switch (block.type) {
+      case 'heading': {
+        const fontSize = FONT_SIZES[block.level];
+        y -= fontSize * 0.6;
+        drawLines(block.text, fontSize, 0);
+        // 見出しの下線
+        page().push(`0.6 G 0.5 w ${MARGIN} ${(y - 4).toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${(y - 4).toFixed(2)} l S`);
+        y -= 8;
+        break;
+      }
+      case 'paragraph':
+        drawLines(block.text, FONT_SIZES.body, block.muted ? 0.45 : 0);
+        break;
+      case 'image': {
+        const scale = Math.min(CONTENT_WIDTH / block.image.width, MAX_IMAGE_HEIGHT / block.image.height, 1);
+        const width = block.image.width * scale;
+        const height = block.image.height * scale;
+        ensureSpace(height + 8);
+        y -= height + 4;
+        images.push(block.image);
+        page().push(`q ${width.toFixed(2)} 0 0 ${height.toFixed(2)} ${MARGIN} ${y.toFixed(2)} cm /Im${images.length} Do Q`);
+        y -= 4;
+        break;
+      }
+    }
+  };
+  report.blocks.forEach(drawBlock);
+
+  // オブジェクト番号: 1 カタログ, 2 ページツリー, 3-5 フォント, 6 以降に画像, ページ・内容
+  const objects: Buffer[] = [];
+  const addObject = (body: string | Buffer) => {
+    objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+    return objects.length;
+  };
+  const streamObject = (dict: string, data: Buffer) =>
+    Buffer.concat([Buffer.from(`<< ${dict} /Length ${data.length} >>\nstream\n`, 'latin1'), data, Buffer.from('\nendstream', 'latin1')]);
+
+  addObject('<< /Type /Catalog /Pages 2 0 R >>');
+  addObject(''); // ページツリーは最後に埋める
+  addObject('<< /Type /Font /Subtype /Type0 /BaseFont /HeiseiKakuGo-W5 /Encoding /UniJIS-UCS2-HW-H /DescendantFonts [4 0 R] >>');
+  addObject('<< /Type /Font /Subtype /CIDFontType0 /BaseFont /HeiseiKakuGo-W5 ' +
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (Japan1) /Supplement 2 >> /FontDescriptor 5 0 R /DW 1000 /W [231 632 500] >>');
+  addObject('<< /Type /FontDescriptor /FontName /HeiseiKakuGo-W5 /Flags 4 /FontBBox [-92 -250 1010 922] ' +
+    '/ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 737 /StemV 114 >>');
+
+  const imageRefs = images.map((image, index) => {
+    const id = addObject(streamObject(
+      `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+      image.data
+    ));
+    return `/Im${index + 1} ${id} 0 R`;
+  });
+  const resources = `<< /Font << /F1 3 0 R >> /XObject << ${imageRefs.join(' ')} >> >>`;
+
+  const pageIds = pages.map(commands => {
+    const contentId = addObject(streamObject('/Filter /FlateDecode', zlib.deflateSync(Buffer.from(commands.join('\n'), 'latin1'))));
+    return addObject(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources ${resources} /Contents ${contentId} 0 R >>`);
+  });
+  objects[1] = Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`, 'latin1');
+
+  const infoId = addObject(`<< /Title ${encodeText(report.title).replace('<', '<feff')} >>`);
+
+  // 本体とクロスリファレンス表
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(offset);
+    const chunk = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+    chunks.push(chunk);
+    offset += chunk.length;
+  });
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF'
+  ].join('\n');
+  chunks.push(Buffer.from(xref + '\n', 'latin1'));
+
+  return Buffer.concat(chunks);
+}
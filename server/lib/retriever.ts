@@ -0,0 +1,195 @@
+import { DocumentChunk } from './document-processor';
+
+// BM25のパラメータ
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// 検索結果1件分
+export interface RetrievalResult {
+  docId: string;
+  chunk: DocumentChunk;
+  score: number;
+}
+
+// 検索時に特定の語句へかける重み（用語辞書のブースト等）
+export interface QueryWeight {
+  text: string;
+  weight: number;
+}
+
+/**
+ * 知識ベース検索エンジンの共通インターフェース
+ * searchKnowledgeBase はこのインターフェースだけを通して検索を行う
+ */
+export interface KnowledgeRetriever {
+  readonly name: string;
+  addDocument(docId: string, chunks: DocumentChunk[]): void;
+  removeDocument(docId: string): void;
+  hasDocument(docId: string): boolean;
+  // isAllowed: 検索対象にするドキュメント（件数を絞る前に適用する）
+  search(query: string, limit: number, weights?: QueryWeight[], isAllowed?: (docId: string) => boolean): RetrievalResult[];
+}
+
+/**
+ * テキストを検索用に正規化する（全角/半角の統一と小文字化）
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFKC').toLowerCase();
+}
+
+// 日本語（ひらがな・カタカナ・漢字）の連続部分
+const CJK_RUN = /[぀-ヿ㐀-鿿豈-﫿々〆ー]+/g;
+// 英数字の単語
+const WORD_RUN = /[a-z0-9]+(?:[.\-][a-z0-9]+)*/g;
+
+/**
+ * 日本語は文字bigram、英数字は単語単位でトークン化する
+ * 分かち書きをしない日本語でも部分一致で検索できるようにするため
+ * @param text 対象テキスト
+ * @returns トークン配列（重複あり）
+ */
+export function tokenize(text: string): string[] {
+  const normalized = normalizeText(text);
+  const tokens: string[] = [];
+
+  for (const run of normalized.match(CJK_RUN) || []) {
+    const chars = Array.from(run);
+    if (chars.length === 1) {
+      tokens.push(chars[0]);
+      continue;
+    }
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.push(chars[i] + chars[i + 1]);
+    }
+  }
+
+  for (const word of normalized.match(WORD_RUN) || []) {
+    tokens.push(word);
+  }
+
+  return tokens;
+}
+
+interface IndexedChunk {
+  docId: string;
+  chunk: DocumentChunk;
+  length: number;
+}
+
+/**
+ * 転置インデックスを用いたBM25検索エンジン
+ */
+export class BM25Retriever implements KnowledgeRetriever {
+  readonly name = 'bm25';
+
+  // チャンクキー → チャンク情報
+  private chunks = new Map<string, IndexedChunk>();
+  // トークン → (チャンクキー → 出現回数)
+  private postings = new Map<string, Map<string, number>>();
+  // ドキュメントID → チャンクキー一覧
+  private documentKeys = new Map<string, string[]>();
+  private totalLength = 0;
+
+  addDocument(docId: string, chunks: DocumentChunk[]): void {
+    // 再登録時は古いエントリを先に削除
+    this.removeDocument(docId);
+
+    const keys: string[] = [];
+    chunks.forEach((chunk, idx) => {
+      const key = `${docId}#${idx}`;
+      const tokens = tokenize(chunk.text);
+      const termFrequencies = new Map<string, number>();
+      for (const token of tokens) {
+        termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+      }
+
+      termFrequencies.forEach((tf, token) => {
+        let posting = this.postings.get(token);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(token, posting);
+        }
+        posting.set(key, tf);
+      });
+
+      this.chunks.set(key, { docId, chunk, length: tokens.length });
+      this.totalLength += tokens.length;
+      keys.push(key);
+    });
+
+    this.documentKeys.set(docId, keys);
+  }
+
+  removeDocument(docId: string): void {
+    const keys = this.documentKeys.get(docId);
+    if (!keys) return;
+
+    const keySet = new Set(keys);
+    for (const key of keys) {
+      const entry = this.chunks.get(key);
+      if (entry) {
+        this.totalLength -= entry.length;
+        this.chunks.delete(key);
+      }
+    }
+
+    this.postings.forEach((posting, token) => {
+      posting.forEach((_, key) => {
+        if (keySet.has(key)) posting.delete(key);
+      });
+      if (posting.size === 0) this.postings.delete(token);
+    });
+
+    this.documentKeys.delete(docId);
+  }
+
+  hasDocument(docId: string): boolean {
+    return this.documentKeys.has(docId);
+  }
+
+  search(query: string, limit: number, weights: QueryWeight[] = [], isAllowed?: (docId: string) => boolean): RetrievalResult[] {
+    const chunkCount = this.chunks.size;
+    if (chunkCount === 0) return [];
+
+    // トークンごとの重み（同じトークンが複数の語句に含まれる場合は最大値）
+    const tokenWeights = new Map<string, number>();
+    for (const token of tokenize(query)) {
+      tokenWeights.set(token, 1);
+    }
+    for (const { text, weight } of weights) {
+      for (const token of tokenize(text)) {
+        tokenWeights.set(token, Math.max(tokenWeights.get(token) || 0, weight));
+      }
+    }
+    if (tokenWeights.size === 0) return [];
+
+    const avgLength = this.totalLength / chunkCount || 1;
+    const scores = new Map<string, number>();
+
+    tokenWeights.forEach((weight, token) => {
+      const posting = this.postings.get(token);
+      if (!posting) return;
+
+      const df = posting.size;
+      const idf = Math.log(1 + (chunkCount - df + 0.5) / (df + 0.5));
+
+      posting.forEach((tf, key) => {
+        const entry = this.chunks.get(key)!;
+        // 対象外のドキュメントは上位件数に含めないよう、スコアを付ける前に除く
+        if (isAllowed && !isAllowed(entry.docId)) return;
+        const length = entry.length;
+        const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * (length / avgLength));
+        const score = weight * idf * (tf * (BM25_K1 + 1)) / norm;
+        scores.set(key, (scores.get(key) || 0) + score);
+      });
+    });
+
+    return Array.from(scores.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([key, score]) => {
+        const entry = this.chunks.get(key)!;
+        return { docId: entry.docId, chunk: entry.chunk, score };
+      });
+  }
+}
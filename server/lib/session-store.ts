@@ -0,0 +1,49 @@
+import session from 'express-session';
+import connectPgSimple from 'connect-pg-simple';
+import memorystore from 'memorystore';
+
+// 期限切れセッションを削除する間隔（秒）
+const PRUNE_INTERVAL_SECONDS = 60 * 60;
+
+// セッションストアの種類（postgres: 再起動してもログインが維持される, memory: 開発・検証用）
+export type SessionStoreType = 'postgres' | 'memory';
+
+/**
+ * express-session のセッションストアを作る
+ * SESSION_STORE=memory でメモリ上のストアを使う（既定は PostgreSQL の session テーブル）
+ */
+export function createSessionStore(type: SessionStoreType = process.env.SESSION_STORE === 'memory' ? 'memory' : 'postgres'): session.Store {
+  if (type === 'memory') {
+    const MemoryStore = memorystore(session);
+    return new MemoryStore({
+      checkPeriod: PRUNE_INTERVAL_SECONDS * 1000,
+    });
+  }
+
+  const PgStore = connectPgSimple(session);
+  return new PgStore({
+    conString: process.env.DATABASE_URL,
+    tableName: 'session',
+    createTableIfMissing: true,
+    pruneSessionInterval: PRUNE_INTERVAL_SECONDS,
+    errorLog: (...args) => console.error('セッションストアのエラー:', ...args),
+  });
+}
+
+/**
+ * セッションがストアに残っているか（期限切れ・ログアウト済みなら false）
+ */
+export function sessionExists(store: session.Store, sid: string): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    store.get(sid, (error, data) => (error ? reject(error) : resolve(!!data)));
+  });
+}
+
+/**
+ * ストアからセッションを削除する（そのセッションの次のリクエストから未ログインになる）
+ */
+export function destroySession(store: session.Store, sid: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    store.destroy(sid, (error) => (error ? reject(error) : resolve()));
+  });
+}
@@ -0,0 +1,235 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import crypto from 'crypto';
+
+// 応答待ちの上限（ミリ秒）
+const SMTP_TIMEOUT = 30000;
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // true: 接続時から TLS, false: サーバーが対応していれば STARTTLS で暗号化する
+  secure: boolean;
+  username?: string;
+  password?: string;
+  // true: 暗号化されていない接続でも認証する（STARTTLS のない社内サーバー向け。パスワードが平文で流れる）
+  allowInsecureAuth?: boolean;
+}
+
+export interface MailAttachment {
+  fileName: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+  attachments?: MailAttachment[];
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+// 非ASCIIを含むヘッダーは MIME encoded-word にする
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+// base64 を 76 文字ごとに折り返す
+const base64Lines = (data: Buffer) => data.toString('base64').replace(/.{1,76}/g, '$&\r\n');
+
+/**
+ * 添付ファイル付きのメール本文（MIME multipart/mixed）を組み立てる
+ */
+function buildMimeMessage(mail: MailMessage): string {
+  const boundary = `----=_Part_${crypto.randomBytes(12).toString('hex')}`;
+  const domain = mail.from.split('@')[1] || 'localhost';
+  const parts = [
+    `From: ${mail.from}`,
+    `To: ${mail.to.join(', ')}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(Buffer.from(mail.text, 'utf8'))
+  ];
+  for (const attachment of mail.attachments || []) {
+    const fileName = encodeHeader(attachment.fileName);
+    parts.push(
+      `--${boundary}`,
+      `Content-Type: ${attachment.contentType}; name="${fileName}"`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: attachment; filename="${fileName}"`,
+      '',
+      base64Lines(attachment.data)
+    );
+  }
+  parts.push(`--${boundary}--`, '');
+  return parts.join('\r\n');
+}
+
+/**
+ * SMTP の1接続分のやり取り
+ * 複数行の応答（250-... 250 ...）をまとめて1つの応答として返す
+ */
+class SmtpConnection {
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private replies: SmtpReply[] = [];
+  private error: Error | null = null;
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(SMTP_TIMEOUT);
+    socket.on('data', (chunk: Buffer) => this.onData(chunk.toString('utf8')));
+    socket.on('timeout', () => this.fail(new Error('SMTPサーバーの応答がタイムアウトしました')));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new Error('SMTPサーバーとの接続が切断されました')));
+  }
+
+  private onData(data: string) {
+    this.buffer += data;
+    let index: number;
+    while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line.slice(4));
+      // 4文字目が空白の行が応答の最終行
+      if (line.charAt(3) !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3)), lines: this.lines };
+        this.lines = [];
+        if (this.waiting) {
+          this.waiting.resolve(reply);
+          this.waiting = null;
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.error) return;
+    this.error = error;
+    if (this.waiting) {
+      this.waiting.reject(error);
+      this.waiting = null;
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) return Promise.resolve(reply);
+    if (this.error) return Promise.reject(this.error);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  /**
+   * コマンドを送り、期待する応答コードでなければエラーにする
+   */
+  async command(line: string, expected: number[], label = line.split(' ')[0]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(`SMTP ${label} に失敗しました: ${reply.code} ${reply.lines.join(' ')}`);
+    }
+    return reply;
+  }
+
+  // STARTTLS 後は暗号化したソケットでやり取りを続ける
+  async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners();
+    const secureSocket = tls.connect({ socket: this.socket, servername: host });
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once('secureConnect', resolve);
+      secureSocket.once('error', reject);
+    });
+    this.socket = secureSocket;
+    this.attach(secureSocket);
+  }
+
+  write(data: string) {
+    this.socket.write(data);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host }, () => resolve(socket))
+      : net.connect({ host: options.host, port: options.port }, () => resolve(socket));
+    socket.once('error', reject);
+    socket.setTimeout(SMTP_TIMEOUT, () => {
+      socket.destroy();
+      reject(new Error(`SMTPサーバー ${options.host}:${options.port} に接続できませんでした`));
+    });
+  });
+}
+
+/**
+ * SMTP でメールを送信する
+ * 認証は AUTH PLAIN のみ対応する
+ * パスワードが平文で流れないよう、allowInsecureAuth がなければ暗号化されていない接続では認証せずにエラーにする
+ */
+export async function sendMail(options: SmtpOptions, mail: MailMessage): Promise<void> {
+  const connection = new SmtpConnection(await connect(options));
+  try {
+    const greeting = await connection.read();
+    if (greeting.code !== 220) {
+      throw new Error(`SMTPサーバーが接続を拒否しました: ${greeting.code} ${greeting.lines.join(' ')}`);
+    }
+
+    const hostname = os.hostname() || 'localhost';
+    const ehlo = await connection.command(`EHLO ${hostname}`, [250]);
+    let encrypted = options.secure;
+    if (!options.secure && ehlo.lines.some(line => line.toUpperCase() === 'STARTTLS')) {
+      await connection.command('STARTTLS', [220]);
+      await connection.upgrade(options.host);
+      await connection.command(`EHLO ${hostname}`, [250]);
+      encrypted = true;
+    }
+
+    if (options.username) {
+      if (!encrypted && !options.allowInsecureAuth) {
+        throw new Error('SMTPサーバーが STARTTLS に対応していないため、暗号化されていない接続での認証を中止しました');
+      }
+      const credentials = Buffer.from(`\0${options.username}\0${options.password || ''}`, 'utf8').toString('base64');
+      await connection.command(`AUTH PLAIN ${credentials}`, [235], 'AUTH');
+    }
+
+    await connection.command(`MAIL FROM:<${mail.from}>`, [250], 'MAIL FROM');
+    for (const recipient of mail.to) {
+      await connection.command(`RCPT TO:<${recipient}>`, [250, 251], 'RCPT TO');
+    }
+    await connection.command('DATA', [354]);
+
+    // 行頭のピリオドは二重にする（ドットスタッフィング）
+    const body = buildMimeMessage(mail).replace(/^\./gm, '..');
+    connection.write(body);
+    await connection.command('.', [250], 'DATA');
+    await connection.command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
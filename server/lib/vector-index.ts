@@ -0,0 +1,157 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { DocumentChunk } from './document-processor';
+import { cosineSimilarity, getEmbeddingProvider } from './embeddings';
+
+// ESM環境で__dirnameを再現
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// 知識ベースのルートディレクトリ（knowledge-base.tsと同じ場所）
+const KNOWLEDGE_BASE_DIR = path.join(__dirname, '../../knowledge-base');
+
+// ベクトルインデックスのファイル名（chunks.jsonと同じディレクトリに保存）
+const VECTOR_INDEX_FILE = 'vectors.json';
+
+// ベクトルインデックスファイルの構造
+interface VectorIndexFile {
+  provider: string;
+  dimensions: number;
+  createdAt: string;
+  entries: {
+    chunkNumber: number;
+    vector: number[];
+  }[];
+}
+
+// ベクトル検索の結果1件分
+export interface VectorSearchResult {
+  docId: string;
+  chunk: DocumentChunk;
+  score: number;
+}
+
+// 読み込み済みインデックスのキャッシュ（ドキュメントID → インデックスとチャンク）
+const indexCache = new Map<string, { index: VectorIndexFile, chunks: DocumentChunk[] }>();
+
+function vectorIndexPath(docId: string): string {
+  return path.join(KNOWLEDGE_BASE_DIR, docId, VECTOR_INDEX_FILE);
+}
+
+/**
+ * チャンクの埋め込みを計算してベクトルインデックスに保存する
+ * @param docId ドキュメントID
+ * @param chunks ドキュメントのチャンク
+ */
+export async function writeVectorIndex(docId: string, chunks: DocumentChunk[]): Promise<void> {
+  const provider = getEmbeddingProvider();
+  const vectors = await provider.embed(chunks.map(chunk => chunk.text));
+
+  const index: VectorIndexFile = {
+    provider: provider.name,
+    dimensions: provider.dimensions,
+    createdAt: new Date().toISOString(),
+    entries: chunks.map((chunk, idx) => ({
+      chunkNumber: chunk.metadata.chunkNumber,
+      vector: vectors[idx]
+    }))
+  };
+
+  const docDir = path.join(KNOWLEDGE_BASE_DIR, docId);
+  if (!fs.existsSync(docDir)) {
+    fs.mkdirSync(docDir, { recursive: true });
+  }
+  fs.writeFileSync(vectorIndexPath(docId), JSON.stringify(index));
+  indexCache.set(docId, { index, chunks });
+
+  console.log(`ベクトルインデックスを保存: ${docId} (${chunks.length}件, ${provider.name})`);
+}
+
+/**
+ * ベクトルインデックスをキャッシュから破棄する
+ * @param docId ドキュメントID
+ */
+export function dropVectorIndex(docId: string): void {
+  indexCache.delete(docId);
+}
+
+/**
+ * ドキュメントのベクトルインデックスを読み込む
+ * 存在しない場合や現在のプロバイダと異なる場合は作り直す
+ */
+async function loadVectorIndex(docId: string): Promise<{ index: VectorIndexFile, chunks: DocumentChunk[] } | null> {
+  const provider = getEmbeddingProvider();
+  const cached = indexCache.get(docId);
+  if (cached && cached.index.provider === provider.name) {
+    return cached;
+  }
+
+  const chunksFile = path.join(KNOWLEDGE_BASE_DIR, docId, 'chunks.json');
+  if (!fs.existsSync(chunksFile)) {
+    return null;
+  }
+  const chunks: DocumentChunk[] = JSON.parse(fs.readFileSync(chunksFile, 'utf8'));
+
+  const indexFile = vectorIndexPath(docId);
+  if (fs.existsSync(indexFile)) {
+    try {
+      const index: VectorIndexFile = JSON.parse(fs.readFileSync(indexFile, 'utf8'));
+      if (index.provider === provider.name && index.entries.length === chunks.length) {
+        const loaded = { index, chunks };
+        indexCache.set(docId, loaded);
+        return loaded;
+      }
+      console.log(`ベクトルインデックスを再作成します: ${docId} (${index.provider} → ${provider.name})`);
+    } catch (err) {
+      console.error(`ベクトルインデックス読み込みエラー (${docId}):`, err);
+    }
+  }
+
+  await writeVectorIndex(docId, chunks);
+  return indexCache.get(docId) || null;
+}
+
+/**
+ * 指定ドキュメント群のベクトルインデックスからコサイン類似度の上位k件を返す
+ * @param query 検索クエリ
+ * @param docIds 検索対象のドキュメントID
+ * @param limit 取得件数
+ */
+export async function searchVectorIndex(query: string, docIds: string[], limit: number): Promise<VectorSearchResult[]> {
+  const [queryVector] = await getEmbeddingProvider().embed([query]);
+  const results: VectorSearchResult[] = [];
+
+  for (const docId of docIds) {
+    try {
+      const loaded = await loadVectorIndex(docId);
+      if (!loaded) continue;
+
+      loaded.index.entries.forEach((entry, idx) => {
+        results.push({
+          docId,
+          chunk: loaded.chunks[idx],
+          score: cosineSimilarity(queryVector, entry.vector)
+        });
+      });
+    } catch (err) {
+      console.error(`ベクトル検索エラー (${docId}):`, err);
+    }
+  }
+
+  return results
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * ベクトルインデックスを持ちうる全ドキュメントのIDを返す
+ */
+export function listIndexedDocumentIds(): string[] {
+  if (!fs.existsSync(KNOWLEDGE_BASE_DIR)) return [];
+  return fs.readdirSync(KNOWLEDGE_BASE_DIR, { withFileTypes: true })
+    .filter(dirent => dirent.isDirectory() && !dirent.name.startsWith('.'))
+    .filter(dirent => fs.existsSync(path.join(KNOWLEDGE_BASE_DIR, dirent.name, 'chunks.json')))
+    .map(dirent => dirent.name);
+}
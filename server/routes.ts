@@ -1,11 +1,50 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { loginSchema, insertUserSchema, insertChatSchema, insertMessageSchema, insertMediaSchema, insertDocumentSchema, insertChatExportSchema, users, chatExports } from "@shared/schema";
+import { storage, type IncidentFilter } from "./storage";
+import { AUDIT_ACTIONS, loginSchema, insertUserSchema, passwordSchema, insertChatSchema, insertMessageSchema, insertMediaSchema, insertDocumentSchema, insertChatExportSchema, insertGlossaryTermSchema, insertIncidentSchema, insertVehicleModelSchema, insertVehicleSchema, insertDecisionTreeSchema, insertExportDestinationSchema, insertMaintenanceContactSchema, users, chatExports, type User, type Chat, type ChatMemberRole, type LoginAttemptResult, type ExportDestination, type InsertExportDestination } from "@shared/schema";
 import { z } from "zod";
 import session from "express-session";
 import { WebSocket, WebSocketServer } from "ws";
-import { processOpenAIRequest, generateSearchQuery, analyzeVehicleImage } from "./lib/openai";
+import { processOpenAIRequest, streamOpenAIRequest, analyzeVehicleImage } from "./lib/openai";
+import { understandQuery } from "./lib/query-understanding";
+import { toConversationTurns } from "./lib/conversation";
+import { resolveChatRole, hasChatRole } from "./lib/chat-access";
+import { hashPassword, verifyPassword, verifyPasswordForUnknownUser, generateTemporaryPassword, configurePasswordPolicyFromEnv } from "./lib/password";
+import { getPasswordPolicy, checkPasswordPolicy } from "@shared/password-policy";
+import { hasPermission, type Permission } from "@shared/permissions";
+import {
+  recordLoginSession,
+  touchLoginSession,
+  revokeLoginSession,
+  revokeUserSessions,
+  getActiveLoginSessions
+} from "./lib/login-sessions";
+import { checkLoginAllowed, lockIfNeeded, resetLoginFailures, configureLoginThrottleFromEnv, type LoginBlock } from "./lib/login-throttle";
+import { runDecisionTreeTurn, validateDecisionTree, type DecisionTreeTurn } from "./lib/decision-tree";
+import { escalateIfNeeded } from "./lib/escalation";
+import { registerEscalationNotifiersFromEnv } from "./lib/escalation-notifier";
+import { buildChatReport } from "./lib/chat-report";
+import { renderReportPdf } from "./lib/report-pdf";
+import { renderReportDocx } from "./lib/report-docx";
+import {
+  startExportDeliveries,
+  retryFailedDeliveries,
+  sendTestDelivery,
+  startExportDeliveryWorker
+} from "./lib/export-delivery";
+import {
+  registerStreamClient,
+  getStreamClient,
+  sendStreamMessage,
+  subscribeToChat,
+  unsubscribeFromChat,
+  isSubscribedToChat,
+  broadcastToChat,
+  removeUserFromChat,
+  getStreamClientUser,
+  disconnectUser
+} from "./lib/chat-stream";
+import type { ChatStreamRequest, ChatClientMessage, ChatCitation } from "@shared/chat-stream";
 import { processPerplexityRequest } from "./lib/perplexity";
 import fs from "fs";
 import path from "path";
@@ -14,8 +53,23 @@ import { upload } from './lib/multer-config';
 import { 
   addDocumentToKnowledgeBase, 
   listKnowledgeBaseDocuments, 
-  removeDocumentFromKnowledgeBase 
+  removeDocumentFromKnowledgeBase,
+  loadKnowledgeBaseIndex,
+  explainKnowledgeSearch,
+  setDocumentVehicleModels,
+  setDocumentVisibility,
+  RetrievalMode,
+  ModelScopeMode,
+  KnowledgeScope
 } from './lib/knowledge-base';
+import { formatChunkLocation } from './lib/document-processor';
+import { invalidateGlossaryCache } from './lib/glossary';
+import { loadVisibleImageSearchData, canViewUploadedFile, PUBLIC_UPLOADS_DIR } from './lib/image-search-data';
+import { recordAuditEvent, summarizeUser, auditEventsToCsv } from './lib/audit';
+import { authenticateApiToken, issueApiToken, toApiTokenSummary } from './lib/api-tokens';
+import { configureOidcFromEnv, getOidcConfig, createAuthorizationRequest, completeAuthorization, provisionOidcUser, type PendingOidcLogin } from './lib/oidc';
+import { API_TOKEN_SCOPES, API_TOKEN_EXPIRY_DAYS } from '@shared/api-tokens';
+import { documentVisibilitySchema } from '@shared/document-visibility';
 import techSupportRouter from './routes/tech-support';
 
 // Extend the express-session types
@@ -23,15 +77,14 @@ declare module 'express-session' {
   interface SessionData {
     userId: number;
     userRole: string;
+    lastSeenAt?: number; // ログイン中の端末一覧の最終利用時刻を最後に記録した時刻
+    oidc?: PendingOidcLogin; // SSO のログイン開始からコールバックまでの state・nonce・code_verifier
   }
 }
 
-// Session will now use Postgres via storage.sessionStore
+// セッションは storage.sessionStore（既定は PostgreSQL、SESSION_STORE で切り替え）に保存する
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Register tech support router
-  app.use('/api/tech-support', techSupportRouter);
-  
   // Add a health check endpoint for testing
   app.get('/api/health', (req, res) => {
     res.json({ 
@@ -51,7 +104,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Text is required" });
       }
       
-      const response = await processOpenAIRequest(text);
+      const { content: response } = await processOpenAIRequest(text);
       return res.json({ response });
     } catch (error) {
       console.error("Error in /api/chatgpt-test:", error);
@@ -82,20 +135,54 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Setup session middleware
-  app.use(
-    session({
-      secret: process.env.SESSION_SECRET || "emergency-recovery-secret",
-      resave: false,
-      saveUninitialized: false,
-      cookie: { 
-        secure: false, // Set to false for development in Replit
-        maxAge: 86400000 // 24 hours
-      },
-      store: storage.sessionStore,
-    })
-  );
+  // WebSocket の接続認証でも同じセッションを読むため、ミドルウェアを保持しておく
+  const sessionMiddleware = session({
+    secret: process.env.SESSION_SECRET || "emergency-recovery-secret",
+    resave: false,
+    saveUninitialized: false,
+    cookie: { 
+      secure: false, // Set to false for development in Replit
+      maxAge: 86400000 // 24 hours
+    },
+    store: storage.sessionStore,
+  });
+  // Authorization: Bearer の API トークンで認証したリクエストはセッションを使わない
+  app.use('/api', authenticateApiToken);
+  app.use((req, res, next) => (req.apiToken ? next() : sessionMiddleware(req, res, next)));
+  
+  // ログイン中の端末一覧の最終利用時刻を更新する（失敗してもリクエストは止めない）
+  app.use('/api', (req, res, next) => {
+    if (req.session.userId && !req.apiToken) {
+      touchLoginSession(req).catch(error => console.error("Error touching login session:", error));
+    }
+    next();
+  });
+  
+  // パスワードポリシーとログイン失敗の制限を環境変数から設定する
+  configurePasswordPolicyFromEnv();
+  configureLoginThrottleFromEnv();
+  configureOidcFromEnv();
+  
+  // パスワードの変更を求められているユーザーは、変更するまでログイン関連以外の API を使えない
+  const PASSWORD_CHANGE_ALLOWED_PATHS = ['/auth/me', '/auth/logout', '/auth/change-password', '/auth/password-policy'];
+  app.use('/api', async (req, res, next) => {
+    if (!req.session.userId || PASSWORD_CHANGE_ALLOWED_PATHS.includes(req.path)) {
+      return next();
+    }
+    try {
+      const user = await storage.getUser(req.session.userId);
+      if (user?.mustChangePassword) {
+        return res.status(403).json({ message: "Password change required", code: "PASSWORD_CHANGE_REQUIRED" });
+      }
+      next();
+    } catch (error) {
+      console.error("Error checking password change requirement:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
 
   // Auth middleware
+  // セッションのほか、API トークン（authenticateApiToken が req.session に設定する）でも通す
   const requireAuth = (req: Request, res: Response, next: Function) => {
     if (!req.session.userId) {
       return res.status(401).json({ message: "Unauthorized" });
@@ -103,38 +190,140 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next();
   };
 
-  // Admin middleware
-  const requireAdmin = async (req: Request, res: Response, next: Function) => {
+  // Permission middleware
+  // 役割の権限（shared/permissions.ts）を確認し、res.locals.user に設定する
+  const requirePermission = (permission: Permission) => async (req: Request, res: Response, next: Function) => {
+    if (!req.session.userId) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const user = await storage.getUser(req.session.userId);
+    if (!user || !hasPermission(user.role, permission)) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
+    
+    res.locals.user = user;
+    next();
+  };
+
+  // Chat membership middleware
+  // :id のチャットで required 以上の役割を持つユーザーだけを通し、res.locals.chat / chatRole / user に設定する
+  const requireChatRole = (required: ChatMemberRole) => async (req: Request, res: Response, next: Function) => {
     if (!req.session.userId) {
       return res.status(401).json({ message: "Unauthorized" });
     }
     
+    const chatId = parseInt(req.params.id);
+    const chat = Number.isNaN(chatId) ? undefined : await storage.getChat(chatId);
+    if (!chat) {
+      return res.status(404).json({ message: "Chat not found" });
+    }
+    
     const user = await storage.getUser(req.session.userId);
-    if (!user || user.role !== 'admin') {
+    if (!user) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    
+    const role = await resolveChatRole(chat, user);
+    if (!hasChatRole(role, required)) {
       return res.status(403).json({ message: "Forbidden" });
     }
     
+    res.locals.chat = chat;
+    res.locals.chatRole = role;
+    res.locals.user = user;
     next();
   };
 
+  // 技術支援資料のルーター
+  // 画像検索データを書き換えるアップロード・初期化のみなので、知識ベースの管理権限が必要
+  app.use('/api/tech-support', requireAuth, requirePermission('knowledge:manage'), techSupportRouter);
+
+  // チャットの対象車両と質問したユーザーから知識ベースの検索範囲を求める
+  const knowledgeScopeForChat = async (chat: Chat, viewer: User): Promise<KnowledgeScope> => {
+    if (!chat.vehicleId) return { viewer };
+    const vehicle = await storage.getVehicle(chat.vehicleId);
+    return vehicle ? { vehicleModel: vehicle.model, vehicleNumber: vehicle.number, viewer } : { viewer };
+  };
+
+  // ログインを拒否したときの応答（Retry-After で再試行できるまでの秒数を返す）
+  const sendLoginBlocked = (res: Response, block: LoginBlock) => {
+    res.set("Retry-After", String(block.retryAfter));
+    return res.status(429).json(block.reason === 'locked'
+      ? { message: "Account temporarily locked", code: "ACCOUNT_LOCKED", retryAfter: block.retryAfter }
+      : { message: "Too many login attempts", code: "LOGIN_THROTTLED", retryAfter: block.retryAfter });
+  };
+
+  // ログインしたユーザーのセッションを開始する
+  // セッション固定攻撃を防ぐため、ログインのたびにセッションIDを振り直す
+  const startUserSession = async (req: Request, user: User) => {
+    await new Promise<void>((resolve, reject) => {
+      req.session.regenerate(err => (err ? reject(err) : resolve()));
+    });
+    req.session.userId = user.id;
+    req.session.userRole = user.role;
+    await recordLoginSession(req, user.id);
+  };
+
   // Auth routes
   app.post("/api/auth/login", async (req, res) => {
     try {
       const credentials = loginSchema.parse(req.body);
-      const user = await storage.getUserByUsername(credentials.username);
+      let user = await storage.getUserByUsername(credentials.username);
+      // 照合の前に試行を記録し、照合が終わったら結果に更新する
+      // 照合中に並行して送られた試行は、この記録を失敗として数えて制限する
+      const attempt = await storage.createLoginAttempt({
+        username: credentials.username.slice(0, 200),
+        userId: user?.id ?? null,
+        ipAddress: req.ip || null,
+        userAgent: req.get('user-agent')?.slice(0, 500) || null,
+        result: 'pending'
+      });
+      const recordAttempt = (result: LoginAttemptResult) => storage.updateLoginAttemptResult(attempt.id, result);
       
-      if (!user || user.password !== credentials.password) {
+      // ロック中・失敗が続いている間はパスワードを照合しない
+      const block = await checkLoginAllowed(credentials.username, user, req.ip, attempt.id);
+      if (block) {
+        await recordAttempt(block.reason);
+        return sendLoginBlocked(res, block);
+      }
+      
+      const verification = user
+        ? await verifyPassword(user.password, credentials.password)
+        : await verifyPasswordForUnknownUser(credentials.password);
+      
+      if (!user || !verification.valid) {
+        await recordAttempt('invalid_credentials');
+        const lockedUntil = user ? await lockIfNeeded(user) : null;
+        if (lockedUntil) {
+          return sendLoginBlocked(res, { reason: 'locked', retryAfter: Math.ceil((lockedUntil.getTime() - Date.now()) / 1000) });
+        }
         return res.status(401).json({ message: "Invalid credentials" });
       }
       
-      req.session.userId = user.id;
-      req.session.userRole = user.role;
+      await recordAttempt('success');
+      user = await resetLoginFailures(user.id);
+      
+      // 平文で保存されていたパスワードはこの時点でハッシュ化する
+      // ポリシーを満たさない古いパスワードは変更を求める
+      if (verification.needsRehash) {
+        const weak = checkPasswordPolicy(credentials.password).length > 0;
+        user = await storage.updateUser(user.id, {
+          password: await hashPassword(credentials.password),
+          mustChangePassword: user.mustChangePassword || weak
+        });
+        console.log(`パスワードをハッシュ化しました: userId=${user.id}`);
+      }
+      
+      await startUserSession(req, user);
       
       return res.json({ 
         id: user.id, 
         username: user.username, 
         displayName: user.displayName, 
-        role: user.role 
+        role: user.role,
+        department: user.department,
+        mustChangePassword: user.mustChangePassword
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -144,7 +333,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/auth/logout", (req, res) => {
+  app.post("/api/auth/logout", async (req, res) => {
+    await storage.deleteLoginSession(req.sessionID).catch(error => {
+      console.error("Error deleting login session:", error);
+    });
+    // このセッションで確立した WebSocket 接続も閉じる
+    if (req.session.userId) disconnectUser(req.session.userId, req.sessionID);
     req.session.destroy((err) => {
       if (err) {
         return res.status(500).json({ message: "Failed to logout" });
@@ -169,19 +363,226 @@ export async function registerRoutes(app: Express): Promise<Server> {
       username: user.username, 
       displayName: user.displayName, 
       role: user.role,
-      department: user.department
+      department: user.department,
+      mustChangePassword: user.mustChangePassword
     });
   });
   
+  app.get("/api/auth/password-policy", (req, res) => {
+    return res.json(getPasswordPolicy());
+  });
+  
+  // SSO（OIDC）が使えるか（ログイン画面のボタン表示用）
+  app.get("/api/auth/oidc/config", (req, res) => {
+    const oidc = getOidcConfig();
+    return res.json(oidc ? { enabled: true, buttonLabel: oidc.buttonLabel } : { enabled: false });
+  });
+  
+  // SSO のログイン開始（state・nonce・PKCE をセッションに保存して IdP へリダイレクトする）
+  app.get("/api/auth/oidc/login", async (req, res) => {
+    const oidc = getOidcConfig();
+    if (!oidc) {
+      return res.status(404).json({ message: "SSO is not configured" });
+    }
+    try {
+      const redirectUri = oidc.redirectUri || `${req.protocol}://${req.get('host')}/api/auth/oidc/callback`;
+      const { url, pending } = await createAuthorizationRequest(redirectUri);
+      req.session.oidc = pending;
+      req.session.save(err => {
+        if (err) {
+          console.error("Error saving SSO login request:", err);
+          return res.redirect('/login?sso_error=failed');
+        }
+        return res.redirect(url);
+      });
+    } catch (error) {
+      console.error("Error starting SSO login:", error);
+      return res.redirect('/login?sso_error=failed');
+    }
+  });
+  
+  // SSO のコールバック（ID トークンを検証し、ユーザーを作成・同期してログインさせる）
+  app.get("/api/auth/oidc/callback", async (req, res) => {
+    const pending = req.session.oidc;
+    delete req.session.oidc;
+    if (!getOidcConfig()) {
+      return res.redirect('/login?sso_error=failed');
+    }
+    try {
+      const identity = await completeAuthorization(req.query, pending);
+      const result = await provisionOidcUser(identity);
+      if (result.status === 'conflict') {
+        console.warn(`SSO のユーザー名が既存のアカウントと重複しているためログインを拒否しました: username=${identity.username}, sub=${identity.subject}`);
+        return res.redirect('/login?sso_error=conflict');
+      }
+      
+      const { user, provisioned } = result;
+      if (provisioned) {
+        console.log(`SSO のユーザーを${provisioned === 'created' ? '作成' : '連携'}しました: userId=${user.id}, username=${user.username}`);
+        await recordAuditEvent(req, user, {
+          action: 'user.sso_provision', targetType: 'user', targetId: user.id,
+          after: { ...summarizeUser(user), provisioned }
+        });
+      }
+      await storage.createLoginAttempt({
+        username: user.username,
+        userId: user.id,
+        ipAddress: req.ip || null,
+        userAgent: req.get('user-agent')?.slice(0, 500) || null,
+        result: 'success'
+      });
+      await startUserSession(req, user);
+      return res.redirect('/chat');
+    } catch (error) {
+      console.error("SSO ログインに失敗しました:", error);
+      return res.redirect('/login?sso_error=failed');
+    }
+  });
+  
+  // 本人によるパスワード変更（変更を求められている場合もここで変更する）
+  app.post("/api/auth/change-password", requireAuth, async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = z.object({
+        currentPassword: z.string().min(1),
+        newPassword: passwordSchema,
+      }).parse(req.body);
+      
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!(await verifyPassword(user.password, currentPassword)).valid) {
+        return res.status(400).json({ message: "現在のパスワードが正しくありません" });
+      }
+      if (currentPassword === newPassword) {
+        return res.status(400).json({ message: "現在と異なるパスワードを入力してください" });
+      }
+      
+      await storage.updateUser(user.id, {
+        password: await hashPassword(newPassword),
+        mustChangePassword: false,
+        passwordChangedAt: new Date()
+      });
+      // ほかの端末のセッションは古いパスワードでログインしたものなので終了させる
+      await revokeUserSessions(user.id, req.sessionID);
+      return res.json({ message: "Password changed successfully" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Error changing password:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // ログイン中の端末一覧（本人のもの）
+  app.get("/api/auth/sessions", requireAuth, async (req, res) => {
+    try {
+      return res.json(await getActiveLoginSessions(req.session.userId!, req.sessionID));
+    } catch (error) {
+      console.error("Error fetching login sessions:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // 指定した端末をログアウトさせる
+  app.delete("/api/auth/sessions/:id", requireAuth, async (req, res) => {
+    try {
+      const loginSession = await storage.getLoginSession(parseInt(req.params.id));
+      if (!loginSession || loginSession.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (loginSession.sid === req.sessionID) {
+        return res.status(400).json({ message: "Use logout to end the current session" });
+      }
+      await revokeLoginSession(loginSession);
+      return res.json({ message: "Session revoked successfully" });
+    } catch (error) {
+      console.error("Error revoking login session:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // この端末以外をすべてログアウトさせる
+  app.post("/api/auth/sessions/revoke-others", requireAuth, async (req, res) => {
+    try {
+      const revoked = await revokeUserSessions(req.session.userId!, req.sessionID);
+      return res.json({ message: "Sessions revoked successfully", revoked });
+    } catch (error) {
+      console.error("Error revoking login sessions:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // 個人用 API トークン（本人のもの、新しい順）
+  // トークンの管理はブラウザのセッションからのみ行う（トークンのスコープではこれらの API を許可しない）
+  app.get("/api/api-tokens", requireAuth, async (req, res) => {
+    try {
+      const apiTokens = await storage.getApiTokensForUser(req.session.userId!);
+      return res.json(apiTokens.map(apiToken => toApiTokenSummary(apiToken)));
+    } catch (error) {
+      console.error("Error fetching API tokens:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // トークンを発行し、平文のトークンを一度だけ返す
+  app.post("/api/api-tokens", requireAuth, async (req, res) => {
+    try {
+      const options = z.object({
+        name: z.string().trim().min(1).max(100),
+        scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1),
+        expiresInDays: z.number().int().refine(days => (API_TOKEN_EXPIRY_DAYS as readonly number[]).includes(days)),
+      }).parse(req.body);
+      const user = await storage.getUser(req.session.userId!);
+      const { token, apiToken } = await issueApiToken(req.session.userId!, { ...options, scopes: Array.from(new Set(options.scopes)) });
+      await recordAuditEvent(req, user, {
+        action: 'api_token.create', targetType: 'api_token', targetId: apiToken.id,
+        after: { name: apiToken.name, tokenPrefix: apiToken.tokenPrefix, scopes: apiToken.scopes, expiresAt: apiToken.expiresAt }
+      });
+      return res.status(201).json({ ...toApiTokenSummary(apiToken), token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Error creating API token:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // トークンを失効させる
+  app.delete("/api/api-tokens/:id", requireAuth, async (req, res) => {
+    try {
+      const tokenId = parseInt(req.params.id);
+      const apiTokens = await storage.getApiTokensForUser(req.session.userId!);
+      const apiToken = apiTokens.find(item => item.id === tokenId);
+      if (!apiToken) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+      await storage.deleteApiToken(apiToken.id);
+      await recordAuditEvent(req, await storage.getUser(req.session.userId!), {
+        action: 'api_token.revoke', targetType: 'api_token', targetId: apiToken.id,
+        before: { name: apiToken.name, tokenPrefix: apiToken.tokenPrefix, scopes: apiToken.scopes }
+      });
+      return res.json({ message: "API token revoked successfully" });
+    } catch (error) {
+      console.error("Error revoking API token:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
   // User management routes (admin only)
-  app.get("/api/users", requireAuth, requireAdmin, async (req, res) => {
+  app.get("/api/users", requireAuth, requirePermission('users:manage'), async (req, res) => {
     try {
       const result = await db.select({
         id: users.id,
         username: users.username,
         displayName: users.displayName,
         role: users.role,
-        department: users.department
+        department: users.department,
+        mustChangePassword: users.mustChangePassword,
+        passwordChangedAt: users.passwordChangedAt,
+        lockedUntil: users.lockedUntil
       }).from(users);
       return res.json(result);
     } catch (error) {
@@ -190,7 +591,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post("/api/users", requireAuth, requireAdmin, async (req, res) => {
+  app.post("/api/users", requireAuth, requirePermission('users:manage'), async (req, res) => {
     try {
       const userData = insertUserSchema.parse(req.body);
       
@@ -200,13 +601,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Username already exists" });
       }
       
-      const user = await storage.createUser(userData);
+      // 管理者が作成したアカウントは、指定がなければ初回ログイン時にパスワードを変更させる
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password),
+        mustChangePassword: userData.mustChangePassword ?? true
+      });
+      await recordAuditEvent(req, res.locals.user, {
+        action: 'user.create', targetType: 'user', targetId: user.id, after: summarizeUser(user)
+      });
       return res.status(201).json({
         id: user.id,
         username: user.username,
         displayName: user.displayName,
         role: user.role,
-        department: user.department
+        department: user.department,
+        mustChangePassword: user.mustChangePassword
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -218,7 +628,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // ユーザー編集エンドポイント
-  app.patch("/api/users/:id", requireAuth, requireAdmin, async (req, res) => {
+  app.patch("/api/users/:id", requireAuth, requirePermission('users:manage'), async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
       
@@ -236,32 +646,199 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      // 更新データから不要なフィールドを除外
-      const { password, ...updateData } = req.body;
-      
-      // ユーザー情報更新
-      if (updateData.role && !['admin', 'employee'].includes(updateData.role)) {
-        return res.status(400).json({ message: "Invalid role" });
-      }
+      // パスワードはリセット API で変更する
+      const updateData = insertUserSchema.omit({ password: true }).partial().parse(req.body);
       
       // 保存
       const updatedUser = await storage.updateUser(userId, updateData);
+      await recordAuditEvent(req, res.locals.user, {
+        action: 'user.update', targetType: 'user', targetId: userId,
+        before: summarizeUser(existingUser), after: summarizeUser(updatedUser)
+      });
       
       return res.json({
         id: updatedUser.id,
         username: updatedUser.username,
         displayName: updatedUser.displayName,
         role: updatedUser.role,
-        department: updatedUser.department
+        department: updatedUser.department,
+        mustChangePassword: updatedUser.mustChangePassword
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
       console.error("Error updating user:", error);
       return res.status(500).json({ message: "Internal server error" });
     }
   });
   
+  // 管理者によるパスワードリセット
+  // パスワードを指定しなければ一時パスワードを生成して一度だけ返す。次回ログイン時に変更させる
+  app.post("/api/users/:id/reset-password", requireAuth, requirePermission('users:manage'), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const { password } = z.object({ password: passwordSchema.optional() }).parse(req.body ?? {});
+      
+      const existingUser = await storage.getUser(userId);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const temporaryPassword = password ?? generateTemporaryPassword(getPasswordPolicy());
+      await storage.updateUser(userId, {
+        password: await hashPassword(temporaryPassword),
+        mustChangePassword: true,
+        passwordChangedAt: new Date()
+      });
+      // 新しいパスワードですぐログインできるようロックも解除する
+      await resetLoginFailures(userId);
+      // 自分自身をリセットした場合は操作中のセッションだけ残す
+      await revokeUserSessions(userId, userId === req.session.userId ? req.sessionID : undefined);
+      console.log(`パスワードをリセットしました: userId=${userId}, 実行者=${req.session.userId}`);
+      await recordAuditEvent(req, res.locals.user, {
+        action: 'user.reset_password', targetType: 'user', targetId: userId,
+        after: { username: existingUser.username, temporaryPasswordGenerated: !password }
+      });
+      
+      return res.json({
+        message: "Password reset successfully",
+        temporaryPassword: password ? null : temporaryPassword
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Error resetting password:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // 管理者によるアカウントロックの解除
+  app.post("/api/users/:id/unlock", requireAuth, requirePermission('users:manage'), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const existingUser = await storage.getUser(userId);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await resetLoginFailures(userId);
+      console.log(`アカウントのロックを解除しました: userId=${userId}, 実行者=${req.session.userId}`);
+      await recordAuditEvent(req, res.locals.user, {
+        action: 'user.unlock', targetType: 'user', targetId: userId,
+        before: { username: existingUser.username, lockedUntil: existingUser.lockedUntil }
+      });
+      return res.json({ message: "User unlocked successfully" });
+    } catch (error) {
+      console.error("Error unlocking user:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // ログイン試行の履歴（管理者のみ、新しい順）
+  app.get("/api/login-attempts", requireAuth, requirePermission('security:view'), async (req, res) => {
+    try {
+      const filter = z.object({
+        username: z.string().min(1).optional(),
+        ipAddress: z.string().min(1).optional(),
+        result: z.enum(['success', 'invalid_credentials', 'throttled', 'locked', 'pending']).optional(),
+        limit: z.coerce.number().int().min(1).max(1000).optional(),
+      }).parse(req.query);
+      return res.json(await storage.getLoginAttempts(filter));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Error fetching login attempts:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // 監査ログ（管理者のみ、新しい順）
+  const auditEventFilterSchema = z.object({
+    actorUsername: z.string().min(1).optional(),
+    action: z.enum(AUDIT_ACTIONS).optional(),
+    targetType: z.string().min(1).optional(),
+    targetId: z.string().min(1).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    limit: z.coerce.number().int().min(1).max(1000).optional(),
+  });
+  
+  app.get("/api/audit-events", requireAuth, requirePermission('audit:view'), async (req, res) => {
+    try {
+      const filter = auditEventFilterSchema.parse(req.query);
+      return res.json(await storage.getAuditEvents(filter));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Error fetching audit events:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // 監査ログの CSV 出力（画面と同じ絞り込み条件で、最大10000件）
+  app.get("/api/audit-events/export", requireAuth, requirePermission('audit:view'), async (req, res) => {
+    try {
+      const filter = auditEventFilterSchema.extend({
+        limit: z.coerce.number().int().min(1).max(10000).default(10000),
+      }).parse(req.query);
+      const events = await storage.getAuditEvents(filter);
+      const fileName = `audit-events-${new Date().toISOString().slice(0, 10)}.csv`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      return res.send(auditEventsToCsv(events));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Error exporting audit events:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // 管理者によるユーザーのログイン中の端末一覧
+  app.get("/api/users/:id/sessions", requireAuth, requirePermission('users:manage'), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const existingUser = await storage.getUser(userId);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      return res.json(await getActiveLoginSessions(userId, req.sessionID));
+    } catch (error) {
+      console.error("Error fetching login sessions:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // 管理者による強制ログアウト（対象ユーザーのすべての端末のセッションを終了させる）
+  app.post("/api/users/:id/logout", requireAuth, requirePermission('users:manage'), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (userId === req.session.userId) {
+        return res.status(400).json({ message: "Cannot force logout your own account" });
+      }
+      const existingUser = await storage.getUser(userId);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const revoked = await revokeUserSessions(userId);
+      console.log(`強制ログアウトしました: userId=${userId}, セッション数=${revoked}, 実行者=${req.session.userId}`);
+      await recordAuditEvent(req, res.locals.user, {
+        action: 'user.force_logout', targetType: 'user', targetId: userId,
+        after: { username: existingUser.username, revoked }
+      });
+      return res.json({ message: "User logged out successfully", revoked });
+    } catch (error) {
+      console.error("Error forcing logout:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
   // ユーザー削除エンドポイント
-  app.delete("/api/users/:id", requireAuth, requireAdmin, async (req, res) => {
+  app.delete("/api/users/:id", requireAuth, requirePermission('users:manage'), async (req, res) => {
     try {
       const userId = parseInt(req.params.id);
       
@@ -276,8 +853,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // ユーザー削除
+      // ユーザー削除（ログイン中のセッションも終了させる）
+      await revokeUserSessions(userId);
       await storage.deleteUser(userId);
+      await recordAuditEvent(req, res.locals.user, {
+        action: 'user.delete', targetType: 'user', targetId: userId, before: summarizeUser(existingUser)
+      });
       
       return res.json({ message: "User deleted successfully" });
     } catch (error) {
@@ -309,36 +890,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/chats/:id", requireAuth, async (req, res) => {
-    const chat = await storage.getChat(parseInt(req.params.id));
-    
-    if (!chat) {
-      return res.status(404).json({ message: "Chat not found" });
-    }
-    
-    if (chat.userId !== req.session.userId) {
-      return res.status(403).json({ message: "Forbidden" });
+  app.get("/api/chats/:id", requireChatRole('observer'), async (req, res) => {
+    return res.json({ ...res.locals.chat, role: res.locals.chatRole });
+  });
+
+  // チャットの対象車両を設定する（null で解除）
+  app.patch("/api/chats/:id", requireChatRole('participant'), async (req, res) => {
+    try {
+      const { vehicleId } = z.object({ vehicleId: z.number().int().nullable() }).parse(req.body);
+      if (vehicleId !== null && !(await storage.getVehicle(vehicleId))) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      
+      const chat = await storage.updateChat((res.locals.chat as Chat).id, { vehicleId });
+      return res.json({ ...chat, role: res.locals.chatRole });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Error updating chat:", error);
+      return res.status(500).json({ message: "Internal server error" });
     }
-    
-    return res.json(chat);
   });
 
-  app.get("/api/chats/:id/messages", requireAuth, async (req, res) => {
-    const chatId = parseInt(req.params.id);
+  app.get("/api/chats/:id/messages", requireChatRole('observer'), async (req, res) => {
+    const chat: Chat = res.locals.chat;
+    const chatId = chat.id;
     const clearCache = req.query.clear === 'true';
     
-    const chat = await storage.getChat(chatId);
-    
-    if (!chat) {
-      return res.status(404).json({ message: "Chat not found" });
-    }
-    
-    // チャットアクセス制限を一時的に緩和 (すべてのログインユーザーがすべてのチャットを閲覧可能に)
-    console.log(`チャット閲覧: chatId=${chat.id}, chatUserId=${chat.userId}, sessionUserId=${req.session.userId}`);
-    // if (chat.userId !== req.session.userId) {
-    //   return res.status(403).json({ message: "Forbidden" });
-    // }
-    
     // クリアフラグが立っている場合、空の配列を返す
     if (clearCache) {
       // キャッシュクリアが要求された場合は空配列を返す
@@ -350,12 +929,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     
     const messages = await storage.getMessagesForChat(chat.id);
+    const escalations = await storage.getEscalationsForChat(chat.id);
     
     // Get media for each message
     const messagesWithMedia = await Promise.all(
       messages.map(async (message) => {
         const media = await storage.getMediaForMessage(message.id);
-        return { ...message, media };
+        const escalation = escalations.find(item => item.messageId === message.id) || null;
+        return { ...message, media, escalation };
       })
     );
     
@@ -363,26 +944,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // チャット履歴をクリアするAPI
-  app.post("/api/chats/:id/clear", requireAuth, async (req, res) => {
+  app.post("/api/chats/:id/clear", requireChatRole('owner'), async (req, res) => {
     try {
-      const chatId = parseInt(req.params.id);
-      
-      const chat = await storage.getChat(chatId);
-      if (!chat) {
-        return res.status(404).json({ message: "Chat not found" });
-      }
-      
-      // チャットアクセス制限を一時的に緩和 (すべてのログインユーザーが全チャットの履歴をクリア可能に)
-      console.log(`チャット履歴クリア: chatId=${chat.id}, chatUserId=${chat.userId}, sessionUserId=${req.session.userId}`);
-      // if (chat.userId !== req.session.userId) {
-      //   return res.status(403).json({ message: "Forbidden" });
-      // }
+      const chatId = (res.locals.chat as Chat).id;
       
       // メッセージとそれに関連するメディアを実際に削除する
       try {
         // データベースからメッセージを削除する
         await storage.clearChatMessages(chatId);
         console.log(`[DEBUG] Chat messages cleared for chat ID: ${chatId}`);
+        await recordAuditEvent(req, res.locals.user, {
+          action: 'chat.clear', targetType: 'chat', targetId: chatId, before: { title: (res.locals.chat as Chat).title }
+        });
       } catch (dbError) {
         console.error(`Error clearing messages from database: ${dbError}`);
         // データベースエラーが発生した場合でもUIクリアは続行
@@ -400,39 +973,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // 履歴送信のためのAPI
-  app.post("/api/chats/:id/export", requireAuth, async (req, res) => {
+  // 前回の履歴送信以降を対象期間として記録し、その期間の報告書（PDF・DOCX）のURLを返す
+  app.post("/api/chats/:id/export", requireChatRole('participant'), async (req, res) => {
     try {
       const userId = req.session.userId!;
-      const chatId = parseInt(req.params.id);
+      const chatId = (res.locals.chat as Chat).id;
       const { lastExportTimestamp } = req.body;
       
-      const chat = await storage.getChat(chatId);
-      if (!chat) {
-        return res.status(404).json({ message: "Chat not found" });
+      // 指定がなければ最後に記録された履歴送信以降を対象にする
+      const lastExport = lastExportTimestamp ? null : await storage.getLastChatExport(chatId);
+      const since = lastExportTimestamp ? new Date(lastExportTimestamp) : lastExport?.timestamp || new Date(0);
+      if (isNaN(since.getTime())) {
+        return res.status(400).json({ message: "Invalid lastExportTimestamp" });
       }
       
-      // チャットアクセス制限を一時的に緩和
-      console.log(`チャットエクスポート: chatId=${chat.id}, chatUserId=${chat.userId}, sessionUserId=${userId}`);
-      // if (chat.userId !== userId) {
-      //   return res.status(403).json({ message: "Forbidden" });
-      // }
-      
       // 指定されたタイムスタンプ以降のメッセージを取得
-      const messages = await storage.getMessagesForChatAfterTimestamp(
-        chatId, 
-        lastExportTimestamp ? new Date(lastExportTimestamp) : new Date(0)
-      );
+      const messages = await storage.getMessagesForChatAfterTimestamp(chatId, since);
       
       // 現在のタイムスタンプを記録（次回の履歴送信で使用）
       const exportTimestamp = new Date();
       
-      // チャットのエクスポートレコードを保存
-      await storage.saveChatExport(chatId, userId, exportTimestamp);
+      // チャットのエクスポートレコードを保存し、設定された送信先へ配信する
+      const chatExport = await storage.saveChatExport(chatId, userId, exportTimestamp, since.getTime() > 0 ? since : null);
+      await startExportDeliveries(chatExport);
+      const deliveries = await storage.getExportDeliveriesForExport(chatExport.id);
+      await recordAuditEvent(req, res.locals.user, {
+        action: 'chat.export', targetType: 'chat', targetId: chatId,
+        after: { exportId: chatExport.id, since: since.toISOString(), until: exportTimestamp.toISOString(), messageCount: messages.length }
+      });
       
+      const range = `since=${encodeURIComponent(since.toISOString())}&until=${encodeURIComponent(exportTimestamp.toISOString())}`;
       res.json({ 
         success: true, 
+        exportId: chatExport.id,
         exportTimestamp,
-        messageCount: messages.length
+        messageCount: messages.length,
+        deliveries,
+        reports: {
+          docx: `/api/chats/${chatId}/report?format=docx&${range}`,
+          pdf: `/api/chats/${chatId}/report?format=pdf&${range}`
+        }
       });
     } catch (error) {
       console.error("Error exporting chat history:", error);
@@ -440,21 +1020,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // チャットの最後のエクスポート履歴を取得
-  app.get("/api/chats/:id/last-export", requireAuth, async (req, res) => {
+  // 履歴送信の配信状況
+  app.get("/api/chats/:id/exports/:exportId/deliveries", requireChatRole('observer'), async (req, res) => {
     try {
-      const chatId = parseInt(req.params.id);
-      const chat = await storage.getChat(chatId);
+      const chatExport = await storage.getChatExport(parseInt(req.params.exportId));
+      if (!chatExport || chatExport.chatId !== (res.locals.chat as Chat).id) {
+        return res.status(404).json({ message: "Export not found" });
+      }
       
-      if (!chat) {
-        return res.status(404).json({ message: "Chat not found" });
+      const deliveries = await storage.getExportDeliveriesForExport(chatExport.id);
+      return res.json(deliveries);
+    } catch (error) {
+      console.error("Error fetching export deliveries:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // 失敗した配信をやり直す
+  app.post("/api/chats/:id/exports/:exportId/retry", requireChatRole('participant'), async (req, res) => {
+    try {
+      const chatExport = await storage.getChatExport(parseInt(req.params.exportId));
+      if (!chatExport || chatExport.chatId !== (res.locals.chat as Chat).id) {
+        return res.status(404).json({ message: "Export not found" });
       }
       
-      // チャットアクセス制限を一時的に緩和
-      console.log(`チャットエクスポート履歴: chatId=${chat.id}, chatUserId=${chat.userId}, sessionUserId=${req.session.userId}`);
-      // if (chat.userId !== req.session.userId) {
-      //   return res.status(403).json({ message: "Forbidden" });
-      // }
+      await retryFailedDeliveries(chatExport.id);
+      const deliveries = await storage.getExportDeliveriesForExport(chatExport.id);
+      return res.json(deliveries);
+    } catch (error) {
+      console.error("Error retrying export deliveries:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // インシデント報告書のダウンロード（期間の指定がなければチャット全体）
+  // PDF は日本語フォントを埋め込まずビューアに依存するため、既定は DOCX
+  const chatReportQuerySchema = z.object({
+    format: z.enum(['pdf', 'docx']).default('docx'),
+    since: z.coerce.date().optional(),
+    until: z.coerce.date().optional()
+  });
+  
+  app.get("/api/chats/:id/report", requireChatRole('observer'), async (req, res) => {
+    try {
+      const chat = res.locals.chat as Chat;
+      const query = chatReportQuerySchema.parse(req.query);
+      
+      const report = await buildChatReport(chat, {
+        since: query.since || new Date(0),
+        until: query.until || new Date()
+      });
+      const file = query.format === 'docx' ? renderReportDocx(report) : renderReportPdf(report);
+      
+      res.setHeader('Content-Type', query.format === 'docx'
+        ? 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+        : 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${report.fileName}.${query.format}"`);
+      return res.send(file);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Error generating chat report:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // チャットの最後のエクスポート履歴を取得
+  app.get("/api/chats/:id/last-export", requireChatRole('observer'), async (req, res) => {
+    try {
+      const chatId = (res.locals.chat as Chat).id;
       
       const lastExport = await storage.getLastChatExport(chatId);
       res.json(lastExport || { timestamp: null });
@@ -464,30 +1099,272 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/chats/:id/messages", requireAuth, async (req, res) => {
+  // チャットメンバー
+  const chatMemberRequestSchema = z.object({
+    username: z.string().min(1),
+    role: z.enum(['owner', 'participant', 'observer']).default('participant')
+  });
+
+  app.get("/api/chats/:id/members", requireChatRole('observer'), async (req, res) => {
     try {
-      const chat = await storage.getChat(parseInt(req.params.id));
-      const { content, useOnlyKnowledgeBase = true } = req.body;
+      const members = await storage.getChatMembers((res.locals.chat as Chat).id);
+      return res.json(members);
+    } catch (error) {
+      console.error("Error fetching chat members:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/chats/:id/members", requireChatRole('owner'), async (req, res) => {
+    try {
+      const chat: Chat = res.locals.chat;
+      const { username, role } = chatMemberRequestSchema.parse(req.body);
       
-      if (!chat) {
-        return res.status(404).json({ message: "Chat not found" });
+      const user = await storage.getUserByUsername(username);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.id === chat.userId) {
+        return res.status(400).json({ message: "チャットの作成者の役割は変更できません" });
       }
       
-      // チャットアクセス制限を一時的に緩和 (すべてのログインユーザーが全チャットにアクセス可能)
-      console.log(`チャットアクセス: chatId=${chat.id}, chatUserId=${chat.userId}, sessionUserId=${req.session.userId}`);
+      const member = await storage.addChatMember({ chatId: chat.id, userId: user.id, role });
+      console.log(`チャットメンバー追加: chatId=${chat.id}, userId=${user.id}, role=${role}`);
+      return res.json({ ...member, username: user.username, displayName: user.displayName });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Error adding chat member:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // オーナーはメンバーを外せる。それ以外のメンバーは自分自身の退出のみ
+  app.delete("/api/chats/:id/members/:userId", requireChatRole('observer'), async (req, res) => {
+    try {
+      const chat: Chat = res.locals.chat;
+      const userId = parseInt(req.params.userId);
+      
+      if (userId !== req.session.userId && res.locals.chatRole !== 'owner') {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (userId === chat.userId) {
+        return res.status(400).json({ message: "チャットの作成者は外せません" });
+      }
+      
+      await storage.removeChatMember(chat.id, userId);
+      removeUserFromChat(chat.id, userId, 'このチャットのメンバーから外されました');
+      console.log(`チャットメンバー削除: chatId=${chat.id}, userId=${userId}`);
+      return res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing chat member:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // インシデント記録（チャット1件につき1件）
+  const incidentBodySchema = insertIncidentSchema.omit({ chatId: true, createdBy: true });
+  const incidentFilterSchema = z.object({
+    status: z.enum(['open', 'in_progress', 'resolved', 'escalated']).optional(),
+    severity: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+    vehicle: z.string().optional(),
+    symptomCategory: z.string().optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional()
+  });
+
+  // 解決済みにしたときに終了日時が未入力なら現在時刻を入れる
+  const withResolvedEndTime = <T extends { status?: string; endedAt?: Date | null }>(data: T, current?: { endedAt: Date | null }): T => {
+    if (data.status === 'resolved' && !data.endedAt && !current?.endedAt) {
+      return { ...data, endedAt: new Date() };
+    }
+    return data;
+  };
+
+  app.get("/api/chats/:id/incident", requireChatRole('observer'), async (req, res) => {
+    try {
+      const incident = await storage.getIncidentForChat((res.locals.chat as Chat).id);
+      return res.json(incident || null);
+    } catch (error) {
+      console.error("Error fetching incident:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/chats/:id/incident", requireChatRole('participant'), async (req, res) => {
+    try {
+      const chat: Chat = res.locals.chat;
+      if (await storage.getIncidentForChat(chat.id)) {
+        return res.status(409).json({ message: "Incident already exists for this chat" });
+      }
+      
+      const incidentData = withResolvedEndTime(incidentBodySchema.parse(req.body));
+      const incident = await storage.createIncident({
+        ...incidentData,
+        chatId: chat.id,
+        createdBy: req.session.userId
+      });
+      console.log(`インシデント登録: incidentId=${incident.id}, chatId=${chat.id}`);
+      return res.status(201).json(incident);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Error creating incident:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/chats/:id/incident", requireChatRole('participant'), async (req, res) => {
+    try {
+      const current = await storage.getIncidentForChat((res.locals.chat as Chat).id);
+      if (!current) {
+        return res.status(404).json({ message: "Incident not found" });
+      }
+      
+      const updates = withResolvedEndTime(incidentBodySchema.partial().parse(req.body), current);
+      const incident = await storage.updateIncident(current.id, updates);
+      return res.json(incident);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Error updating incident:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // インシデント一覧（クエリパラメータで絞り込み、監督者は自部署のユーザーのものだけ）
+  app.get("/api/incidents", requireAuth, requirePermission('incidents:view_department'), async (req, res) => {
+    try {
+      const filter: IncidentFilter = incidentFilterSchema.parse(req.query);
+      const user = res.locals.user as User;
+      if (!hasPermission(user.role, 'incidents:view_all')) {
+        if (!user.department) {
+          return res.json([]);
+        }
+        filter.department = user.department;
+      }
+      const incidents = await storage.getIncidents(filter);
+      return res.json(incidents);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Error fetching incidents:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // チャットで実行した判定ツリーの経路
+  app.get("/api/chats/:id/decision-tree-runs", requireChatRole('observer'), async (req, res) => {
+    try {
+      const runs = await storage.getDecisionTreeRunsForChat((res.locals.chat as Chat).id);
+      return res.json(runs);
+    } catch (error) {
+      console.error("Error fetching decision tree runs:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // チャットのエスカレーション記録
+  app.get("/api/chats/:id/escalations", requireChatRole('observer'), async (req, res) => {
+    try {
+      const escalations = await storage.getEscalationsForChat((res.locals.chat as Chat).id);
+      return res.json(escalations);
+    } catch (error) {
+      console.error("Error fetching escalations:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/chats/:id/messages", requireChatRole('participant'), async (req, res) => {
+    try {
+      const chat: Chat = res.locals.chat;
+      const { content, useOnlyKnowledgeBase = true } = req.body;
       console.log(`設定: ナレッジベースのみを使用=${useOnlyKnowledgeBase}`);
-      // if (chat.userId !== req.session.userId) {
-      //   return res.status(403).json({ message: "Forbidden" });
-      // }
       
       const messageData = insertMessageSchema.parse({
         ...req.body,
         chatId: chat.id,
         senderId: req.session.userId,
-        isAiResponse: false
+        isAiResponse: false,
+        treeStep: null,
+        citations: null
       });
       
-      const message = await storage.createMessage(messageData);
+      // 作成前に取得することで、今回の発話を含まない会話履歴にする
+      const history = toConversationTurns(await storage.getMessagesForChat(chat.id));
+      const scope = await knowledgeScopeForChat(chat, res.locals.user as User);
+      
+      // 判定ツリーが実行中、または質問に合うツリーがあれば、LLMを使わずにツリーで回答する
+      let treeTurn: DecisionTreeTurn | null = null;
+      try {
+        treeTurn = await runDecisionTreeTurn(chat, messageData.content, scope.vehicleModel?.id);
+      } catch (error) {
+        console.error('Error running decision tree:', error);
+      }
+      const message = await storage.createMessage({ ...messageData, treeStep: treeTurn?.userStep ?? null });
+      
+      // ストリーミング指定があり、要求元の WebSocket 接続が開いていれば応答を逐次送る
+      const stream = req.body.stream as ChatStreamRequest | undefined;
+      const streamClient = stream?.clientId ? getStreamClient(stream.clientId, req.session.userId!) : null;
+      
+      // 同じチャットに接続している他のメンバーにも送信内容を届ける
+      const exceptClientId = streamClient ? stream!.clientId : undefined;
+      broadcastToChat(chat.id, { type: 'message', chatId: chat.id, message }, { exceptClientId });
+      
+      if (treeTurn) {
+        const treeMessage = await storage.createMessage({
+          content: treeTurn.reply,
+          chatId: chat.id,
+          isAiResponse: true,
+          senderId: null,
+          treeStep: treeTurn.replyStep
+        });
+        const media = treeTurn.imageUrl
+          ? [await storage.createMedia({ messageId: treeMessage.id, type: 'image', url: treeTurn.imageUrl })]
+          : [];
+        const escalation = await escalateIfNeeded(chat, treeMessage, message.content, req.session.userId);
+        const aiMessage = { ...treeMessage, media, escalation };
+        broadcastToChat(chat.id, { type: 'message', chatId: chat.id, message: aiMessage }, { exceptClientId });
+        return res.json({ userMessage: message, aiMessage });
+      }
+      if (stream && streamClient) {
+        const { requestId } = stream;
+        res.status(202).json({ userMessage: message, requestId });
+        
+        sendStreamMessage(streamClient, { type: 'start', requestId, chatId: chat.id });
+        let streamedCitations: ChatCitation[] = [];
+        const result = await streamOpenAIRequest(message.content, useOnlyKnowledgeBase, history, {
+          onCitations: (citations) => {
+            streamedCitations = citations;
+            sendStreamMessage(streamClient, { type: 'citation', requestId, citations });
+          },
+          onDelta: (content) => sendStreamMessage(streamClient, { type: 'delta', requestId, content })
+        }, scope);
+        
+        try {
+          const savedMessage = await storage.createMessage({
+            content: result.content,
+            chatId: chat.id,
+            isAiResponse: true,
+            senderId: null,
+            citations: result.failed || streamedCitations.length === 0 ? null : streamedCitations
+          });
+          const escalation = result.failed ? null : await escalateIfNeeded(chat, savedMessage, message.content, req.session.userId);
+          const aiMessage = { ...savedMessage, escalation };
+          sendStreamMessage(streamClient, result.failed
+            ? { type: 'error', requestId, message: result.content, aiMessage }
+            : { type: 'done', requestId, aiMessage });
+          broadcastToChat(chat.id, { type: 'message', chatId: chat.id, message: aiMessage }, { exceptClientId });
+        } catch (error) {
+          console.error('Error saving streamed AI response:', error);
+          sendStreamMessage(streamClient, { type: 'error', requestId, message: 'AIの応答を保存できませんでした' });
+        }
+        return;
+      }
       
       // AI モデル切り替えフラグ (将来的に設定ページから変更可能に)
       // 一時的にPerplexity機能を無効化
@@ -499,7 +1376,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // 現時点ではPerplexity API未対応のため、OpenAIのみ使用
       // OpenAI API を使用 (デフォルト)
       console.log(`OpenAIモデルを使用`);
-      aiResponse = await processOpenAIRequest(message.content, useOnlyKnowledgeBase);
+      const result = await processOpenAIRequest(message.content, useOnlyKnowledgeBase, history, scope);
+      aiResponse = result.content;
       
       // Perplexity API は一時的に無効化
       /*
@@ -525,18 +1403,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Create AI response message
-      const aiMessage = await storage.createMessage({
+      // ストリーミング時と同じく、参照した資料の箇所を応答に残す（報告書の「参照したマニュアル」に使う）
+      const savedMessage = await storage.createMessage({
         content: aiResponse,
         chatId: chat.id,
         isAiResponse: true,
-        senderId: null
+        senderId: null,
+        citations: result.failed || result.citations.length === 0 ? null : result.citations
       });
+      const escalation = await escalateIfNeeded(chat, savedMessage, message.content, req.session.userId);
+      const aiMessage = { ...savedMessage, escalation };
+      broadcastToChat(chat.id, { type: 'message', chatId: chat.id, message: aiMessage });
       
       return res.json({
         userMessage: message,
         aiMessage
       });
     } catch (error) {
+      if (res.headersSent) {
+        console.error('Error during streamed chat response:', error);
+        return;
+      }
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors });
       }
@@ -617,10 +1504,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Knowledge Base API routes
-  // ドキュメント一覧取得 (一般ユーザーも閲覧可能)
-  app.get('/api/knowledge', requireAuth, (req, res) => {
+  // ドキュメント一覧取得 (一般ユーザーは公開範囲内のものだけ閲覧可能)
+  app.get('/api/knowledge', requireAuth, async (req, res) => {
     try {
-      const documents = listKnowledgeBaseDocuments();
+      const documents = listKnowledgeBaseDocuments(await storage.getUser(req.session.userId!));
       console.log('ナレッジベース一覧結果:', documents);
       res.json(documents);
     } catch (error) {
@@ -629,8 +1516,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // 検索結果の根拠表示 (管理者のみ)
+  app.get('/api/knowledge/search', requireAuth, requirePermission('knowledge:manage'), async (req, res) => {
+    try {
+      const query = req.query.q as string;
+      if (!query) {
+        return res.status(400).json({ error: '検索クエリが必要です' });
+      }
+      
+      const modes: RetrievalMode[] = ['keyword', 'semantic', 'hybrid'];
+      const mode = modes.includes(req.query.mode as RetrievalMode) ? req.query.mode as RetrievalMode : undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      
+      // 型式を指定した場合はチャットと同じく型式の資料を優先する
+      const vehicleModelId = req.query.vehicleModelId ? parseInt(req.query.vehicleModelId as string) : undefined;
+      const vehicleModel = vehicleModelId ? await storage.getVehicleModel(vehicleModelId) : undefined;
+      const scopeMode = req.query.scope === 'limit' || req.query.scope === 'prefer' ? req.query.scope as ModelScopeMode : undefined;
+      
+      // チャットと同じクエリ理解を通す（mode/limit 指定時はそちらを優先）
+      const understanding = await understandQuery(query, { llm: 'never' });
+      const { expansion } = understanding;
+      const hits = await explainKnowledgeSearch(understanding.searchQuery, {
+        mode: mode || understanding.strategy.mode,
+        limit: limit || understanding.strategy.limit,
+        expansion,
+        scope: { vehicleModel, mode: scopeMode, viewer: res.locals.user as User }
+      });
+      res.json({
+        query,
+        normalizedQuery: understanding.normalizedQuery,
+        intent: understanding.intent,
+        entities: understanding.entities,
+        expandedQuery: expansion.expandedQuery,
+        matchedTerms: expansion.matchedTerms.map(term => term.term),
+        results: hits.map(hit => ({
+          rank: hit.rank,
+          docId: hit.docId,
+          document: hit.documentTitle,
+          chunkNumber: hit.chunkNumber,
+          location: formatChunkLocation(hit.chunk),
+          scores: hit.scores,
+          modelScope: hit.modelScope,
+          text: hit.chunk.text
+        }))
+      });
+    } catch (error) {
+      console.error('Error explaining knowledge search:', error);
+      const errorMessage = error instanceof Error ? error.message : '不明なエラー';
+      res.status(500).json({ error: '検索に失敗しました: ' + errorMessage });
+    }
+  });
+  
   // ドキュメントアップロード
-  app.post('/api/knowledge/upload', requireAuth, requireAdmin, upload.single('file'), async (req, res) => {
+  app.post('/api/knowledge/upload', requireAuth, requirePermission('knowledge:manage'), upload.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'ファイルがありません' });
@@ -638,7 +1576,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const filePath = req.file.path;
       try {
-        const docId = await addDocumentToKnowledgeBase(filePath);
+        // 公開範囲は multipart の visibility フィールドに JSON で指定する（省略時は全員に公開）
+        const visibility = req.body.visibility
+          ? documentVisibilitySchema.parse(JSON.parse(req.body.visibility))
+          : undefined;
+        const docId = await addDocumentToKnowledgeBase(filePath, { visibility });
+        await recordAuditEvent(req, res.locals.user, {
+          action: 'knowledge.upload', targetType: 'knowledge_document', targetId: docId,
+          after: { fileName: req.file.originalname, visibility: visibility ?? null }
+        });
         return res.status(201).json({ 
           success: true, 
           docId,
@@ -652,6 +1598,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         throw err;
       }
     } catch (error) {
+      if (error instanceof z.ZodError || error instanceof SyntaxError) {
+        return res.status(400).json({ message: error instanceof z.ZodError ? error.errors : '公開範囲の形式が正しくありません' });
+      }
       console.error('Error uploading document:', error);
       const errorMessage = error instanceof Error ? error.message : '不明なエラー';
       res.status(500).json({ error: '知識ベースへの追加に失敗しました: ' + errorMessage });
@@ -659,12 +1608,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // ドキュメント削除
-  app.delete('/api/knowledge/:docId', requireAuth, requireAdmin, (req, res) => {
+  app.delete('/api/knowledge/:docId', requireAuth, requirePermission('knowledge:manage'), async (req, res) => {
     try {
       const docId = req.params.docId;
+      const document = listKnowledgeBaseDocuments(res.locals.user as User).find(doc => doc.id === docId);
       const success = removeDocumentFromKnowledgeBase(docId);
       
       if (success) {
+        await recordAuditEvent(req, res.locals.user, {
+          action: 'knowledge.delete', targetType: 'knowledge_document', targetId: docId,
+          before: document ? { title: document.title, type: document.type } : undefined
+        });
         res.json({ success: true, message: 'ドキュメントが正常に削除されました' });
       } else {
         res.status(404).json({ error: '指定されたドキュメントが見つかりません' });
@@ -676,21 +1630,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // ドキュメントに適用する車両型式を設定（空配列で全型式共通）
+  app.put('/api/knowledge/:docId/models', requireAuth, requirePermission('knowledge:manage'), async (req, res) => {
+    try {
+      const { vehicleModelIds } = z.object({ vehicleModelIds: z.array(z.number().int()) }).parse(req.body);
+      const document = listKnowledgeBaseDocuments(res.locals.user as User).find(doc => doc.id === req.params.docId);
+      if (!setDocumentVehicleModels(req.params.docId, vehicleModelIds)) {
+        return res.status(404).json({ error: '指定されたドキュメントが見つかりません' });
+      }
+      await recordAuditEvent(req, res.locals.user, {
+        action: 'knowledge.update_models', targetType: 'knowledge_document', targetId: req.params.docId,
+        before: document ? { title: document.title, vehicleModelIds: document.vehicleModelIds } : undefined,
+        after: { vehicleModelIds }
+      });
+      res.json({ success: true, vehicleModelIds });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error('Error tagging document:', error);
+      res.status(500).json({ error: '車両型式の設定に失敗しました' });
+    }
+  });
+  
+  // ドキュメントの公開範囲を設定（部署・役割を空にすると全員に公開）
+  app.put('/api/knowledge/:docId/visibility', requireAuth, requirePermission('knowledge:manage'), async (req, res) => {
+    try {
+      const visibility = documentVisibilitySchema.parse(req.body);
+      const document = listKnowledgeBaseDocuments(res.locals.user as User).find(doc => doc.id === req.params.docId);
+      if (!setDocumentVisibility(req.params.docId, visibility)) {
+        return res.status(404).json({ error: '指定されたドキュメントが見つかりません' });
+      }
+      await recordAuditEvent(req, res.locals.user, {
+        action: 'knowledge.update_visibility', targetType: 'knowledge_document', targetId: req.params.docId,
+        before: document ? { title: document.title, visibility: document.visibility } : undefined,
+        after: { visibility }
+      });
+      res.json({ success: true, visibility });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error('Error setting document visibility:', error);
+      res.status(500).json({ error: '公開範囲の設定に失敗しました' });
+    }
+  });
+  
+  // 画像検索データ（元の資料が公開範囲外のスライド・画像を除く）
+  app.get('/api/knowledge/image-search-data', requireAuth, async (req, res) => {
+    try {
+      res.json(loadVisibleImageSearchData(await storage.getUser(req.session.userId!)));
+    } catch (error) {
+      console.error('Error loading image search data:', error);
+      res.status(500).json({ error: '画像検索データの取得に失敗しました' });
+    }
+  });
+  
+  // public/uploads のファイル（スライド画像・メタデータ・技術支援資料）
+  // ログインユーザーにだけ、元の資料の公開範囲に従って配信する（/static の公開配信からは外している）
+  app.get(['/uploads/*', '/static/uploads/*'], requireAuth, async (req, res) => {
+    try {
+      const relative = path.posix.normalize(req.params[0]);
+      const filePath = path.resolve(PUBLIC_UPLOADS_DIR, relative);
+      if (!filePath.startsWith(PUBLIC_UPLOADS_DIR + path.sep)) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      const viewer = await storage.getUser(req.session.userId!);
+      // 画像検索データは閲覧できる項目だけに絞って返す
+      if (relative === 'data/image_search_data.json') {
+        return res.json(loadVisibleImageSearchData(viewer).images);
+      }
+      if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile() || !canViewUploadedFile(`/uploads/${relative}`, viewer)) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      res.sendFile(filePath);
+    } catch (error) {
+      console.error('Error serving uploaded file:', error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
   // ドキュメント再処理
-  app.post('/api/knowledge/:docId/process', requireAuth, requireAdmin, async (req, res) => {
+  app.post('/api/knowledge/:docId/process', requireAuth, requirePermission('knowledge:manage'), async (req, res) => {
     try {
       const docId = req.params.docId;
       
       // ナレッジベースからドキュメント情報を取得
-      const documents = listKnowledgeBaseDocuments();
+      const documents = listKnowledgeBaseDocuments(res.locals.user as User);
       const document = documents.find(doc => doc.id === docId);
       
       if (!document) {
         return res.status(404).json({ error: '指定されたドキュメントが見つかりません' });
       }
       
-      // ドキュメントのパスを取得
-      const docPath = path.join(process.cwd(), 'knowledge-base', document.title);
+      // ドキュメントのパスを取得（インデックスに保存されたコピー先を優先）
+      const indexedPath = loadKnowledgeBaseIndex().documents.find(doc => doc.id === docId)?.path;
+      const docPath = indexedPath || path.join(process.cwd(), 'knowledge-base', document.title);
       
       if (!fs.existsSync(docPath)) {
         return res.status(404).json({ error: 'ドキュメントファイルが見つかりません: ' + docPath });
@@ -698,8 +1734,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       console.log(`ドキュメント再処理を開始: ${docPath}`);
       
-      // 再処理を実行
-      const newDocId = await addDocumentToKnowledgeBase(docPath);
+      // 再処理を実行（公開範囲は引き継ぐ）
+      const newDocId = await addDocumentToKnowledgeBase(docPath, { visibility: document.visibility });
+      setDocumentVehicleModels(newDocId, document.vehicleModelIds);
+      // 元ファイルは新しいドキュメントにコピー済みのため、旧エントリとチャンクを削除して重複を防ぐ
+      removeDocumentFromKnowledgeBase(docId);
+      await recordAuditEvent(req, res.locals.user, {
+        action: 'knowledge.reprocess', targetType: 'knowledge_document', targetId: newDocId,
+        before: { docId, title: document.title }
+      });
       
       res.json({ 
         success: true, 
@@ -713,6 +1756,414 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // 車両型式・車両 API (一覧は全ユーザー、登録・変更は管理者のみ)
+  app.get('/api/vehicle-models', requireAuth, async (req, res) => {
+    try {
+      const models = await storage.getVehicleModels();
+      return res.json(models);
+    } catch (error) {
+      console.error('Error fetching vehicle models:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.post('/api/vehicle-models', requireAuth, requirePermission('vehicles:manage'), async (req, res) => {
+    try {
+      const model = await storage.createVehicleModel(insertVehicleModelSchema.parse(req.body));
+      return res.status(201).json(model);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error('Error creating vehicle model:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.patch('/api/vehicle-models/:id', requireAuth, requirePermission('vehicles:manage'), async (req, res) => {
+    try {
+      const updates = insertVehicleModelSchema.partial().parse(req.body);
+      const model = await storage.updateVehicleModel(parseInt(req.params.id), updates);
+      if (!model) {
+        return res.status(404).json({ message: "Vehicle model not found" });
+      }
+      return res.json(model);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error('Error updating vehicle model:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.delete('/api/vehicle-models/:id', requireAuth, requirePermission('vehicles:manage'), async (req, res) => {
+    try {
+      const modelId = parseInt(req.params.id);
+      const vehicles = await storage.getVehicles();
+      if (vehicles.some(vehicle => vehicle.modelId === modelId)) {
+        return res.status(409).json({ message: "この型式の車両が登録されているため削除できません" });
+      }
+      
+      await storage.deleteVehicleModel(modelId);
+      return res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting vehicle model:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.get('/api/vehicles', requireAuth, async (req, res) => {
+    try {
+      const vehicles = await storage.getVehicles();
+      return res.json(vehicles);
+    } catch (error) {
+      console.error('Error fetching vehicles:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.post('/api/vehicles', requireAuth, requirePermission('vehicles:manage'), async (req, res) => {
+    try {
+      const vehicle = await storage.createVehicle(insertVehicleSchema.parse(req.body));
+      return res.status(201).json(vehicle);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error('Error creating vehicle:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.patch('/api/vehicles/:id', requireAuth, requirePermission('vehicles:manage'), async (req, res) => {
+    try {
+      const updates = insertVehicleSchema.partial().parse(req.body);
+      const vehicle = await storage.updateVehicle(parseInt(req.params.id), updates);
+      if (!vehicle) {
+        return res.status(404).json({ message: "Vehicle not found" });
+      }
+      return res.json(vehicle);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error('Error updating vehicle:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.delete('/api/vehicles/:id', requireAuth, requirePermission('vehicles:manage'), async (req, res) => {
+    try {
+      await storage.deleteVehicle(parseInt(req.params.id));
+      return res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting vehicle:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // 履歴送信先 API (管理者のみ)
+  // 署名用シークレットとSMTPパスワードは返さず、設定済みかどうかだけを返す
+  const toDestinationResponse = (destination: ExportDestination) => {
+    const { secret, password, ...config } = destination.config as { secret?: string, password?: string };
+    return { ...destination, config, hasSecret: Boolean(secret || password) };
+  };
+  
+  // 更新時に空欄のシークレット・パスワードは保存済みの値を引き継ぐ
+  const keepDestinationSecrets = (current: ExportDestination, updates: InsertExportDestination): InsertExportDestination => {
+    if (current.type !== updates.type) return updates;
+    const saved = current.config as { secret?: string, password?: string };
+    if (updates.type === 'webhook' && !updates.config.secret) {
+      return { ...updates, config: { ...updates.config, secret: saved.secret } };
+    }
+    if (updates.type === 'email' && !updates.config.password) {
+      return { ...updates, config: { ...updates.config, password: saved.password } };
+    }
+    return updates;
+  };
+  
+  app.get('/api/export-destinations', requireAuth, requirePermission('export_destinations:manage'), async (req, res) => {
+    try {
+      const destinations = await storage.getExportDestinations();
+      return res.json(destinations.map(toDestinationResponse));
+    } catch (error) {
+      console.error('Error fetching export destinations:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.post('/api/export-destinations', requireAuth, requirePermission('export_destinations:manage'), async (req, res) => {
+    try {
+      const destinationData = insertExportDestinationSchema.parse(req.body);
+      if (destinationData.type === 'webhook' && !destinationData.config.secret) {
+        return res.status(400).json({ message: "Webhook には署名用シークレットを指定してください" });
+      }
+      
+      const destination = await storage.createExportDestination(destinationData);
+      return res.status(201).json(toDestinationResponse(destination));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error('Error creating export destination:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.put('/api/export-destinations/:id', requireAuth, requirePermission('export_destinations:manage'), async (req, res) => {
+    try {
+      const destinationId = parseInt(req.params.id);
+      const current = await storage.getExportDestination(destinationId);
+      if (!current || current.deletedAt) {
+        return res.status(404).json({ message: "Export destination not found" });
+      }
+      
+      const updates = keepDestinationSecrets(current, insertExportDestinationSchema.parse(req.body));
+      if (updates.type === 'webhook' && !updates.config.secret) {
+        return res.status(400).json({ message: "Webhook には署名用シークレットを指定してください" });
+      }
+      
+      const destination = await storage.updateExportDestination(destinationId, updates);
+      return res.json(destination && toDestinationResponse(destination));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error('Error updating export destination:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.delete('/api/export-destinations/:id', requireAuth, requirePermission('export_destinations:manage'), async (req, res) => {
+    try {
+      await storage.deleteExportDestination(parseInt(req.params.id));
+      return res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting export destination:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // 送信先の設定を確認するためのテスト送信
+  app.post('/api/export-destinations/:id/test', requireAuth, requirePermission('export_destinations:manage'), async (req, res) => {
+    try {
+      const destination = await storage.getExportDestination(parseInt(req.params.id));
+      if (!destination || destination.deletedAt) {
+        return res.status(404).json({ message: "Export destination not found" });
+      }
+      
+      const error = await sendTestDelivery(destination);
+      return res.json({ success: !error, error });
+    } catch (error) {
+      console.error('Error testing export destination:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  // 配信ログ（新しい順）
+  app.get('/api/export-deliveries', requireAuth, requirePermission('export_destinations:manage'), async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const deliveries = await storage.getRecentExportDeliveries(limit);
+      return res.json(deliveries);
+    } catch (error) {
+      console.error('Error fetching export deliveries:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // 判定ツリー API (管理者のみ)
+  app.get('/api/decision-trees', requireAuth, requirePermission('decision_trees:manage'), async (req, res) => {
+    try {
+      const trees = await storage.getDecisionTrees();
+      return res.json(trees);
+    } catch (error) {
+      console.error('Error fetching decision trees:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.post('/api/decision-trees', requireAuth, requirePermission('decision_trees:manage'), async (req, res) => {
+    try {
+      const treeData = insertDecisionTreeSchema.parse(req.body);
+      const errors = validateDecisionTree(treeData.rootNodeId, treeData.nodes);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: errors.join('\n') });
+      }
+      
+      const tree = await storage.createDecisionTree(treeData);
+      return res.status(201).json(tree);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error('Error creating decision tree:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.patch('/api/decision-trees/:id', requireAuth, requirePermission('decision_trees:manage'), async (req, res) => {
+    try {
+      const treeId = parseInt(req.params.id);
+      const current = await storage.getDecisionTree(treeId);
+      if (!current) {
+        return res.status(404).json({ message: "Decision tree not found" });
+      }
+      
+      const updates = insertDecisionTreeSchema.partial().parse(req.body);
+      const errors = validateDecisionTree(updates.rootNodeId ?? current.rootNodeId, updates.nodes ?? current.nodes);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: errors.join('\n') });
+      }
+      
+      const tree = await storage.updateDecisionTree(treeId, updates);
+      return res.json(tree);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error('Error updating decision tree:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.delete('/api/decision-trees/:id', requireAuth, requirePermission('decision_trees:manage'), async (req, res) => {
+    try {
+      await storage.deleteDecisionTree(parseInt(req.params.id));
+      return res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting decision tree:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // 保守担当者の連絡先 API (管理者のみ)
+  app.get('/api/maintenance-contacts', requireAuth, requirePermission('maintenance_contacts:manage'), async (req, res) => {
+    try {
+      const contacts = await storage.getMaintenanceContacts();
+      return res.json(contacts);
+    } catch (error) {
+      console.error('Error fetching maintenance contacts:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.post('/api/maintenance-contacts', requireAuth, requirePermission('maintenance_contacts:manage'), async (req, res) => {
+    try {
+      const contactData = insertMaintenanceContactSchema.parse(req.body);
+      const contact = await storage.createMaintenanceContact(contactData);
+      return res.status(201).json(contact);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error('Error creating maintenance contact:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.patch('/api/maintenance-contacts/:id', requireAuth, requirePermission('maintenance_contacts:manage'), async (req, res) => {
+    try {
+      const contactId = parseInt(req.params.id);
+      const updates = insertMaintenanceContactSchema.partial().parse(req.body);
+      
+      const contact = await storage.updateMaintenanceContact(contactId, updates);
+      if (!contact) {
+        return res.status(404).json({ message: "Maintenance contact not found" });
+      }
+      
+      return res.json(contact);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error('Error updating maintenance contact:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.delete('/api/maintenance-contacts/:id', requireAuth, requirePermission('maintenance_contacts:manage'), async (req, res) => {
+    try {
+      const contactId = parseInt(req.params.id);
+      const contact = await storage.getMaintenanceContact(contactId);
+      if (!contact) {
+        return res.status(404).json({ message: "Maintenance contact not found" });
+      }
+      
+      // 過去のエスカレーション記録には案内した時点の連絡先が残る
+      await storage.deleteMaintenanceContact(contactId);
+      return res.json({ message: "Maintenance contact deleted successfully" });
+    } catch (error) {
+      console.error('Error deleting maintenance contact:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // 用語辞書 API (管理者のみ)
+  app.get('/api/glossary', requireAuth, requirePermission('glossary:manage'), async (req, res) => {
+    try {
+      const terms = await storage.getGlossaryTerms();
+      return res.json(terms);
+    } catch (error) {
+      console.error('Error fetching glossary terms:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.post('/api/glossary', requireAuth, requirePermission('glossary:manage'), async (req, res) => {
+    try {
+      const termData = insertGlossaryTermSchema.parse(req.body);
+      const term = await storage.createGlossaryTerm(termData);
+      invalidateGlossaryCache();
+      return res.status(201).json(term);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error('Error creating glossary term:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.patch('/api/glossary/:id', requireAuth, requirePermission('glossary:manage'), async (req, res) => {
+    try {
+      const termId = parseInt(req.params.id);
+      const updates = insertGlossaryTermSchema.partial().parse(req.body);
+      
+      const term = await storage.updateGlossaryTerm(termId, updates);
+      if (!term) {
+        return res.status(404).json({ message: "Glossary term not found" });
+      }
+      
+      invalidateGlossaryCache();
+      return res.json(term);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error('Error updating glossary term:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+  
+  app.delete('/api/glossary/:id', requireAuth, requirePermission('glossary:manage'), async (req, res) => {
+    try {
+      const termId = parseInt(req.params.id);
+      const term = await storage.getGlossaryTerm(termId);
+      if (!term) {
+        return res.status(404).json({ message: "Glossary term not found" });
+      }
+      
+      await storage.deleteGlossaryTerm(termId);
+      invalidateGlossaryCache();
+      return res.json({ message: "Glossary term deleted successfully" });
+    } catch (error) {
+      console.error('Error deleting glossary term:', error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
   // OpenAI API routes
   app.post("/api/chatgpt", requireAuth, async (req, res) => {
     try {
@@ -723,7 +2174,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       console.log(`ChatGPT API呼び出し: ナレッジベースのみを使用=${useOnlyKnowledgeBase}`);
-      const response = await processOpenAIRequest(text, useOnlyKnowledgeBase);
+      const viewer = await storage.getUser(req.session.userId!);
+      const { content: response } = await processOpenAIRequest(text, useOnlyKnowledgeBase, [], { viewer });
       
       // Check for specific error messages returned from OpenAI
       if (response.includes("OpenAI APIキーが無効")) {
@@ -749,8 +2201,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Text is required" });
       }
       
-      const optimizedQuery = await generateSearchQuery(text);
-      return res.json({ optimizedQuery });
+      const understanding = await understandQuery(text, { llm: 'always' });
+      return res.json({
+        optimizedQuery: understanding.searchQuery,
+        intent: understanding.intent,
+        entities: understanding.entities
+      });
     } catch (error) {
       console.error("Error in /api/optimize-search-query:", error);
       return res.status(500).json({ message: "Error optimizing search query" });
@@ -783,42 +2239,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // 再試行待ちの履歴配信を処理する
+  startExportDeliveryWorker();
+  
+  // 環境変数で設定されたエスカレーションの通知手段を登録する
+  registerEscalationNotifiersFromEnv();
+
   // Create HTTP server
   const httpServer = createServer(app);
   
-  // Set up WebSocket server for real-time chat on a specific path to avoid conflict with Vite
-  const wss = new WebSocketServer({ 
-    server: httpServer,
-    path: '/ws'  // Use a specific path to avoid conflict with Vite's WebSocket
+  // Set up WebSocket server for real-time chat.
+  // Upgrades are handled manually so that only /ws is taken (Vite uses its own WebSocket)
+  // and the express-session cookie can be checked before the connection is accepted.
+  const wss = new WebSocketServer({ noServer: true });
+  
+  httpServer.on('upgrade', (req, socket, head) => {
+    if (!req.url || new URL(req.url, 'http://localhost').pathname !== '/ws') {
+      return;
+    }
+    
+    const request = req as Request;
+    sessionMiddleware(request, {} as Response, async () => {
+      const userId = request.session?.userId;
+      const user = userId ? await storage.getUser(userId).catch(() => undefined) : undefined;
+      if (!user) {
+        socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+      
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        wss.emit('connection', ws, req, user);
+      });
+    });
   });
   
-  // Make sure to properly import WebSocket type
-  wss.on('connection', (ws: WebSocket) => {
-    console.log("WebSocket client connected");
+  // チャットの購読可否（参加メンバーとして閲覧者以上の役割を持つユーザー）
+  const canJoinChat = async (chatId: number, user: User) => {
+    const chat = await storage.getChat(chatId);
+    if (!chat) return false;
+    return hasChatRole(await resolveChatRole(chat, user), 'observer');
+  };
+  
+  wss.on('connection', (ws: WebSocket, req: Request, user: User) => {
+    console.log(`WebSocket client connected: userId=${user.id}`);
+    const clientId = registerStreamClient(ws, { userId: user.id, displayName: user.displayName }, req.sessionID);
     
-    ws.on('message', (message: string) => {
-      console.log("Received message:", message);
-      // Broadcast message to all clients
-      wss.clients.forEach((client) => {
-        if (client !== ws && client.readyState === WebSocket.OPEN) {
-          client.send(message);
+    ws.on('message', async (data) => {
+      let message: ChatClientMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      
+      const chatId = Number(message.chatId);
+      if (!Number.isInteger(chatId)) return;
+      
+      try {
+        switch (message.type) {
+          case 'subscribe': {
+            // 接続後に役割が変わっている場合があるため、購読のたびに最新のユーザーで判定する
+            const current = await storage.getUser(user.id);
+            if (!current || !(await canJoinChat(chatId, current))) {
+              sendStreamMessage(ws, { type: 'denied', chatId, message: 'このチャットに参加する権限がありません' });
+              return;
+            }
+            sendStreamMessage(ws, { type: 'subscribed', chatId, members: subscribeToChat(clientId, chatId) });
+            break;
+          }
+          case 'unsubscribe':
+            unsubscribeFromChat(clientId, chatId);
+            break;
+          case 'typing': {
+            const sender = getStreamClientUser(clientId);
+            if (!sender || !isSubscribedToChat(clientId, chatId)) return;
+            broadcastToChat(chatId, { type: 'typing', chatId, user: sender, isTyping: !!message.isTyping }, { exceptClientId: clientId });
+            break;
+          }
         }
-      });
+      } catch (error) {
+        console.error("WebSocket message handling error:", error);
+      }
     });
     
     ws.on('close', () => {
-      console.log("WebSocket client disconnected");
+      console.log(`WebSocket client disconnected: userId=${user.id}`);
     });
     
     ws.on('error', (error) => {
       console.error("WebSocket error:", error);
     });
     
-    // Send a welcome message
-    ws.send(JSON.stringify({
+    // Send a welcome message with the id used to route streamed AI responses to this client
+    sendStreamMessage(ws, {
       type: 'system',
+      clientId,
       content: 'Connected to Emergency Recovery Chat WebSocket server'
-    }));
+    });
   });
 
   return httpServer;
@@ -1,10 +1,13 @@
 import express from 'express';
 import multer from 'multer';
+import { z } from 'zod';
 import fs from 'fs';
 import path from 'path';
 import sharp from 'sharp';
 import { processDocument, extractPdfText, extractWordText, extractExcelText, extractPptxText } from '../lib/document-processor';
 import { addDocumentToKnowledgeBase } from '../lib/knowledge-base';
+import { recordAuditEvent } from '../lib/audit';
+import { documentVisibilitySchema, type DocumentVisibility } from '@shared/document-visibility';
 
 // ディレクトリ作成用ヘルパー関数
 function ensureDirectoryExists(directory: string) {
@@ -61,43 +64,10 @@ const upload = multer({
   }
 });
 
+// 認証と権限の確認は routes.ts でマウントするときに行う
+// （アップロード・初期化は knowledge:manage を持つユーザーのみ。res.locals.user に操作者が入る）
 const router = express.Router();
 
-/**
- * JSON ファイル一覧を取得するエンドポイント
- * 最新のJSONファイルを優先的に取得
- */
-router.get('/list-json-files', (req, res) => {
-  try {
-    const jsonDir = path.join(process.cwd(), 'public', 'uploads', 'json');
-    
-    // ディレクトリが存在しない場合は作成
-    if (!fs.existsSync(jsonDir)) {
-      fs.mkdirSync(jsonDir, { recursive: true });
-      return res.json([]);
-    }
-    
-    // メタデータJSONファイルのみをフィルタリング
-    const jsonFiles = fs.readdirSync(jsonDir)
-      .filter(file => file.endsWith('_metadata.json'))
-      .sort((a, b) => {
-        // タイムスタンプでソート（新しい順）
-        // ファイル名からタイムスタンプを抽出: mc_1744105287121_metadata.json -> 1744105287121
-        const timestampA = a.split('_')[1] || '0';
-        const timestampB = b.split('_')[1] || '0';
-        return parseInt(timestampB) - parseInt(timestampA);
-      });
-    
-    return res.json(jsonFiles);
-  } catch (error) {
-    console.error('JSONファイル一覧取得エラー:', error);
-    return res.status(500).json({
-      error: 'JSONファイル一覧の取得に失敗しました',
-      details: error instanceof Error ? error.message : String(error)
-    });
-  }
-});
-
 /**
  * 技術サポート文書のアップロードと処理を行うエンドポイント
  */
@@ -189,6 +159,11 @@ router.post('/init-image-search-data', async (req, res) => {
     // JSONファイルに保存
     fs.writeFileSync(imageSearchDataPath, JSON.stringify(initialData, null, 2));
     console.log(`画像検索データを初期化しました: ${initialData.length}件`);
+    await recordAuditEvent(req, res.locals.user, {
+      action: 'tech_support.init_image_search_data',
+      targetType: 'image_search_data',
+      after: { count: initialData.length }
+    });
     
     return res.json({
       success: true,
@@ -210,6 +185,16 @@ router.post('/upload', upload.single('file'), async (req, res) => {
     const file = req.file;
     if (!file) return res.status(400).json({ error: "ファイルがアップロードされていません" });
 
+    // 公開範囲は multipart の visibility フィールドに JSON で指定する（省略時は全員に公開）
+    // ナレッジベースに追加した後で制限すると、それまで全員が参照できてしまうため、アップロード時に指定する
+    let visibility: DocumentVisibility | undefined;
+    try {
+      visibility = req.body.visibility ? documentVisibilitySchema.parse(JSON.parse(req.body.visibility)) : undefined;
+    } catch (error) {
+      if (fs.existsSync(file.path)) fs.unlinkSync(file.path);
+      return res.status(400).json({ error: '公開範囲の形式が正しくありません', details: error instanceof z.ZodError ? error.errors : undefined });
+    }
+
     console.log(`ファイルアップロード処理開始: ${file.originalname}`);
     
     // 元ファイルを保存するかどうかのフラグを取得
@@ -327,6 +312,12 @@ router.post('/upload', upload.single('file'), async (req, res) => {
         // 更新したデータを書き込み
         fs.writeFileSync(imageSearchDataPath, JSON.stringify(imageSearchData, null, 2));
         console.log(`画像検索データを更新しました: ${imageSearchData.length}件`);
+        await recordAuditEvent(req, res.locals.user, {
+          action: 'tech_support.upload',
+          targetType: 'image_search_item',
+          targetId: fileId,
+          after: { fileName: file.originalname, processingType, fileSize: file.size }
+        });
         
         // 元ファイルを保存するオプションがオフの場合、元ファイルを削除
         if (!keepOriginalFile) {
@@ -478,10 +469,16 @@ router.post('/upload', upload.single('file'), async (req, res) => {
       
       // 更新したデータを書き込み
       fs.writeFileSync(extractedDataPath, JSON.stringify(extractedData, null, 2));
+      await recordAuditEvent(req, res.locals.user, {
+        action: 'tech_support.upload',
+        targetType: 'tech_support_document',
+        targetId: newData.id,
+        after: { fileName: file.originalname, processingType, fileSize: file.size, metadataFile: metadataFileName, visibility: visibility ?? null }
+      });
       
       // ナレッジベースへの追加を試みる
       try {
-        await addDocumentToKnowledgeBase(filePath);
+        await addDocumentToKnowledgeBase(filePath, { visibility });
       } catch (kbError) {
         console.error("ナレッジベースへの追加エラー:", kbError);
         // ナレッジベースへの追加に失敗しても処理は続行
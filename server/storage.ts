@@ -1,17 +1,80 @@
 import { 
   users, type User, type InsertUser,
+  loginSessions, type LoginSession, type InsertLoginSession,
+  apiTokens, type ApiToken, type InsertApiToken,
+  loginAttempts, type LoginAttempt, type InsertLoginAttempt, type LoginAttemptResult,
+  auditEvents, type AuditEvent, type InsertAuditEvent, type AuditAction,
   messages, type Message, type InsertMessage,
   media, type Media, type InsertMedia,
   chats, type Chat, type InsertChat,
+  vehicleModels, type VehicleModel, type InsertVehicleModel,
+  vehicles, type Vehicle, type InsertVehicle,
+  chatMembers, type ChatMember, type InsertChatMember,
+  decisionTrees, type DecisionTree, type InsertDecisionTree,
+  decisionTreeRuns, type DecisionTreeRun, type InsertDecisionTreeRun,
+  maintenanceContacts, type MaintenanceContact, type InsertMaintenanceContact,
+  chatEscalations, type ChatEscalation, type InsertChatEscalation,
+  incidents, type Incident, type InsertIncident, type IncidentStatus, type IncidentSeverity,
   documents, type Document, type InsertDocument,
   keywords, type Keyword, type InsertKeyword,
-  chatExports, type ChatExport, type InsertChatExport
+  chatExports, type ChatExport, type InsertChatExport,
+  exportDestinations, type ExportDestination, type InsertExportDestination, type ExportDestinationType,
+  exportDeliveries, type ExportDelivery, type InsertExportDelivery,
+  glossaryTerms, type GlossaryTerm, type InsertGlossaryTerm
 } from "@shared/schema";
 import session from "express-session";
 import { DatabaseStorage } from "./database-storage";
 
 // 注: schemaから直接ChatExportを使用します
 
+// 表示用のユーザー情報付きチャットメンバー
+export type ChatMemberWithUser = ChatMember & {
+  username: string;
+  displayName: string;
+};
+
+// 型式情報付きの車両
+export type VehicleWithModel = Vehicle & {
+  model: VehicleModel;
+};
+
+// 送信先とチャットの情報付きの配信記録（配信ログの表示用）
+export type ExportDeliveryWithDestination = ExportDelivery & {
+  destinationName: string;
+  destinationType: ExportDestinationType;
+  chatId: number;
+};
+
+// ログイン試行履歴の絞り込み条件
+export interface LoginAttemptFilter {
+  username?: string;
+  ipAddress?: string;
+  result?: LoginAttemptResult;
+  limit?: number;
+}
+
+// 監査ログの絞り込み条件（指定した条件すべてに一致するものを返す）
+export interface AuditEventFilter {
+  actorUsername?: string;
+  action?: AuditAction;
+  targetType?: string;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// インシデント一覧の絞り込み条件（指定した条件すべてに一致するものを返す）
+export interface IncidentFilter {
+  status?: IncidentStatus;
+  severity?: IncidentSeverity;
+  vehicle?: string; // 部分一致
+  symptomCategory?: string;
+  from?: Date; // 発生日時の範囲
+  to?: Date;
+  department?: string; // チャット作成者の部署（監督者向け）
+}
+
 export interface IStorage {
   // Session store
   sessionStore: session.Store;
@@ -19,14 +82,90 @@ export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  getUserByOidcSubject(subject: string): Promise<User | undefined>;
+  createUser(user: InsertUser & Pick<Partial<User>, 'oidcSubject'>): Promise<User>; // oidcSubject は SSO での作成時だけ指定する
   updateUser(id: number, user: Partial<User>): Promise<User>;
   deleteUser(id: number): Promise<void>;
   
+  // Login session methods
+  getLoginSessionsForUser(userId: number): Promise<LoginSession[]>;
+  getLoginSession(id: number): Promise<LoginSession | undefined>;
+  createLoginSession(loginSession: InsertLoginSession): Promise<LoginSession>;
+  touchLoginSession(sid: string, lastSeenAt: Date): Promise<void>;
+  deleteLoginSession(sid: string): Promise<void>;
+  
+  // API token methods
+  getApiTokensForUser(userId: number): Promise<ApiToken[]>; // 新しい順
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(apiToken: InsertApiToken): Promise<ApiToken>;
+  touchApiToken(id: number, lastUsedAt: Date, lastUsedIp: string | null): Promise<void>;
+  deleteApiToken(id: number): Promise<void>;
+  
+  // Login attempt methods
+  createLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt>;
+  updateLoginAttemptResult(id: number, result: LoginAttemptResult): Promise<void>;
+  getLoginAttempts(filter?: LoginAttemptFilter): Promise<LoginAttempt[]>; // 新しい順
+  // since 以降の認証失敗（照合中を含む）の回数と最後の失敗時刻
+  // beforeId を指定した場合は、その試行より前に記録されたものだけを数える
+  getLoginFailureStats(key: { username: string } | { ipAddress: string }, since: Date, beforeId?: number): Promise<{ count: number; lastFailureAt: Date | null }>;
+  
+  // Audit event methods（追記のみで、更新・削除はしない）
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  getAuditEvents(filter?: AuditEventFilter): Promise<AuditEvent[]>; // 新しい順
+  
   // Chat methods
   getChat(id: number): Promise<Chat | undefined>;
   getChatsForUser(userId: number): Promise<Chat[]>;
   createChat(chat: InsertChat): Promise<Chat>;
+  updateChat(id: number, updates: Partial<InsertChat>): Promise<Chat | undefined>;
+  
+  // Vehicle methods
+  getVehicleModels(): Promise<VehicleModel[]>;
+  getVehicleModel(id: number): Promise<VehicleModel | undefined>;
+  createVehicleModel(model: InsertVehicleModel): Promise<VehicleModel>;
+  updateVehicleModel(id: number, updates: Partial<InsertVehicleModel>): Promise<VehicleModel | undefined>;
+  deleteVehicleModel(id: number): Promise<void>;
+  getVehicles(): Promise<VehicleWithModel[]>;
+  getVehicle(id: number): Promise<VehicleWithModel | undefined>;
+  createVehicle(vehicle: InsertVehicle): Promise<Vehicle>;
+  updateVehicle(id: number, updates: Partial<InsertVehicle>): Promise<Vehicle | undefined>;
+  deleteVehicle(id: number): Promise<void>;
+  
+  // Chat member methods
+  getChatMembers(chatId: number): Promise<ChatMemberWithUser[]>;
+  getChatMember(chatId: number, userId: number): Promise<ChatMember | undefined>;
+  addChatMember(member: InsertChatMember): Promise<ChatMember>;
+  removeChatMember(chatId: number, userId: number): Promise<void>;
+  
+  // Incident methods
+  getIncident(id: number): Promise<Incident | undefined>;
+  getIncidentForChat(chatId: number): Promise<Incident | undefined>;
+  getIncidents(filter?: IncidentFilter): Promise<Incident[]>;
+  createIncident(incident: InsertIncident): Promise<Incident>;
+  updateIncident(id: number, updates: Partial<InsertIncident>): Promise<Incident | undefined>;
+  
+  // Decision tree methods
+  getDecisionTrees(): Promise<DecisionTree[]>;
+  getDecisionTree(id: number): Promise<DecisionTree | undefined>;
+  createDecisionTree(tree: InsertDecisionTree): Promise<DecisionTree>;
+  updateDecisionTree(id: number, updates: Partial<InsertDecisionTree>): Promise<DecisionTree | undefined>;
+  deleteDecisionTree(id: number): Promise<void>;
+  getActiveDecisionTreeRun(chatId: number): Promise<DecisionTreeRun | undefined>;
+  getDecisionTreeRunsForChat(chatId: number): Promise<DecisionTreeRun[]>;
+  createDecisionTreeRun(run: InsertDecisionTreeRun): Promise<DecisionTreeRun>;
+  updateDecisionTreeRun(id: number, updates: Partial<InsertDecisionTreeRun>): Promise<DecisionTreeRun | undefined>;
+  
+  // Maintenance contact methods
+  getMaintenanceContacts(): Promise<MaintenanceContact[]>; // 優先順位順
+  getMaintenanceContact(id: number): Promise<MaintenanceContact | undefined>;
+  createMaintenanceContact(contact: InsertMaintenanceContact): Promise<MaintenanceContact>;
+  updateMaintenanceContact(id: number, updates: Partial<InsertMaintenanceContact>): Promise<MaintenanceContact | undefined>;
+  deleteMaintenanceContact(id: number): Promise<void>;
+  
+  // Escalation methods
+  getEscalationsForChat(chatId: number): Promise<ChatEscalation[]>;
+  createEscalation(escalation: InsertChatEscalation): Promise<ChatEscalation>;
+  updateEscalation(id: number, updates: Partial<InsertChatEscalation>): Promise<ChatEscalation | undefined>;
   
   // Message methods
   getMessage(id: number): Promise<Message | undefined>;
@@ -52,8 +191,30 @@ export interface IStorage {
   searchDocumentsByKeyword(keyword: string): Promise<Document[]>;
   
   // Chat export methods
-  saveChatExport(chatId: number, userId: number, timestamp: Date): Promise<void>;
+  saveChatExport(chatId: number, userId: number, timestamp: Date, since?: Date | null): Promise<ChatExport>;
+  getChatExport(id: number): Promise<ChatExport | undefined>;
   getLastChatExport(chatId: number): Promise<ChatExport | null>;
+  
+  // Export destination methods
+  getExportDestinations(): Promise<ExportDestination[]>;
+  getExportDestination(id: number): Promise<ExportDestination | undefined>;
+  createExportDestination(destination: InsertExportDestination): Promise<ExportDestination>;
+  updateExportDestination(id: number, updates: Partial<InsertExportDestination>): Promise<ExportDestination | undefined>;
+  deleteExportDestination(id: number): Promise<void>; // 配信記録を残すため削除済みにするだけ
+  
+  // Export delivery methods
+  createExportDelivery(delivery: InsertExportDelivery): Promise<ExportDelivery>;
+  updateExportDelivery(id: number, updates: Partial<InsertExportDelivery>): Promise<ExportDelivery | undefined>;
+  getExportDeliveriesForExport(exportId: number): Promise<ExportDeliveryWithDestination[]>;
+  getDueExportDeliveries(now: Date): Promise<ExportDelivery[]>; // 再試行時刻を過ぎた pending の配信
+  getRecentExportDeliveries(limit: number): Promise<ExportDeliveryWithDestination[]>;
+  
+  // Glossary methods
+  getGlossaryTerms(): Promise<GlossaryTerm[]>;
+  getGlossaryTerm(id: number): Promise<GlossaryTerm | undefined>;
+  createGlossaryTerm(term: InsertGlossaryTerm): Promise<GlossaryTerm>;
+  updateGlossaryTerm(id: number, updates: Partial<InsertGlossaryTerm>): Promise<GlossaryTerm | undefined>;
+  deleteGlossaryTerm(id: number): Promise<void>;
 }
 
 export const storage = new DatabaseStorage();
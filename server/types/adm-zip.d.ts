@@ -0,0 +1,17 @@
+// adm-zip には型定義が同梱されていないため、使用している範囲だけ宣言する
+declare module 'adm-zip' {
+  interface IZipEntry {
+    entryName: string;
+    isDirectory: boolean;
+    getData(): Buffer;
+  }
+
+  class AdmZip {
+    constructor(fileNameOrData?: string | Buffer);
+    getEntries(): IZipEntry[];
+    addFile(entryName: string, content: Buffer, comment?: string): void;
+    toBuffer(): Buffer;
+  }
+
+  export = AdmZip;
+}
@@ -0,0 +1,38 @@
+import type { Permission } from "./permissions";
+
+// 個人用 API トークンのスコープ（スクリプトから呼び出せる API の範囲）
+// スコープで許可された API でも、トークンを発行したユーザーの役割の権限がなければ呼び出せない
+export const API_TOKEN_SCOPES = ['knowledge:read', 'knowledge:write', 'chats:read', 'chats:write', 'incidents:read'] as const;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+
+export const API_TOKEN_SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  'knowledge:read': '資料の参照',
+  'knowledge:write': '資料のアップロード・変更',
+  'chats:read': 'チャットの参照',
+  'chats:write': 'チャットへの投稿・変更',
+  'incidents:read': 'インシデントの参照',
+};
+
+// スコープを使うのに必要な役割の権限（画面で選べるスコープを絞り込む）
+export const API_TOKEN_SCOPE_PERMISSIONS: Partial<Record<ApiTokenScope, Permission>> = {
+  'knowledge:write': 'knowledge:manage',
+  'incidents:read': 'incidents:view_department',
+};
+
+// 有効期限の選択肢（日数）
+export const API_TOKEN_EXPIRY_DAYS = [7, 30, 90, 365] as const;
+
+/**
+ * API の呼び出しに必要なスコープを求める
+ * @param path /api からの相対パス（例: /knowledge/upload）
+ * @returns トークンでは呼び出せない API の場合は null
+ */
+export function requiredApiTokenScope(method: string, path: string): ApiTokenScope | null {
+  const read = method === 'GET' || method === 'HEAD';
+  const under = (prefix: string) => path === prefix || path.startsWith(`${prefix}/`);
+  if (under('/knowledge')) return read ? 'knowledge:read' : 'knowledge:write';
+  if (under('/tech-support')) return read ? 'knowledge:read' : 'knowledge:write';
+  if (under('/chats')) return read ? 'chats:read' : 'chats:write';
+  if (under('/incidents')) return read ? 'incidents:read' : null;
+  return null;
+}
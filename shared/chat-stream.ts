@@ -0,0 +1,121 @@
+import type { Message } from "./schema";
+
+// /ws を通してやり取りするメッセージの型
+// 接続はログインセッションで認証され、購読したチャットのメッセージだけが届く
+// 質問自体は POST /api/chats/:id/messages で送り、AI応答は要求元の接続にストリーミングされる
+
+// 回答の根拠として使った知識ベースのチャンク
+export interface ChatCitation {
+  source: string;
+  location?: string;
+}
+
+// 接続直後に送られる。clientId を POST の stream.clientId に指定すると、その接続に応答が流れる
+export interface StreamWelcomeMessage {
+  type: "system";
+  clientId: string;
+  content: string;
+}
+
+// ストリーミング開始
+export interface StreamStartMessage {
+  type: "start";
+  requestId: string;
+  chatId: number;
+}
+
+// 応答テキストの差分
+export interface StreamDeltaMessage {
+  type: "delta";
+  requestId: string;
+  content: string;
+}
+
+// 回答の根拠（生成前に1回送られる）
+export interface StreamCitationMessage {
+  type: "citation";
+  requestId: string;
+  citations: ChatCitation[];
+}
+
+// ストリーミング完了（保存されたAIメッセージを含む）
+export interface StreamDoneMessage {
+  type: "done";
+  requestId: string;
+  aiMessage: Message;
+}
+
+// ストリーミング失敗（エラー内容を保存した場合はそのAIメッセージを含む）
+export interface StreamErrorMessage {
+  type: "error";
+  requestId: string;
+  message: string;
+  aiMessage?: Message;
+}
+
+// チャットに接続中のユーザー
+export interface ChatPresenceUser {
+  userId: number;
+  displayName: string;
+}
+
+// チャットの購読開始（現在接続中のユーザー一覧を含む）
+export interface ChatSubscribedMessage {
+  type: "subscribed";
+  chatId: number;
+  members: ChatPresenceUser[];
+}
+
+// チャットの購読拒否
+export interface ChatDeniedMessage {
+  type: "denied";
+  chatId: number;
+  message: string;
+}
+
+// 接続中のユーザー一覧の変化
+export interface ChatPresenceMessage {
+  type: "presence";
+  chatId: number;
+  members: ChatPresenceUser[];
+}
+
+// 他のユーザーの入力中表示
+export interface ChatTypingMessage {
+  type: "typing";
+  chatId: number;
+  user: ChatPresenceUser;
+  isTyping: boolean;
+}
+
+// 他のユーザーが送信したメッセージ、またはそれに対するAI応答
+export interface ChatNewMessage {
+  type: "message";
+  chatId: number;
+  message: Message;
+}
+
+export type ChatStreamMessage =
+  | StreamWelcomeMessage
+  | StreamStartMessage
+  | StreamDeltaMessage
+  | StreamCitationMessage
+  | StreamDoneMessage
+  | StreamErrorMessage
+  | ChatSubscribedMessage
+  | ChatDeniedMessage
+  | ChatPresenceMessage
+  | ChatTypingMessage
+  | ChatNewMessage;
+
+// クライアント → サーバー
+export type ChatClientMessage =
+  | { type: "subscribe"; chatId: number }
+  | { type: "unsubscribe"; chatId: number }
+  | { type: "typing"; chatId: number; isTyping: boolean };
+
+// POST /api/chats/:id/messages でストリーミングを要求する場合の指定
+export interface ChatStreamRequest {
+  clientId: string;
+  requestId: string;
+}
@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { USER_ROLES, ROLE_LABELS, hasPermission, type UserRole } from "./permissions";
+
+// 知識ベースの資料の公開範囲（部署・役割のどちらかに該当するユーザーが閲覧できる、どちらも空なら全員）
+export interface DocumentVisibility {
+  departments: string[];
+  roles: UserRole[];
+}
+
+export const PUBLIC_VISIBILITY: DocumentVisibility = { departments: [], roles: [] };
+
+export const documentVisibilitySchema = z.object({
+  departments: z.array(z.string().trim().min(1)).default([]),
+  roles: z.array(z.enum(USER_ROLES)).default([]),
+});
+
+// 資料を閲覧するユーザー（ログインしていない場合は全員公開の資料だけを閲覧できる）
+export interface KnowledgeViewer {
+  role: string;
+  department?: string | null;
+}
+
+export function isPublicVisibility(visibility: DocumentVisibility | undefined): boolean {
+  return !visibility || (visibility.departments.length === 0 && visibility.roles.length === 0);
+}
+
+/**
+ * ユーザーが資料を閲覧できるか（資料を管理する権限があれば公開範囲に関係なく閲覧できる）
+ */
+export function canViewDocument(visibility: DocumentVisibility | undefined, viewer: KnowledgeViewer | undefined): boolean {
+  if (isPublicVisibility(visibility)) return true;
+  if (!viewer) return false;
+  if (hasPermission(viewer.role, 'knowledge:manage')) return true;
+  return (!!viewer.department && visibility!.departments.includes(viewer.department))
+    || visibility!.roles.includes(viewer.role as UserRole);
+}
+
+/**
+ * 公開範囲を画面表示用の文にする
+ */
+export function describeVisibility(visibility: DocumentVisibility | undefined): string {
+  if (!visibility || isPublicVisibility(visibility)) return '全員';
+  const parts: string[] = [];
+  if (visibility.departments.length > 0) parts.push(`部署: ${visibility.departments.join('、')}`);
+  if (visibility.roles.length > 0) parts.push(`役割: ${visibility.roles.map(role => ROLE_LABELS[role]).join('、')}`);
+  return parts.join(' / ');
+}
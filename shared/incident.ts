@@ -0,0 +1,16 @@
+import type { IncidentSeverity, IncidentStatus } from './schema';
+
+// インシデントの状態・重大度の表示名（画面と報告書で共通）
+export const INCIDENT_STATUS_LABELS: Record<IncidentStatus, string> = {
+  open: '未対応',
+  in_progress: '対応中',
+  resolved: '解決済み',
+  escalated: 'エスカレーション',
+};
+
+export const INCIDENT_SEVERITY_LABELS: Record<IncidentSeverity, string> = {
+  low: '低',
+  medium: '中',
+  high: '高',
+  critical: '緊急',
+};
@@ -0,0 +1,62 @@
+// パスワードポリシー（サーバーは環境変数で設定し、画面には GET /api/auth/password-policy で返す）
+export interface PasswordPolicy {
+  minLength: number;
+  requireLetter: boolean; // 英字を含む
+  requireDigit: boolean; // 数字を含む
+  requireMixedCase: boolean; // 英大文字と英小文字の両方を含む
+  requireSymbol: boolean; // 英数字以外の記号を含む
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireLetter: true,
+  requireDigit: true,
+  requireMixedCase: false,
+  requireSymbol: false,
+};
+
+let currentPolicy: PasswordPolicy = DEFAULT_PASSWORD_POLICY;
+
+export function getPasswordPolicy(): PasswordPolicy {
+  return currentPolicy;
+}
+
+export function setPasswordPolicy(policy: PasswordPolicy): void {
+  currentPolicy = policy;
+}
+
+/**
+ * パスワードがポリシーを満たしているか調べる
+ * @returns 満たしていない条件の説明（満たしていれば空配列）
+ */
+export function checkPasswordPolicy(password: string, policy: PasswordPolicy = currentPolicy): string[] {
+  const violations: string[] = [];
+  if (password.length < policy.minLength) {
+    violations.push(`${policy.minLength}文字以上にしてください`);
+  }
+  if (policy.requireLetter && !/[A-Za-z]/.test(password)) {
+    violations.push('英字を含めてください');
+  }
+  if (policy.requireDigit && !/[0-9]/.test(password)) {
+    violations.push('数字を含めてください');
+  }
+  if (policy.requireMixedCase && !(/[A-Z]/.test(password) && /[a-z]/.test(password))) {
+    violations.push('英大文字と英小文字を両方含めてください');
+  }
+  if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    violations.push('記号を含めてください');
+  }
+  return violations;
+}
+
+/**
+ * ポリシーの条件を画面表示用の文にする
+ */
+export function describePasswordPolicy(policy: PasswordPolicy): string {
+  const rules = [`${policy.minLength}文字以上`];
+  if (policy.requireLetter) rules.push('英字を含む');
+  if (policy.requireDigit) rules.push('数字を含む');
+  if (policy.requireMixedCase) rules.push('英大文字・小文字を含む');
+  if (policy.requireSymbol) rules.push('記号を含む');
+  return rules.join('、');
+}
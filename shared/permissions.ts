@@ -0,0 +1,56 @@
+// 役割ごとの権限（サーバーの requirePermission と画面の表示切り替えで共通に使う）
+export const USER_ROLES = ['employee', 'supervisor', 'knowledge_editor', 'admin'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  employee: '現場作業員',
+  supervisor: '監督者',
+  knowledge_editor: 'ナレッジ編集者',
+  admin: 'システム管理者',
+};
+
+export type Permission =
+  | 'incidents:view_department' // 自部署のユーザーのインシデントとチャットを閲覧する
+  | 'incidents:view_all' // すべてのインシデントを閲覧する
+  | 'chats:manage_all' // メンバーでなくてもすべてのチャットをオーナーとして操作する
+  | 'knowledge:manage' // 文書のアップロード・処理、知識ベースの管理
+  | 'glossary:manage'
+  | 'decision_trees:manage'
+  | 'vehicles:manage'
+  | 'maintenance_contacts:manage'
+  | 'export_destinations:manage'
+  | 'users:manage' // ユーザーの作成・編集・削除、パスワードリセット、ロック解除、強制ログアウト
+  | 'security:view' // ログイン履歴の閲覧
+  | 'audit:view'; // 監査ログの閲覧・CSV出力
+
+const KNOWLEDGE_PERMISSIONS: Permission[] = ['knowledge:manage', 'glossary:manage', 'decision_trees:manage'];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  employee: [],
+  supervisor: ['incidents:view_department'],
+  knowledge_editor: KNOWLEDGE_PERMISSIONS,
+  admin: [
+    'incidents:view_department',
+    'incidents:view_all',
+    'chats:manage_all',
+    ...KNOWLEDGE_PERMISSIONS,
+    'vehicles:manage',
+    'maintenance_contacts:manage',
+    'export_destinations:manage',
+    'users:manage',
+    'security:view',
+    'audit:view',
+  ],
+};
+
+/**
+ * 役割が権限を持っているか（未知の役割は権限なしとみなす）
+ */
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  const permissions = role ? ROLE_PERMISSIONS[role as UserRole] : undefined;
+  return !!permissions && permissions.includes(permission);
+}
+
+export function roleLabel(role: string): string {
+  return ROLE_LABELS[role as UserRole] ?? role;
+}
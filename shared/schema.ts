@@ -1,21 +1,224 @@
-import { pgTable, text, serial, integer, boolean, timestamp, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, date, jsonb, json, varchar, index, pgEnum, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
+import { checkPasswordPolicy } from "./password-policy";
+import { USER_ROLES } from "./permissions";
+import { API_TOKEN_SCOPES, type ApiTokenScope } from "./api-tokens";
 
-// User role enum
-export const userRoleEnum = pgEnum('user_role', ['employee', 'admin']);
+// User role enum（権限は shared/permissions.ts の ROLE_PERMISSIONS で決まる）
+export const userRoleEnum = pgEnum('user_role', USER_ROLES);
+
+// Chat member role enum（owner: 作成者・メンバー管理, participant: 発言可, observer: 閲覧のみ）
+export const chatMemberRoleEnum = pgEnum('chat_member_role', ['owner', 'participant', 'observer']);
+
+// Incident enums
+export const incidentStatusEnum = pgEnum('incident_status', ['open', 'in_progress', 'resolved', 'escalated']);
+export const incidentSeverityEnum = pgEnum('incident_severity', ['low', 'medium', 'high', 'critical']);
+
+// Decision tree run status enum
+export const decisionTreeRunStatusEnum = pgEnum('decision_tree_run_status', ['active', 'completed', 'abandoned']);
+
+// 判定ツリーの分岐（nextNodeId が null の分岐は終了）
+export const decisionTreeBranchSchema = z.object({
+  answer: z.string().min(1), // 下がる, 下がらない など
+  nextNodeId: z.string().nullable(),
+});
+
+// 判定ツリーのノード（branches が空のノードは終端）
+export const decisionTreeNodeSchema = z.object({
+  id: z.string().min(1),
+  instruction: z.string().min(1),
+  hazard: z.boolean().default(false),
+  imageUrl: z.string().nullable().default(null),
+  branches: z.array(decisionTreeBranchSchema).default([]),
+});
+
+export type DecisionTreeBranch = z.infer<typeof decisionTreeBranchSchema>;
+export type DecisionTreeNode = z.infer<typeof decisionTreeNodeSchema>;
+
+// 判定ツリーの実行経路の1ステップ
+export interface DecisionTreePathStep {
+  nodeId: string;
+  answer: string;
+}
+
+// メッセージに記録する判定ツリーのステップ
+// AI側: 表示したノードと選択肢, ユーザー側: 回答したノードと回答
+export const decisionTreeStepSchema = z.object({
+  treeId: z.number(),
+  runId: z.number(),
+  nodeId: z.string(),
+  answers: z.array(z.string()).optional(),
+  answer: z.string().optional(),
+});
+
+export type DecisionTreeStep = z.infer<typeof decisionTreeStepSchema>;
+
+// AI応答の根拠として参照した資料（報告書の参照資料欄に使う）
+export const messageCitationSchema = z.object({
+  source: z.string(),
+  location: z.string().optional(),
+});
+
+export type MessageCitation = z.infer<typeof messageCitationSchema>;
+
+// エスカレーション時に案内した連絡先（案内した時点の内容を残す）
+export const escalationContactSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  department: z.string(),
+  region: z.string().nullable(),
+  phone: z.string(),
+});
+
+export type EscalationContact = z.infer<typeof escalationContactSchema>;
+
+// Export destination enums
+export const exportDestinationTypeEnum = pgEnum('export_destination_type', ['webhook', 'folder', 'email']);
+// pending: パスワードの照合中（照合前に記録し、同時に送られた試行からも失敗として数える）
+export const loginAttemptResultEnum = pgEnum('login_attempt_result', ['success', 'invalid_credentials', 'throttled', 'locked', 'pending']);
+export const exportDeliveryStatusEnum = pgEnum('export_delivery_status', ['pending', 'delivered', 'failed']);
+
+// 履歴送信先ごとの設定（secret と password は一覧取得時に伏せる）
+export const webhookDestinationConfigSchema = z.object({
+  url: z.string().url(),
+  secret: z.string().min(16).optional(), // HMAC-SHA256 署名の鍵
+});
+
+export const folderDestinationConfigSchema = z.object({
+  path: z.string().regex(/^(\/|[A-Za-z]:\\|\\\\)/, '絶対パスを指定してください'),
+});
+
+export const emailDestinationConfigSchema = z.object({
+  host: z.string().min(1),
+  port: z.coerce.number().int().min(1).max(65535).default(587),
+  secure: z.boolean().default(false), // true: 接続時からTLS, false: STARTTLS が使えれば使う
+  username: z.string().optional(),
+  password: z.string().optional(),
+  allowInsecureAuth: z.boolean().default(false), // true: STARTTLS が使えなくても認証する（パスワードが平文で流れる）
+  from: z.string().email(),
+  to: z.array(z.string().email()).min(1),
+});
+
+export const exportDestinationConfigSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('webhook'), config: webhookDestinationConfigSchema }),
+  z.object({ type: z.literal('folder'), config: folderDestinationConfigSchema }),
+  z.object({ type: z.literal('email'), config: emailDestinationConfigSchema }),
+]);
+
+export type WebhookDestinationConfig = z.infer<typeof webhookDestinationConfigSchema>;
+export type FolderDestinationConfig = z.infer<typeof folderDestinationConfigSchema>;
+export type EmailDestinationConfig = z.infer<typeof emailDestinationConfigSchema>;
+export type ExportDestinationConfig = WebhookDestinationConfig | FolderDestinationConfig | EmailDestinationConfig;
 
 // Users table
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password").notNull(), // scrypt のハッシュ（移行前の平文の行は次回ログイン時にハッシュ化）
   displayName: text("display_name").notNull(),
   role: userRoleEnum("role").notNull().default('employee'),
   department: text("department"),
+  mustChangePassword: boolean("must_change_password").notNull().default(false), // 次回ログイン時に変更させる
+  passwordChangedAt: timestamp("password_changed_at"),
+  lockedUntil: timestamp("locked_until"), // ログイン失敗が続いたときの一時ロック
+  loginFailuresResetAt: timestamp("login_failures_reset_at"), // これより前のログイン失敗は数えない（ログイン成功・ロック・解除時に更新）
+  oidcSubject: text("oidc_subject").unique(), // SSO（OIDC）で作成・連携したユーザーの IdP 上の sub
+});
+
+// express-session のセッションテーブル（connect-pg-simple の形式、db:push で削除されないよう定義する）
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => ({
+  expireIdx: index("IDX_session_expire").on(table.expire),
+}));
+
+// ログイン中の端末（セッションの一覧表示・ログアウト用）
+export const loginSessions = pgTable("login_sessions", {
+  id: serial("id").primaryKey(),
+  sid: text("sid").notNull().unique(), // セッションID（画面には返さない）
+  userId: integer("user_id").references(() => users.id).notNull(),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").notNull().defaultNow(),
 });
 
+// 個人用 API トークン（スクリプトからの呼び出し用。トークンはハッシュだけを保存する）
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // トークンの SHA-256（画面には返さない）
+  tokenPrefix: text("token_prefix").notNull(), // 一覧でトークンを見分けるための先頭部分
+  scopes: jsonb("scopes").$type<ApiTokenScope[]>().notNull().default([]),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  userIdx: index("api_tokens_user_idx").on(table.userId),
+}));
+
+// ログイン試行の履歴（失敗回数の集計と管理者の確認用）
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  username: text("username").notNull(), // 入力されたユーザー名（存在しないユーザー名も記録する）
+  userId: integer("user_id").references(() => users.id),
+  ipAddress: text("ip_address"),
+  userAgent: text("user_agent"),
+  result: loginAttemptResultEnum("result").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  usernameIdx: index("login_attempts_username_idx").on(table.username, table.createdAt),
+  ipAddressIdx: index("login_attempts_ip_address_idx").on(table.ipAddress, table.createdAt),
+}));
+
+// 監査ログ（追記のみ。誰が・いつ・何に対して・何をしたかを記録する）
+export const AUDIT_ACTIONS = [
+  'user.create',
+  'user.update',
+  'user.delete',
+  'user.reset_password',
+  'user.unlock',
+  'user.force_logout',
+  'user.sso_provision', // SSO の初回ログインでのユーザー作成・既存ユーザーとの連携
+  'api_token.create',
+  'api_token.revoke',
+  'knowledge.upload',
+  'knowledge.delete',
+  'knowledge.reprocess',
+  'knowledge.update_models', // 対象型式の変更
+  'knowledge.update_visibility', // 公開範囲の変更
+  'chat.clear',
+  'chat.export',
+  'tech_support.upload', // 技術支援資料・画像検索用画像のアップロード
+  'tech_support.init_image_search_data', // 画像検索データの初期化（上書き）
+] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  // 行を書き換えずにユーザーを削除できるよう外部キーにはしない（削除後は存在しないIDのまま残る）
+  actorId: integer("actor_id"),
+  actorUsername: text("actor_username"), // ユーザーが削除された後も操作者が分かるように残す
+  action: text("action").$type<AuditAction>().notNull(),
+  targetType: text("target_type"),
+  targetId: text("target_id"),
+  // 操作前後の要約（パスワードなどの秘密情報は含めない）
+  before: jsonb("before").$type<Record<string, unknown>>(),
+  after: jsonb("after").$type<Record<string, unknown>>(),
+  ipAddress: text("ip_address"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  createdAtIdx: index("audit_events_created_at_idx").on(table.createdAt),
+  actorIdx: index("audit_events_actor_idx").on(table.actorId, table.createdAt),
+  actionIdx: index("audit_events_action_idx").on(table.action, table.createdAt),
+}));
+
 // Messages table
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
@@ -24,6 +227,8 @@ export const messages = pgTable("messages", {
   isAiResponse: boolean("is_ai_response").notNull().default(false),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
   chatId: integer("chat_id").references(() => chats.id),
+  treeStep: jsonb("tree_step").$type<DecisionTreeStep>(), // 判定ツリーで進めた場合のステップ
+  citations: jsonb("citations").$type<MessageCitation[]>(), // AI応答の参照資料
 });
 
 // Media attachments table
@@ -35,11 +240,113 @@ export const media = pgTable("media", {
   thumbnail: text("thumbnail"),
 });
 
+// 車両型式テーブル（例: 堀川工機 300型）
+export const vehicleModels = pgTable("vehicle_models", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(), // 600型, 400型, 300型, 200型 など
+  maker: text("maker").notNull(), // 堀川工機, 松山重車両 など
+  engineType: text("engine_type"), // 機械式, 電子噴射式 など
+  description: text("description"),
+}, (table) => ({
+  nameMakerUnique: unique().on(table.name, table.maker),
+}));
+
+// 車両テーブル（個々の保守用車）
+export const vehicles = pgTable("vehicles", {
+  id: serial("id").primaryKey(),
+  number: text("number").notNull().unique(), // 車両番号
+  modelId: integer("model_id").references(() => vehicleModels.id).notNull(),
+  engineType: text("engine_type"), // 型式の標準と異なる場合のみ
+  inServiceDate: date("in_service_date", { mode: 'string' }),
+  notes: text("notes"),
+});
+
 // Chats table
 export const chats = pgTable("chats", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   userId: integer("user_id").references(() => users.id),
+  vehicleId: integer("vehicle_id").references(() => vehicles.id), // 対応中の車両（検索を型式の資料に絞る）
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// チャットメンバーテーブル（複数人で同じ復旧チャットに参加する）
+export const chatMembers = pgTable("chat_members", {
+  id: serial("id").primaryKey(),
+  chatId: integer("chat_id").references(() => chats.id).notNull(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  role: chatMemberRoleEnum("role").notNull().default('participant'),
+  addedAt: timestamp("added_at").notNull().defaultNow(),
+}, (table) => ({
+  chatUserUnique: unique().on(table.chatId, table.userId),
+}));
+
+// インシデント記録テーブル（復旧チャット1件につき1件）
+export const incidents = pgTable("incidents", {
+  id: serial("id").primaryKey(),
+  chatId: integer("chat_id").references(() => chats.id).notNull().unique(),
+  vehicle: text("vehicle"), // 車種・車両番号
+  location: text("location"), // 線区・キロ程など
+  symptomCategory: text("symptom_category"), // エンジン, ブレーキ, 油圧 など
+  severity: incidentSeverityEnum("severity").notNull().default('medium'),
+  status: incidentStatusEnum("status").notNull().default('open'),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  endedAt: timestamp("ended_at"),
+  resolutionSummary: text("resolution_summary"),
+  createdBy: integer("created_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// 判定ツリーテーブル（管理者が作成する決まった手順の故障診断）
+export const decisionTrees = pgTable("decision_trees", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull(),
+  description: text("description"),
+  triggerKeywords: text("trigger_keywords").array().notNull().default([]), // 質問に含まれると開始する語句
+  vehicleModelId: integer("vehicle_model_id").references(() => vehicleModels.id), // 未設定は全型式共通
+  rootNodeId: text("root_node_id").notNull(),
+  nodes: jsonb("nodes").$type<DecisionTreeNode[]>().notNull().default([]),
+  isActive: boolean("is_active").notNull().default(true),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// 判定ツリーの実行記録（チャットごと）
+export const decisionTreeRuns = pgTable("decision_tree_runs", {
+  id: serial("id").primaryKey(),
+  chatId: integer("chat_id").references(() => chats.id).notNull(),
+  treeId: integer("tree_id").references(() => decisionTrees.id).notNull(),
+  currentNodeId: text("current_node_id"), // 終了後は null
+  path: jsonb("path").$type<DecisionTreePathStep[]>().notNull().default([]),
+  status: decisionTreeRunStatusEnum("status").notNull().default('active'),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// 保守担当者の連絡先テーブル（エスカレーション時に当番の連絡先を案内する）
+export const maintenanceContacts = pgTable("maintenance_contacts", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  department: text("department").notNull(), // 機械課, 保線区 など
+  region: text("region"), // 担当地域（未設定は全地域）
+  shiftStart: text("shift_start"), // 当番の開始時刻 HH:MM（未設定は終日）
+  shiftEnd: text("shift_end"), // 当番の終了時刻 HH:MM（開始より前なら翌日の時刻）
+  phone: text("phone").notNull(),
+  email: text("email"), // エスカレーションの通知先
+  priority: integer("priority").notNull().default(1), // 小さいほど先に連絡する
+  isActive: boolean("is_active").notNull().default(true),
+  notes: text("notes"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// エスカレーション記録テーブル（AI応答が保守担当者への連絡を求めたとき）
+export const chatEscalations = pgTable("chat_escalations", {
+  id: serial("id").primaryKey(),
+  chatId: integer("chat_id").references(() => chats.id).notNull(),
+  messageId: integer("message_id").references(() => messages.id), // 履歴クリア後は null
+  reason: text("reason").notNull(),
+  contacts: jsonb("contacts").$type<EscalationContact[]>().notNull().default([]),
+  notifiedAt: timestamp("notified_at"),
+  notificationError: text("notification_error"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -69,14 +376,100 @@ export const chatExports = pgTable("chat_exports", {
   chatId: integer("chat_id").references(() => chats.id).notNull(),
   userId: integer("user_id").references(() => users.id).notNull(),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
+  since: timestamp("since"), // 対象期間の開始（前回の履歴送信時刻）
+});
+
+// 履歴送信先テーブル（管理者が設定し、履歴送信のたびに有効な送信先すべてへ配信する）
+export const exportDestinations = pgTable("export_destinations", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  type: exportDestinationTypeEnum("type").notNull(),
+  config: jsonb("config").$type<ExportDestinationConfig>().notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  deletedAt: timestamp("deleted_at"), // 削除済み（配信記録を残すため行は消さない）
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// 履歴送信の配信記録（送信先ごと、再試行のたびに更新）
+export const exportDeliveries = pgTable("export_deliveries", {
+  id: serial("id").primaryKey(),
+  exportId: integer("export_id").references(() => chatExports.id).notNull(),
+  destinationId: integer("destination_id").references(() => exportDestinations.id).notNull(),
+  status: exportDeliveryStatusEnum("status").notNull().default('pending'),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at"), // 再試行予定（pending のみ）
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// 用語辞書テーブル（検索語の展開とシステムプロンプトのヒントに使用）
+export const glossaryTerms = pgTable("glossary_terms", {
+  id: serial("id").primaryKey(),
+  term: text("term").notNull().unique(),
+  category: text("category"), // 油圧, 制動, 走行装置 など
+  synonyms: text("synonyms").array().notNull().default([]),
+  readings: text("readings").array().notNull().default([]), // かな・漢字の表記ゆれ
+  boost: integer("boost").notNull().default(1),
+  promptHint: text("prompt_hint"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// 設定中のパスワードポリシーを満たすパスワード
+export const passwordSchema = z.string().superRefine((value, ctx) => {
+  for (const violation of checkPasswordPolicy(value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `パスワードは${violation}` });
+  }
 });
 
 // Schema validation
-export const insertUserSchema = createInsertSchema(users).omit({
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.min(1),
+  displayName: (schema) => schema.min(1),
+  password: passwordSchema,
+}).omit({
+  id: true,
+  passwordChangedAt: true,
+  lockedUntil: true,
+  loginFailuresResetAt: true,
+  oidcSubject: true,
+});
+
+export const insertLoginSessionSchema = createInsertSchema(loginSessions).omit({
+  id: true,
+  createdAt: true,
+  lastSeenAt: true,
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens, {
+  name: (schema) => schema.min(1).max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1),
+}).omit({
+  id: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  createdAt: true,
+});
+
+export const insertLoginAttemptSchema = createInsertSchema(loginAttempts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents, {
+  action: z.enum(AUDIT_ACTIONS),
+  before: z.record(z.unknown()).nullable().optional(),
+  after: z.record(z.unknown()).nullable().optional(),
+}).omit({
   id: true,
+  createdAt: true,
 });
 
-export const insertMessageSchema = createInsertSchema(messages).omit({
+export const insertMessageSchema = createInsertSchema(messages, {
+  treeStep: decisionTreeStepSchema.nullable().optional(),
+  citations: z.array(messageCitationSchema).nullable().optional(),
+}).omit({
   id: true,
   timestamp: true,
 });
@@ -90,6 +483,71 @@ export const insertChatSchema = createInsertSchema(chats).omit({
   createdAt: true,
 });
 
+export const insertVehicleModelSchema = createInsertSchema(vehicleModels, {
+  name: (schema) => schema.min(1),
+  maker: (schema) => schema.min(1),
+}).omit({
+  id: true,
+});
+
+export const insertVehicleSchema = createInsertSchema(vehicles, {
+  number: (schema) => schema.min(1),
+}).omit({
+  id: true,
+});
+
+export const insertChatMemberSchema = createInsertSchema(chatMembers).omit({
+  id: true,
+  addedAt: true,
+});
+
+export const insertIncidentSchema = createInsertSchema(incidents, {
+  startedAt: z.coerce.date(),
+  endedAt: z.coerce.date().nullable(),
+}).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertDecisionTreeSchema = createInsertSchema(decisionTrees, {
+  title: (schema) => schema.min(1),
+  rootNodeId: (schema) => schema.min(1),
+  nodes: z.array(decisionTreeNodeSchema).min(1),
+}).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertDecisionTreeRunSchema = createInsertSchema(decisionTreeRuns, {
+  path: z.array(z.object({ nodeId: z.string(), answer: z.string() })),
+}).omit({
+  id: true,
+  startedAt: true,
+  updatedAt: true,
+});
+
+// 時刻は 00:00〜23:59 の HH:MM
+const shiftTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'HH:MM 形式で入力してください');
+
+export const insertMaintenanceContactSchema = createInsertSchema(maintenanceContacts, {
+  name: (schema) => schema.min(1),
+  department: (schema) => schema.min(1),
+  phone: (schema) => schema.regex(/^\+?[0-9][0-9\-() ]{1,20}$/, '電話番号を入力してください'),
+  email: z.string().email().nullable().optional(),
+  shiftStart: shiftTimeSchema.nullable().optional(),
+  shiftEnd: shiftTimeSchema.nullable().optional(),
+}).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertChatEscalationSchema = createInsertSchema(chatEscalations, {
+  contacts: z.array(escalationContactSchema),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertDocumentSchema = createInsertSchema(documents).omit({
   id: true,
   processedAt: true,
@@ -104,10 +562,48 @@ export const insertChatExportSchema = createInsertSchema(chatExports).omit({
   timestamp: true,
 });
 
+// type と config の組み合わせは exportDestinationConfigSchema で検証する
+export const insertExportDestinationSchema = createInsertSchema(exportDestinations, {
+  name: (schema) => schema.min(1),
+}).omit({
+  id: true,
+  type: true,
+  config: true,
+  deletedAt: true,
+  createdAt: true,
+  updatedAt: true,
+}).and(exportDestinationConfigSchema);
+
+export const insertExportDeliverySchema = createInsertSchema(exportDeliveries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGlossaryTermSchema = createInsertSchema(glossaryTerms, {
+  term: (schema) => schema.min(1),
+  boost: (schema) => schema.min(0).max(10),
+}).omit({
+  id: true,
+  updatedAt: true,
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type LoginSession = typeof loginSessions.$inferSelect;
+export type InsertLoginSession = z.infer<typeof insertLoginSessionSchema>;
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type InsertLoginAttempt = z.infer<typeof insertLoginAttemptSchema>;
+export type LoginAttemptResult = LoginAttempt['result'];
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 
@@ -117,6 +613,33 @@ export type InsertMedia = z.infer<typeof insertMediaSchema>;
 export type Chat = typeof chats.$inferSelect;
 export type InsertChat = z.infer<typeof insertChatSchema>;
 
+export type VehicleModel = typeof vehicleModels.$inferSelect;
+export type InsertVehicleModel = z.infer<typeof insertVehicleModelSchema>;
+
+export type Vehicle = typeof vehicles.$inferSelect;
+export type InsertVehicle = z.infer<typeof insertVehicleSchema>;
+
+export type ChatMember = typeof chatMembers.$inferSelect;
+export type InsertChatMember = z.infer<typeof insertChatMemberSchema>;
+export type ChatMemberRole = ChatMember['role'];
+
+export type Incident = typeof incidents.$inferSelect;
+export type InsertIncident = z.infer<typeof insertIncidentSchema>;
+export type IncidentStatus = Incident['status'];
+export type IncidentSeverity = Incident['severity'];
+
+export type DecisionTree = typeof decisionTrees.$inferSelect;
+export type InsertDecisionTree = z.infer<typeof insertDecisionTreeSchema>;
+
+export type DecisionTreeRun = typeof decisionTreeRuns.$inferSelect;
+export type InsertDecisionTreeRun = z.infer<typeof insertDecisionTreeRunSchema>;
+
+export type MaintenanceContact = typeof maintenanceContacts.$inferSelect;
+export type InsertMaintenanceContact = z.infer<typeof insertMaintenanceContactSchema>;
+
+export type ChatEscalation = typeof chatEscalations.$inferSelect;
+export type InsertChatEscalation = z.infer<typeof insertChatEscalationSchema>;
+
 export type Document = typeof documents.$inferSelect;
 export type InsertDocument = z.infer<typeof insertDocumentSchema>;
 
@@ -126,6 +649,17 @@ export type InsertKeyword = z.infer<typeof insertKeywordSchema>;
 export type ChatExport = typeof chatExports.$inferSelect;
 export type InsertChatExport = z.infer<typeof insertChatExportSchema>;
 
+export type ExportDestination = typeof exportDestinations.$inferSelect;
+export type InsertExportDestination = z.infer<typeof insertExportDestinationSchema>;
+export type ExportDestinationType = ExportDestination['type'];
+
+export type ExportDelivery = typeof exportDeliveries.$inferSelect;
+export type InsertExportDelivery = z.infer<typeof insertExportDeliverySchema>;
+export type ExportDeliveryStatus = ExportDelivery['status'];
+
+export type GlossaryTerm = typeof glossaryTerms.$inferSelect;
+export type InsertGlossaryTerm = z.infer<typeof insertGlossaryTermSchema>;
+
 // Auth types
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
@@ -134,10 +668,64 @@ export const usersRelations = relations(users, ({ many }) => ({
   documents: many(documents),
 }));
 
+export const loginSessionsRelations = relations(loginSessions, ({ one }) => ({
+  user: one(users, { fields: [loginSessions.userId], references: [users.id] }),
+}));
+
+export const apiTokensRelations = relations(apiTokens, ({ one }) => ({
+  user: one(users, { fields: [apiTokens.userId], references: [users.id] }),
+}));
+
+export const loginAttemptsRelations = relations(loginAttempts, ({ one }) => ({
+  user: one(users, { fields: [loginAttempts.userId], references: [users.id] }),
+}));
+
+export const auditEventsRelations = relations(auditEvents, ({ one }) => ({
+  actor: one(users, { fields: [auditEvents.actorId], references: [users.id] }),
+}));
+
 export const chatsRelations = relations(chats, ({ one, many }) => ({
   user: one(users, { fields: [chats.userId], references: [users.id] }),
+  vehicle: one(vehicles, { fields: [chats.vehicleId], references: [vehicles.id] }),
   messages: many(messages),
   exports: many(chatExports),
+  members: many(chatMembers),
+  incident: one(incidents),
+  escalations: many(chatEscalations),
+}));
+
+export const vehicleModelsRelations = relations(vehicleModels, ({ many }) => ({
+  vehicles: many(vehicles),
+}));
+
+export const vehiclesRelations = relations(vehicles, ({ one, many }) => ({
+  model: one(vehicleModels, { fields: [vehicles.modelId], references: [vehicleModels.id] }),
+  chats: many(chats),
+}));
+
+export const chatMembersRelations = relations(chatMembers, ({ one }) => ({
+  chat: one(chats, { fields: [chatMembers.chatId], references: [chats.id] }),
+  user: one(users, { fields: [chatMembers.userId], references: [users.id] }),
+}));
+
+export const incidentsRelations = relations(incidents, ({ one }) => ({
+  chat: one(chats, { fields: [incidents.chatId], references: [chats.id] }),
+  creator: one(users, { fields: [incidents.createdBy], references: [users.id] }),
+}));
+
+export const decisionTreesRelations = relations(decisionTrees, ({ one, many }) => ({
+  vehicleModel: one(vehicleModels, { fields: [decisionTrees.vehicleModelId], references: [vehicleModels.id] }),
+  runs: many(decisionTreeRuns),
+}));
+
+export const decisionTreeRunsRelations = relations(decisionTreeRuns, ({ one }) => ({
+  chat: one(chats, { fields: [decisionTreeRuns.chatId], references: [chats.id] }),
+  tree: one(decisionTrees, { fields: [decisionTreeRuns.treeId], references: [decisionTrees.id] }),
+}));
+
+export const chatEscalationsRelations = relations(chatEscalations, ({ one }) => ({
+  chat: one(chats, { fields: [chatEscalations.chatId], references: [chats.id] }),
+  message: one(messages, { fields: [chatEscalations.messageId], references: [messages.id] }),
 }));
 
 export const messagesRelations = relations(messages, ({ one, many }) => ({
@@ -159,9 +747,19 @@ export const keywordsRelations = relations(keywords, ({ one }) => ({
   document: one(documents, { fields: [keywords.documentId], references: [documents.id] }),
 }));
 
-export const chatExportsRelations = relations(chatExports, ({ one }) => ({
+export const chatExportsRelations = relations(chatExports, ({ one, many }) => ({
   chat: one(chats, { fields: [chatExports.chatId], references: [chats.id] }),
   user: one(users, { fields: [chatExports.userId], references: [users.id] }),
+  deliveries: many(exportDeliveries),
+}));
+
+export const exportDestinationsRelations = relations(exportDestinations, ({ many }) => ({
+  deliveries: many(exportDeliveries),
+}));
+
+export const exportDeliveriesRelations = relations(exportDeliveries, ({ one }) => ({
+  export: one(chatExports, { fields: [exportDeliveries.exportId], references: [chatExports.id] }),
+  destination: one(exportDestinations, { fields: [exportDeliveries.destinationId], references: [exportDestinations.id] }),
 }));
 
 export const loginSchema = z.object({